@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ScheduledPost" ADD COLUMN     "threadTweetIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
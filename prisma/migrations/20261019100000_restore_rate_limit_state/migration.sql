@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "RateLimitState" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "postsLimit" INTEGER,
+    "postsRemaining" INTEGER NOT NULL DEFAULT 50,
+    "windowResetAt" TIMESTAMP(3),
+    "lastPostAt" TIMESTAMP(3),
+    "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+    "circuitOpenUntil" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RateLimitState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RateLimitState_platform_key" ON "RateLimitState"("platform");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SocialConnection" ADD COLUMN     "authType" TEXT NOT NULL DEFAULT 'oauth1';
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "DeadLetterJob" (
+    "id" TEXT NOT NULL,
+    "queueName" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "jobName" TEXT NOT NULL,
+    "scheduledPostId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "attemptHistory" JSONB NOT NULL,
+    "attemptsMade" INTEGER NOT NULL,
+    "errorCode" TEXT NOT NULL,
+    "errorMessage" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DEAD',
+    "failedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "DeadLetterJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeadLetterJob_status_errorCode_idx" ON "DeadLetterJob"("status", "errorCode");
+
+-- CreateIndex
+CREATE INDEX "DeadLetterJob_status_userId_idx" ON "DeadLetterJob"("status", "userId");
+
+-- CreateIndex
+CREATE INDEX "DeadLetterJob_scheduledPostId_idx" ON "DeadLetterJob"("scheduledPostId");
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "PostRecurrence" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "rule" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3),
+    "maxOccurrences" INTEGER,
+    "minGapHours" INTEGER NOT NULL DEFAULT 24,
+    "variants" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PostRecurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "ScheduledPost" ADD COLUMN     "recurrenceId" TEXT,
+ADD COLUMN     "occurrence" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "PostRecurrence_isActive_idx" ON "PostRecurrence"("isActive");
+
+-- CreateIndex
+CREATE INDEX "PostRecurrence_userId_idx" ON "PostRecurrence"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScheduledPost_recurrenceId_occurrence_key" ON "ScheduledPost"("recurrenceId", "occurrence");
+
+-- AddForeignKey
+ALTER TABLE "PostRecurrence" ADD CONSTRAINT "PostRecurrence_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostRecurrence" ADD CONSTRAINT "PostRecurrence_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "GeneratedContent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledPost" ADD CONSTRAINT "ScheduledPost_recurrenceId_fkey" FOREIGN KEY ("recurrenceId") REFERENCES "PostRecurrence"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "UserPreferences" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN     "quietHoursStart" TEXT,
+ADD COLUMN     "quietHoursEnd" TEXT,
+ADD COLUMN     "postingDays" INTEGER[] DEFAULT ARRAY[0, 1, 2, 3, 4, 5, 6]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "ScheduledPost" ADD COLUMN     "rescheduledFrom" TIMESTAMP(3),
+ADD COLUMN     "rescheduleReason" TEXT;
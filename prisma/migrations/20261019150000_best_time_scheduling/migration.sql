@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "ScheduledPost" ADD COLUMN     "scheduleMode" TEXT NOT NULL DEFAULT 'fixed',
+ADD COLUMN     "slotAssignedAt" TIMESTAMP(3),
+ADD COLUMN     "engagementScore" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "ScheduledPost_status_scheduleMode_idx" ON "ScheduledPost"("status", "scheduleMode");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "PublishIntent" (
+    "id" TEXT NOT NULL,
+    "scheduledPostId" TEXT NOT NULL,
+    "part" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "platformPostId" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "confirmedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PublishIntent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PublishIntent_scheduledPostId_part_key" ON "PublishIntent"("scheduledPostId", "part");
+
+-- AddForeignKey
+ALTER TABLE "PublishIntent" ADD CONSTRAINT "PublishIntent_scheduledPostId_fkey" FOREIGN KEY ("scheduledPostId") REFERENCES "ScheduledPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- Tell the scheduler (LISTEN scheduled_post_ready) about posts that may be ready to queue.
+-- Posts more than an hour out are left to the scheduler's periodic sweep.
+CREATE OR REPLACE FUNCTION notify_scheduled_post_ready() RETURNS trigger AS $$
+BEGIN
+    IF NEW."scheduledFor" <= now() + interval '1 hour' THEN
+        PERFORM pg_notify('scheduled_post_ready', NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- CreateTrigger
+CREATE TRIGGER "ScheduledPost_notify_insert"
+    AFTER INSERT ON "ScheduledPost"
+    FOR EACH ROW
+    WHEN (NEW.status = 'PENDING')
+    EXECUTE FUNCTION notify_scheduled_post_ready();
+
+-- CreateTrigger
+CREATE TRIGGER "ScheduledPost_notify_update"
+    AFTER UPDATE OF status, "scheduledFor", "slotAssignedAt" ON "ScheduledPost"
+    FOR EACH ROW
+    WHEN (
+        NEW.status = 'PENDING'
+        AND (
+            OLD.status IS DISTINCT FROM NEW.status
+            OR OLD."scheduledFor" IS DISTINCT FROM NEW."scheduledFor"
+            OR OLD."slotAssignedAt" IS DISTINCT FROM NEW."slotAssignedAt"
+        )
+    )
+    EXECUTE FUNCTION notify_scheduled_post_ready();
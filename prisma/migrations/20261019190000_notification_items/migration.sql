@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "NotificationItem" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "scheduledPostId" TEXT,
+    "platform" TEXT,
+    "preview" TEXT,
+    "errorCode" TEXT,
+    "errorMessage" TEXT,
+    "postUrl" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMP(3),
+
+    CONSTRAINT "NotificationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotificationItem_userId_status_idx" ON "NotificationItem"("userId", "status");
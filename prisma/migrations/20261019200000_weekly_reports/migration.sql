@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "WeeklyReport" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "timeZone" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WeeklyReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WeeklyReport_userId_periodStart_key" ON "WeeklyReport"("userId", "periodStart");
+
+-- CreateIndex
+CREATE INDEX "WeeklyReport_userId_createdAt_idx" ON "WeeklyReport"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "WeeklyReport" ADD CONSTRAINT "WeeklyReport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
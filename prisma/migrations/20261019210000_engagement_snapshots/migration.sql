@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "ScheduledPost" ADD COLUMN "metricsNextAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "EngagementSnapshot" (
+    "id" TEXT NOT NULL,
+    "scheduledPostId" TEXT NOT NULL,
+    "platformPostId" TEXT NOT NULL,
+    "likes" INTEGER NOT NULL DEFAULT 0,
+    "reposts" INTEGER NOT NULL DEFAULT 0,
+    "replies" INTEGER NOT NULL DEFAULT 0,
+    "quotes" INTEGER NOT NULL DEFAULT 0,
+    "bookmarks" INTEGER NOT NULL DEFAULT 0,
+    "impressions" INTEGER,
+    "collectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EngagementSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduledPost_status_platform_metricsNextAt_idx" ON "ScheduledPost"("status", "platform", "metricsNextAt");
+
+-- CreateIndex
+CREATE INDEX "EngagementSnapshot_scheduledPostId_collectedAt_idx" ON "EngagementSnapshot"("scheduledPostId", "collectedAt");
+
+-- AddForeignKey
+ALTER TABLE "EngagementSnapshot" ADD CONSTRAINT "EngagementSnapshot_scheduledPostId_fkey" FOREIGN KEY ("scheduledPostId") REFERENCES "ScheduledPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Collect engagement for tweets published in the last 30 days
+UPDATE "ScheduledPost" SET "metricsNextAt" = CURRENT_TIMESTAMP
+WHERE "status" = 'POSTED' AND "platform" = 'twitter' AND "platformPostId" IS NOT NULL
+  AND "completedAt" > CURRENT_TIMESTAMP - INTERVAL '30 days';
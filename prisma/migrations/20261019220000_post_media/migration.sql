@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ScheduledPost" ADD COLUMN "mediaUrls" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN "mediaPolicy" TEXT NOT NULL DEFAULT 'required',
+ADD COLUMN "mediaBlobKeys" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -1,5 +1,6 @@
 import 'dotenv/config';
 import { prisma } from '../src/lib/db.js';
+import { encryptConnectionTokens } from '../src/lib/connections.js';
 import loadReadline from 'readline';
 
 const readline = loadReadline.createInterface({
@@ -47,6 +48,11 @@ async function main() {
         }
         console.log('✅ TWITTER_API_KEY and TWITTER_API_SECRET found in .env');
 
+        if (!process.env.TOKEN_ENCRYPTION_KEYS) {
+            console.error('\n❌ TOKEN_ENCRYPTION_KEYS must be set in .env (generate a key with: openssl rand -base64 32)');
+            process.exit(1);
+        }
+
         const username = 'test-user-' + Date.now();
         const email = `test-${Date.now()}@example.com`;
 
@@ -67,13 +73,15 @@ async function main() {
             data: {
                 userId: user.id,
                 platform: 'twitter',
-                accessToken: accessToken.trim(),
-                refreshToken: accessSecret.trim(), // OAuth 1.0a access token secret
+                ...encryptConnectionTokens({
+                    accessToken: accessToken.trim(),
+                    refreshToken: accessSecret.trim(), // OAuth 1.0a access token secret
+                }),
                 isActive: true,
                 username: 'twitter_test_user',
             },
         });
-        console.log('✅ Created SocialConnection (Twitter / OAuth 1.0a)');
+        console.log('✅ Created SocialConnection (Twitter / OAuth 1.0a, tokens encrypted)');
 
         // 4. Create Prerequisite Data (Achievement & Content)
         const achievement = await prisma.achievement.create({
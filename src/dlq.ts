@@ -0,0 +1,82 @@
+import 'dotenv/config'
+import { parseArgs } from 'node:util'
+import { prisma } from './lib/db.js'
+import { logger } from './lib/logger.js'
+import { createTwitterQueue, createLinkedInQueue } from './lib/queue.js'
+import { listDeadLetters, countDeadLetters, replayDeadLetters, discardDeadLetters } from './lib/dead-letter.js'
+import type { DeadLetterFilter } from './lib/dead-letter.js'
+
+/**
+ * Inspect and act on the dead-letter queue.
+ *
+ * Usage:
+ *   node dist/dlq.js list    [--error-code CODE] [--user ID] [--platform twitter|linkedin] [--limit 50]
+ *   node dist/dlq.js replay  [filters] [--id ID,ID] [--dry-run]   # reset posts to PENDING for the scheduler
+ *   node dist/dlq.js discard [filters] [--id ID,ID] [--dry-run]   # posts stay FAILED
+ *
+ * replay and discard require at least one filter or --id.
+ */
+async function dlq() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'error-code': { type: 'string' },
+      user: { type: 'string' },
+      platform: { type: 'string' },
+      id: { type: 'string' },
+      limit: { type: 'string', default: '50' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  })
+
+  const command = positionals[0] ?? 'list'
+  const dryRun = values['dry-run']
+  const filter: DeadLetterFilter = {
+    ids: values.id?.split(','),
+    errorCode: values['error-code'],
+    userId: values.user,
+    platform: values.platform,
+  }
+
+  const queues = [createTwitterQueue(), createLinkedInQueue()]
+
+  try {
+    if (command === 'list') {
+      const [entries, counts] = await Promise.all([
+        listDeadLetters(filter, { limit: parseInt(values.limit) }),
+        countDeadLetters(filter),
+      ])
+
+      console.log('\n--- DEAD-LETTER QUEUE ---')
+      for (const [code, count] of Object.entries(counts)) {
+        console.log(`${code}: ${count}`)
+      }
+      console.log('-------------------------')
+      for (const entry of entries) {
+        console.log(
+          `${entry.id}  ${entry.failedAt.toISOString()}  ${entry.platform}  post=${entry.scheduledPostId}  ` +
+            `user=${entry.userId}  attempts=${entry.attemptsMade}  ${entry.errorCode}: ${entry.errorMessage}`
+        )
+      }
+      console.log('')
+    } else if (command === 'replay') {
+      const stats = await replayDeadLetters(queues, filter, { dryRun })
+      console.log(`\n${dryRun ? 'Would replay' : 'Replayed'}: ${stats.replayed}`)
+      console.log(`Skipped (post no longer FAILED): ${stats.skipped}\n`)
+    } else if (command === 'discard') {
+      const stats = await discardDeadLetters(filter, { dryRun })
+      console.log(`\n${dryRun ? 'Would discard' : 'Discarded'}: ${stats.discarded}\n`)
+    } else {
+      console.error(`Unknown command "${command}". Use list, replay or discard.`)
+      process.exitCode = 1
+    }
+  } catch (err: any) {
+    logger.error({ err }, '❌ Dead-letter command failed')
+    process.exitCode = 1
+  } finally {
+    await Promise.all(queues.map((queue) => queue.close()))
+    await prisma.$disconnect()
+  }
+}
+
+dlq()
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createAdminRouter, ADMIN_REMOVED_ERROR_CODE } from './admin.js';
+import { prisma } from './db.js';
+
+vi.mock('./db.js', () => ({
+    prisma: {
+        scheduledPost: {
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+            update: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        deadLetterJob: {
+            updateMany: vi.fn(),
+        },
+    },
+}));
+
+function createFakeJob(id: string, state: string, extra: object = {}) {
+    return {
+        id,
+        name: 'post-tweet',
+        data: { scheduledPostId: `post-${id}` },
+        attemptsMade: 1,
+        timestamp: 1700000000000,
+        delay: 0,
+        getState: vi.fn().mockResolvedValue(state),
+        retry: vi.fn(),
+        promote: vi.fn(),
+        remove: vi.fn(),
+        ...extra,
+    };
+}
+
+const jobs = new Map<string, ReturnType<typeof createFakeJob>>();
+
+const fakeQueue = {
+    name: 'twitter-post',
+    isPaused: vi.fn().mockResolvedValue(false),
+    getJobCounts: vi.fn().mockResolvedValue({
+        waiting: 1, prioritized: 2, active: 3, completed: 4, failed: 5, delayed: 6,
+    }),
+    getJobs: vi.fn(),
+    getJob: vi.fn(async (id: string) => jobs.get(id)),
+    pause: vi.fn(),
+    resume: vi.fn(),
+};
+
+let server: Server;
+let baseUrl: string;
+
+const request = (method: string, path: string, token = 'admin-secret') =>
+    fetch(`${baseUrl}/admin${path}`, {
+        method,
+        headers: token ? { authorization: `Bearer ${token}` } : {},
+    });
+
+describe('admin API', () => {
+    beforeAll(async () => {
+        const app = express();
+        app.use('/admin', createAdminRouter([fakeQueue as any]));
+        server = app.listen(0, '127.0.0.1');
+        await new Promise((resolve) => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        jobs.clear();
+        process.env.ADMIN_API_TOKEN = 'admin-secret';
+    });
+
+    it('should reject requests without the admin token', async () => {
+        expect((await request('GET', '/queues', '')).status).toBe(401);
+        expect((await request('GET', '/queues', 'wrong')).status).toBe(401);
+
+        delete process.env.ADMIN_API_TOKEN;
+        expect((await request('GET', '/queues')).status).toBe(503);
+    });
+
+    it('should return metrics for each queue', async () => {
+        const response = await request('GET', '/queues');
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({
+            queues: [{
+                name: 'twitter-post',
+                paused: false,
+                metrics: { waiting: 3, active: 3, completed: 4, failed: 5, delayed: 6 },
+            }],
+        });
+    });
+
+    it('should list jobs by state with their scheduled post', async () => {
+        fakeQueue.getJobs.mockResolvedValue([createFakeJob('1', 'waiting')]);
+        (prisma.scheduledPost.findMany as any).mockResolvedValue([{ id: 'post-1', status: 'QUEUED' }]);
+
+        const response = await request('GET', '/queues/twitter-post/jobs?state=waiting&limit=10');
+        const body = await response.json() as any;
+
+        expect(fakeQueue.getJobs).toHaveBeenCalledWith(['waiting', 'prioritized'], 0, 9);
+        expect(body.jobs[0]).toMatchObject({ id: '1', scheduledPost: { id: 'post-1', status: 'QUEUED' } });
+
+        expect((await request('GET', '/queues/twitter-post/jobs?state=bogus')).status).toBe(400);
+        expect((await request('GET', '/queues/unknown/jobs')).status).toBe(404);
+    });
+
+    it('should retry a failed job and re-queue the post', async () => {
+        const job = createFakeJob('1', 'completed', { returnvalue: { success: false } });
+        jobs.set('1', job);
+        (prisma.deadLetterJob.updateMany as any).mockResolvedValue({ count: 1 });
+
+        const response = await request('POST', '/queues/twitter-post/jobs/1/retry');
+
+        expect(response.status).toBe(200);
+        expect(job.retry).toHaveBeenCalledWith('completed', { resetAttemptsMade: true });
+        expect(prisma.scheduledPost.update).toHaveBeenCalledWith({
+            where: { id: 'post-1' },
+            data: expect.objectContaining({ status: 'QUEUED', errorCode: null }),
+        });
+        expect(prisma.deadLetterJob.updateMany).toHaveBeenCalledWith({
+            where: { queueName: 'twitter-post', jobId: '1', status: 'DEAD' },
+            data: { status: 'REPLAYED', resolvedAt: expect.any(Date) },
+        });
+    });
+
+    it('should refuse to retry the job of a cancelled post', async () => {
+        const cancelled = createFakeJob('1', 'completed', { returnvalue: { success: false, error: { code: 'POST_CANCELLED' } } });
+        jobs.set('1', cancelled);
+        jobs.set('2', createFakeJob('2', 'failed'));
+        (prisma.scheduledPost.findUnique as any).mockImplementation(async ({ where }: any) =>
+            ({ status: where.id === 'post-2' ? 'CANCELLED' : 'FAILED' }));
+
+        expect((await request('POST', '/queues/twitter-post/jobs/1/retry')).status).toBe(409);
+        expect((await request('POST', '/queues/twitter-post/jobs/2/retry')).status).toBe(409);
+        expect(cancelled.retry).not.toHaveBeenCalled();
+        expect(prisma.scheduledPost.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to retry a job that did not fail', async () => {
+        jobs.set('1', createFakeJob('1', 'completed', { returnvalue: { success: true } }));
+
+        const response = await request('POST', '/queues/twitter-post/jobs/1/retry');
+
+        expect(response.status).toBe(409);
+        expect(prisma.scheduledPost.update).not.toHaveBeenCalled();
+    });
+
+    it('should promote only delayed jobs', async () => {
+        const delayed = createFakeJob('1', 'delayed');
+        jobs.set('1', delayed);
+        jobs.set('2', createFakeJob('2', 'active'));
+
+        expect((await request('POST', '/queues/twitter-post/jobs/1/promote')).status).toBe(200);
+        expect(delayed.promote).toHaveBeenCalled();
+
+        expect((await request('POST', '/queues/twitter-post/jobs/2/promote')).status).toBe(409);
+    });
+
+    it('should remove a job and mark its post failed', async () => {
+        const job = createFakeJob('1', 'delayed');
+        jobs.set('1', job);
+        (prisma.scheduledPost.updateMany as any).mockResolvedValue({ count: 1 });
+
+        const response = await request('DELETE', '/queues/twitter-post/jobs/1');
+
+        expect(response.status).toBe(200);
+        expect(job.remove).toHaveBeenCalled();
+        expect(prisma.scheduledPost.updateMany).toHaveBeenCalledWith({
+            where: { id: 'post-1', status: { not: 'POSTED' } },
+            data: expect.objectContaining({ status: 'FAILED', errorCode: ADMIN_REMOVED_ERROR_CODE, jobId: null }),
+        });
+
+        expect((await request('DELETE', '/queues/twitter-post/jobs/missing')).status).toBe(404);
+    });
+
+    it('should reject a dead-letter replay without a filter', async () => {
+        const response = await request('POST', '/dlq/replay');
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should pause and resume a queue', async () => {
+        expect(await (await request('POST', '/queues/twitter-post/pause')).json()).toEqual({
+            queue: 'twitter-post',
+            paused: true,
+        });
+        expect(fakeQueue.pause).toHaveBeenCalled();
+
+        await request('POST', '/queues/twitter-post/resume');
+        expect(fakeQueue.resume).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,411 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { Router, json } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { prisma } from './db.js';
+import { createChildLogger } from './logger.js';
+import { getQueueMetrics } from './queue.js';
+import type { PostQueue, Job } from './queue.js';
+import type { JobStatus, PostJobData } from './types.js';
+import { listDeadLetters, countDeadLetters, replayDeadLetters, discardDeadLetters, markDeadLettersReplayed, DeadLetterError } from './dead-letter.js';
+import type { DeadLetterFilter } from './dead-letter.js';
+import { redeliverWebhook, WEBHOOK_EVENT_TYPES } from './webhooks.js';
+import type { WebhookEventType } from './webhooks.js';
+import { encryptToken } from './crypto.js';
+
+// Error code recorded on posts whose job was removed through the admin API
+export const ADMIN_REMOVED_ERROR_CODE = 'REMOVED_BY_ADMIN';
+
+const JOB_STATES: JobStatus[] = ['waiting', 'delayed', 'active', 'completed', 'failed'];
+const MAX_PAGE_SIZE = 100;
+
+// Endpoint fields returned by the API (never the secret)
+const WEBHOOK_ENDPOINT_FIELDS = { id: true, url: true, events: true, description: true, isActive: true, createdAt: true };
+
+/**
+ * Custom error class for admin API failures (mapped to an HTTP status)
+ */
+export class AdminApiError extends Error {
+    constructor(
+        public status: number,
+        message: string
+    ) {
+        super(message);
+        this.name = 'AdminApiError';
+    }
+}
+
+/**
+ * Queue administration routes, authenticated with `Authorization: Bearer $ADMIN_API_TOKEN`.
+ *
+ *   GET    /queues                            metrics for every queue
+ *   GET    /queues/:queue/jobs?state=failed   jobs with their ScheduledPost
+ *   POST   /queues/:queue/jobs/:id/retry      re-run a failed job
+ *   POST   /queues/:queue/jobs/:id/promote    run a delayed job now
+ *   DELETE /queues/:queue/jobs/:id            remove a job (post is marked FAILED)
+ *   POST   /queues/:queue/pause | /resume
+ *   GET    /dlq?errorCode=&userId=&platform=  dead-letter entries and counts per error code
+ *   POST   /dlq/replay | /dlq/discard         body: { ids?, errorCode?, userId?, platform?, dryRun? }
+ *   GET    /webhooks/endpoints                webhook endpoints (without secrets)
+ *   POST   /webhooks/endpoints                body: { url, events?, description?, secret? }; returns the secret once
+ *   DELETE /webhooks/endpoints/:id            disable an endpoint
+ *   GET    /webhooks/deliveries?endpointId=&status=&eventType=   delivery log, newest first
+ *   POST   /webhooks/deliveries/:id/redeliver send a finished delivery again
+ *
+ * Every job action updates ScheduledPost.status to match the queue.
+ */
+export function createAdminRouter(queues: PostQueue[]): Router {
+    const router = Router();
+    const byName = new Map(queues.map((queue) => [queue.name, queue]));
+
+    const getQueue = (name: string): PostQueue => {
+        const queue = byName.get(name);
+        if (!queue) {
+            throw new AdminApiError(404, `Unknown queue: ${name}`);
+        }
+        return queue;
+    };
+
+    const getJob = async (queue: PostQueue, jobId: string): Promise<Job<PostJobData>> => {
+        const job = await queue.getJob(jobId);
+        if (!job) {
+            throw new AdminApiError(404, `Job ${jobId} not found in ${queue.name}`);
+        }
+        return job;
+    };
+
+    router.use(requireAdminToken);
+    router.use(json());
+
+    router.get('/queues', async (_req, res) => {
+        const result = await Promise.all(
+            queues.map(async (queue) => ({
+                name: queue.name,
+                paused: await queue.isPaused(),
+                metrics: await getQueueMetrics(queue),
+            }))
+        );
+
+        res.json({ queues: result });
+    });
+
+    router.get('/queues/:queue/jobs', async (req, res) => {
+        const queue = getQueue(req.params.queue as string);
+        const state = (req.query.state as JobStatus | undefined) ?? 'failed';
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, MAX_PAGE_SIZE);
+        const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+        if (!JOB_STATES.includes(state)) {
+            throw new AdminApiError(400, `state must be one of: ${JOB_STATES.join(', ')}`);
+        }
+
+        // Jobs added with a priority sit in BullMQ's "prioritized" list until picked up
+        const types = state === 'waiting' ? ['waiting', 'prioritized'] as const : [state];
+        const jobs = (await queue.getJobs([...types], offset, offset + limit - 1)).filter(Boolean);
+
+        const postIds = jobs.map((job) => job.data.scheduledPostId).filter(Boolean);
+        const posts = postIds.length > 0
+            ? await prisma.scheduledPost.findMany({ where: { id: { in: postIds } } })
+            : [];
+        const postsById = new Map(posts.map((post: { id: string }) => [post.id, post]));
+
+        res.json({
+            queue: queue.name,
+            state,
+            offset,
+            limit,
+            jobs: jobs.map((job) => ({
+                ...serializeJob(job),
+                scheduledPost: postsById.get(job.data.scheduledPostId) ?? null,
+            })),
+        });
+    });
+
+    router.post('/queues/:queue/jobs/:jobId/retry', async (req, res) => {
+        const queue = getQueue(req.params.queue as string);
+        const job = await getJob(queue, req.params.jobId as string);
+        const state = await job.getState();
+
+        // Non-retryable failures finish as completed jobs with `success: false`
+        const failed = state === 'failed' || (state === 'completed' && job.returnvalue?.success === false);
+        if (!failed) {
+            throw new AdminApiError(409, `Job ${job.id} is ${state}, only failed jobs can be retried`);
+        }
+
+        // A retry must not undo the user's cancellation
+        const post = await prisma.scheduledPost.findUnique({
+            where: { id: job.data.scheduledPostId },
+            select: { status: true },
+        });
+        if (job.returnvalue?.error?.code === 'POST_CANCELLED' || post?.status === 'CANCELLED') {
+            throw new AdminApiError(409, `Post ${job.data.scheduledPostId} was cancelled, its job can't be retried`);
+        }
+
+        await job.retry(state as 'failed' | 'completed', { resetAttemptsMade: true });
+
+        await prisma.scheduledPost.update({
+            where: { id: job.data.scheduledPostId },
+            data: {
+                status: 'QUEUED',
+                jobId: job.id,
+                queuedAt: new Date(),
+                startedAt: null,
+                completedAt: null,
+                errorCode: null,
+                errorMessage: null,
+            },
+        });
+
+        await markDeadLettersReplayed(queue.name, job.id as string);
+
+        auditLog(req, 'retry', job);
+        res.json({ job: serializeJob(job), status: 'QUEUED' });
+    });
+
+    router.post('/queues/:queue/jobs/:jobId/promote', async (req, res) => {
+        const queue = getQueue(req.params.queue as string);
+        const job = await getJob(queue, req.params.jobId as string);
+        const state = await job.getState();
+
+        if (state !== 'delayed') {
+            throw new AdminApiError(409, `Job ${job.id} is ${state}, only delayed jobs can be promoted`);
+        }
+
+        await job.promote();
+
+        await prisma.scheduledPost.update({
+            where: { id: job.data.scheduledPostId },
+            data: { status: 'QUEUED', jobId: job.id },
+        });
+
+        auditLog(req, 'promote', job);
+        res.json({ job: serializeJob(job), status: 'QUEUED' });
+    });
+
+    router.delete('/queues/:queue/jobs/:jobId', async (req, res) => {
+        const queue = getQueue(req.params.queue as string);
+        const job = await getJob(queue, req.params.jobId as string);
+        const state = await job.getState();
+
+        if (state === 'active') {
+            throw new AdminApiError(409, `Job ${job.id} is being processed and cannot be removed`);
+        }
+
+        await job.remove();
+
+        // Published posts keep their status; anything else will never run now
+        const { count } = await prisma.scheduledPost.updateMany({
+            where: { id: job.data.scheduledPostId, status: { not: 'POSTED' } },
+            data: {
+                status: 'FAILED',
+                jobId: null,
+                errorCode: ADMIN_REMOVED_ERROR_CODE,
+                errorMessage: `Job removed from ${queue.name} by an administrator`,
+                completedAt: new Date(),
+            },
+        });
+
+        auditLog(req, 'remove', job);
+        res.json({ removed: job.id, status: count > 0 ? 'FAILED' : 'POSTED' });
+    });
+
+    router.post('/queues/:queue/pause', async (req, res) => {
+        const queue = getQueue(req.params.queue as string);
+        await queue.pause();
+
+        auditLog(req, 'pause');
+        res.json({ queue: queue.name, paused: true });
+    });
+
+    router.post('/queues/:queue/resume', async (req, res) => {
+        const queue = getQueue(req.params.queue as string);
+        await queue.resume();
+
+        auditLog(req, 'resume');
+        res.json({ queue: queue.name, paused: false });
+    });
+
+    router.get('/dlq', async (req, res) => {
+        const filter = parseDeadLetterFilter(req.query);
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, MAX_PAGE_SIZE);
+
+        const [entries, counts] = await Promise.all([
+            listDeadLetters(filter, { limit, cursor: req.query.cursor as string | undefined }),
+            countDeadLetters(filter),
+        ]);
+
+        res.json({
+            entries,
+            counts,
+            nextCursor: entries.length === limit ? entries[entries.length - 1].id : null,
+        });
+    });
+
+    router.post('/dlq/replay', async (req, res) => {
+        const filter = parseDeadLetterFilter(req.body ?? {});
+        const result = await replayDeadLetters(queues, filter, { dryRun: req.body?.dryRun === true });
+
+        auditLog(req, 'dlq-replay', undefined, { filter, ...result });
+        res.json(result);
+    });
+
+    router.post('/dlq/discard', async (req, res) => {
+        const filter = parseDeadLetterFilter(req.body ?? {});
+        const result = await discardDeadLetters(filter, { dryRun: req.body?.dryRun === true });
+
+        auditLog(req, 'dlq-discard', undefined, { filter, ...result });
+        res.json(result);
+    });
+
+    router.get('/webhooks/endpoints', async (_req, res) => {
+        const endpoints = await prisma.webhookEndpoint.findMany({
+            select: WEBHOOK_ENDPOINT_FIELDS,
+            orderBy: { createdAt: 'asc' },
+        });
+
+        res.json({ endpoints });
+    });
+
+    router.post('/webhooks/endpoints', async (req, res) => {
+        const { url, events = [], description } = req.body ?? {};
+
+        if (typeof url !== 'string' || !/^https?:\/\//.test(url) || !URL.canParse(url)) {
+            throw new AdminApiError(400, 'url must be an http(s) URL');
+        }
+        if (!Array.isArray(events) || events.some((event) => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType))) {
+            throw new AdminApiError(400, `events must be a list of: ${WEBHOOK_EVENT_TYPES.join(', ')}`);
+        }
+
+        const secret = typeof req.body.secret === 'string' && req.body.secret.length >= 16
+            ? req.body.secret
+            : `whsec_${randomBytes(24).toString('base64url')}`;
+
+        const endpoint = await prisma.webhookEndpoint.create({
+            data: { url, events, description, secret: encryptToken(secret) },
+            select: WEBHOOK_ENDPOINT_FIELDS,
+        });
+
+        auditLog(req, 'webhook-endpoint-create', undefined, { endpointId: endpoint.id, url });
+        res.status(201).json({ endpoint, secret });
+    });
+
+    router.delete('/webhooks/endpoints/:id', async (req, res) => {
+        const { count } = await prisma.webhookEndpoint.updateMany({
+            where: { id: req.params.id },
+            data: { isActive: false },
+        });
+
+        if (count === 0) {
+            throw new AdminApiError(404, `Webhook endpoint ${req.params.id} not found`);
+        }
+
+        auditLog(req, 'webhook-endpoint-disable', undefined, { endpointId: req.params.id });
+        res.json({ id: req.params.id, isActive: false });
+    });
+
+    router.get('/webhooks/deliveries', async (req, res) => {
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, MAX_PAGE_SIZE);
+        const cursor = req.query.cursor as string | undefined;
+
+        const deliveries = await prisma.webhookDelivery.findMany({
+            where: {
+                ...(req.query.endpointId && { endpointId: String(req.query.endpointId) }),
+                ...(req.query.status && { status: String(req.query.status) }),
+                ...(req.query.eventType && { eventType: String(req.query.eventType) }),
+            },
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take: limit,
+            ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        });
+
+        res.json({
+            deliveries,
+            nextCursor: deliveries.length === limit ? deliveries[deliveries.length - 1].id : null,
+        });
+    });
+
+    router.post('/webhooks/deliveries/:id/redeliver', async (req, res) => {
+        if (!await redeliverWebhook(req.params.id as string)) {
+            throw new AdminApiError(409, `Delivery ${req.params.id} is not found or still pending`);
+        }
+
+        auditLog(req, 'webhook-redeliver', undefined, { deliveryId: req.params.id });
+        res.json({ id: req.params.id, status: 'PENDING' });
+    });
+
+    router.use(handleAdminError);
+
+    return router;
+}
+
+function parseDeadLetterFilter(source: Record<string, any>): DeadLetterFilter {
+    const ids = Array.isArray(source.ids)
+        ? source.ids.map(String)
+        : typeof source.ids === 'string' ? source.ids.split(',') : undefined;
+
+    return {
+        ids,
+        errorCode: source.errorCode || undefined,
+        userId: source.userId || undefined,
+        platform: source.platform || undefined,
+    };
+}
+
+function serializeJob(job: Job) {
+    return {
+        id: job.id,
+        name: job.name,
+        attemptsMade: job.attemptsMade,
+        createdAt: new Date(job.timestamp).toISOString(),
+        runAt: new Date(job.timestamp + (job.delay ?? 0)).toISOString(),
+        processedAt: job.processedOn ? new Date(job.processedOn).toISOString() : null,
+        finishedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : null,
+        failedReason: job.failedReason || null,
+        result: job.returnvalue ?? null,
+        data: job.data,
+    };
+}
+
+/**
+ * Constant-time bearer token check. The API is disabled when no token is configured.
+ */
+function requireAdminToken(req: Request, res: Response, next: NextFunction): void {
+    const expected = process.env.ADMIN_API_TOKEN;
+
+    if (!expected) {
+        res.status(503).json({ error: 'Admin API is disabled (ADMIN_API_TOKEN is not set)' });
+        return;
+    }
+
+    const header = req.get('authorization') ?? '';
+    const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+
+    if (!timingSafeEqual(digest(provided), digest(expected))) {
+        res.status(401).json({ error: 'Invalid admin token' });
+        return;
+    }
+
+    next();
+}
+
+function auditLog(req: Request, action: string, job?: Job, details: Record<string, unknown> = {}): void {
+    createChildLogger({ service: 'admin-api' }).info(
+        { action, queue: req.params.queue, jobId: job?.id, postId: job?.data.scheduledPostId, ip: req.ip, ...details },
+        'Admin action'
+    );
+}
+
+function handleAdminError(error: any, _req: Request, res: Response, _next: NextFunction): void {
+    if (error instanceof AdminApiError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+    }
+
+    if (error instanceof DeadLetterError) {
+        res.status(400).json({ error: error.message });
+        return;
+    }
+
+    createChildLogger({ service: 'admin-api' }).error({ error: error.message }, 'Admin request failed');
+    res.status(500).json({ error: 'Internal error' });
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { rankPostingSlots, pickBestTime } from './best-time.js';
+
+const now = new Date('2026-10-19T06:00:00Z'); // Monday
+
+describe('rankPostingSlots', () => {
+    it('should fall back to generally good hours without history', () => {
+        const slots = rankPostingSlots({ outcomes: [], density: [], window: { timezone: 'UTC' }, now });
+
+        expect(slots).toHaveLength(168);
+        expect(slots[0].hour).toBeGreaterThanOrEqual(8);
+        expect(slots[0].hour).toBeLessThan(11);
+        expect([1, 2, 3, 4, 5]).toContain(slots[0].weekday);
+    });
+
+    it('should favour slots where the user had engagement and no failures', () => {
+        const outcomes = [
+            // Tuesdays 18:00 local (Berlin, UTC+2 in October) did very well
+            { scheduledFor: new Date('2026-10-06T16:00:00Z'), posted: true, engagement: 90 },
+            { scheduledFor: new Date('2026-10-13T16:00:00Z'), posted: true, engagement: 110 },
+            { scheduledFor: new Date('2026-09-29T16:00:00Z'), posted: true, engagement: 100 },
+            // Tuesdays 09:00 local did poorly or failed
+            { scheduledFor: new Date('2026-10-06T07:00:00Z'), posted: true, engagement: 5 },
+            { scheduledFor: new Date('2026-10-13T07:00:00Z'), posted: false },
+        ];
+
+        const slots = rankPostingSlots({ outcomes, density: [], window: { timezone: 'Europe/Berlin' }, now });
+        const tuesdayEvening = slots.find((slot) => slot.weekday === 2 && slot.hour === 18)!;
+        const tuesdayMorning = slots.find((slot) => slot.weekday === 2 && slot.hour === 9)!;
+
+        expect(slots[0]).toMatchObject({ weekday: 2, hour: 18, samples: 3 });
+        expect(tuesdayEvening.score).toBeGreaterThan(tuesdayMorning.score);
+    });
+
+    it('should penalize slots crowded with other posts', () => {
+        const density = [{ weekday: 1, hour: 9, count: 200 }, { weekday: 1, hour: 10, count: 1 }];
+
+        const slots = rankPostingSlots({ outcomes: [], density, window: { timezone: 'UTC' }, now });
+        const crowded = slots.find((slot) => slot.weekday === 1 && slot.hour === 9)!;
+        const quiet = slots.find((slot) => slot.weekday === 1 && slot.hour === 10)!;
+
+        expect(quiet.score).toBeGreaterThan(crowded.score);
+    });
+
+    it('should leave out quiet hours and non-posting days', () => {
+        const slots = rankPostingSlots({
+            outcomes: [],
+            density: [],
+            window: { timezone: 'UTC', quietHoursStart: '20:00', quietHoursEnd: '08:00', postingDays: [1, 2, 3, 4, 5] },
+            now,
+        });
+
+        expect(slots).toHaveLength(5 * 12);
+        expect(slots.every((slot) => slot.hour >= 8 && slot.hour < 20 && slot.weekday >= 1 && slot.weekday <= 5)).toBe(true);
+    });
+});
+
+describe('pickBestTime', () => {
+    const slots = [
+        { weekday: 1, hour: 9, score: 1, samples: 0 },
+        { weekday: 1, hour: 13, score: 0.8, samples: 0 },
+        { weekday: 2, hour: 9, score: 0.9, samples: 0 },
+    ];
+    const base = {
+        slots,
+        timeZone: 'UTC',
+        from: now,
+        horizonDays: 7,
+        userPostTimes: [],
+        minSpacingMs: 3 * 60 * 60 * 1000,
+        dailyQuota: 10,
+        dailyCounts: new Map<string, number>(),
+    };
+
+    it('should pick the best slot in the horizon', () => {
+        expect(pickBestTime(base)).toEqual(new Date('2026-10-19T09:00:00Z'));
+    });
+
+    it('should keep the user\'s posts apart', () => {
+        const result = pickBestTime({ ...base, userPostTimes: [new Date('2026-10-19T11:00:00Z')] });
+
+        // 09:00 and 13:00 are within 3 hours of the other post
+        expect(result).toEqual(new Date('2026-10-20T09:00:00Z'));
+    });
+
+    it('should skip days whose platform quota is used up', () => {
+        const result = pickBestTime({ ...base, dailyCounts: new Map([['2026-10-19', 10]]) });
+
+        expect(result).toEqual(new Date('2026-10-20T09:00:00Z'));
+    });
+
+    it('should return null when nothing fits', () => {
+        expect(pickBestTime({ ...base, dailyQuota: 0 })).toBeNull();
+    });
+});
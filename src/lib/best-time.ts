@@ -0,0 +1,219 @@
+import { toZonedTime, resolveTimeZone, getTimeZoneOffset } from './timezone.js';
+import { isAllowedLocalTime } from './posting-window.js';
+import type { PostingWindow } from './posting-window.js';
+
+/**
+ * Best-time-to-post engine.
+ *
+ * Every (local weekday, hour) slot is scored from:
+ * - a prior of generally good hours, so new users get sensible slots
+ * - the user's own outcomes in that slot (posted vs failed)
+ * - engagement of their posts in that slot, where collected
+ * - platform-wide posting density (crowded slots are penalized)
+ *
+ * Slots outside the user's posting window are never recommended.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// The prior only breaks ties between slots the user's own history says little about
+const PRIOR_WEIGHT = 0.5;
+const SUCCESS_WEIGHT = 0.5;
+const ENGAGEMENT_WEIGHT = 1;
+const DENSITY_WEIGHT = 0.3;
+
+// Score lost per day of waiting, so a slightly worse slot tomorrow beats the best slot next week
+const DELAY_PENALTY_PER_DAY = 0.05;
+
+/**
+ * One past post of the user
+ */
+export interface SlotOutcome {
+    scheduledFor: Date;
+    posted: boolean; // false when it permanently failed
+    engagement?: number | null; // Weighted engagement score, when collected
+}
+
+/**
+ * Platform-wide number of posts per UTC weekday and hour
+ */
+export interface SlotDensity {
+    weekday: number; // 0 = Sunday
+    hour: number; // UTC
+    count: number;
+}
+
+export interface PostingSlot {
+    weekday: number; // 0 = Sunday, local
+    hour: number; // 0-23, local
+    score: number;
+    samples: number; // Past posts of the user in this slot
+}
+
+/**
+ * Rank every allowed local (weekday, hour) slot, best first
+ */
+export function rankPostingSlots(input: {
+    outcomes: SlotOutcome[];
+    density: SlotDensity[];
+    window: PostingWindow;
+    now?: Date;
+}): PostingSlot[] {
+    const timeZone = resolveTimeZone(input.window.timezone);
+    const slots = new Map<number, { posted: number; failed: number; engagement: number[] }>();
+
+    for (const outcome of input.outcomes) {
+        const local = toZonedTime(outcome.scheduledFor, timeZone);
+        const key = slotKey(local.weekday, local.hour);
+        const slot = slots.get(key) ?? { posted: 0, failed: 0, engagement: [] };
+
+        if (outcome.posted) {
+            slot.posted++;
+        } else {
+            slot.failed++;
+        }
+        if (typeof outcome.engagement === 'number') {
+            slot.engagement.push(outcome.engagement);
+        }
+        slots.set(key, slot);
+    }
+
+    const allEngagement = [...slots.values()].flatMap((slot) => slot.engagement);
+    const meanEngagement = allEngagement.length > 0 ? average(allEngagement) : 0;
+
+    // Density is counted per UTC hour; shift it into the user's local week
+    const offsetHours = Math.round(getTimeZoneOffset(input.now ?? new Date(), timeZone) / HOUR_MS);
+    const density = new Map<number, number>();
+    for (const entry of input.density) {
+        const key = ((slotKey(entry.weekday, entry.hour) + offsetHours) % 168 + 168) % 168;
+        density.set(key, (density.get(key) ?? 0) + entry.count);
+    }
+    const meanDensity = density.size > 0 ? [...density.values()].reduce((sum, count) => sum + count, 0) / 168 : 0;
+
+    const ranked: PostingSlot[] = [];
+
+    for (let weekday = 0; weekday < 7; weekday++) {
+        for (let hour = 0; hour < 24; hour++) {
+            if (!isAllowedLocalTime(weekday, hour * 60, input.window)) {
+                continue;
+            }
+
+            const key = slotKey(weekday, hour);
+            const history = slots.get(key);
+            let score = PRIOR_WEIGHT * priorScore(weekday, hour);
+
+            if (history) {
+                // Laplace-smoothed success rate, centred on 0.5 so unknown slots are neutral
+                const successRate = (history.posted + 1) / (history.posted + history.failed + 2);
+                score += SUCCESS_WEIGHT * (successRate - 0.5);
+
+                if (history.engagement.length > 0 && meanEngagement > 0) {
+                    const confidence = history.engagement.length / (history.engagement.length + 3);
+                    const lift = clamp(average(history.engagement) / meanEngagement - 1, -1, 2);
+                    score += ENGAGEMENT_WEIGHT * confidence * lift;
+                }
+            }
+
+            if (meanDensity > 0) {
+                score -= DENSITY_WEIGHT * clamp((density.get(key) ?? 0) / meanDensity - 1, -1, 3);
+            }
+
+            ranked.push({
+                weekday,
+                hour,
+                score,
+                samples: history ? history.posted + history.failed : 0,
+            });
+        }
+    }
+
+    return ranked.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pick the best concrete time (on the hour) within `horizonDays` of `from`.
+ *
+ * Skips times closer than `minSpacingMs` to the user's other posts and UTC
+ * days whose platform-wide post count already reached `dailyQuota`.
+ * Returns null when no slot fits.
+ */
+export function pickBestTime(input: {
+    slots: PostingSlot[];
+    timeZone: string;
+    from: Date;
+    horizonDays: number;
+    userPostTimes: Date[];
+    minSpacingMs: number;
+    dailyQuota: number;
+    dailyCounts: Map<string, number>;
+}): Date | null {
+    const timeZone = resolveTimeZone(input.timeZone);
+    const scores = new Map(input.slots.map((slot) => [slotKey(slot.weekday, slot.hour), slot.score]));
+    const first = Math.ceil(input.from.getTime() / HOUR_MS) * HOUR_MS;
+
+    let best: { time: number; value: number } | null = null;
+
+    for (let time = first; time < input.from.getTime() + input.horizonDays * DAY_MS; time += HOUR_MS) {
+        const local = toZonedTime(new Date(time), timeZone);
+        const score = scores.get(slotKey(local.weekday, local.hour));
+
+        if (score === undefined) {
+            continue;
+        }
+        if (input.userPostTimes.some((other) => Math.abs(other.getTime() - time) < input.minSpacingMs)) {
+            continue;
+        }
+        if ((input.dailyCounts.get(utcDay(new Date(time))) ?? 0) >= input.dailyQuota) {
+            continue;
+        }
+
+        const value = score - DELAY_PENALTY_PER_DAY * ((time - input.from.getTime()) / DAY_MS);
+        if (!best || value > best.value) {
+            best = { time, value };
+        }
+    }
+
+    return best ? new Date(best.time) : null;
+}
+
+/**
+ * Key for per-day quota counting
+ */
+export function utcDay(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+// Generic engagement curve: weekday mornings, lunch and early evening; weekends late morning; nights off
+function priorScore(weekday: number, hour: number): number {
+    if (hour < 7 || hour >= 23) {
+        return 0;
+    }
+
+    const weekend = weekday === 0 || weekday === 6;
+    if (weekend) {
+        return hour >= 10 && hour < 13 ? 0.5 : 0.2;
+    }
+    if (hour >= 8 && hour < 11) {
+        return 1;
+    }
+    if (hour >= 12 && hour < 14) {
+        return 0.8;
+    }
+    if (hour >= 17 && hour < 20) {
+        return 0.7;
+    }
+    return 0.3;
+}
+
+function slotKey(weekday: number, hour: number): number {
+    return weekday * 24 + hour;
+}
+
+function average(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
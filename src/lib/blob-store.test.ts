@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readdir, utimes } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createLocalBlobStore, blobKey } from './blob-store.js';
+
+describe('createLocalBlobStore', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await mkdtemp(path.join(tmpdir(), 'blobs-'));
+    });
+
+    afterEach(async () => {
+        await rm(root, { recursive: true, force: true });
+    });
+
+    it('should store bytes under their SHA-256 and read them back', async () => {
+        const store = createLocalBlobStore(root);
+        const data = Buffer.from('image bytes');
+
+        const key = await store.put(data);
+
+        expect(key).toBe(blobKey(data));
+        expect(key).toMatch(/^[0-9a-f]{64}$/);
+        expect(await store.get(key)).toEqual(data);
+        expect(await readdir(path.join(root, key.slice(0, 2)))).toEqual([key]);
+    });
+
+    it('should store identical bytes once and refresh their time', async () => {
+        const store = createLocalBlobStore(root);
+        const key = await store.put(Buffer.from('same'));
+        await utimes(path.join(root, key.slice(0, 2), key), new Date('2026-01-01'), new Date('2026-01-01'));
+
+        expect(await store.put(Buffer.from('same'))).toBe(key);
+
+        const blobs = [];
+        for await (const blob of store.list()) {
+            blobs.push(blob);
+        }
+        expect(blobs).toHaveLength(1);
+        expect(blobs[0]).toMatchObject({ key, size: 4 });
+        expect(blobs[0].storedAt.getTime()).toBeGreaterThan(new Date('2026-01-01').getTime());
+    });
+
+    it('should return null for missing blobs and list nothing for a new store', async () => {
+        const store = createLocalBlobStore(path.join(root, 'not-created-yet'));
+
+        expect(await store.get(blobKey(Buffer.from('missing')))).toBeNull();
+        for await (const blob of store.list()) {
+            throw new Error(`Unexpected blob ${blob.key}`);
+        }
+    });
+
+    it('should delete blobs and refuse keys that are not hashes', async () => {
+        const store = createLocalBlobStore(root);
+        const key = await store.put(Buffer.from('gone soon'));
+
+        await store.delete(key);
+
+        expect(await store.get(key)).toBeNull();
+        await expect(store.get('../../etc/passwd')).rejects.toThrow('Invalid blob key');
+    });
+});
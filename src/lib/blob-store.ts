@@ -0,0 +1,129 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Content-addressed storage for post media. Files are keyed by the SHA-256
+ * of their bytes, so the same image used by many posts is stored once.
+ * The scheduler writes media when a post is queued and the worker reads it
+ * when publishing; both must see the same store (e.g. a shared volume).
+ */
+
+export interface StoredBlob {
+    key: string;
+    size: number;
+    storedAt: Date; // Last write; storing the same bytes again refreshes it
+}
+
+/**
+ * A place to keep media by content hash. The local filesystem store is the
+ * default; another backend (S3, GCS) only has to implement this interface.
+ */
+export interface BlobStore {
+    // Store the bytes and return their key
+    put(data: Buffer): Promise<string>;
+    // The bytes for a key, or null when they are not (or no longer) stored
+    get(key: string): Promise<Buffer | null>;
+    delete(key: string): Promise<void>;
+    list(): AsyncIterable<StoredBlob>;
+}
+
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Key of some bytes in every BlobStore
+ */
+export function blobKey(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Blob store in a local directory, fanned out by the first two hex digits
+ * of the key. Writes go to a temporary file first, so readers never see a
+ * partial file.
+ */
+export function createLocalBlobStore(root: string): BlobStore {
+    const pathFor = (key: string) => {
+        if (!KEY_PATTERN.test(key)) {
+            throw new Error(`Invalid blob key: ${key}`);
+        }
+        return path.join(root, key.slice(0, 2), key);
+    };
+
+    return {
+        async put(data) {
+            const key = blobKey(data);
+            const file = pathFor(key);
+
+            try {
+                // Already stored: refresh the time so cleanup sees it as recent
+                const now = new Date();
+                await fs.utimes(file, now, now);
+                return key;
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') {
+                    throw error;
+                }
+            }
+
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            const temporary = `${file}.${randomUUID()}.tmp`;
+            await fs.writeFile(temporary, data);
+            await fs.rename(temporary, file);
+
+            return key;
+        },
+
+        async get(key) {
+            try {
+                return await fs.readFile(pathFor(key));
+            } catch (error: any) {
+                if (error.code === 'ENOENT') {
+                    return null;
+                }
+                throw error;
+            }
+        },
+
+        async delete(key) {
+            await fs.rm(pathFor(key), { force: true });
+        },
+
+        async *list() {
+            let shards: string[];
+            try {
+                shards = await fs.readdir(root);
+            } catch (error: any) {
+                if (error.code === 'ENOENT') {
+                    return;
+                }
+                throw error;
+            }
+
+            for (const shard of shards) {
+                const names = await fs.readdir(path.join(root, shard)).catch(() => [] as string[]);
+
+                for (const name of names) {
+                    if (!KEY_PATTERN.test(name)) {
+                        continue; // Temporary files of writes in progress
+                    }
+
+                    const stats = await fs.stat(path.join(root, shard, name)).catch(() => null);
+                    if (stats) {
+                        yield { key: name, size: stats.size, storedAt: stats.mtime };
+                    }
+                }
+            }
+        },
+    };
+}
+
+let store: BlobStore | undefined;
+
+/**
+ * The media store shared by the scheduler and the worker (MEDIA_STORE_DIR)
+ */
+export function getBlobStore(): BlobStore {
+    store ??= createLocalBlobStore(process.env.MEDIA_STORE_DIR || path.resolve('data/media'));
+    return store;
+}
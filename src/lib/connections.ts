@@ -0,0 +1,167 @@
+import { prisma } from './db.js';
+import { logger } from './logger.js';
+import { encryptToken, decryptToken, needsReencryption } from './crypto.js';
+
+/**
+ * SocialConnection with decrypted tokens.
+ * Every read and write of OAuth tokens goes through this module so plaintext
+ * never reaches the database.
+ */
+export interface SocialConnectionRecord {
+    id: string;
+    userId: string;
+    platform: string;
+    authType: string; // oauth1 | oauth2
+    accessToken: string;
+    refreshToken: string | null; // OAuth 1.0a: access token secret. OAuth 2.0: refresh token
+    expiresAt: Date | null;
+    platformUserId: string | null;
+    username: string | null;
+    isActive: boolean;
+}
+
+// Job error codes that mean the user has to reconnect the account
+export const CONNECTION_ERROR_CODES = new Set([
+    'NO_CONNECTION',
+    'AUTH_INVALID',
+    'TOKEN_EXPIRED',
+    'MISSING_ACCESS_SECRET',
+    'MISSING_MEMBER_ID',
+    'ACCOUNT_SUSPENDED',
+    'TOKEN_DECRYPT_FAILED',
+]);
+
+export interface ConnectionTokens {
+    accessToken: string;
+    refreshToken?: string | null;
+    expiresAt?: Date | null;
+}
+
+/**
+ * Load a user's active connection for a platform with decrypted tokens
+ */
+export async function getActiveConnection(
+    userId: string,
+    platform: string
+): Promise<SocialConnectionRecord | null> {
+    const connection = await prisma.socialConnection.findFirst({
+        where: {
+            userId,
+            platform,
+            isActive: true,
+        },
+    });
+
+    return connection ? decryptConnection(connection) : null;
+}
+
+/**
+ * Load a connection by ID with decrypted tokens
+ */
+export async function getConnectionById(connectionId: string): Promise<SocialConnectionRecord | null> {
+    const connection = await prisma.socialConnection.findUnique({
+        where: { id: connectionId },
+    });
+
+    return connection ? decryptConnection(connection) : null;
+}
+
+/**
+ * Encrypt tokens for a SocialConnection create/update payload
+ */
+export function encryptConnectionTokens(tokens: ConnectionTokens): ConnectionTokens {
+    return {
+        accessToken: encryptToken(tokens.accessToken),
+        ...(tokens.refreshToken !== undefined && {
+            refreshToken: tokens.refreshToken === null ? null : encryptToken(tokens.refreshToken),
+        }),
+        ...(tokens.expiresAt !== undefined && { expiresAt: tokens.expiresAt }),
+    };
+}
+
+/**
+ * Replace a connection's tokens, encrypted with the current key.
+ * Access token, refresh token and expiry are written in a single update.
+ */
+export async function updateConnectionTokens(
+    connectionId: string,
+    tokens: ConnectionTokens
+): Promise<SocialConnectionRecord> {
+    const connection = await prisma.socialConnection.update({
+        where: { id: connectionId },
+        data: encryptConnectionTokens(tokens),
+    });
+
+    return decryptConnection(connection);
+}
+
+function decryptConnection(connection: SocialConnectionRecord): SocialConnectionRecord {
+    return {
+        ...connection,
+        accessToken: decryptToken(connection.accessToken),
+        refreshToken: connection.refreshToken ? decryptToken(connection.refreshToken) : connection.refreshToken,
+    };
+}
+
+/**
+ * Re-encrypt every connection that is plaintext or uses an old key version.
+ * Rows are updated only if their tokens did not change in the meantime, so a
+ * concurrent token refresh is never overwritten.
+ */
+export async function reencryptAllConnections(
+    options: { batchSize?: number; dryRun?: boolean } = {}
+): Promise<{ scanned: number; reencrypted: number; skipped: number }> {
+    const { batchSize = 100, dryRun = false } = options;
+    const stats = { scanned: 0, reencrypted: 0, skipped: 0 };
+    let cursor: string | undefined;
+
+    for (;;) {
+        const batch: SocialConnectionRecord[] = await prisma.socialConnection.findMany({
+            orderBy: { id: 'asc' },
+            take: batchSize,
+            ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        });
+
+        if (batch.length === 0) {
+            break;
+        }
+
+        for (const connection of batch) {
+            stats.scanned++;
+
+            const stale =
+                needsReencryption(connection.accessToken) ||
+                (connection.refreshToken !== null && needsReencryption(connection.refreshToken));
+
+            if (!stale) {
+                continue;
+            }
+
+            if (dryRun) {
+                stats.reencrypted++;
+                continue;
+            }
+
+            const plain = decryptConnection(connection);
+            const { count } = await prisma.socialConnection.updateMany({
+                where: {
+                    id: connection.id,
+                    accessToken: connection.accessToken,
+                    refreshToken: connection.refreshToken,
+                },
+                data: encryptConnectionTokens(plain),
+            });
+
+            if (count === 1) {
+                stats.reencrypted++;
+            } else {
+                stats.skipped++;
+                logger.warn({ connectionId: connection.id }, 'Connection changed during re-encryption, skipped');
+            }
+        }
+
+        cursor = batch[batch.length - 1].id;
+    }
+
+    return stats;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import {
+    encryptToken,
+    decryptToken,
+    isEncrypted,
+    getKeyVersion,
+    needsReencryption,
+    TokenEncryptionError,
+} from './crypto.js';
+
+const keyV1 = randomBytes(32).toString('base64');
+const keyV2 = randomBytes(32).toString('base64');
+
+describe('Token encryption', () => {
+    beforeEach(() => {
+        process.env.TOKEN_ENCRYPTION_KEYS = `1:${keyV1}`;
+        delete process.env.TOKEN_ENCRYPTION_KEY_VERSION;
+    });
+
+    it('should round-trip a token through a versioned envelope', () => {
+        const encrypted = encryptToken('oauth-secret');
+
+        expect(encrypted).toMatch(/^enc:v1:/);
+        expect(encrypted).not.toContain('oauth-secret');
+        expect(isEncrypted(encrypted)).toBe(true);
+        expect(decryptToken(encrypted)).toBe('oauth-secret');
+    });
+
+    it('should use a fresh IV for every encryption', () => {
+        expect(encryptToken('same')).not.toBe(encryptToken('same'));
+    });
+
+    it('should pass legacy plaintext through unchanged', () => {
+        expect(decryptToken('plain-token')).toBe('plain-token');
+        expect(getKeyVersion('plain-token')).toBeNull();
+        expect(needsReencryption('plain-token')).toBe(true);
+    });
+
+    it('should decrypt old versions after rotation and flag them for re-encryption', () => {
+        const old = encryptToken('oauth-secret');
+
+        process.env.TOKEN_ENCRYPTION_KEYS = `1:${keyV1},2:${keyV2}`;
+
+        expect(decryptToken(old)).toBe('oauth-secret');
+        expect(needsReencryption(old)).toBe(true);
+        expect(getKeyVersion(encryptToken('oauth-secret'))).toBe(2);
+    });
+
+    it('should honor an explicit current key version', () => {
+        process.env.TOKEN_ENCRYPTION_KEYS = `1:${keyV1},2:${keyV2}`;
+        process.env.TOKEN_ENCRYPTION_KEY_VERSION = '1';
+
+        expect(getKeyVersion(encryptToken('oauth-secret'))).toBe(1);
+    });
+
+    it('should reject tampered ciphertext', () => {
+        const [prefix, version, iv, tag, ciphertext] = encryptToken('oauth-secret').split(':');
+        const flipped = Buffer.from(ciphertext, 'base64url');
+        flipped[0] ^= 0xff;
+        const tampered = [prefix, version, iv, tag, flipped.toString('base64url')].join(':');
+
+        expect(() => decryptToken(tampered)).toThrow(TokenEncryptionError);
+    });
+
+    it('should fail when the key version is no longer configured', () => {
+        process.env.TOKEN_ENCRYPTION_KEYS = `2:${keyV2}`;
+        const orphan = `enc:v1:${'a'.repeat(16)}:${'b'.repeat(22)}:abc`;
+
+        expect(() => decryptToken(orphan)).toThrow(/No token encryption key for version v1/);
+    });
+
+    it('should reject keys that are not 32 bytes', () => {
+        process.env.TOKEN_ENCRYPTION_KEYS = `1:${randomBytes(16).toString('base64')}`;
+
+        expect(() => encryptToken('oauth-secret')).toThrow(/must be 32 bytes/);
+    });
+});
@@ -0,0 +1,162 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+
+/**
+ * AES-256-GCM encryption for OAuth tokens stored in SocialConnection.
+ *
+ * Ciphertexts are versioned envelopes: `enc:v<key version>:<iv>:<auth tag>:<ciphertext>`
+ * (base64url parts). Keys come from the environment:
+ *
+ *   TOKEN_ENCRYPTION_KEYS=1:<base64 32-byte key>,2:<base64 32-byte key>
+ *   TOKEN_ENCRYPTION_KEY_VERSION=2   # key used for new writes (default: highest)
+ *
+ * Old key versions stay in TOKEN_ENCRYPTION_KEYS until `rotate-token-keys`
+ * has re-encrypted every row with the current one.
+ */
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+const ENVELOPE_PATTERN = /^enc:v(\d+):([\w-]+):([\w-]+):([\w-]*)$/;
+
+/**
+ * Custom error class for token encryption failures
+ */
+export class TokenEncryptionError extends Error {
+    constructor(
+        public code: string,
+        message: string
+    ) {
+        super(message);
+        this.name = 'TokenEncryptionError';
+    }
+}
+
+interface KeyRing {
+    currentVersion: number;
+    keys: Map<number, Buffer>;
+}
+
+let cachedKeyRing: { source: string; keyRing: KeyRing } | undefined;
+
+/**
+ * Parse the key ring from the environment (cached until the env changes)
+ */
+function getKeyRing(): KeyRing {
+    const rawKeys = process.env.TOKEN_ENCRYPTION_KEYS || '';
+    const rawVersion = process.env.TOKEN_ENCRYPTION_KEY_VERSION || '';
+    const source = `${rawKeys}|${rawVersion}`;
+
+    if (cachedKeyRing?.source === source) {
+        return cachedKeyRing.keyRing;
+    }
+
+    const keys = new Map<number, Buffer>();
+
+    for (const entry of rawKeys.split(',').map((part) => part.trim()).filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        const version = parseInt(entry.slice(0, separator));
+        const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+        if (separator < 1 || !Number.isInteger(version) || version < 1) {
+            throw new TokenEncryptionError('KEY_INVALID', 'TOKEN_ENCRYPTION_KEYS entries must look like "<version>:<base64 key>".');
+        }
+
+        if (key.length !== KEY_LENGTH) {
+            throw new TokenEncryptionError('KEY_INVALID', `Token encryption key v${version} must be ${KEY_LENGTH} bytes.`);
+        }
+
+        keys.set(version, key);
+    }
+
+    if (keys.size === 0) {
+        throw new TokenEncryptionError('KEY_MISSING', 'TOKEN_ENCRYPTION_KEYS must be set in environment variables.');
+    }
+
+    const currentVersion = rawVersion ? parseInt(rawVersion) : Math.max(...keys.keys());
+
+    if (!keys.has(currentVersion)) {
+        throw new TokenEncryptionError('KEY_MISSING', `TOKEN_ENCRYPTION_KEY_VERSION ${rawVersion} has no key in TOKEN_ENCRYPTION_KEYS.`);
+    }
+
+    const keyRing = { currentVersion, keys };
+    cachedKeyRing = { source, keyRing };
+
+    return keyRing;
+}
+
+/**
+ * Version of the key new ciphertexts are written with
+ */
+export function getCurrentKeyVersion(): number {
+    return getKeyRing().currentVersion;
+}
+
+export function isEncrypted(value: string): boolean {
+    return ENVELOPE_PATTERN.test(value);
+}
+
+/**
+ * Key version of an envelope, or null for legacy plaintext
+ */
+export function getKeyVersion(value: string): number | null {
+    const match = ENVELOPE_PATTERN.exec(value);
+    return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Whether a stored value is plaintext or encrypted with an older key
+ */
+export function needsReencryption(value: string): boolean {
+    return getKeyVersion(value) !== getCurrentKeyVersion();
+}
+
+/**
+ * Encrypt a token with the current key
+ */
+export function encryptToken(plaintext: string): string {
+    const { currentVersion, keys } = getKeyRing();
+    const iv = randomBytes(IV_LENGTH);
+
+    const cipher = createCipheriv(ALGORITHM, keys.get(currentVersion)!, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [
+        'enc',
+        `v${currentVersion}`,
+        iv.toString('base64url'),
+        tag.toString('base64url'),
+        ciphertext.toString('base64url'),
+    ].join(':');
+}
+
+/**
+ * Decrypt a stored token. Legacy plaintext values (written before
+ * encryption was introduced) are returned unchanged.
+ */
+export function decryptToken(value: string): string {
+    const match = ENVELOPE_PATTERN.exec(value);
+
+    if (!match) {
+        return value;
+    }
+
+    const [, version, iv, tag, ciphertext] = match;
+    const key = getKeyRing().keys.get(parseInt(version));
+
+    if (!key) {
+        throw new TokenEncryptionError('KEY_MISSING', `No token encryption key for version v${version}.`);
+    }
+
+    try {
+        const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+        decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+
+        return Buffer.concat([
+            decipher.update(Buffer.from(ciphertext, 'base64url')),
+            decipher.final(),
+        ]).toString('utf8');
+    } catch {
+        throw new TokenEncryptionError('DECRYPT_FAILED', `Token could not be decrypted with key v${version}.`);
+    }
+}
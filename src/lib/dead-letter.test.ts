@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { replayDeadLetters, discardDeadLetters, listDeadLetters, DeadLetterError } from './dead-letter.js';
+import { prisma } from './db.js';
+
+vi.mock('./db.js', () => ({
+    prisma: {
+        deadLetterJob: {
+            findMany: vi.fn(),
+            update: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        scheduledPost: {
+            findFirst: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        publishIntent: {
+            deleteMany: vi.fn(),
+        },
+    },
+}));
+
+const entry = (id: string, postId: string) => ({
+    id,
+    queueName: 'twitter-post',
+    jobId: `tweet-${postId}`,
+    scheduledPostId: postId,
+    errorCode: 'CONFIG_MISSING',
+});
+
+describe('dead-letter queue', () => {
+    const queue = { name: 'twitter-post', remove: vi.fn() };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should list only unresolved entries matching the filter', async () => {
+        (prisma.deadLetterJob.findMany as any).mockResolvedValue([]);
+
+        await listDeadLetters({ errorCode: 'AUTH_INVALID', userId: 'user-1' }, { limit: 10 });
+
+        expect(prisma.deadLetterJob.findMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: { status: 'DEAD', errorCode: 'AUTH_INVALID', userId: 'user-1' },
+            take: 10,
+        }));
+    });
+
+    it('should remove the old job and reset the post to PENDING on replay', async () => {
+        (prisma.deadLetterJob.findMany as any).mockResolvedValue([entry('dlq-1', 'post-1'), entry('dlq-2', 'post-2')]);
+        // post-2 was already fixed by hand
+        (prisma.scheduledPost.findFirst as any)
+            .mockResolvedValueOnce({ id: 'post-1' })
+            .mockResolvedValueOnce(null);
+
+        const result = await replayDeadLetters([queue as any], { errorCode: 'CONFIG_MISSING' });
+
+        expect(result).toEqual({ replayed: 1, skipped: 1 });
+        expect(queue.remove).toHaveBeenCalledTimes(1);
+        expect(queue.remove).toHaveBeenCalledWith('tweet-post-1');
+        expect(prisma.scheduledPost.updateMany).toHaveBeenCalledWith({
+            where: { id: 'post-1', status: 'FAILED' },
+            data: expect.objectContaining({ status: 'PENDING', jobId: null, errorCode: null }),
+        });
+        // Unconfirmed tweets still get the timeline check on the replayed attempt
+        expect(prisma.publishIntent.deleteMany).not.toHaveBeenCalled();
+        expect(prisma.deadLetterJob.update).toHaveBeenCalledWith({
+            where: { id: 'dlq-1' },
+            data: { status: 'REPLAYED', resolvedAt: expect.any(Date) },
+        });
+    });
+
+    it('should not touch anything on a dry run', async () => {
+        (prisma.deadLetterJob.findMany as any).mockResolvedValue([entry('dlq-1', 'post-1')]);
+
+        const result = await replayDeadLetters([queue as any], { ids: ['dlq-1'] }, { dryRun: true });
+
+        expect(result).toEqual({ replayed: 1, skipped: 0 });
+        expect(queue.remove).not.toHaveBeenCalled();
+        expect(prisma.scheduledPost.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should require a filter for bulk actions', async () => {
+        await expect(replayDeadLetters([queue as any], {})).rejects.toBeInstanceOf(DeadLetterError);
+        await expect(discardDeadLetters({ ids: [] })).rejects.toBeInstanceOf(DeadLetterError);
+        expect(prisma.deadLetterJob.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should discard matching entries', async () => {
+        (prisma.deadLetterJob.updateMany as any).mockResolvedValue({ count: 3 });
+
+        const result = await discardDeadLetters({ userId: 'user-1' });
+
+        expect(result).toEqual({ discarded: 3 });
+        expect(prisma.deadLetterJob.updateMany).toHaveBeenCalledWith({
+            where: { status: 'DEAD', userId: 'user-1' },
+            data: { status: 'DISCARDED', resolvedAt: expect.any(Date) },
+        });
+    });
+});
@@ -0,0 +1,236 @@
+import { prisma } from './db.js';
+import { logger } from './logger.js';
+import type { Job, PostQueue } from './queue.js';
+import type { JobAttempt, JobError, PostJobData } from './types.js';
+
+/**
+ * Dead-letter queue: permanently failed jobs are copied to the DeadLetterJob
+ * table with their full payload and attempt history, so they survive
+ * BullMQ's removeOnFail cleanup and can be replayed after a fix.
+ */
+
+export type DeadLetterStatus = 'DEAD' | 'REPLAYED' | 'DISCARDED';
+
+export interface DeadLetterFilter {
+    ids?: string[];
+    errorCode?: string;
+    userId?: string;
+    platform?: string;
+}
+
+export interface DeadLetterRecord {
+    id: string;
+    queueName: string;
+    jobId: string;
+    jobName: string;
+    scheduledPostId: string;
+    userId: string;
+    platform: string;
+    payload: PostJobData;
+    attemptHistory: JobAttempt[];
+    attemptsMade: number;
+    errorCode: string;
+    errorMessage: string;
+    status: DeadLetterStatus;
+    failedAt: Date;
+    resolvedAt: Date | null;
+}
+
+/**
+ * Custom error class for dead-letter operations
+ */
+export class DeadLetterError extends Error {
+    constructor(
+        public code: string,
+        message: string
+    ) {
+        super(message);
+        this.name = 'DeadLetterError';
+    }
+}
+
+/**
+ * Copy a permanently failed job into the dead-letter table
+ */
+export async function deadLetterJob(
+    job: Job<PostJobData>,
+    error: JobError,
+    attemptHistory: JobAttempt[]
+): Promise<void> {
+    const { attemptHistory: _history, ...payload } = job.data;
+
+    await prisma.deadLetterJob.create({
+        data: {
+            queueName: job.queueName,
+            jobId: job.id,
+            jobName: job.name,
+            scheduledPostId: job.data.scheduledPostId,
+            userId: job.data.userId,
+            platform: job.data.platform,
+            payload,
+            attemptHistory,
+            attemptsMade: attemptHistory.length,
+            errorCode: error.code,
+            errorMessage: error.message,
+        },
+    });
+}
+
+/**
+ * Entries still waiting for a decision, newest first
+ */
+export async function listDeadLetters(
+    filter: DeadLetterFilter = {},
+    options: { limit?: number; cursor?: string } = {}
+): Promise<DeadLetterRecord[]> {
+    const { limit = 50, cursor } = options;
+
+    return prisma.deadLetterJob.findMany({
+        where: toWhere(filter),
+        orderBy: [{ failedAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+}
+
+/**
+ * Count unresolved entries per error code
+ */
+export async function countDeadLetters(filter: DeadLetterFilter = {}): Promise<Record<string, number>> {
+    const groups: { errorCode: string; _count: { _all: number } }[] = await prisma.deadLetterJob.groupBy({
+        by: ['errorCode'],
+        where: toWhere(filter),
+        _count: { _all: true },
+    });
+
+    return Object.fromEntries(groups.map((group) => [group.errorCode, group._count._all]));
+}
+
+/**
+ * Send dead-lettered posts back to the scheduler.
+ *
+ * The old BullMQ job is removed (its deterministic job ID would otherwise
+ * block re-queueing) and the ScheduledPost is reset to PENDING, so the next
+ * scheduler tick validates and queues it again within the posting quota.
+ * Thread progress (`threadTweetIds`) is kept so a half-posted thread resumes,
+ * and so are PENDING publish intents: a job that died with an unknown
+ * outcome checks the timeline again instead of posting twice.
+ */
+export async function replayDeadLetters(
+    queues: PostQueue[],
+    filter: DeadLetterFilter,
+    options: { dryRun?: boolean } = {}
+): Promise<{ replayed: number; skipped: number }> {
+    const entries = await findUnresolved(filter);
+    const stats = { replayed: 0, skipped: 0 };
+
+    if (options.dryRun) {
+        return { replayed: entries.length, skipped: 0 };
+    }
+
+    for (const entry of entries) {
+        const queue = queues.find((candidate) => candidate.name === entry.queueName);
+        const log = logger.child({ deadLetterId: entry.id, postId: entry.scheduledPostId });
+
+        // Only replay posts that are still FAILED; anything else was handled elsewhere
+        const post = await prisma.scheduledPost.findFirst({
+            where: { id: entry.scheduledPostId, status: 'FAILED' },
+            select: { id: true },
+        });
+
+        if (!post || !queue) {
+            stats.skipped++;
+            log.warn({ queue: entry.queueName }, post ? 'Unknown queue, not replaying' : 'Post is no longer FAILED, not replaying');
+            continue;
+        }
+
+        await queue.remove(entry.jobId);
+
+        await prisma.scheduledPost.updateMany({
+            where: { id: entry.scheduledPostId, status: 'FAILED' },
+            data: {
+                status: 'PENDING',
+                jobId: null,
+                queuedAt: null,
+                startedAt: null,
+                completedAt: null,
+                errorCode: null,
+                errorMessage: null,
+            },
+        });
+
+        await resolve(entry.id, 'REPLAYED');
+        stats.replayed++;
+    }
+
+    return stats;
+}
+
+/**
+ * Drop dead-lettered jobs that should not be retried. Their posts stay FAILED.
+ */
+export async function discardDeadLetters(
+    filter: DeadLetterFilter,
+    options: { dryRun?: boolean } = {}
+): Promise<{ discarded: number }> {
+    requireFilter(filter);
+
+    if (options.dryRun) {
+        return { discarded: (await findUnresolved(filter)).length };
+    }
+
+    const { count } = await prisma.deadLetterJob.updateMany({
+        where: toWhere(filter),
+        data: { status: 'DISCARDED', resolvedAt: new Date() },
+    });
+
+    return { discarded: count };
+}
+
+/**
+ * Mark a job's entries REPLAYED after it was retried another way (the
+ * admin API), so they can't be replayed a second time
+ */
+export async function markDeadLettersReplayed(queueName: string, jobId: string): Promise<number> {
+    const { count } = await prisma.deadLetterJob.updateMany({
+        where: { queueName, jobId, status: 'DEAD' },
+        data: { status: 'REPLAYED', resolvedAt: new Date() },
+    });
+
+    return count;
+}
+
+async function findUnresolved(filter: DeadLetterFilter): Promise<DeadLetterRecord[]> {
+    requireFilter(filter);
+
+    return prisma.deadLetterJob.findMany({
+        where: toWhere(filter),
+        orderBy: { failedAt: 'asc' },
+    });
+}
+
+async function resolve(id: string, status: DeadLetterStatus): Promise<void> {
+    await prisma.deadLetterJob.update({
+        where: { id },
+        data: { status, resolvedAt: new Date() },
+    });
+}
+
+// Bulk actions need an explicit selection so an empty filter can't hit every entry
+function requireFilter(filter: DeadLetterFilter): void {
+    const hasFilter = (filter.ids && filter.ids.length > 0) || filter.errorCode || filter.userId || filter.platform;
+
+    if (!hasFilter) {
+        throw new DeadLetterError('FILTER_REQUIRED', 'Select entries by ids, errorCode, userId or platform.');
+    }
+}
+
+function toWhere(filter: DeadLetterFilter) {
+    return {
+        status: 'DEAD',
+        ...(filter.ids && filter.ids.length > 0 && { id: { in: filter.ids } }),
+        ...(filter.errorCode && { errorCode: filter.errorCode }),
+        ...(filter.userId && { userId: filter.userId }),
+        ...(filter.platform && { platform: filter.platform }),
+    };
+}
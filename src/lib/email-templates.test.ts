@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderNotificationEmail, renderWeeklyReportEmail } from './email-templates.js';
+import { buildWeeklyReport, reportPeriod } from './weekly-report.js';
+
+vi.mock('./db.js', () => ({ prisma: {} }));
+
+function makeItem(overrides: Record<string, unknown> = {}) {
+    return {
+        kind: 'POST_FAILED' as const,
+        platform: 'linkedin',
+        preview: 'Release notes <v2>',
+        errorCode: 'RATE_LIMITED',
+        errorMessage: 'Too many requests',
+        postUrl: null,
+        createdAt: new Date('2026-10-19T12:00:00Z'),
+        ...overrides,
+    };
+}
+
+describe('renderNotificationEmail', () => {
+    const appUrl = 'https://app.example.com/';
+
+    it('should escape user content in the HTML part', () => {
+        const email = renderNotificationEmail({ name: 'Ada & co', items: [makeItem()], timeZone: 'UTC', appUrl });
+
+        expect(email.subject).toBe('Your LinkedIn post failed');
+        expect(email.html).toContain('Hi Ada &amp; co');
+        expect(email.html).toContain('Release notes &lt;v2&gt;');
+        expect(email.text).toContain('"Release notes <v2>"');
+    });
+
+    it('should show times in the user\'s timezone', () => {
+        const email = renderNotificationEmail({ name: null, items: [makeItem()], timeZone: 'America/New_York', appUrl });
+
+        expect(email.text).toContain('8:00 AM EDT');
+    });
+
+    it('should link to the connection settings when the account needs reconnecting', () => {
+        const expired = renderNotificationEmail({ name: null, items: [makeItem({ errorCode: 'TOKEN_EXPIRED' })], timeZone: 'UTC', appUrl });
+        const limited = renderNotificationEmail({ name: null, items: [makeItem()], timeZone: 'UTC', appUrl });
+
+        expect(expired.text).toContain('https://app.example.com/settings/connections');
+        expect(limited.text).not.toContain('/settings/connections');
+    });
+
+    it('should list published posts with their links', () => {
+        const email = renderNotificationEmail({
+            name: null,
+            items: [makeItem({ kind: 'POST_PUBLISHED', postUrl: 'https://www.linkedin.com/feed/update/1', errorCode: null })],
+            timeZone: 'UTC',
+            appUrl,
+            moreCount: 3,
+        });
+
+        expect(email.subject).toBe('Your LinkedIn post is live');
+        expect(email.html).toContain('<a href="https://www.linkedin.com/feed/update/1">View post</a>');
+        expect(email.text).toContain('...and 3 more.');
+    });
+});
+
+describe('renderWeeklyReportEmail', () => {
+    it('should summarize the week with escaped content', () => {
+        const period = reportPeriod(new Date('2026-10-19T12:00:00Z'), 'UTC');
+        const data = buildWeeklyReport(period, 'UTC', {
+            achievements: [{ title: 'Merged <script>', type: 'pr_merged', repoName: 'repo', repoUrl: 'https://github.com/a/repo', score: 1, occurredAt: new Date('2026-10-13T10:00:00Z') }],
+            content: [],
+            posts: [{ platform: 'twitter', status: 'FAILED', errorCode: 'DUPLICATE_TWEET', errorMessage: 'Duplicate content', platformUrl: null, completedAt: new Date('2026-10-16T09:00:00Z') }],
+            upcoming: [],
+            syncs: [],
+        });
+
+        const email = renderWeeklyReportEmail({ name: 'Dev', data, appUrl: 'https://app.example.com' });
+
+        expect(email.subject).toBe('Your week on GitXFlow (Oct 12 – Oct 18): 0 posts published, 1 new achievement, 1 failed');
+        expect(email.html).toContain('Merged &lt;script&gt; (repo)');
+        expect(email.text).toContain('- 1 post failed: Duplicate content');
+        expect(email.text).toContain('- Nothing scheduled for the next seven days');
+        expect(email.text).toContain('https://app.example.com/settings/notifications');
+    });
+});
@@ -0,0 +1,233 @@
+import { CONNECTION_ERROR_CODES } from './connections.js';
+import type { WeeklyReportData } from './weekly-report.js';
+
+/**
+ * Plain text + HTML emails about post outcomes. Kept dependency-free: the
+ * templates are small and everything user-provided is escaped.
+ */
+
+export type NotificationKind = 'POST_FAILED' | 'POST_PUBLISHED';
+
+export interface NotificationEmailItem {
+    kind: NotificationKind;
+    platform: string | null;
+    preview: string | null;
+    errorCode: string | null;
+    errorMessage: string | null;
+    postUrl: string | null;
+    createdAt: Date;
+}
+
+export interface RenderedEmail {
+    subject: string;
+    text: string;
+    html: string;
+}
+
+const PLATFORM_NAMES: Record<string, string> = { twitter: 'X (Twitter)', linkedin: 'LinkedIn' };
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function platformName(platform: string | null): string {
+    return platform ? (PLATFORM_NAMES[platform] ?? platform) : 'your account';
+}
+
+function formatTime(date: Date, timeZone: string): string {
+    return new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZoneName: 'short',
+    }).format(date);
+}
+
+function subjectFor(failures: NotificationEmailItem[], published: NotificationEmailItem[]): string {
+    if (failures.length === 1 && published.length === 0) {
+        return `Your ${platformName(failures[0].platform)} post failed`;
+    }
+    if (published.length === 1 && failures.length === 0) {
+        return `Your ${platformName(published[0].platform)} post is live`;
+    }
+
+    const parts = [];
+    if (failures.length > 0) {
+        parts.push(`${failures.length} ${failures.length === 1 ? 'post' : 'posts'} failed`);
+    }
+    if (published.length > 0) {
+        parts.push(`${published.length} published`);
+    }
+    return `Post update: ${parts.join(', ')}`;
+}
+
+/**
+ * Render one email for a user's pending notification items, failures first
+ */
+export function renderNotificationEmail(input: {
+    name: string | null;
+    items: NotificationEmailItem[];
+    timeZone: string;
+    appUrl: string;
+    moreCount?: number; // Items left out of a long digest
+}): RenderedEmail {
+    const failures = input.items.filter((item) => item.kind === 'POST_FAILED');
+    const published = input.items.filter((item) => item.kind === 'POST_PUBLISHED');
+    const reconnectUrl = `${input.appUrl.replace(/\/$/, '')}/settings/connections`;
+    const needsReconnect = failures.some((item) => item.errorCode && CONNECTION_ERROR_CODES.has(item.errorCode));
+
+    const text: string[] = [`Hi ${input.name ?? 'there'},`, ''];
+    const html: string[] = [`<p>Hi ${escapeHtml(input.name ?? 'there')},</p>`];
+
+    if (failures.length > 0) {
+        text.push(failures.length === 1 ? 'This post could not be published:' : 'These posts could not be published:', '');
+        html.push(`<h2>${failures.length === 1 ? 'Failed post' : 'Failed posts'}</h2>`, '<ul>');
+
+        for (const item of failures) {
+            const when = formatTime(item.createdAt, input.timeZone);
+            const reason = item.errorMessage ?? item.errorCode ?? 'Unknown error';
+            text.push(`- ${platformName(item.platform)}, ${when}: "${item.preview ?? ''}"`, `  Reason: ${reason}`);
+            html.push(
+                `<li><strong>${escapeHtml(platformName(item.platform))}</strong>, ${escapeHtml(when)}` +
+                    `<blockquote>${escapeHtml(item.preview ?? '')}</blockquote>Reason: ${escapeHtml(reason)}</li>`
+            );
+        }
+
+        html.push('</ul>');
+        text.push('');
+
+        if (needsReconnect) {
+            text.push(`Reconnect your account to keep posting: ${reconnectUrl}`, '');
+            html.push(`<p><a href="${escapeHtml(reconnectUrl)}">Reconnect your account</a> to keep posting.</p>`);
+        }
+    }
+
+    if (published.length > 0) {
+        text.push(published.length === 1 ? 'This post is live:' : 'These posts are live:', '');
+        html.push(`<h2>${published.length === 1 ? 'Published post' : 'Published posts'}</h2>`, '<ul>');
+
+        for (const item of published) {
+            const when = formatTime(item.createdAt, input.timeZone);
+            text.push(`- ${platformName(item.platform)}, ${when}: "${item.preview ?? ''}"${item.postUrl ? `\n  ${item.postUrl}` : ''}`);
+            html.push(
+                `<li><strong>${escapeHtml(platformName(item.platform))}</strong>, ${escapeHtml(when)}` +
+                    `<blockquote>${escapeHtml(item.preview ?? '')}</blockquote>` +
+                    (item.postUrl ? `<a href="${escapeHtml(item.postUrl)}">View post</a>` : '') +
+                    '</li>'
+            );
+        }
+
+        html.push('</ul>');
+        text.push('');
+    }
+
+    if (input.moreCount) {
+        text.push(`...and ${input.moreCount} more.`, '');
+        html.push(`<p>...and ${input.moreCount} more.</p>`);
+    }
+
+    const settingsUrl = `${input.appUrl.replace(/\/$/, '')}/settings/notifications`;
+    text.push(`Change which emails you get: ${settingsUrl}`);
+    html.push(`<p style="color:#666;font-size:12px"><a href="${escapeHtml(settingsUrl)}">Change which emails you get</a></p>`);
+
+    return {
+        subject: subjectFor(failures, published),
+        text: text.join('\n'),
+        html: html.join('\n'),
+    };
+}
+
+function formatDay(date: Date, timeZone: string): string {
+    return new Intl.DateTimeFormat('en-US', { timeZone, month: 'short', day: 'numeric' }).format(date);
+}
+
+function plural(count: number, word: string): string {
+    return `${count} ${count === 1 ? word : `${word}s`}`;
+}
+
+/**
+ * Render a stored weekly report as an email (also kept on the report for the web app)
+ */
+export function renderWeeklyReportEmail(input: { name: string | null; data: WeeklyReportData; appUrl: string }): RenderedEmail {
+    const { data } = input;
+    const appUrl = input.appUrl.replace(/\/$/, '');
+    const lastDay = new Date(new Date(data.periodEnd).getTime() - 1);
+    const range = `${formatDay(new Date(data.periodStart), data.timeZone)} – ${formatDay(lastDay, data.timeZone)}`;
+
+    const summary = [
+        plural(data.posts.published, 'post') + ' published',
+        plural(data.achievements.total, 'new achievement'),
+    ];
+    if (data.posts.failed > 0) {
+        summary.push(`${data.posts.failed} failed`);
+    }
+
+    const text: string[] = [`Hi ${input.name ?? 'there'},`, '', `Here is what GitXFlow did for you from ${range}:`, ''];
+    const html: string[] = [
+        `<p>Hi ${escapeHtml(input.name ?? 'there')},</p>`,
+        `<p>Here is what GitXFlow did for you from ${escapeHtml(range)}:</p>`,
+    ];
+
+    const section = (title: string, lines: string[], htmlLines: string[] = lines.map(escapeHtml)) => {
+        text.push(title, ...lines.map((line) => `- ${line}`), '');
+        html.push(`<h2>${escapeHtml(title)}</h2>`, '<ul>', ...htmlLines.map((line) => `<li>${line}</li>`), '</ul>');
+    };
+
+    section('Achievements', data.achievements.total === 0
+        ? ['No new achievements this week']
+        : [
+            `${plural(data.achievements.total, 'new achievement')} found`,
+            ...data.achievements.top.map((achievement) => `${achievement.title} (${achievement.repoName})`),
+        ]);
+
+    const formats = Object.entries(data.content.byFormat).map(([format, count]) => `${count} ${format}`).join(', ');
+    section('Content', [data.content.created === 0 ? 'No posts written this week' : `${plural(data.content.created, 'post')} written (${formats})`]);
+
+    const published = data.posts.publishedPosts.map((post) => ({
+        text: `${platformName(post.platform)}, ${formatTime(new Date(post.completedAt), data.timeZone)}${post.url ? `: ${post.url}` : ''}`,
+        html: `${escapeHtml(platformName(post.platform))}, ${escapeHtml(formatTime(new Date(post.completedAt), data.timeZone))}` +
+            (post.url ? ` <a href="${escapeHtml(post.url)}">View post</a>` : ''),
+    }));
+    const failures = data.posts.failureReasons.map((reason) =>
+        `${plural(reason.count, 'post')} failed: ${reason.message ?? reason.errorCode}`
+    );
+    const postLines = [`${data.posts.published} published, ${data.posts.failed} failed`, ...published.map((post) => post.text), ...failures];
+    section('Posts', postLines, [
+        escapeHtml(postLines[0]),
+        ...published.map((post) => post.html),
+        ...failures.map(escapeHtml),
+    ]);
+
+    section('Coming up', data.upcoming.total === 0
+        ? ['Nothing scheduled for the next seven days']
+        : [
+            `${plural(data.upcoming.total, 'post')} scheduled for the next seven days`,
+            ...data.upcoming.next.map((post) =>
+                `${platformName(post.platform)}, ${formatTime(new Date(post.scheduledFor), data.timeZone)}: "${post.preview}"`
+            ),
+        ]);
+
+    section('GitHub sync', data.syncs.runs === 0
+        ? ['No syncs this week']
+        : [
+            `${plural(data.syncs.runs, 'sync')} (${data.syncs.succeeded} succeeded, ${data.syncs.partial} partial, ${data.syncs.failed} failed)`,
+            `${data.syncs.achievementsFound} contributions checked, ${data.syncs.achievementsNew} new`,
+        ]);
+
+    const settingsUrl = `${appUrl}/settings/notifications`;
+    text.push(`Stop weekly reports: ${settingsUrl}`);
+    html.push(`<p style="color:#666;font-size:12px"><a href="${escapeHtml(settingsUrl)}">Stop weekly reports</a></p>`);
+
+    return {
+        subject: `Your week on GitXFlow (${range}): ${summary.join(', ')}`,
+        text: text.join('\n'),
+        html: html.join('\n'),
+    };
+}
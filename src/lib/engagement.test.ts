@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { nextCollectionTime, engagementScore } from './engagement.js';
+
+const publishedAt = new Date('2026-10-19T12:00:00Z');
+const after = (ms: number) => new Date(publishedAt.getTime() + ms);
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+describe('nextCollectionTime', () => {
+    it('should poll often right after publishing and less often later', () => {
+        expect(nextCollectionTime(publishedAt, after(30 * MINUTE))).toEqual(after(45 * MINUTE));
+        expect(nextCollectionTime(publishedAt, after(5 * HOUR))).toEqual(after(6 * HOUR));
+        expect(nextCollectionTime(publishedAt, after(3 * DAY))).toEqual(after(3 * DAY + 6 * HOUR));
+        expect(nextCollectionTime(publishedAt, after(10 * DAY))).toEqual(after(11 * DAY));
+    });
+
+    it('should take a last poll at 30 days and then stop', () => {
+        expect(nextCollectionTime(publishedAt, after(29.5 * DAY))).toEqual(after(30 * DAY));
+        expect(nextCollectionTime(publishedAt, after(30 * DAY))).toBeNull();
+    });
+});
+
+describe('engagementScore', () => {
+    it('should weigh replies and reposts above likes', () => {
+        const base = { likes: 0, reposts: 0, replies: 0, quotes: 0, bookmarks: 0, impressions: 1000 };
+
+        expect(engagementScore({ ...base, likes: 10 })).toBe(10);
+        expect(engagementScore({ ...base, reposts: 2, quotes: 1 })).toBe(6);
+        expect(engagementScore({ ...base, replies: 2, bookmarks: 1 })).toBe(7);
+    });
+});
@@ -0,0 +1,69 @@
+import type { RateLimitSnapshot } from './rate-limit.js';
+
+/**
+ * Engagement of published posts: polling schedule, score and the client
+ * interface the collector fetches public metrics through.
+ */
+
+export interface PostMetrics {
+    likes: number;
+    reposts: number;
+    replies: number;
+    quotes: number;
+    bookmarks: number;
+    impressions: number | null;
+}
+
+export interface MetricsLookup {
+    metrics: Map<string, PostMetrics>; // By platform post ID
+    missing: string[]; // Deleted or no longer visible
+    rateLimit?: RateLimitSnapshot;
+}
+
+/**
+ * Fetches public metrics for a batch of platform post IDs. Injected into the
+ * collector, so tests can use a stub instead of the Twitter API.
+ */
+export interface EngagementClient {
+    maxBatchSize: number;
+    lookup(postIds: string[]): Promise<MetricsLookup>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Poll interval by post age: most engagement happens in the first hours
+export const ENGAGEMENT_SCHEDULE: { maxAgeMs: number; intervalMs: number }[] = [
+    { maxAgeMs: 2 * HOUR_MS, intervalMs: 15 * MINUTE_MS },
+    { maxAgeMs: DAY_MS, intervalMs: HOUR_MS },
+    { maxAgeMs: 7 * DAY_MS, intervalMs: 6 * HOUR_MS },
+    { maxAgeMs: 30 * DAY_MS, intervalMs: DAY_MS },
+];
+
+// Posts older than this are no longer polled
+export const ENGAGEMENT_MAX_AGE_MS = ENGAGEMENT_SCHEDULE[ENGAGEMENT_SCHEDULE.length - 1].maxAgeMs;
+
+/**
+ * When to poll a post published at `publishedAt` next, or null once it is too old
+ */
+export function nextCollectionTime(publishedAt: Date, now: Date): Date | null {
+    const age = now.getTime() - publishedAt.getTime();
+    const step = ENGAGEMENT_SCHEDULE.find((entry) => age < entry.maxAgeMs);
+
+    if (!step) {
+        return null;
+    }
+
+    // The last poll lands at the end of the window, not past it
+    return new Date(Math.min(now.getTime() + step.intervalMs, publishedAt.getTime() + ENGAGEMENT_MAX_AGE_MS));
+}
+
+/**
+ * Weighted engagement used by best-time ranking: replies and reposts take
+ * more effort than a like, so they count more. Impressions are left out
+ * because not every account reports them.
+ */
+export function engagementScore(metrics: PostMetrics): number {
+    return metrics.likes + 2 * metrics.reposts + 2 * metrics.quotes + 3 * metrics.replies + metrics.bookmarks;
+}
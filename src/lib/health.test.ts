@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventEmitter } from 'node:events';
+import { runChecks, createWorkerCheck, withHeartbeat, checkHeartbeats } from './health.js';
+
+vi.mock('./db.js', () => ({ prisma: {} }));
+
+function createFakeWorker(name: string, state: { running?: boolean; paused?: boolean } = {}) {
+    return Object.assign(new EventEmitter(), {
+        name,
+        isRunning: () => state.running ?? true,
+        isPaused: () => state.paused ?? false,
+    });
+}
+
+describe('health checks', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should report each check with its latency and fail if any check fails', async () => {
+        const report = await runChecks({
+            redis: async () => undefined,
+            postgres: async () => {
+                throw new Error('Connection terminated');
+            },
+        });
+
+        expect(report.status).toBe('fail');
+        expect(report.checks.redis).toEqual({ ok: true, latencyMs: expect.any(Number) });
+        expect(report.checks.postgres).toMatchObject({ ok: false, error: 'Connection terminated' });
+    });
+
+    it('should fail a check that does not answer in time', async () => {
+        const report = await runChecks({ redis: () => new Promise(() => undefined) }, 20);
+
+        expect(report.checks.redis).toMatchObject({ ok: false, error: 'Timed out after 20ms' });
+    });
+
+    it('should fail the worker check when a worker stopped, but not on stalled jobs', async () => {
+        const twitter = createFakeWorker('twitter-post');
+        const linkedIn = createFakeWorker('linkedin-post', { running: false });
+
+        const healthy = await runChecks({ worker: createWorkerCheck([twitter as any]) });
+        expect(healthy.checks.worker).toMatchObject({ ok: true, details: { workers: ['twitter-post'] } });
+
+        // Stalls may be jobs another replica lost; they must not restart this one
+        twitter.emit('stalled', 'job-1', 'active');
+        const stalled = await runChecks({ worker: createWorkerCheck([twitter as any]) });
+        expect(stalled.checks.worker.ok).toBe(true);
+
+        const report = await runChecks({ worker: createWorkerCheck([twitter as any, linkedIn as any]) });
+        expect(report.checks.worker.error).toBe('linkedin-post is not running');
+    });
+
+    it('should fail when a cron task misses two runs', async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-10-19T10:00:00Z'));
+
+        const task = withHeartbeat('queueUpcomingPosts', 60 * 1000, async () => undefined);
+
+        vi.setSystemTime(new Date('2026-10-19T10:01:00Z'));
+        await task();
+        await expect(checkHeartbeats()).resolves.toMatchObject({
+            queueUpcomingPosts: '2026-10-19T10:01:00.000Z',
+        });
+
+        vi.setSystemTime(new Date('2026-10-19T10:04:00Z'));
+        await expect(checkHeartbeats()).rejects.toThrow('queueUpcomingPosts last ran 180s ago');
+    });
+});
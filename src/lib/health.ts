@@ -0,0 +1,206 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import type { Redis } from 'ioredis';
+import { prisma } from './db.js';
+import { createRedisClient } from './queue.js';
+import type { Worker } from './queue.js';
+
+/**
+ * Liveness and readiness checks.
+ *
+ *   /livez  - the process itself works (worker running, cron tasks firing). Failing it restarts the instance.
+ *   /readyz - the process can do its job (Redis and Postgres reachable, plus the liveness checks).
+ *             Failing it takes the instance out of rotation.
+ *
+ * Both return `{ status, checks: { <name>: { ok, latencyMs, error?, details? } } }`, with 503 on failure.
+ */
+
+// A single check rejects (or times out) when unhealthy; it may return details
+export type HealthCheck = () => Promise<Record<string, unknown> | void>;
+
+export interface CheckResult {
+    ok: boolean;
+    latencyMs: number;
+    error?: string;
+    details?: Record<string, unknown>;
+}
+
+export interface HealthReport {
+    status: 'ok' | 'fail';
+    checks: Record<string, CheckResult>;
+}
+
+const CHECK_TIMEOUT_MS = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '2000');
+
+/**
+ * Run checks in parallel, each bounded by a timeout
+ */
+export async function runChecks(
+    checks: Record<string, HealthCheck>,
+    timeoutMs: number = CHECK_TIMEOUT_MS
+): Promise<HealthReport> {
+    const entries = await Promise.all(
+        Object.entries(checks).map(async ([name, check]): Promise<[string, CheckResult]> => {
+            const start = performance.now();
+            let timer: NodeJS.Timeout | undefined;
+
+            try {
+                const details = await Promise.race([
+                    check(),
+                    new Promise<never>((_, reject) => {
+                        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+                    }),
+                ]);
+
+                return [name, {
+                    ok: true,
+                    latencyMs: Math.round(performance.now() - start),
+                    ...(details && { details }),
+                }];
+            } catch (error: any) {
+                return [name, {
+                    ok: false,
+                    latencyMs: Math.round(performance.now() - start),
+                    error: error?.message ?? String(error),
+                }];
+            } finally {
+                clearTimeout(timer);
+            }
+        })
+    );
+
+    const results = Object.fromEntries(entries);
+    const ok = entries.every(([, result]) => result.ok);
+
+    return { status: ok ? 'ok' : 'fail', checks: results };
+}
+
+/**
+ * `GET /livez` and `GET /readyz`. Readiness includes the liveness checks.
+ */
+export function createHealthRouter(options: {
+    live: Record<string, HealthCheck>;
+    ready: Record<string, HealthCheck>;
+}): Router {
+    const router = Router();
+
+    const respond = (checks: Record<string, HealthCheck>) =>
+        async (_req: Request, res: Response) => {
+            const report = await runChecks(checks);
+            res.status(report.status === 'ok' ? 200 : 503).json(report);
+        };
+
+    router.get('/livez', respond(options.live));
+    router.get('/readyz', respond({ ...options.ready, ...options.live }));
+
+    return router;
+}
+
+// ---------- Redis / Postgres ----------
+
+let redisClient: Redis | undefined;
+
+/**
+ * PING Redis on a dedicated connection that fails fast instead of queueing commands
+ */
+export const checkRedis: HealthCheck = async () => {
+    redisClient ??= createRedisClient({
+        enableOfflineQueue: false,
+        maxRetriesPerRequest: 1,
+        lazyConnect: true,
+    });
+
+    if (redisClient.status === 'wait' || redisClient.status === 'end') {
+        await redisClient.connect();
+    }
+
+    await redisClient.ping();
+};
+
+/**
+ * Round trip to Postgres through the Prisma pool
+ */
+export const checkPostgres: HealthCheck = async () => {
+    await prisma.$queryRaw`SELECT 1`;
+};
+
+/**
+ * Close the health check Redis connection (graceful shutdown)
+ */
+export async function closeHealthClient(): Promise<void> {
+    await redisClient?.quit().catch(() => undefined);
+    redisClient = undefined;
+}
+
+// ---------- Worker ----------
+
+/**
+ * Check that BullMQ workers are running and not paused.
+ *
+ * Stalled jobs are not part of it: BullMQ reports a stall on whichever
+ * replica's stall checker found the job, not the one that lost it, so one
+ * crashed replica would restart the healthy ones. They are counted in the
+ * `jobs_stalled_total` metric instead.
+ */
+export function createWorkerCheck(workers: Worker[]): HealthCheck {
+    return async () => {
+        const problems: string[] = [];
+
+        for (const worker of workers) {
+            if (!worker.isRunning()) {
+                problems.push(`${worker.name} is not running`);
+            } else if (worker.isPaused()) {
+                problems.push(`${worker.name} is paused`);
+            }
+        }
+
+        if (problems.length > 0) {
+            throw new Error(problems.join('; '));
+        }
+
+        return { workers: workers.map((worker) => worker.name) };
+    };
+}
+
+// ---------- Scheduler ----------
+
+const heartbeats = new Map<string, { intervalMs: number; lastRunAt: number }>();
+
+/**
+ * Wrap a cron task so every completed run records a heartbeat
+ */
+export function withHeartbeat(
+    name: string,
+    intervalMs: number,
+    task: () => Promise<void>
+): () => Promise<void> {
+    heartbeats.set(name, { intervalMs, lastRunAt: Date.now() });
+
+    return async () => {
+        await task();
+        heartbeats.set(name, { intervalMs, lastRunAt: Date.now() });
+    };
+}
+
+/**
+ * Fail when a cron task has missed two runs in a row
+ */
+export const checkHeartbeats: HealthCheck = async () => {
+    const now = Date.now();
+    const details: Record<string, string> = {};
+    const stale: string[] = [];
+
+    for (const [name, { intervalMs, lastRunAt }] of heartbeats) {
+        details[name] = new Date(lastRunAt).toISOString();
+
+        if (now - lastRunAt > intervalMs * 2) {
+            stale.push(`${name} last ran ${Math.round((now - lastRunAt) / 1000)}s ago`);
+        }
+    }
+
+    if (stale.length > 0) {
+        throw new Error(stale.join('; '));
+    }
+
+    return details;
+};
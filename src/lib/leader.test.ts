@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { startLeaderElection, runAsLeader } from './leader.js';
+import { acquireLock, extendLock, releaseLock, getLockOwner } from './lock.js';
+import { registry } from './metrics.js';
+
+vi.mock('./lock.js', () => ({
+    acquireLock: vi.fn(),
+    extendLock: vi.fn(),
+    releaseLock: vi.fn(),
+    getLockOwner: vi.fn(),
+}));
+
+const sample = async (name: string, labels: Record<string, string>) => {
+    const metric = (await registry.getMetricsAsJSON()).find((entry) => entry.name === name);
+    return metric?.values.find((value) =>
+        Object.entries(labels).every(([key, expected]) => value.labels[key] === expected)
+    )?.value;
+};
+
+describe('startLeaderElection', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+        registry.resetMetrics();
+        (releaseLock as any).mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should lead when the lock is free and release it on stop', async () => {
+        (acquireLock as any).mockResolvedValueOnce('instance-a');
+        (extendLock as any).mockResolvedValue(true);
+
+        const election = await startLeaderElection({ name: 'scheduler', ttlMs: 15000, instanceId: 'instance-a' });
+
+        expect(acquireLock).toHaveBeenCalledWith('leader:scheduler', 15000, 'instance-a');
+        expect(election.isLeader()).toBe(true);
+        expect(election.leaderId()).toBe('instance-a');
+        expect(await sample('gitxflow_scheduler_is_leader', { instance: 'instance-a' })).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(extendLock).toHaveBeenCalledWith('leader:scheduler', 'instance-a', 15000);
+
+        await election.stop();
+        expect(releaseLock).toHaveBeenCalledWith('leader:scheduler', 'instance-a');
+        expect(election.isLeader()).toBe(false);
+    });
+
+    it('should follow while another instance holds the lock and take over when it expires', async () => {
+        (acquireLock as any).mockResolvedValueOnce(null).mockResolvedValueOnce('instance-b');
+        (getLockOwner as any).mockResolvedValueOnce('instance-a');
+
+        const election = await startLeaderElection({ name: 'scheduler', ttlMs: 15000, instanceId: 'instance-b' });
+
+        expect(election.isLeader()).toBe(false);
+        expect(election.leaderId()).toBe('instance-a');
+
+        await vi.advanceTimersByTimeAsync(5000);
+
+        expect(election.isLeader()).toBe(true);
+        expect(election.leaderId()).toBe('instance-b');
+        expect(await sample('gitxflow_scheduler_leadership_changes_total', { instance: 'instance-b', event: 'acquired' })).toBe(1);
+
+        await election.stop();
+    });
+
+    it('should step down when the lock can\'t be renewed', async () => {
+        (acquireLock as any).mockResolvedValueOnce('instance-a').mockResolvedValue(null);
+        (extendLock as any).mockRejectedValueOnce(new Error('Connection is closed.'));
+        (getLockOwner as any).mockResolvedValue(null);
+
+        const election = await startLeaderElection({ name: 'scheduler', ttlMs: 15000, instanceId: 'instance-a' });
+        await vi.advanceTimersByTimeAsync(5000);
+
+        expect(election.isLeader()).toBe(false);
+        expect(await sample('gitxflow_scheduler_leadership_changes_total', { instance: 'instance-a', event: 'lost' })).toBe(1);
+
+        await election.stop();
+        expect(releaseLock).not.toHaveBeenCalled();
+    });
+});
+
+describe('runAsLeader', () => {
+    const election = (leader: boolean) => ({
+        instanceId: 'instance-a',
+        isLeader: () => leader,
+        leaderId: () => 'instance-a',
+        stop: vi.fn(),
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should not run the task on a follower', async () => {
+        const task = vi.fn();
+
+        await runAsLeader(election(false), 'queueUpcomingPosts', 60000, task)();
+
+        expect(task).not.toHaveBeenCalled();
+        expect(acquireLock).not.toHaveBeenCalled();
+    });
+
+    it('should run each tick once', async () => {
+        const task = vi.fn().mockResolvedValue(undefined);
+        (acquireLock as any).mockResolvedValueOnce('instance-a').mockResolvedValueOnce(null);
+
+        const run = runAsLeader(election(true), 'queueUpcomingPosts', 60000, task);
+        await run();
+        await run();
+
+        expect(task).toHaveBeenCalledTimes(1);
+        expect((acquireLock as any).mock.calls[0][0]).toMatch(/^tick:queueUpcomingPosts:\d+$/);
+        expect((acquireLock as any).mock.calls[0][1]).toBe(60000);
+    });
+});
@@ -0,0 +1,153 @@
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+import { acquireLock, extendLock, releaseLock, getLockOwner } from './lock.js';
+import { createChildLogger } from './logger.js';
+import { schedulerLeader, leadershipChanges, schedulerTicks } from './metrics.js';
+
+/**
+ * Leader election over a Redis lock, so several scheduler replicas can run
+ * while only one of them fires the cron tasks.
+ *
+ * The leader renews its lock every `renewIntervalMs`. When it dies the lock
+ * expires after `ttlMs` and the next follower to try takes over; a graceful
+ * shutdown releases it right away.
+ */
+
+export interface LeaderElection {
+    readonly instanceId: string;
+    isLeader(): boolean;
+    // Instance ID of the current leader, as last seen by this instance
+    leaderId(): string | null;
+    // Stop campaigning and release leadership
+    stop(): Promise<void>;
+}
+
+/**
+ * ID of this process in lock values, logs and metrics
+ */
+export function defaultInstanceId(): string {
+    return process.env.SCHEDULER_INSTANCE_ID || `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Join the election for `name`. Resolves after the first attempt, so
+ * `isLeader()` is accurate from the start.
+ */
+export async function startLeaderElection(options: {
+    name: string;
+    ttlMs: number;
+    renewIntervalMs?: number;
+    instanceId?: string;
+}): Promise<LeaderElection> {
+    const { name, ttlMs, renewIntervalMs = Math.floor(ttlMs / 3) } = options;
+    const instanceId = options.instanceId ?? defaultInstanceId();
+    const lockName = `leader:${name}`;
+    const log = createChildLogger({ service: 'leader', election: name, instanceId });
+
+    let leader = false;
+    let leaderId: string | null = null;
+    let running: Promise<void> | undefined;
+
+    const setLeader = (value: boolean) => {
+        if (value === leader) {
+            return;
+        }
+
+        leader = value;
+        schedulerLeader.set({ instance: instanceId }, value ? 1 : 0);
+        leadershipChanges.inc({ instance: instanceId, event: value ? 'acquired' : 'lost' });
+
+        if (value) {
+            log.info('Became the leader');
+        } else {
+            log.warn('Lost leadership');
+        }
+    };
+
+    const campaign = async () => {
+        try {
+            if (leader) {
+                // Extending fails when the lock expired and someone else took it
+                setLeader(await extendLock(lockName, instanceId, ttlMs));
+            } else {
+                setLeader(await acquireLock(lockName, ttlMs, instanceId) !== null);
+            }
+
+            const current = leader ? instanceId : await getLockOwner(lockName);
+            if (current !== leaderId) {
+                leaderId = current;
+                if (!leader) {
+                    log.info({ leaderId }, 'Following leader');
+                }
+            }
+        } catch (error: any) {
+            // Without Redis we can't prove we still hold the lock, and it expires on its own
+            log.error({ error: error?.message }, 'Leader election failed, stepping down');
+            setLeader(false);
+        }
+    };
+
+    schedulerLeader.set({ instance: instanceId }, 0);
+    await campaign();
+
+    const timer = setInterval(() => {
+        running ??= campaign().finally(() => {
+            running = undefined;
+        });
+    }, renewIntervalMs);
+
+    return {
+        instanceId,
+        isLeader: () => leader,
+        leaderId: () => leaderId,
+        async stop() {
+            clearInterval(timer);
+            await running;
+
+            if (leader) {
+                await releaseLock(lockName, instanceId).catch(() => false);
+                setLeader(false);
+                log.info('Released leadership');
+            }
+        },
+    };
+}
+
+/**
+ * Wrap a cron task so it runs only on the leader, and at most once per
+ * `intervalMs` tick across all replicas. The tick claim covers the few
+ * seconds in which a paused old leader may not know it was replaced.
+ */
+export function runAsLeader(
+    election: LeaderElection,
+    name: string,
+    intervalMs: number,
+    task: () => Promise<void>
+): () => Promise<void> {
+    return async () => {
+        if (!election.isLeader()) {
+            schedulerTicks.inc({ task: name, outcome: 'not_leader' });
+            return;
+        }
+
+        const log = createChildLogger({ task: name, instanceId: election.instanceId });
+        const tick = Math.floor(Date.now() / intervalMs) * intervalMs;
+
+        let claimed: string | null;
+        try {
+            claimed = await acquireLock(`tick:${name}:${tick}`, intervalMs, election.instanceId);
+        } catch (error: any) {
+            log.error({ error: error?.message }, 'Could not claim tick, skipping');
+            return;
+        }
+
+        if (!claimed) {
+            schedulerTicks.inc({ task: name, outcome: 'already_claimed' });
+            log.warn({ tick: new Date(tick).toISOString() }, 'Tick already run by another instance, skipping');
+            return;
+        }
+
+        schedulerTicks.inc({ task: name, outcome: 'run' });
+        await task();
+    };
+}
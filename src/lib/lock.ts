@@ -0,0 +1,93 @@
+import { randomUUID } from 'node:crypto';
+import type { Redis } from 'ioredis';
+import { createRedisClient } from './queue.js';
+
+const LOCK_PREFIX = 'gitxflow:lock:';
+
+// Delete / extend the key only if we still own it
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const EXTEND_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+let client: Redis | undefined;
+
+function getClient(): Redis {
+    client ??= createRedisClient();
+    return client;
+}
+
+/**
+ * Try to take a lock. Returns the owner token, or null if someone else holds it.
+ */
+export async function acquireLock(name: string, ttlMs: number, token: string = randomUUID()): Promise<string | null> {
+    const result = await getClient().set(LOCK_PREFIX + name, token, 'PX', ttlMs, 'NX');
+    return result === 'OK' ? token : null;
+}
+
+/**
+ * Release a lock we own. Returns false if it expired or was taken over.
+ */
+export async function releaseLock(name: string, token: string): Promise<boolean> {
+    const result = await getClient().eval(RELEASE_SCRIPT, 1, LOCK_PREFIX + name, token);
+    return result === 1;
+}
+
+/**
+ * Push a lock's expiry out. Returns false if we no longer own it.
+ */
+export async function extendLock(name: string, token: string, ttlMs: number): Promise<boolean> {
+    const result = await getClient().eval(EXTEND_SCRIPT, 1, LOCK_PREFIX + name, token, ttlMs);
+    return result === 1;
+}
+
+/**
+ * Current owner token of a lock, or null if free
+ */
+export async function getLockOwner(name: string): Promise<string | null> {
+    return getClient().get(LOCK_PREFIX + name);
+}
+
+/**
+ * Run `fn` while holding a lock, waiting up to `waitMs` for it to be free.
+ * Returns `{ acquired: false }` without running `fn` if the wait times out.
+ */
+export async function withLock<T>(
+    name: string,
+    options: { ttlMs: number; waitMs?: number; retryIntervalMs?: number },
+    fn: () => Promise<T>
+): Promise<{ acquired: true; result: T } | { acquired: false }> {
+    const { ttlMs, waitMs = 0, retryIntervalMs = 250 } = options;
+    const deadline = Date.now() + waitMs;
+
+    let token = await acquireLock(name, ttlMs);
+    while (!token && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, retryIntervalMs));
+        token = await acquireLock(name, ttlMs);
+    }
+
+    if (!token) {
+        return { acquired: false };
+    }
+
+    try {
+        return { acquired: true, result: await fn() };
+    } finally {
+        await releaseLock(name, token);
+    }
+}
+
+/**
+ * Close the shared Redis connection (graceful shutdown)
+ */
+export async function closeLockClient(): Promise<void> {
+    await client?.quit();
+    client = undefined;
+}
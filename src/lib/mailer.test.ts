@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer } from 'node:net';
+import type { Server } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { sendEmail, isEmailConfigured, closeMailer } from './mailer.js';
+
+// Minimal SMTP sink: accepts every message and keeps the raw DATA
+function startSmtpSink(messages: string[]): Promise<Server> {
+    const server = createServer((socket) => {
+        let buffer = '';
+        let data: string | null = null;
+
+        socket.write('220 sink ESMTP\r\n');
+        socket.on('data', (chunk) => {
+            buffer += chunk.toString();
+
+            let newline;
+            while ((newline = buffer.indexOf('\r\n')) !== -1) {
+                const line = buffer.slice(0, newline);
+                buffer = buffer.slice(newline + 2);
+
+                if (data !== null) {
+                    if (line === '.') {
+                        messages.push(data);
+                        data = null;
+                        socket.write('250 OK queued\r\n');
+                    } else {
+                        data += `${line}\n`;
+                    }
+                } else if (/^(EHLO|HELO)/i.test(line)) {
+                    socket.write('250 sink\r\n');
+                } else if (/^DATA/i.test(line)) {
+                    data = '';
+                    socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+                } else if (/^QUIT/i.test(line)) {
+                    socket.end('221 Bye\r\n');
+                } else {
+                    socket.write('250 OK\r\n');
+                }
+            }
+        });
+    });
+
+    return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('sendEmail', () => {
+    const messages: string[] = [];
+    let server: Server;
+
+    beforeAll(async () => {
+        server = await startSmtpSink(messages);
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    afterEach(() => {
+        closeMailer();
+        delete process.env.SMTP_HOST;
+        delete process.env.SMTP_PORT;
+        delete process.env.EMAIL_FROM;
+        messages.length = 0;
+    });
+
+    it('should be off without SMTP settings', () => {
+        expect(isEmailConfigured()).toBe(false);
+    });
+
+    it('should deliver text and HTML parts to the SMTP server', async () => {
+        process.env.SMTP_HOST = '127.0.0.1';
+        process.env.SMTP_PORT = String((server.address() as AddressInfo).port);
+        process.env.EMAIL_FROM = 'GitXFlow <notify@example.com>';
+
+        const messageId = await sendEmail({
+            to: 'dev@example.com',
+            subject: 'Your X (Twitter) post failed',
+            text: 'Reason: Rate limited',
+            html: '<p>Reason: Rate limited</p>',
+        });
+
+        expect(isEmailConfigured()).toBe(true);
+        expect(messageId).toMatch(/@/);
+        expect(messages).toHaveLength(1);
+        expect(messages[0]).toContain('To: dev@example.com');
+        expect(messages[0]).toContain('From: GitXFlow <notify@example.com>');
+        expect(messages[0]).toContain('Subject: Your X (Twitter) post failed');
+        expect(messages[0]).toContain('Content-Type: text/plain');
+        expect(messages[0]).toContain('Content-Type: text/html');
+    });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import sharp from 'sharp';
+import { sniffMediaType, downloadMedia, fitImage, prepareMedia, toMediaItems, MAX_IMAGE_EDGE, MEDIA_SIZE_LIMITS } from './media.js';
+import { safeFetch, SafeFetchError } from './safe-fetch.js';
+
+const bytes = (...parts: (string | number[])[]) =>
+    Buffer.concat(parts.map((part) => (typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part))));
+
+// Files the scheduler pre-fetched, by blob key
+const storedBlobs = vi.hoisted(() => new Map<string, Buffer>());
+
+vi.mock('./blob-store.js', () => ({
+    getBlobStore: () => ({ get: async (key: string) => storedBlobs.get(key) ?? null }),
+}));
+
+// Address and redirect checks are covered in safe-fetch.test.ts; here the stubbed fetch stands in
+vi.mock('./safe-fetch.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('./safe-fetch.js')>()),
+    safeFetch: vi.fn((url: string) => fetch(url)),
+}));
+
+function respondWith(body: ConstructorParameters<typeof Response>[0], status: number = 200) {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { status })));
+}
+
+describe('toMediaItems', () => {
+    it('should accept plain URLs and items with alt text', () => {
+        expect(toMediaItems(['https://a.test/1.png', { url: 'https://a.test/2.png', altText: 'A chart' }])).toEqual([
+            { url: 'https://a.test/1.png' },
+            { url: 'https://a.test/2.png', altText: 'A chart' },
+        ]);
+        expect(toMediaItems(undefined)).toEqual([]);
+    });
+});
+
+describe('sniffMediaType', () => {
+    it('should detect types from magic bytes', () => {
+        expect(sniffMediaType(bytes([0xff, 0xd8, 0xff, 0xe0], 'JFIF\0\0\0\0'))).toEqual({ mimeType: 'image/jpeg', kind: 'image' });
+        expect(sniffMediaType(bytes('\x89PNG\r\n\x1a\n\0\0\0\r'))).toEqual({ mimeType: 'image/png', kind: 'image' });
+        expect(sniffMediaType(bytes('GIF89a\x01\0\x01\0\0\0'))).toEqual({ mimeType: 'image/gif', kind: 'gif' });
+        expect(sniffMediaType(bytes('RIFF\0\0\0\0WEBPVP8 '))).toEqual({ mimeType: 'image/webp', kind: 'image' });
+        expect(sniffMediaType(bytes([0, 0, 0, 0x18], 'ftypisom'))).toEqual({ mimeType: 'video/mp4', kind: 'video' });
+        expect(sniffMediaType(bytes([0, 0, 0, 0x14], 'ftypqt  '))).toEqual({ mimeType: 'video/quicktime', kind: 'video' });
+    });
+
+    it('should reject everything else, including still images in MP4 containers', () => {
+        expect(sniffMediaType(bytes([0, 0, 0, 0x18], 'ftypheic'))).toBeNull();
+        expect(sniffMediaType(bytes('<!DOCTYPE html>'))).toBeNull();
+        expect(sniffMediaType(bytes('%PDF-1.7\n%\xe2\xe3'))).toBeNull();
+    });
+});
+
+describe('downloadMedia', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should trust the bytes, not the Content-Type', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(bytes('GIF89a\x01\0\x01\0\0\0'), {
+            headers: { 'content-type': 'image/jpeg' },
+        })));
+
+        const { type } = await downloadMedia('https://cdn.test/animated.jpg');
+
+        expect(type).toEqual({ mimeType: 'image/gif', kind: 'gif' });
+    });
+
+    it('should reject unsupported files', async () => {
+        respondWith('<html><body>Not found</body></html>');
+
+        await expect(downloadMedia('https://cdn.test/image.png')).rejects.toMatchObject({ code: 'MEDIA_UNSUPPORTED_TYPE', retryable: false });
+    });
+
+    it('should only retry downloads that failed on the server side', async () => {
+        respondWith(null, 404);
+        await expect(downloadMedia('https://cdn.test/gone.png')).rejects.toMatchObject({ code: 'MEDIA_DOWNLOAD_FAILED', retryable: false });
+
+        respondWith(null, 503);
+        await expect(downloadMedia('https://cdn.test/busy.png')).rejects.toMatchObject({ code: 'MEDIA_DOWNLOAD_FAILED', retryable: true });
+
+        await expect(downloadMedia('file:///etc/passwd')).rejects.toMatchObject({ code: 'MEDIA_INVALID_URL' });
+    });
+
+    it('should refuse URLs that point at internal addresses', async () => {
+        vi.mocked(safeFetch).mockRejectedValueOnce(new SafeFetchError('FETCH_BLOCKED', '169.254.169.254 is not a public address', false));
+
+        await expect(downloadMedia('http://169.254.169.254/latest/meta-data/')).rejects.toMatchObject({ code: 'MEDIA_URL_BLOCKED', retryable: false });
+    });
+
+    it('should stop reading once a GIF passes its size limit', async () => {
+        const chunk = Buffer.alloc(1024 * 1024);
+        let pulled = 0;
+
+        respondWith(new ReadableStream({
+            pull(controller) {
+                pulled++;
+                controller.enqueue(pulled === 1 ? bytes('GIF89a\x01\0\x01\0\0\0') : chunk);
+            },
+        }));
+
+        await expect(downloadMedia('https://cdn.test/huge.gif')).rejects.toMatchObject({ code: 'MEDIA_TOO_LARGE', retryable: false });
+        expect(pulled).toBeLessThan(MEDIA_SIZE_LIMITS.gif / chunk.length + 5);
+    });
+});
+
+describe('fitImage', () => {
+    it('should leave images within the limits alone', async () => {
+        const png = await sharp({ create: { width: 200, height: 100, channels: 3, background: '#336699' } }).png().toBuffer();
+
+        expect(await fitImage(png, { mimeType: 'image/png', kind: 'image' })).toEqual({ buffer: png, mimeType: 'image/png', resized: false });
+    });
+
+    it('should downscale oversized images and keep their format when it fits', async () => {
+        const png = await sharp({ create: { width: 6000, height: 3000, channels: 4, background: '#33669980' } }).png().toBuffer();
+
+        const result = await fitImage(png, { mimeType: 'image/png', kind: 'image' });
+        const metadata = await sharp(result.buffer).metadata();
+
+        expect(result).toMatchObject({ mimeType: 'image/png', resized: true });
+        expect([metadata.width, metadata.height]).toEqual([MAX_IMAGE_EDGE, MAX_IMAGE_EDGE / 2]);
+    });
+
+    it('should re-encode images over the size limit as JPEG', async () => {
+        // Noise does not compress, so this PNG is well over 5 MB
+        const noise = randomBytes(1500 * 1500 * 3);
+        const png = await sharp(noise, { raw: { width: 1500, height: 1500, channels: 3 } }).png({ compressionLevel: 1 }).toBuffer();
+        expect(png.length).toBeGreaterThan(MEDIA_SIZE_LIMITS.image);
+
+        const result = await fitImage(png, { mimeType: 'image/png', kind: 'image' });
+
+        expect(result).toMatchObject({ mimeType: 'image/jpeg', resized: true });
+        expect(result.buffer.length).toBeLessThanOrEqual(MEDIA_SIZE_LIMITS.image);
+    });
+
+    it('should reject files that only look like images', async () => {
+        await expect(fitImage(bytes([0xff, 0xd8, 0xff, 0xe0], 'garbage'), { mimeType: 'image/jpeg', kind: 'image' }))
+            .rejects.toMatchObject({ code: 'MEDIA_INVALID' });
+    });
+});
+
+describe('prepareMedia', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should read pre-fetched files from the blob store instead of the URL', async () => {
+        const png = await sharp({ create: { width: 20, height: 20, channels: 3, background: '#000000' } }).png().toBuffer();
+        storedBlobs.set('key-1', png);
+        const fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+
+        const prepared = await prepareMedia({ url: 'https://cdn.test/a.png', altText: 'Dark square', blobKey: 'key-1' });
+
+        expect(prepared).toMatchObject({ buffer: png, mimeType: 'image/png', kind: 'image', altText: 'Dark square' });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should download when the stored file is gone', async () => {
+        respondWith(bytes('GIF89a\x01\0\x01\0\0\0'));
+
+        const prepared = await prepareMedia({ url: 'https://cdn.test/a.gif', blobKey: 'cleaned-up' });
+
+        expect(prepared.kind).toBe('gif');
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject alt text over the limit before downloading', async () => {
+        const fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+
+        await expect(prepareMedia({ url: 'https://cdn.test/a.png', altText: 'x'.repeat(1001) })).rejects.toMatchObject({ code: 'MEDIA_ALT_TEXT_TOO_LONG' });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
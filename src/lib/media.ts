@@ -0,0 +1,305 @@
+import sharp from 'sharp';
+import type { MediaItem } from './types.js';
+import { getBlobStore } from './blob-store.js';
+import { safeFetch, SafeFetchError } from './safe-fetch.js';
+import type { SafeFetchOptions } from './safe-fetch.js';
+
+/**
+ * Media pipeline shared by the platform clients: download, check the real
+ * type from magic bytes, enforce size limits and downscale oversized images.
+ */
+
+/**
+ * Custom error class for media that can't be attached
+ */
+export class MediaError extends Error {
+    constructor(
+        public code: string,
+        message: string,
+        public retryable: boolean
+    ) {
+        super(message);
+        this.name = 'MediaError';
+    }
+}
+
+export type MediaKind = 'image' | 'gif' | 'video';
+
+// The files we accept; all of them are upload types twitter-api-v2 knows
+export type MediaMimeType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' | 'video/mp4' | 'video/quicktime';
+
+export interface MediaType {
+    mimeType: MediaMimeType;
+    kind: MediaKind;
+}
+
+export interface PreparedMedia {
+    url: string;
+    altText?: string;
+    buffer: Buffer;
+    mimeType: MediaMimeType;
+    kind: MediaKind;
+    resized: boolean; // Downscaled or re-encoded to fit the image limit
+}
+
+const MB = 1024 * 1024;
+
+// Twitter's upload limits by kind
+export const MEDIA_SIZE_LIMITS: Record<MediaKind, number> = {
+    image: 5 * MB,
+    gif: 15 * MB,
+    video: (Number(process.env.MEDIA_MAX_VIDEO_MB) || 512) * MB,
+};
+
+// Images over the limit are re-encoded, so larger originals are still downloaded
+const MAX_SOURCE_IMAGE_BYTES = 50 * MB;
+
+// Images are downscaled to this longest edge
+export const MAX_IMAGE_EDGE = 4096;
+
+// Below this the image would be too blurry to be worth posting
+const MIN_IMAGE_EDGE = 512;
+
+const JPEG_QUALITIES = [85, 75, 65];
+
+export const MAX_ALT_TEXT_LENGTH = 1000;
+
+// Long enough for a large video on a slow origin
+const DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Refused fetches keep their meaning; everything else is a download failure
+const FETCH_ERROR_CODES: Record<string, string> = {
+    FETCH_INVALID_URL: 'MEDIA_INVALID_URL',
+    FETCH_BLOCKED: 'MEDIA_URL_BLOCKED',
+    FETCH_TOO_LARGE: 'MEDIA_TOO_LARGE',
+};
+
+// MP4-family containers that hold still images, not video
+const IMAGE_FTYP_BRANDS = new Set(['avif', 'avis', 'heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1']);
+
+/**
+ * Limits for fetching user-supplied media URLs: public addresses only, the
+ * MEDIA_ALLOWED_DOMAINS allowlist when set, and nothing over the largest
+ * file we accept
+ */
+export const MEDIA_FETCH_OPTIONS: SafeFetchOptions = {
+    allowedDomains: (process.env.MEDIA_ALLOWED_DOMAINS || '').split(',').map((domain) => domain.trim()).filter(Boolean),
+    timeoutMs: DOWNLOAD_TIMEOUT_MS,
+    maxBytes: Math.max(MAX_SOURCE_IMAGE_BYTES, MEDIA_SIZE_LIMITS.gif, MEDIA_SIZE_LIMITS.video),
+};
+
+/**
+ * Normalize job `mediaUrls` entries: plain URLs become items without metadata
+ */
+export function toMediaItems(mediaUrls: (string | MediaItem)[] | undefined): MediaItem[] {
+    return (mediaUrls ?? []).map((entry) => (typeof entry === 'string' ? { url: entry } : entry));
+}
+
+/**
+ * Detect the media type from the file's first bytes. Returns null for
+ * anything Twitter doesn't accept, whatever the file name or headers claim.
+ */
+export function sniffMediaType(bytes: Uint8Array): MediaType | null {
+    const ascii = (start: number, end: number) => Buffer.from(bytes.subarray(start, end)).toString('latin1');
+
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+        return { mimeType: 'image/jpeg', kind: 'image' };
+    }
+
+    if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') {
+        return { mimeType: 'image/png', kind: 'image' };
+    }
+
+    if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+        return { mimeType: 'image/gif', kind: 'gif' };
+    }
+
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+        return { mimeType: 'image/webp', kind: 'image' };
+    }
+
+    if (ascii(4, 8) === 'ftyp') {
+        const brand = ascii(8, 12);
+
+        if (IMAGE_FTYP_BRANDS.has(brand)) {
+            return null;
+        }
+
+        return { mimeType: brand === 'qt  ' ? 'video/quicktime' : 'video/mp4', kind: 'video' };
+    }
+
+    return null;
+}
+
+/**
+ * Download a media file, detecting its type from the first bytes and
+ * stopping as soon as it passes the size limit for that type.
+ * `options` override MEDIA_FETCH_OPTIONS, e.g. a shorter timeout.
+ */
+export async function downloadMedia(url: string, options: SafeFetchOptions = {}): Promise<{ buffer: Buffer; type: MediaType }> {
+    if (!/^https?:\/\//i.test(url)) {
+        throw new MediaError('MEDIA_INVALID_URL', `Media URL must be http(s): ${url}`, false);
+    }
+
+    let response: Response;
+
+    try {
+        response = await safeFetch(url, { ...MEDIA_FETCH_OPTIONS, ...options });
+    } catch (error: any) {
+        throw toMediaError(url, error);
+    }
+
+    if (!response.ok || !response.body) {
+        await response.body?.cancel().catch(() => {});
+
+        // A missing or forbidden file stays that way; server trouble may pass
+        const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+        throw new MediaError('MEDIA_DOWNLOAD_FAILED', `Downloading ${url} returned HTTP ${response.status}`, retryable);
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    let type: MediaType | null = null;
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+
+            chunks.push(value);
+            size += value.length;
+
+            // 12 bytes are enough for every signature we know
+            if (!type && size >= 12) {
+                type = sniffMediaType(Buffer.concat(chunks));
+                if (!type) {
+                    throw new MediaError('MEDIA_UNSUPPORTED_TYPE', `${url} is not a JPEG, PNG, WEBP, GIF, MP4 or MOV file`, false);
+                }
+            }
+
+            if (type && size > sourceLimit(type.kind)) {
+                const kinds = type.kind === 'image' ? 'images' : `${type.kind}s`;
+                throw new MediaError('MEDIA_TOO_LARGE', `${url} is over the ${sourceLimit(type.kind) / MB} MB limit for ${kinds}`, false);
+            }
+        }
+    } catch (error: any) {
+        await reader.cancel().catch(() => {});
+
+        if (error instanceof MediaError) {
+            throw error;
+        }
+        throw toMediaError(url, error);
+    }
+
+    const buffer = Buffer.concat(chunks);
+    type ??= sniffMediaType(buffer);
+
+    if (!type) {
+        throw new MediaError('MEDIA_UNSUPPORTED_TYPE', `${url} is not a JPEG, PNG, WEBP, GIF, MP4 or MOV file`, false);
+    }
+
+    return { buffer, type };
+}
+
+/**
+ * Shrink a still image until it fits the image limit: downscale to
+ * MAX_IMAGE_EDGE, then try the original format (PNG keeps transparency),
+ * then JPEG at falling quality, then smaller sizes. Images that already fit
+ * are returned untouched.
+ */
+export async function fitImage(buffer: Buffer, type: MediaType): Promise<{ buffer: Buffer; mimeType: MediaMimeType; resized: boolean }> {
+    const limit = MEDIA_SIZE_LIMITS.image;
+    let longestEdge: number;
+
+    try {
+        const metadata = await sharp(buffer).metadata();
+        longestEdge = Math.max(metadata.width ?? 0, metadata.height ?? 0);
+    } catch {
+        throw new MediaError('MEDIA_INVALID', 'Image could not be decoded', false);
+    }
+
+    if (buffer.length <= limit && longestEdge <= MAX_IMAGE_EDGE) {
+        return { buffer, mimeType: type.mimeType, resized: false };
+    }
+
+    try {
+        return await shrinkImage(buffer, type, Math.min(longestEdge, MAX_IMAGE_EDGE));
+    } catch (error) {
+        if (error instanceof MediaError) {
+            throw error;
+        }
+        throw new MediaError('MEDIA_INVALID', 'Image could not be decoded', false);
+    }
+}
+
+/**
+ * The copy of an item the scheduler pre-fetched into the blob store, or
+ * null when there is none (not pre-fetched, or already cleaned up)
+ */
+export async function readStoredMedia(item: MediaItem): Promise<{ buffer: Buffer; type: MediaType } | null> {
+    if (!item.blobKey) {
+        return null;
+    }
+
+    const buffer = await getBlobStore().get(item.blobKey);
+    const type = buffer && sniffMediaType(buffer);
+
+    return buffer && type ? { buffer, type } : null;
+}
+
+/**
+ * Load (from the blob store, else the URL) and check one item, fitting
+ * images into the image limit
+ */
+export async function prepareMedia(item: MediaItem, options: SafeFetchOptions = {}): Promise<PreparedMedia> {
+    if (item.altText && item.altText.length > MAX_ALT_TEXT_LENGTH) {
+        throw new MediaError('MEDIA_ALT_TEXT_TOO_LONG', `Alt text for ${item.url} is over ${MAX_ALT_TEXT_LENGTH} characters`, false);
+    }
+
+    const { buffer, type } = await readStoredMedia(item) ?? await downloadMedia(item.url, options);
+    const prepared = { url: item.url, altText: item.altText, buffer, mimeType: type.mimeType, kind: type.kind, resized: false };
+
+    if (type.kind !== 'image') {
+        // GIFs and videos can't be shrunk here, so the download limit is the upload limit
+        return prepared;
+    }
+
+    return { ...prepared, ...(await fitImage(buffer, type)) };
+}
+
+function toMediaError(url: string, error: any): MediaError {
+    if (error instanceof SafeFetchError) {
+        return new MediaError(FETCH_ERROR_CODES[error.code] ?? 'MEDIA_DOWNLOAD_FAILED', `Could not download ${url}: ${error.message}`, error.retryable);
+    }
+    return new MediaError('MEDIA_DOWNLOAD_FAILED', `Could not download ${url}: ${error.message}`, true);
+}
+
+function sourceLimit(kind: MediaKind): number {
+    return kind === 'image' ? MAX_SOURCE_IMAGE_BYTES : MEDIA_SIZE_LIMITS[kind];
+}
+
+async function shrinkImage(buffer: Buffer, type: MediaType, startEdge: number): Promise<{ buffer: Buffer; mimeType: MediaMimeType; resized: boolean }> {
+    for (let edge = startEdge; edge >= MIN_IMAGE_EDGE; edge = Math.floor(edge * 0.75)) {
+        // rotate() applies the EXIF orientation before the metadata is dropped
+        const resized = sharp(buffer).rotate().resize({ width: edge, height: edge, fit: 'inside', withoutEnlargement: true });
+
+        if (type.mimeType !== 'image/jpeg') {
+            const sameFormat = await resized.clone().toFormat(type.mimeType === 'image/png' ? 'png' : 'webp').toBuffer();
+            if (sameFormat.length <= MEDIA_SIZE_LIMITS.image) {
+                return { buffer: sameFormat, mimeType: type.mimeType, resized: true };
+            }
+        }
+
+        for (const quality of JPEG_QUALITIES) {
+            const jpeg = await resized.clone().flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true }).toBuffer();
+            if (jpeg.length <= MEDIA_SIZE_LIMITS.image) {
+                return { buffer: jpeg, mimeType: 'image/jpeg', resized: true };
+            }
+        }
+    }
+
+    throw new MediaError('MEDIA_TOO_LARGE', `Image could not be reduced below ${MEDIA_SIZE_LIMITS.image / MB} MB`, false);
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { registry, recordJobOutcome, registerQueueDepthMetrics, secondsLate } from './metrics.js';
+
+const sample = async (name: string, labels: Record<string, string>) => {
+    const metric = (await registry.getMetricsAsJSON()).find((entry) => entry.name === name);
+    return metric?.values.find((value) =>
+        Object.entries(labels).every(([key, expected]) => value.labels[key] === expected)
+    )?.value;
+};
+
+describe('metrics', () => {
+    beforeEach(() => {
+        registry.resetMetrics();
+    });
+
+    it('should count job outcomes by platform and error code', async () => {
+        const startedAt = Date.now() - 1500;
+
+        recordJobOutcome('twitter', 'posted', startedAt);
+        recordJobOutcome('twitter', 'retried', startedAt, 'RATE_LIMITED');
+        recordJobOutcome('twitter', 'retried', startedAt, 'RATE_LIMITED');
+        recordJobOutcome('linkedin', 'failed', startedAt, 'AUTH_INVALID');
+
+        expect(await sample('gitxflow_jobs_processed_total', { platform: 'twitter' })).toBe(1);
+        expect(await sample('gitxflow_jobs_retried_total', { platform: 'twitter', error_code: 'RATE_LIMITED' })).toBe(2);
+        expect(await sample('gitxflow_jobs_failed_total', { platform: 'linkedin', error_code: 'AUTH_INVALID' })).toBe(1);
+        expect(await registry.metrics()).toContain(
+            'gitxflow_job_duration_seconds_count{platform="twitter",outcome="retried"} 2'
+        );
+    });
+
+    it('should read queue depth by state on scrape', async () => {
+        registerQueueDepthMetrics([{
+            name: 'twitter-post',
+            getJobCounts: async () => ({ waiting: 2, prioritized: 3, active: 1, completed: 9, failed: 4, delayed: 7 }),
+        } as any]);
+
+        const text = await registry.metrics();
+
+        expect(text).toContain('gitxflow_queue_jobs{queue="twitter-post",state="waiting"} 5');
+        expect(text).toContain('gitxflow_queue_jobs{queue="twitter-post",state="delayed"} 7');
+    });
+
+    it('should measure lateness and treat early posts as on time', () => {
+        const scheduledFor = new Date('2026-10-19T10:00:00Z');
+
+        expect(secondsLate(scheduledFor, new Date('2026-10-19T10:02:30Z'))).toBe(150);
+        expect(secondsLate(scheduledFor, new Date('2026-10-19T09:59:00Z'))).toBe(0);
+    });
+});
@@ -0,0 +1,225 @@
+import { Registry, Counter, Gauge, Histogram, collectDefaultMetrics } from 'prom-client';
+import type { RequestHandler } from 'express';
+import { getQueueMetrics } from './queue.js';
+import type { PostQueue } from './queue.js';
+
+/**
+ * Prometheus metrics for the worker and scheduler, served at `/metrics`.
+ * Each service registers its own metrics into one process-wide registry.
+ */
+export const registry = new Registry();
+
+const PREFIX = 'gitxflow_';
+
+// Lateness buckets: seconds to a day (posts can be held back for a full rate limit window)
+const LAG_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600, 1800, 3600, 7200, 21600, 86400];
+
+// ---------- Worker ----------
+
+export const jobsProcessed = new Counter({
+    name: `${PREFIX}jobs_processed_total`,
+    help: 'Post jobs that published successfully',
+    labelNames: ['platform'] as const,
+    registers: [registry],
+});
+
+export const jobsFailed = new Counter({
+    name: `${PREFIX}jobs_failed_total`,
+    help: 'Post jobs that failed for good (non-retryable or retry budget spent)',
+    labelNames: ['platform', 'error_code'] as const,
+    registers: [registry],
+});
+
+export const jobsRetried = new Counter({
+    name: `${PREFIX}jobs_retried_total`,
+    help: 'Failed post job attempts handed back to BullMQ for a retry',
+    labelNames: ['platform', 'error_code'] as const,
+    registers: [registry],
+});
+
+export const jobsStalled = new Counter({
+    name: `${PREFIX}jobs_stalled_total`,
+    help: 'Jobs whose lock expired and were moved back to wait, counted by the replica that found them',
+    labelNames: ['queue'] as const,
+    registers: [registry],
+});
+
+export const jobDuration = new Histogram({
+    name: `${PREFIX}job_duration_seconds`,
+    help: 'Time spent processing one post job attempt',
+    labelNames: ['platform', 'outcome'] as const,
+    buckets: [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+    registers: [registry],
+});
+
+export const twitterApiDuration = new Histogram({
+    name: `${PREFIX}twitter_api_duration_seconds`,
+    help: 'Twitter API request latency',
+    labelNames: ['endpoint', 'status'] as const,
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30],
+    registers: [registry],
+});
+
+export const mediaUploads = new Counter({
+    name: `${PREFIX}media_uploads_total`,
+    help: 'Media attachments processed, by result (uploaded, download_failed, invalid, upload_failed)',
+    labelNames: ['platform', 'result'] as const,
+    registers: [registry],
+});
+
+export const publishLag = new Histogram({
+    name: `${PREFIX}post_publish_lag_seconds`,
+    help: 'How long after scheduledFor a post was actually published',
+    labelNames: ['platform'] as const,
+    buckets: LAG_BUCKETS,
+    registers: [registry],
+});
+
+export const webhookDeliveries = new Counter({
+    name: `${PREFIX}webhook_deliveries_total`,
+    help: 'Webhook delivery attempts by event type and outcome (delivered, retried, failed)',
+    labelNames: ['event', 'outcome'] as const,
+    registers: [registry],
+});
+
+export const notificationEmails = new Counter({
+    name: `${PREFIX}notification_emails_total`,
+    help: 'Notification emails (digests, weekly reports) by outcome (sent, failed)',
+    labelNames: ['outcome'] as const,
+    registers: [registry],
+});
+
+// ---------- Scheduler ----------
+
+export const postsQueued = new Counter({
+    name: `${PREFIX}scheduler_posts_queued_total`,
+    help: 'Posts added to a platform queue',
+    labelNames: ['platform'] as const,
+    registers: [registry],
+});
+
+export const postsQueuedPerTick = new Histogram({
+    name: `${PREFIX}scheduler_posts_queued_per_tick`,
+    help: 'Posts queued by one run of the queue-upcoming task',
+    buckets: [0, 1, 5, 10, 25, 50, 100, 250],
+    registers: [registry],
+});
+
+export const stuckJobsRecovered = new Counter({
+    name: `${PREFIX}scheduler_stuck_jobs_recovered_total`,
+    help: 'Posts stuck in PROCESSING that were reset for another attempt',
+    labelNames: ['platform'] as const,
+    registers: [registry],
+});
+
+export const overduePostLag = new Gauge({
+    name: `${PREFIX}scheduler_oldest_overdue_post_seconds`,
+    help: 'How far the oldest unpublished post is past its scheduledFor (0 when none are late)',
+    labelNames: ['platform'] as const,
+    registers: [registry],
+});
+
+export const schedulerLeader = new Gauge({
+    name: `${PREFIX}scheduler_is_leader`,
+    help: '1 while this scheduler instance is the leader that runs the cron tasks',
+    labelNames: ['instance'] as const,
+    registers: [registry],
+});
+
+export const leadershipChanges = new Counter({
+    name: `${PREFIX}scheduler_leadership_changes_total`,
+    help: 'Times this scheduler instance became (acquired) or stopped being (lost) the leader',
+    labelNames: ['instance', 'event'] as const,
+    registers: [registry],
+});
+
+export const schedulerTicks = new Counter({
+    name: `${PREFIX}scheduler_ticks_total`,
+    help: 'Cron ticks by outcome (run, not_leader, already_claimed)',
+    labelNames: ['task', 'outcome'] as const,
+    registers: [registry],
+});
+
+export const postListenerConnected = new Gauge({
+    name: `${PREFIX}scheduler_post_listener_connected`,
+    help: '1 while the scheduler is LISTENing for ready-post notifications from Postgres',
+    registers: [registry],
+});
+
+export const mediaPrefetches = new Counter({
+    name: `${PREFIX}scheduler_media_prefetch_total`,
+    help: 'Media fetched into the blob store when a post is queued, by outcome (stored, failed)',
+    labelNames: ['platform', 'outcome'] as const,
+    registers: [registry],
+});
+
+export const engagementSnapshots = new Counter({
+    name: `${PREFIX}scheduler_engagement_snapshots_total`,
+    help: 'Engagement polls by outcome (collected, missing = post deleted or hidden)',
+    labelNames: ['platform', 'outcome'] as const,
+    registers: [registry],
+});
+
+/**
+ * Seconds between two times, never negative (early posts count as on time)
+ */
+export function secondsLate(scheduledFor: Date, at: Date = new Date()): number {
+    return Math.max(0, (at.getTime() - scheduledFor.getTime()) / 1000);
+}
+
+/**
+ * Record the outcome of one job attempt
+ */
+export function recordJobOutcome(
+    platform: string,
+    outcome: 'posted' | 'retried' | 'failed',
+    startedAt: number,
+    errorCode?: string
+): void {
+    jobDuration.observe({ platform, outcome }, (Date.now() - startedAt) / 1000);
+
+    if (outcome === 'posted') {
+        jobsProcessed.inc({ platform });
+    } else if (outcome === 'retried') {
+        jobsRetried.inc({ platform, error_code: errorCode ?? 'UNKNOWN_ERROR' });
+    } else {
+        jobsFailed.inc({ platform, error_code: errorCode ?? 'UNKNOWN_ERROR' });
+    }
+}
+
+/**
+ * Report queue depth by state, read from Redis on every scrape
+ */
+export function registerQueueDepthMetrics(queues: PostQueue[]): void {
+    new Gauge({
+        name: `${PREFIX}queue_jobs`,
+        help: 'Jobs in each queue by state',
+        labelNames: ['queue', 'state'] as const,
+        registers: [registry],
+        async collect() {
+            this.reset();
+            for (const queue of queues) {
+                const metrics = await getQueueMetrics(queue);
+                for (const [state, count] of Object.entries(metrics)) {
+                    this.set({ queue: queue.name, state }, count);
+                }
+            }
+        },
+    });
+}
+
+/**
+ * Turn on process metrics (CPU, memory, event loop lag) labeled with the service name
+ */
+export function initMetrics(service: string): void {
+    registry.setDefaultLabels({ service });
+    collectDefaultMetrics({ register: registry, prefix: PREFIX });
+}
+
+/**
+ * Express handler for `GET /metrics`
+ */
+export const metricsHandler: RequestHandler = async (_req, res) => {
+    res.set('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+};
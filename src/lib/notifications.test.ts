@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { notifyPostOutcome, sendNotificationDigest, processEmailJob, wantsEmail } from './notifications.js';
+import { prisma } from './db.js';
+import { isEmailConfigured, sendEmail } from './mailer.js';
+
+const queueAdd = vi.fn();
+
+vi.mock('./db.js', () => ({
+    prisma: {
+        userPreferences: {
+            findUnique: vi.fn(),
+        },
+        user: {
+            findUnique: vi.fn(),
+        },
+        notificationItem: {
+            create: vi.fn(),
+            findMany: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        weeklyReport: {
+            findUnique: vi.fn(),
+            update: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('./queue.js', () => ({
+    createEmailQueue: () => ({ add: queueAdd }),
+}));
+
+vi.mock('./mailer.js', () => ({
+    isEmailConfigured: vi.fn(),
+    sendEmail: vi.fn(),
+}));
+
+const jobData = {
+    scheduledPostId: 'post-1',
+    userId: 'user-1',
+    contentId: 'content-1',
+    platform: 'twitter',
+    content: 'Shipped a new release',
+    priority: 0,
+    scheduledFor: '2026-10-19T12:00:00Z',
+} as any;
+
+const failed = { success: false, error: { code: 'RATE_LIMITED', message: 'Too many requests', retryable: false } };
+
+function makeItem(id: string, kind: string, overrides: Record<string, unknown> = {}) {
+    return {
+        id,
+        kind,
+        platform: 'twitter',
+        preview: `Post ${id}`,
+        errorCode: kind === 'POST_FAILED' ? 'RATE_LIMITED' : null,
+        errorMessage: kind === 'POST_FAILED' ? 'Too many requests' : null,
+        postUrl: kind === 'POST_PUBLISHED' ? `https://twitter.com/i/status/${id}` : null,
+        createdAt: new Date('2026-10-19T12:00:00Z'),
+        ...overrides,
+    };
+}
+
+const job = { data: { userId: 'user-1' }, attemptsMade: 0 } as any;
+
+describe('wantsEmail', () => {
+    it('should follow emailNotifications, and achievementAlerts for published posts', () => {
+        expect(wantsEmail('POST_FAILED', null)).toBe(true);
+        expect(wantsEmail('POST_PUBLISHED', null)).toBe(true);
+        expect(wantsEmail('POST_FAILED', { emailNotifications: true, achievementAlerts: false })).toBe(true);
+        expect(wantsEmail('POST_PUBLISHED', { emailNotifications: true, achievementAlerts: false })).toBe(false);
+        expect(wantsEmail('POST_FAILED', { emailNotifications: false, achievementAlerts: true })).toBe(false);
+    });
+});
+
+describe('notifyPostOutcome', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (isEmailConfigured as any).mockReturnValue(true);
+        (prisma.userPreferences.findUnique as any).mockResolvedValue(null);
+    });
+
+    it('should store the outcome and queue the digest for the end of the window', async () => {
+        vi.useFakeTimers({ now: new Date('2026-10-19T12:07:00Z'), toFake: ['Date'] });
+
+        expect(await notifyPostOutcome(jobData, failed)).toBe(true);
+
+        vi.useRealTimers();
+        expect(prisma.notificationItem.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({
+                userId: 'user-1',
+                kind: 'POST_FAILED',
+                preview: 'Shipped a new release',
+                errorCode: 'RATE_LIMITED',
+            }),
+        });
+
+        const windowEnd = new Date('2026-10-19T12:15:00Z').getTime();
+        expect(queueAdd).toHaveBeenCalledWith('digest', { userId: 'user-1' }, {
+            jobId: `digest-user-1-${windowEnd}`,
+            delay: 8 * 60 * 1000,
+        });
+    });
+
+    it('should respect the user\'s preferences', async () => {
+        (prisma.userPreferences.findUnique as any).mockResolvedValue({ emailNotifications: true, achievementAlerts: false });
+
+        expect(await notifyPostOutcome(jobData, { success: true, postUrl: 'https://twitter.com/i/status/1' })).toBe(false);
+        expect(prisma.notificationItem.create).not.toHaveBeenCalled();
+    });
+
+    it('should skip cancelled posts and do nothing without SMTP', async () => {
+        expect(await notifyPostOutcome(jobData, { success: false, error: { code: 'POST_CANCELLED', message: '', retryable: false } })).toBe(false);
+
+        (isEmailConfigured as any).mockReturnValue(false);
+        expect(await notifyPostOutcome(jobData, failed)).toBe(false);
+
+        expect(prisma.userPreferences.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should never throw', async () => {
+        (prisma.notificationItem.create as any).mockRejectedValue(new Error('Connection lost'));
+
+        expect(await notifyPostOutcome(jobData, failed)).toBe(false);
+    });
+});
+
+describe('sendNotificationDigest', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (prisma.user.findUnique as any).mockResolvedValue({
+            email: 'dev@example.com',
+            name: 'Dev',
+            preferences: { emailNotifications: true, achievementAlerts: true, timezone: 'Europe/Berlin' },
+        });
+        (sendEmail as any).mockResolvedValue('<message@example.com>');
+    });
+
+    it('should send all pending items in one email and mark them SENT', async () => {
+        (prisma.notificationItem.findMany as any).mockResolvedValue([
+            makeItem('1', 'POST_PUBLISHED'),
+            makeItem('2', 'POST_FAILED'),
+            makeItem('3', 'POST_FAILED'),
+        ]);
+
+        await sendNotificationDigest(job);
+
+        expect(sendEmail).toHaveBeenCalledTimes(1);
+        const email = (sendEmail as any).mock.calls[0][0];
+        expect(email.to).toBe('dev@example.com');
+        expect(email.subject).toBe('Post update: 2 posts failed, 1 published');
+        expect(email.text.indexOf('Post 2')).toBeLessThan(email.text.indexOf('Post 1')); // Failures first
+        expect(prisma.notificationItem.updateMany).toHaveBeenCalledWith({
+            where: { id: { in: ['1', '2', '3'] }, status: 'PENDING' },
+            data: { status: 'SENT', sentAt: expect.any(Date) },
+        });
+    });
+
+    it('should mark items the user no longer wants as SKIPPED', async () => {
+        (prisma.user.findUnique as any).mockResolvedValue({
+            email: 'dev@example.com',
+            name: null,
+            preferences: { emailNotifications: true, achievementAlerts: false, timezone: 'UTC' },
+        });
+        (prisma.notificationItem.findMany as any).mockResolvedValue([makeItem('1', 'POST_PUBLISHED'), makeItem('2', 'POST_FAILED')]);
+
+        await sendNotificationDigest(job);
+
+        expect(prisma.notificationItem.updateMany).toHaveBeenCalledWith({
+            where: { id: { in: ['1'] }, status: 'PENDING' },
+            data: { status: 'SKIPPED' },
+        });
+        expect((sendEmail as any).mock.calls[0][0].subject).toBe('Your X (Twitter) post failed');
+    });
+
+    it('should throw and keep the items PENDING when sending fails', async () => {
+        (prisma.notificationItem.findMany as any).mockResolvedValue([makeItem('1', 'POST_FAILED')]);
+        (sendEmail as any).mockRejectedValue(new Error('421 Service not available'));
+
+        await expect(sendNotificationDigest(job)).rejects.toThrow('421');
+        expect(prisma.notificationItem.updateMany).not.toHaveBeenCalled();
+    });
+});
+
+describe('weekly report emails', () => {
+    const reportJob = { name: 'weekly-report', data: { userId: 'user-1', reportId: 'report-1' }, attemptsMade: 0 } as any;
+
+    function makeReport(overrides: Record<string, unknown> = {}) {
+        return {
+            id: 'report-1',
+            subject: 'Your week on GitXFlow',
+            text: 'text',
+            html: '<p>html</p>',
+            sentAt: null,
+            user: { email: 'dev@example.com', preferences: { weeklyReports: true } },
+            ...overrides,
+        };
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (isEmailConfigured as any).mockReturnValue(true);
+        (sendEmail as any).mockResolvedValue('<message@example.com>');
+    });
+
+    it('should send the stored report and mark it sent', async () => {
+        (prisma.weeklyReport.findUnique as any).mockResolvedValue(makeReport());
+
+        await processEmailJob(reportJob);
+
+        expect(sendEmail).toHaveBeenCalledWith({ to: 'dev@example.com', subject: 'Your week on GitXFlow', text: 'text', html: '<p>html</p>' });
+        expect(prisma.weeklyReport.update).toHaveBeenCalledWith({ where: { id: 'report-1' }, data: { sentAt: expect.any(Date) } });
+    });
+
+    it('should not send a report twice or after weekly reports were turned off', async () => {
+        (prisma.weeklyReport.findUnique as any)
+            .mockResolvedValueOnce(makeReport({ sentAt: new Date() }))
+            .mockResolvedValueOnce(makeReport({ user: { email: 'dev@example.com', preferences: { weeklyReports: false } } }));
+
+        await processEmailJob(reportJob);
+        await processEmailJob(reportJob);
+
+        expect(sendEmail).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,240 @@
+import { prisma } from './db.js';
+import { createChildLogger } from './logger.js';
+import { createEmailQueue } from './queue.js';
+import type { Job, Queue } from './queue.js';
+import type { EmailDigestJobData, EmailJobData, WeeklyReportJobData, JobResult, PostJobData } from './types.js';
+import { isEmailConfigured, sendEmail } from './mailer.js';
+import { renderNotificationEmail } from './email-templates.js';
+import type { NotificationEmailItem, NotificationKind } from './email-templates.js';
+import { resolveTimeZone } from './timezone.js';
+import { notificationEmails } from './metrics.js';
+
+/**
+ * Email notifications about post outcomes.
+ *
+ * Each outcome is stored as a NotificationItem and a delayed digest job is
+ * queued for the end of the user's current digest window. Everything still
+ * pending when the job runs goes out in one email, so a burst of failures
+ * becomes a single message instead of one per post.
+ *
+ * The same queue sends the weekly reports the scheduler stores.
+ */
+
+const DIGEST_WINDOW_MS = parseInt(process.env.EMAIL_DIGEST_WINDOW_MINUTES || '15') * 60 * 1000;
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+// Items listed in one email; the rest are counted and marked sent with them
+const MAX_ITEMS_PER_EMAIL = 50;
+const PREVIEW_LENGTH = 140;
+
+interface NotificationPreferences {
+    emailNotifications: boolean;
+    achievementAlerts: boolean;
+}
+
+let queue: Queue<EmailJobData> | undefined;
+
+function getQueue(): Queue<EmailJobData> {
+    queue ??= createEmailQueue();
+    return queue;
+}
+
+/**
+ * Whether the user wants email about this kind of outcome. Users without a
+ * preferences row get the schema defaults (both on).
+ */
+export function wantsEmail(kind: NotificationKind, preferences: NotificationPreferences | null): boolean {
+    if (!preferences) {
+        return true;
+    }
+    if (!preferences.emailNotifications) {
+        return false;
+    }
+    return kind === 'POST_FAILED' || preferences.achievementAlerts;
+}
+
+/**
+ * Record a finished post for the user's next digest. Never throws: an email
+ * that can't be queued must not fail the post.
+ */
+export async function notifyPostOutcome(data: PostJobData, result: JobResult): Promise<boolean> {
+    const log = createChildLogger({ service: 'notifications', postId: data.scheduledPostId });
+
+    if (!isEmailConfigured() || result.error?.code === 'POST_CANCELLED') {
+        return false;
+    }
+
+    const kind: NotificationKind = result.success ? 'POST_PUBLISHED' : 'POST_FAILED';
+
+    try {
+        const preferences: NotificationPreferences | null = await prisma.userPreferences.findUnique({
+            where: { userId: data.userId },
+            select: { emailNotifications: true, achievementAlerts: true },
+        });
+
+        if (!wantsEmail(kind, preferences)) {
+            return false;
+        }
+
+        await prisma.notificationItem.create({
+            data: {
+                userId: data.userId,
+                kind,
+                scheduledPostId: data.scheduledPostId,
+                platform: data.platform,
+                preview: data.content.length > PREVIEW_LENGTH ? `${data.content.slice(0, PREVIEW_LENGTH - 1)}…` : data.content,
+                errorCode: result.error?.code,
+                errorMessage: result.error?.message,
+                postUrl: result.postUrl,
+            },
+        });
+
+        await scheduleDigest(data.userId);
+        return true;
+    } catch (error: any) {
+        log.error({ error: error?.message }, 'Failed to record notification');
+        return false;
+    }
+}
+
+/**
+ * Queue the digest job for the end of the current window. The job ID is per
+ * user and window, so later items in the same window join the same email.
+ */
+async function scheduleDigest(userId: string, now: Date = new Date()): Promise<void> {
+    const windowEnd = (Math.floor(now.getTime() / DIGEST_WINDOW_MS) + 1) * DIGEST_WINDOW_MS;
+
+    await getQueue().add(
+        'digest',
+        { userId },
+        { jobId: `digest-${userId}-${windowEnd}`, delay: windowEnd - now.getTime() }
+    );
+}
+
+/**
+ * Send the user's pending notification items in one email. Items the user no
+ * longer wants (preferences changed since) are marked SKIPPED. Throws when the
+ * SMTP server refuses the message so BullMQ retries; the items stay PENDING.
+ */
+export async function sendNotificationDigest(job: Job<EmailDigestJobData>): Promise<void> {
+    const { userId } = job.data;
+    const log = createChildLogger({ service: 'notifications', userId });
+
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+            email: true,
+            name: true,
+            preferences: { select: { emailNotifications: true, achievementAlerts: true, timezone: true } },
+        },
+    });
+
+    const items: (NotificationEmailItem & { id: string })[] = await prisma.notificationItem.findMany({
+        where: { userId, status: 'PENDING' },
+        orderBy: { createdAt: 'asc' },
+    });
+
+    if (items.length === 0) {
+        return;
+    }
+
+    const wanted = user?.email ? items.filter((item) => wantsEmail(item.kind, user.preferences)) : [];
+    const skipped = items.filter((item) => !wanted.includes(item));
+
+    if (skipped.length > 0) {
+        await prisma.notificationItem.updateMany({
+            where: { id: { in: skipped.map((item) => item.id) }, status: 'PENDING' },
+            data: { status: 'SKIPPED' },
+        });
+        log.debug({ skipped: skipped.length }, 'Skipped notifications the user no longer wants');
+    }
+
+    if (wanted.length === 0) {
+        return;
+    }
+
+    const email = renderNotificationEmail({
+        name: user.name,
+        items: wanted.slice(0, MAX_ITEMS_PER_EMAIL),
+        moreCount: Math.max(0, wanted.length - MAX_ITEMS_PER_EMAIL),
+        timeZone: resolveTimeZone(user.preferences?.timezone),
+        appUrl: APP_URL,
+    });
+
+    try {
+        await sendEmail({ to: user.email, ...email });
+    } catch (error: any) {
+        notificationEmails.inc({ outcome: 'failed' });
+        log.warn({ error: error?.message, attempt: job.attemptsMade + 1 }, 'Failed to send notification email');
+        throw error;
+    }
+
+    await prisma.notificationItem.updateMany({
+        where: { id: { in: wanted.map((item) => item.id) }, status: 'PENDING' },
+        data: { status: 'SENT', sentAt: new Date() },
+    });
+
+    notificationEmails.inc({ outcome: 'sent' });
+    log.info({ items: wanted.length, subject: email.subject }, 'Sent notification email');
+}
+
+/**
+ * Queue the email for a stored weekly report
+ */
+export async function queueWeeklyReportEmail(userId: string, reportId: string): Promise<void> {
+    await getQueue().add('weekly-report', { userId, reportId }, { jobId: `weekly-report-${reportId}` });
+}
+
+/**
+ * Email a stored weekly report, unless it was sent already or the user turned
+ * weekly reports off since. Throws when the SMTP server refuses it so BullMQ retries.
+ */
+export async function sendWeeklyReport(job: Job<WeeklyReportJobData>): Promise<void> {
+    const { reportId } = job.data;
+    const log = createChildLogger({ service: 'notifications', reportId });
+
+    if (!isEmailConfigured()) {
+        log.debug('Email is not configured, not sending weekly report');
+        return;
+    }
+
+    const report = await prisma.weeklyReport.findUnique({
+        where: { id: reportId },
+        include: { user: { select: { email: true, preferences: { select: { weeklyReports: true } } } } },
+    });
+
+    if (!report || report.sentAt || !report.user.email || !report.user.preferences?.weeklyReports) {
+        return;
+    }
+
+    try {
+        await sendEmail({ to: report.user.email, subject: report.subject, text: report.text, html: report.html });
+    } catch (error: any) {
+        notificationEmails.inc({ outcome: 'failed' });
+        log.warn({ error: error?.message, attempt: job.attemptsMade + 1 }, 'Failed to send weekly report');
+        throw error;
+    }
+
+    await prisma.weeklyReport.update({ where: { id: reportId }, data: { sentAt: new Date() } });
+
+    notificationEmails.inc({ outcome: 'sent' });
+    log.info('Sent weekly report');
+}
+
+/**
+ * Email worker entry point: routes jobs by name
+ */
+export async function processEmailJob(job: Job<EmailJobData>): Promise<void> {
+    if (job.name === 'weekly-report') {
+        return sendWeeklyReport(job as Job<WeeklyReportJobData>);
+    }
+    return sendNotificationDigest(job as Job<EmailDigestJobData>);
+}
+
+/**
+ * Close the shared email queue connection (graceful shutdown)
+ */
+export async function closeNotificationQueue(): Promise<void> {
+    await queue?.close();
+    queue = undefined;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { adjustToPostingWindow, parseLocalTime } from './posting-window.js';
+
+describe('adjustToPostingWindow', () => {
+    const window = {
+        timezone: 'America/New_York',
+        quietHoursStart: '22:00',
+        quietHoursEnd: '07:00',
+        postingDays: [1, 2, 3, 4, 5], // weekdays
+    };
+
+    it('should leave times inside the window alone', () => {
+        const date = new Date('2026-10-20T14:00:00Z'); // Tue 10:00 EDT
+
+        expect(adjustToPostingWindow(date, window)).toEqual({ scheduledFor: date, reason: undefined });
+    });
+
+    it('should move a late-evening post to the end of quiet hours the next morning', () => {
+        const result = adjustToPostingWindow(new Date('2026-10-21T03:00:00Z'), window); // Tue 23:00 EDT
+
+        expect(result).toEqual({ scheduledFor: new Date('2026-10-21T11:00:00Z'), reason: 'QUIET_HOURS' }); // Wed 07:00
+    });
+
+    it('should move an early-morning post to the end of quiet hours the same day', () => {
+        const result = adjustToPostingWindow(new Date('2026-10-21T09:00:00Z'), window); // Wed 05:00 EDT
+
+        expect(result.scheduledFor).toEqual(new Date('2026-10-21T11:00:00Z'));
+    });
+
+    it('should skip days the user does not post on', () => {
+        const result = adjustToPostingWindow(new Date('2026-10-24T16:00:00Z'), window); // Sat 12:00 EDT
+
+        expect(result).toEqual({ scheduledFor: new Date('2026-10-26T11:00:00Z'), reason: 'POSTING_DAY' }); // Mon 07:00
+    });
+
+    it('should use the local offset after a DST change', () => {
+        // Friday night before New York falls back (Sunday 2026-11-01); Monday 07:00 is EST
+        const result = adjustToPostingWindow(new Date('2026-10-31T03:00:00Z'), window); // Fri 23:00 EDT
+
+        expect(result.scheduledFor).toEqual(new Date('2026-11-02T12:00:00Z'));
+    });
+
+    it('should ignore missing or malformed settings', () => {
+        const date = new Date('2026-10-24T03:00:00Z');
+
+        expect(adjustToPostingWindow(date, { timezone: 'UTC', quietHoursStart: '25:00', quietHoursEnd: '07:00', postingDays: [] }))
+            .toEqual({ scheduledFor: date, reason: undefined });
+        expect(parseLocalTime('7:05')).toBe(425);
+        expect(parseLocalTime(null)).toBeNull();
+    });
+});
@@ -0,0 +1,100 @@
+import { toZonedTime, fromZonedTime, addLocalDays, resolveTimeZone } from './timezone.js';
+import type { LocalDateTime } from './timezone.js';
+
+/**
+ * When a user allows posts to go out, from UserPreferences
+ */
+export interface PostingWindow {
+    timezone: string; // IANA name, e.g. "Europe/Berlin"
+    quietHoursStart?: string | null; // "HH:MM" local; may wrap past midnight ("22:00"-"07:00")
+    quietHoursEnd?: string | null;
+    postingDays?: number[]; // 0 = Sunday ... 6 = Saturday; empty means every day
+}
+
+export type RescheduleReason = 'QUIET_HOURS' | 'POSTING_DAY';
+
+export interface WindowAdjustment {
+    scheduledFor: Date;
+    reason?: RescheduleReason; // Set when the time was moved (first rule that moved it)
+}
+
+// A week of disallowed days plus quiet hours each day is the most that can be skipped
+const MAX_STEPS = 16;
+
+/**
+ * Move a time out of quiet hours and off disallowed days, to the start of the
+ * next allowed slot in the user's timezone. Times already allowed are returned unchanged.
+ */
+export function adjustToPostingWindow(date: Date, window: PostingWindow): WindowAdjustment {
+    const { timeZone, quiet, postingDays } = parseWindow(window);
+
+    let scheduledFor = date;
+    let reason: RescheduleReason | undefined;
+
+    for (let step = 0; step < MAX_STEPS; step++) {
+        const local = toZonedTime(scheduledFor, timeZone);
+        const today: LocalDateTime = { year: local.year, month: local.month, day: local.day, hour: 0, minute: 0 };
+
+        if (postingDays && !postingDays.includes(local.weekday)) {
+            scheduledFor = fromZonedTime(addLocalDays(today, 1), timeZone);
+            reason ??= 'POSTING_DAY';
+            continue;
+        }
+
+        const minutes = local.hour * 60 + local.minute;
+        if (quiet && isQuiet(minutes, quiet.start, quiet.end)) {
+            // Quiet hours that wrap midnight end tomorrow when we're in the evening part
+            const endsTomorrow = quiet.start > quiet.end && minutes >= quiet.start;
+            const endDay = addLocalDays(today, endsTomorrow ? 1 : 0);
+
+            scheduledFor = fromZonedTime({ ...endDay, hour: Math.floor(quiet.end / 60), minute: quiet.end % 60 }, timeZone);
+            reason ??= 'QUIET_HOURS';
+            continue;
+        }
+
+        break;
+    }
+
+    return { scheduledFor, reason };
+}
+
+/**
+ * Whether a local weekday and time (minutes after midnight) is outside quiet hours on a posting day
+ */
+export function isAllowedLocalTime(weekday: number, minutes: number, window: PostingWindow): boolean {
+    const { quiet, postingDays } = parseWindow(window);
+
+    if (postingDays && !postingDays.includes(weekday)) {
+        return false;
+    }
+
+    return !(quiet && isQuiet(minutes, quiet.start, quiet.end));
+}
+
+/**
+ * "HH:MM" to minutes after midnight; null when unset or malformed
+ */
+export function parseLocalTime(value: string | null | undefined): number | null {
+    const match = value ? /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value) : null;
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+// Normalized settings: unknown timezone is UTC, empty quiet hours or posting days mean no restriction
+function parseWindow(window: PostingWindow) {
+    const quietStart = parseLocalTime(window.quietHoursStart);
+    const quietEnd = parseLocalTime(window.quietHoursEnd);
+
+    return {
+        timeZone: resolveTimeZone(window.timezone),
+        quiet: quietStart !== null && quietEnd !== null && quietStart !== quietEnd
+            ? { start: quietStart, end: quietEnd }
+            : null,
+        postingDays: window.postingDays && window.postingDays.length > 0 ? window.postingDays : null,
+    };
+}
+
+function isQuiet(minutes: number, start: number, end: number): boolean {
+    return start < end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+}
@@ -1,6 +1,9 @@
 import { Queue, Worker, Job, QueueEvents } from 'bullmq';
 import type { ConnectionOptions, JobsOptions } from 'bullmq';
-import type { TwitterPostJobData, JobResult } from './types.js';
+import { Redis } from 'ioredis';
+import type { RedisOptions } from 'ioredis';
+import type { TwitterPostJobData, LinkedInPostJobData, WebhookJobData, EmailJobData, JobResult, QueueMetrics } from './types.js';
+import { MAX_JOB_ATTEMPTS, RETRY_BACKOFF_TYPE, retryBackoffStrategy } from './retry-policy.js';
 
 // Redis connection config
 export const getConnection = (): ConnectionOptions => ({
@@ -12,18 +15,25 @@ export const getConnection = (): ConnectionOptions => ({
     tls: process.env.REDIS_HOST?.includes('upstash')? {} : undefined,
 });
 
+// Plain Redis client for locks and other non-queue state
+export function createRedisClient(overrides: RedisOptions = {}): Redis {
+    return new Redis({ ...(getConnection() as RedisOptions), ...overrides });
+}
+
 // Queue names
 export const QUEUE_NAMES = {
     TWITTER_POST: 'twitter-post',
     LINKEDIN_POST: 'linkedin-post',
+    WEBHOOK_DELIVERY: 'webhook-delivery',
+    EMAIL_NOTIFICATION: 'email-notification',
 } as const;
 
 // Default job options
+// Retry delays and per-error-code attempt budgets live in retry-policy.ts
 export const DEFAULT_JOB_OPTIONS: JobsOptions = {
-    attempts: 3,
+    attempts: MAX_JOB_ATTEMPTS,
     backoff: {
-        type: 'exponential',
-        delay: 60000,
+        type: RETRY_BACKOFF_TYPE,
     },
     removeOnComplete: {
         age: 86400,
@@ -42,8 +52,11 @@ export const JOB_PRIORITY = {
     LOW: 10,
 } as const;
 
+// Either platform's post queue, for code that reads or removes jobs across platforms
+export type PostQueue = Queue<TwitterPostJobData, JobResult> | Queue<LinkedInPostJobData, JobResult>;
+
 // Create Twitter post queue
-export function createTwitterQueue(): Queue<TwitterPostJobData> {
+export function createTwitterQueue(): Queue<TwitterPostJobData, JobResult> {
     return new Queue(QUEUE_NAMES.TWITTER_POST, {
         connection: getConnection(),
         defaultJobOptions: DEFAULT_JOB_OPTIONS,
@@ -62,6 +75,107 @@ export function createTwitterWorker(
             max: 10,
             duration: 60000,
         },
+        settings: {
+            backoffStrategy: retryBackoffStrategy,
+        },
+    });
+}
+
+// Create LinkedIn post queue
+export function createLinkedInQueue(): Queue<LinkedInPostJobData, JobResult> {
+    return new Queue(QUEUE_NAMES.LINKEDIN_POST, {
+        connection: getConnection(),
+        defaultJobOptions: DEFAULT_JOB_OPTIONS,
+    });
+}
+
+// Create LinkedIn worker
+export function createLinkedInWorker(
+    processor: (job: Job<LinkedInPostJobData>) => Promise<JobResult>,
+    concurrency: number = 5
+): Worker<LinkedInPostJobData, JobResult> {
+    return new Worker(QUEUE_NAMES.LINKEDIN_POST, processor, {
+        connection: getConnection(),
+        concurrency,
+        limiter: {
+            max: 10,
+            duration: 60000,
+        },
+        settings: {
+            backoffStrategy: retryBackoffStrategy,
+        },
+    });
+}
+
+// Webhook deliveries retry on their own schedule: ~30s, 1m, 2m ... about 1h in total
+export const WEBHOOK_JOB_OPTIONS: JobsOptions = {
+    attempts: 8,
+    backoff: {
+        type: 'exponential',
+        delay: 30000,
+    },
+    removeOnComplete: {
+        age: 86400,
+        count: 1000,
+    },
+    removeOnFail: {
+        age: 604800,
+        count: 5000,
+    },
+};
+
+// Create webhook delivery queue
+export function createWebhookQueue(): Queue<WebhookJobData> {
+    return new Queue(QUEUE_NAMES.WEBHOOK_DELIVERY, {
+        connection: getConnection(),
+        defaultJobOptions: WEBHOOK_JOB_OPTIONS,
+    });
+}
+
+// Create webhook delivery worker
+export function createWebhookWorker(
+    processor: (job: Job<WebhookJobData>) => Promise<void>,
+    concurrency: number = 5
+): Worker<WebhookJobData, void> {
+    return new Worker(QUEUE_NAMES.WEBHOOK_DELIVERY, processor, {
+        connection: getConnection(),
+        concurrency,
+    });
+}
+
+// Emails retry for about half an hour if the mail server is down
+export const EMAIL_JOB_OPTIONS: JobsOptions = {
+    attempts: 5,
+    backoff: {
+        type: 'exponential',
+        delay: 60000,
+    },
+    removeOnComplete: {
+        age: 86400,
+        count: 1000,
+    },
+    removeOnFail: {
+        age: 604800,
+        count: 5000,
+    },
+};
+
+// Create email notification queue (digests and weekly reports)
+export function createEmailQueue(): Queue<EmailJobData> {
+    return new Queue(QUEUE_NAMES.EMAIL_NOTIFICATION, {
+        connection: getConnection(),
+        defaultJobOptions: EMAIL_JOB_OPTIONS,
+    });
+}
+
+// Create email notification worker (one at a time is plenty for digests)
+export function createEmailWorker(
+    processor: (job: Job<EmailJobData>) => Promise<void>,
+    concurrency: number = 1
+): Worker<EmailJobData, void> {
+    return new Worker(QUEUE_NAMES.EMAIL_NOTIFICATION, processor, {
+        connection: getConnection(),
+        concurrency,
     });
 }
 
@@ -72,5 +186,18 @@ export function createQueueEvents(queueName: string): QueueEvents {
     });
 }
 
+// Job counts for a queue (prioritized jobs are waiting to be picked up too)
+export async function getQueueMetrics(queue: PostQueue): Promise<QueueMetrics> {
+    const counts = await queue.getJobCounts('waiting', 'prioritized', 'active', 'completed', 'failed', 'delayed');
+
+    return {
+        waiting: (counts.waiting ?? 0) + (counts.prioritized ?? 0),
+        active: counts.active ?? 0,
+        completed: counts.completed ?? 0,
+        failed: counts.failed ?? 0,
+        delayed: counts.delayed ?? 0,
+    };
+}
+
 // Re-export types
 export type { Job, Queue, Worker, QueueEvents, JobsOptions };
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { pickPostingWindow, pickAppWindow, computePostingQuota, hasQuota, consumeQuota } from './rate-limit.js';
+
+vi.mock('./db.js', () => ({ prisma: {} }));
+
+describe('Rate limit quota', () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    const resetAt = new Date('2026-01-01T12:15:00Z');
+
+    describe('pickPostingWindow', () => {
+        it('should pick the window with the fewest posts remaining', () => {
+            const window = pickPostingWindow({
+                limit: 100,
+                remaining: 80,
+                reset: 1000,
+                day: { limit: 17, remaining: 2, reset: 5000 },
+            });
+
+            expect(window).toEqual({ limit: 17, remaining: 2, reset: 5000 });
+        });
+
+        it('should use the endpoint window when there is no daily window', () => {
+            expect(pickPostingWindow({ limit: 100, remaining: 80, reset: 1000 }))
+                .toEqual({ limit: 100, remaining: 80, reset: 1000 });
+        });
+    });
+
+    describe('pickAppWindow', () => {
+        it('should only keep the app-wide daily window', () => {
+            expect(pickAppWindow({ limit: 100, remaining: 0, reset: 1000, day: { limit: 17, remaining: 2, reset: 5000 } }))
+                .toEqual({ limit: 17, remaining: 2, reset: 5000 });
+            expect(pickAppWindow({ limit: 100, remaining: 0, reset: 1000 })).toBeUndefined();
+        });
+    });
+
+    describe('computePostingQuota', () => {
+        it('should subtract posts already in flight', () => {
+            const quota = computePostingQuota({ postsRemaining: 5, windowResetAt: resetAt }, 3, now);
+            expect(quota).toEqual({ remaining: 2, resetAt });
+        });
+
+        it('should never go below zero', () => {
+            const quota = computePostingQuota({ postsRemaining: 1, windowResetAt: resetAt }, 3, now);
+            expect(quota?.remaining).toBe(0);
+        });
+
+        it('should treat a window that already reset as unknown', () => {
+            const quota = computePostingQuota(
+                { postsRemaining: 0, windowResetAt: new Date('2026-01-01T11:59:00Z') },
+                0,
+                now
+            );
+            expect(quota).toBeNull();
+        });
+    });
+
+    describe('consumeQuota', () => {
+        it('should hold posts once the window is used up', () => {
+            const quota = { remaining: 1, resetAt };
+
+            expect(consumeQuota(quota, now)).toBe(true);
+            expect(consumeQuota(quota, now)).toBe(false);
+        });
+
+        it('should check for room without taking any', () => {
+            const quota = { remaining: 1, resetAt };
+
+            expect(hasQuota(quota, now)).toBe(true);
+            expect(quota.remaining).toBe(1);
+        });
+
+        it('should allow posts due after the window resets', () => {
+            const quota = { remaining: 0, resetAt };
+
+            expect(consumeQuota(quota, new Date('2026-01-01T12:16:00Z'))).toBe(true);
+        });
+
+        it('should allow everything when no limit is known', () => {
+            expect(consumeQuota(null, now)).toBe(true);
+        });
+    });
+});
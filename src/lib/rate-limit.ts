@@ -0,0 +1,154 @@
+import { prisma } from './db.js';
+import { logger } from './logger.js';
+
+/**
+ * A single rate limit window as reported by `x-rate-limit-*` style headers
+ */
+export interface RateLimitSnapshot {
+    limit: number;
+    remaining: number;
+    reset: number; // Unix timestamp (seconds) when the window resets
+}
+
+/**
+ * Posting quota left in the current window, as seen by the scheduler
+ */
+export interface PostingQuota {
+    remaining: number;
+    resetAt: Date;
+}
+
+/**
+ * Pick the most restrictive window from a Twitter rate limit: when this
+ * user's next post can go out. POST /2/tweets reports the 15-minute endpoint
+ * window, which counts per user, plus an app-wide 24h window
+ * (`x-app-limit-24hour-*`).
+ */
+export function pickPostingWindow(
+    rateLimit: RateLimitSnapshot & { day?: RateLimitSnapshot }
+): RateLimitSnapshot {
+    const windows = [rateLimit, rateLimit.day].filter(
+        (window): window is RateLimitSnapshot => !!window && Number.isFinite(window.remaining)
+    );
+
+    return windows.reduce((tightest, window) =>
+        window.remaining < tightest.remaining ? window : tightest
+    );
+}
+
+/**
+ * The app-wide 24h window, the only one every user's posts share. The
+ * 15-minute window counts per user, so one user spending it must not hold
+ * back the platform.
+ */
+export function pickAppWindow(
+    rateLimit: RateLimitSnapshot & { day?: RateLimitSnapshot }
+): RateLimitSnapshot | undefined {
+    return rateLimit.day && Number.isFinite(rateLimit.day.remaining) ? rateLimit.day : undefined;
+}
+
+/**
+ * Save the platform's app-wide posting window from real rate limit headers.
+ * Tracking failures are logged, never thrown: they must not fail a job.
+ */
+export async function recordRateLimit(
+    platform: string,
+    window: RateLimitSnapshot | undefined,
+    options: { posted?: boolean } = {}
+): Promise<void> {
+    const lastPost = options.posted ? { lastPostAt: new Date() } : {};
+
+    try {
+        if (!window) {
+            // No headers (e.g. platform without rate limit headers): only track activity
+            if (options.posted) {
+                await prisma.rateLimitState.updateMany({
+                    where: { platform },
+                    data: { ...lastPost, consecutiveFailures: 0 },
+                });
+            }
+            return;
+        }
+
+        const state = {
+            postsLimit: window.limit,
+            postsRemaining: window.remaining,
+            windowResetAt: new Date(window.reset * 1000),
+            ...lastPost,
+        };
+
+        await prisma.rateLimitState.upsert({
+            where: { platform },
+            create: { platform, ...state },
+            update: {
+                ...state,
+                ...(options.posted && { consecutiveFailures: 0 }), // Reset on success
+            },
+        });
+    } catch (error) {
+        logger.warn({ error, platform }, 'Failed to update rate limit state');
+    }
+}
+
+/**
+ * Load the posting quota left for a platform, net of posts already queued
+ * or processing (they will spend quota before anything new does).
+ * Returns null when there is no known limit.
+ */
+export async function getPostingQuota(platform: string, now: Date = new Date()): Promise<PostingQuota | null> {
+    const state = await prisma.rateLimitState.findUnique({ where: { platform } });
+
+    if (!state) {
+        return null;
+    }
+
+    const inFlight = await prisma.scheduledPost.count({
+        where: {
+            platform,
+            status: { in: ['QUEUED', 'PROCESSING'] },
+        },
+    });
+
+    return computePostingQuota(state, inFlight, now);
+}
+
+/**
+ * Quota left in the current window. A window that has already reset is
+ * treated as unknown (null) until the next post reports fresh headers.
+ */
+export function computePostingQuota(
+    state: { postsRemaining: number; windowResetAt: Date | null },
+    inFlight: number,
+    now: Date = new Date()
+): PostingQuota | null {
+    if (!state.windowResetAt || state.windowResetAt <= now) {
+        return null;
+    }
+
+    return {
+        remaining: Math.max(0, state.postsRemaining - inFlight),
+        resetAt: state.windowResetAt,
+    };
+}
+
+/**
+ * Whether the quota has room for a post. Posts due after the window resets
+ * belong to the next window and are always allowed.
+ */
+export function hasQuota(quota: PostingQuota | null, scheduledFor: Date): boolean {
+    return !quota || scheduledFor >= quota.resetAt || quota.remaining > 0;
+}
+
+/**
+ * Take one post from the quota, or return false when it has no room
+ */
+export function consumeQuota(quota: PostingQuota | null, scheduledFor: Date): boolean {
+    if (!hasQuota(quota, scheduledFor)) {
+        return false;
+    }
+
+    if (quota && scheduledFor < quota.resetAt) {
+        quota.remaining--;
+    }
+    return true;
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseRecurrenceRule,
+    nextOccurrence,
+    nextRecurrenceTime,
+    renderOccurrence,
+    RecurrenceError,
+} from './recurrence.js';
+
+const start = new Date('2026-10-05T09:00:00Z'); // Monday
+
+describe('parseRecurrenceRule', () => {
+    it('should parse cron and RRULE rules', () => {
+        expect(parseRecurrenceRule('0 9 * * 1').kind).toBe('cron');
+        expect(parseRecurrenceRule('RRULE:FREQ=MONTHLY;BYDAY=1MO')).toMatchObject({
+            kind: 'rrule',
+            freq: 'MONTHLY',
+            interval: 1,
+            byDay: [{ weekday: 1, ordinal: 1 }],
+        });
+    });
+
+    it('should reject unsupported or malformed rules', () => {
+        expect(() => parseRecurrenceRule('not a cron')).toThrow(RecurrenceError);
+        expect(() => parseRecurrenceRule('FREQ=YEARLY')).toThrow(/Unsupported FREQ/);
+        expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYSETPOS=1')).toThrow(/BYSETPOS/);
+        expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow(/FREQ=MONTHLY/);
+        expect(() => parseRecurrenceRule('FREQ=DAILY;INTERVAL=0')).toThrow(/INTERVAL/);
+    });
+});
+
+describe('nextOccurrence', () => {
+    it('should follow a cron expression', () => {
+        const rule = parseRecurrenceRule('0 9 * * 1');
+
+        expect(nextOccurrence(rule, new Date('2026-10-19T09:00:00Z'), start)).toEqual(new Date('2026-10-26T09:00:00Z'));
+    });
+
+    it('should find the first Monday of each month', () => {
+        const rule = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=1MO;BYHOUR=10;BYMINUTE=30');
+
+        expect(nextOccurrence(rule, start, start)).toEqual(new Date('2026-10-05T10:30:00Z'));
+        expect(nextOccurrence(rule, new Date('2026-10-05T10:30:00Z'), start)).toEqual(new Date('2026-11-02T10:30:00Z'));
+        expect(nextOccurrence(rule, new Date('2026-11-02T10:30:00Z'), start)).toEqual(new Date('2026-12-07T10:30:00Z'));
+    });
+
+    it('should find the last Friday of the month', () => {
+        const rule = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=-1FR');
+
+        expect(nextOccurrence(rule, start, start)).toEqual(new Date('2026-10-30T09:00:00Z'));
+    });
+
+    it('should count intervals from the start', () => {
+        const rule = parseRecurrenceRule('FREQ=DAILY;INTERVAL=30');
+
+        expect(nextOccurrence(rule, start, start)).toEqual(new Date('2026-11-04T09:00:00Z'));
+        expect(nextOccurrence(rule, new Date('2026-12-01T00:00:00Z'), start)).toEqual(new Date('2026-12-04T09:00:00Z'));
+    });
+
+    it('should walk weekdays within a week', () => {
+        const rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+
+        expect(nextOccurrence(rule, start, start)).toEqual(new Date('2026-10-08T09:00:00Z'));
+        expect(nextOccurrence(rule, new Date('2026-10-08T09:00:00Z'), start)).toEqual(new Date('2026-10-19T09:00:00Z'));
+    });
+
+    it('should skip months without the requested day', () => {
+        const rule = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=31');
+
+        expect(nextOccurrence(rule, new Date('2026-10-31T09:00:00Z'), start)).toEqual(new Date('2026-12-31T09:00:00Z'));
+    });
+
+    it('should keep the local time of day across DST changes', () => {
+        const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO;BYHOUR=9');
+        const berlinStart = new Date('2026-10-19T07:00:00Z'); // Mon 09:00 CEST
+
+        // Berlin leaves summer time on 2026-10-25
+        expect(nextOccurrence(rule, berlinStart, berlinStart, 'Europe/Berlin')).toEqual(new Date('2026-10-26T08:00:00Z'));
+        expect(nextOccurrence(parseRecurrenceRule('0 9 * * 1'), berlinStart, berlinStart, 'Europe/Berlin'))
+            .toEqual(new Date('2026-10-26T08:00:00Z'));
+    });
+
+    it('should stop after UNTIL', () => {
+        const rule = parseRecurrenceRule('FREQ=WEEKLY;UNTIL=20261020');
+
+        expect(nextOccurrence(rule, new Date('2026-10-12T09:00:00Z'), start)).toEqual(new Date('2026-10-19T09:00:00Z'));
+        expect(nextOccurrence(rule, new Date('2026-10-19T09:00:00Z'), start)).toBeNull();
+    });
+});
+
+describe('nextRecurrenceTime', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY');
+
+    it('should keep the minimum gap after the last post', () => {
+        const next = nextRecurrenceTime({
+            rule,
+            start,
+            previous: new Date('2026-10-06T09:00:00Z'),
+            lastPostedAt: new Date('2026-10-06T09:00:00Z'),
+            minGapMs: 72 * 60 * 60 * 1000,
+            now: new Date('2026-10-06T09:05:00Z'),
+        });
+
+        expect(next).toEqual(new Date('2026-10-09T09:00:00Z'));
+    });
+
+    it('should not schedule in the past after downtime', () => {
+        const next = nextRecurrenceTime({
+            rule,
+            start,
+            previous: new Date('2026-10-06T09:00:00Z'),
+            minGapMs: 0,
+            now: new Date('2026-10-19T12:00:00Z'),
+        });
+
+        expect(next).toEqual(new Date('2026-10-20T09:00:00Z'));
+    });
+
+    it('should return null past the end date', () => {
+        const next = nextRecurrenceTime({
+            rule,
+            start,
+            previous: new Date('2026-10-06T09:00:00Z'),
+            minGapMs: 0,
+            endsAt: new Date('2026-10-07T00:00:00Z'),
+            now: new Date('2026-10-06T09:05:00Z'),
+        });
+
+        expect(next).toBeNull();
+    });
+});
+
+describe('renderOccurrence', () => {
+    const scheduledFor = new Date('2026-11-02T10:30:00Z');
+
+    it('should rotate variants and fill in placeholders', () => {
+        const options = {
+            content: 'Merged my first PR 🎉',
+            variants: ['Throwback ({{date}}): my first merged PR', 'Repost #{{occurrence}} on a {{weekday}}'],
+            scheduledFor,
+            previousTexts: [],
+        };
+
+        expect(renderOccurrence({ ...options, occurrence: 1 })).toBe('Merged my first PR 🎉');
+        expect(renderOccurrence({ ...options, occurrence: 2 })).toBe('Throwback (Nov 2, 2026): my first merged PR');
+        expect(renderOccurrence({ ...options, occurrence: 3 })).toBe('Repost #3 on a Monday');
+        expect(renderOccurrence({ ...options, occurrence: 4 })).toBe('Merged my first PR 🎉');
+    });
+
+    it('should make text unique when it repeats an earlier occurrence', () => {
+        const text = renderOccurrence({
+            content: 'Merged my first PR',
+            variants: [],
+            occurrence: 2,
+            scheduledFor,
+            previousTexts: ['Merged my first PR'],
+        });
+
+        expect(text).toBe('Merged my first PR\n\n(#2)');
+    });
+});
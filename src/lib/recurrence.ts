@@ -0,0 +1,340 @@
+import { CronTime } from 'cron';
+import { toZonedTime, fromZonedTime } from './timezone.js';
+
+/**
+ * Recurrence rules for evergreen posts.
+ *
+ * A rule is either a 5-field cron expression ("0 9 * * 1") or a subset of
+ * RFC 5545 RRULE ("FREQ=MONTHLY;BYDAY=1MO;BYHOUR=9"), evaluated in the
+ * user's timezone so "9:00" stays 9:00 local across DST changes.
+ *
+ * Supported RRULE parts: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY
+ * (weekdays; ordinal weekdays like 1MO or -1FR for MONTHLY), BYMONTHDAY,
+ * BYHOUR, BYMINUTE, COUNT and UNTIL. Without BYHOUR/BYMINUTE the time of day
+ * comes from the recurrence start.
+ */
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Periods scanned before giving up (e.g. BYMONTHDAY=31 with INTERVAL=2 can skip months)
+const MAX_PERIODS = 1000;
+
+export interface RRule {
+    kind: 'rrule';
+    freq: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+    interval: number;
+    byDay: { weekday: number; ordinal?: number }[];
+    byMonthDay?: number;
+    byHour?: number;
+    byMinute?: number;
+    count?: number;
+    until?: Date;
+}
+
+export type RecurrenceRule = RRule | { kind: 'cron'; cron: CronTime };
+
+/**
+ * Custom error class for invalid recurrence rules
+ */
+export class RecurrenceError extends Error {
+    constructor(
+        public code: string,
+        message: string
+    ) {
+        super(message);
+        this.name = 'RecurrenceError';
+    }
+}
+
+/**
+ * Parse a cron expression or RRULE string
+ */
+export function parseRecurrenceRule(source: string): RecurrenceRule {
+    const rule = source.trim().replace(/^RRULE:/i, '');
+
+    if (!/^FREQ=/i.test(rule)) {
+        try {
+            return { kind: 'cron', cron: new CronTime(rule, 'UTC') };
+        } catch (error: any) {
+            throw new RecurrenceError('INVALID_RULE', `Invalid cron expression "${source}": ${error.message}`);
+        }
+    }
+
+    const parts = new Map<string, string>();
+    for (const part of rule.toUpperCase().split(';').filter(Boolean)) {
+        const [key, value] = part.split('=');
+        if (!key || !value) {
+            throw new RecurrenceError('INVALID_RULE', `Malformed RRULE part "${part}".`);
+        }
+        parts.set(key, value);
+    }
+
+    const freq = parts.get('FREQ');
+    if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+        throw new RecurrenceError('INVALID_RULE', `Unsupported FREQ "${freq}". Use DAILY, WEEKLY or MONTHLY.`);
+    }
+
+    const supported = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYHOUR', 'BYMINUTE', 'COUNT', 'UNTIL'];
+    for (const key of parts.keys()) {
+        if (!supported.includes(key)) {
+            throw new RecurrenceError('INVALID_RULE', `Unsupported RRULE part "${key}".`);
+        }
+    }
+
+    const parsed: RRule = {
+        kind: 'rrule',
+        freq,
+        interval: parseInteger(parts, 'INTERVAL', 1, 1000) ?? 1,
+        byDay: parseByDay(parts.get('BYDAY'), freq),
+        byMonthDay: parseInteger(parts, 'BYMONTHDAY', 1, 31),
+        byHour: parseInteger(parts, 'BYHOUR', 0, 23),
+        byMinute: parseInteger(parts, 'BYMINUTE', 0, 59),
+        count: parseInteger(parts, 'COUNT', 1, 10000),
+        until: parseUntil(parts.get('UNTIL')),
+    };
+
+    if (freq !== 'MONTHLY' && parsed.byMonthDay !== undefined) {
+        throw new RecurrenceError('INVALID_RULE', 'BYMONTHDAY is only supported with FREQ=MONTHLY.');
+    }
+    if (parsed.byMonthDay !== undefined && parsed.byDay.length > 0) {
+        throw new RecurrenceError('INVALID_RULE', 'Use either BYDAY or BYMONTHDAY, not both.');
+    }
+
+    return parsed;
+}
+
+/**
+ * First occurrence strictly after `after`, or null once the rule has ended (UNTIL).
+ * `start` anchors the series: INTERVAL counts from it, and RRULEs without
+ * BYHOUR/BYMINUTE take its local time of day. Occurrences never fall before it.
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: Date, start: Date, timeZone = 'UTC'): Date | null {
+    const from = after < start ? new Date(start.getTime() - 1) : after;
+
+    if (rule.kind === 'cron') {
+        return rule.cron.getNextDateFrom(from, timeZone).toJSDate();
+    }
+
+    // Calendar math runs on wall-clock times; each candidate is converted back to an instant
+    const localStart = toWallClock(start, timeZone);
+    const hour = rule.byHour ?? localStart.getUTCHours();
+    const minute = rule.byMinute ?? localStart.getUTCMinutes();
+
+    // Skip straight to the period containing `from`
+    let period = Math.max(0, Math.floor(periodsBetween(rule, localStart, toWallClock(from, timeZone)) / rule.interval) * rule.interval);
+
+    for (let scanned = 0; scanned < MAX_PERIODS; scanned++, period += rule.interval) {
+        const days = daysInPeriod(rule, localStart, period);
+
+        for (const day of days) {
+            const candidate = fromZonedTime({
+                year: day.getUTCFullYear(),
+                month: day.getUTCMonth() + 1,
+                day: day.getUTCDate(),
+                hour,
+                minute,
+            }, timeZone);
+
+            if (rule.until && candidate > rule.until) {
+                return null;
+            }
+            if (candidate > from && candidate >= start) {
+                return candidate;
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * When the next occurrence should post: the first rule match after the
+ * previous occurrence that is not in the past and keeps `minGapMs` after the
+ * last successful post. Null when the series has ended.
+ */
+export function nextRecurrenceTime(options: {
+    rule: RecurrenceRule;
+    start: Date;
+    previous?: Date;
+    lastPostedAt?: Date | null;
+    minGapMs: number;
+    endsAt?: Date | null;
+    timeZone?: string;
+    now: Date;
+}): Date | null {
+    const { rule, start, previous, lastPostedAt, minGapMs, endsAt, timeZone, now } = options;
+
+    let earliest = now.getTime();
+    if (lastPostedAt) {
+        earliest = Math.max(earliest, lastPostedAt.getTime() + minGapMs);
+    }
+
+    const after = new Date(Math.max(earliest - 1, previous?.getTime() ?? 0));
+    const next = nextOccurrence(rule, after, start, timeZone);
+
+    if (!next || (endsAt && next > endsAt)) {
+        return null;
+    }
+
+    return next;
+}
+
+/**
+ * Text for one occurrence: rotate through the base text and its variants,
+ * fill in {{occurrence}}, {{date}} and {{weekday}}, and make sure it differs
+ * from earlier occurrences (Twitter rejects identical text as DUPLICATE_TWEET).
+ */
+export function renderOccurrence(options: {
+    content: string;
+    variants: string[];
+    occurrence: number;
+    scheduledFor: Date;
+    previousTexts: string[];
+    timeZone?: string;
+}): string {
+    const { content, variants, occurrence, scheduledFor, previousTexts, timeZone = 'UTC' } = options;
+    const texts = [content, ...variants];
+    const template = texts[(occurrence - 1) % texts.length];
+
+    const text = template
+        .replace(/\{\{\s*occurrence\s*\}\}/g, String(occurrence))
+        .replace(/\{\{\s*date\s*\}\}/g, scheduledFor.toLocaleDateString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+            timeZone,
+        }))
+        .replace(/\{\{\s*weekday\s*\}\}/g, scheduledFor.toLocaleDateString('en-US', { weekday: 'long', timeZone }));
+
+    if (!previousTexts.includes(text)) {
+        return text;
+    }
+
+    return `${text}\n\n(#${occurrence})`;
+}
+
+function parseInteger(parts: Map<string, string>, key: string, min: number, max: number): number | undefined {
+    const raw = parts.get(key);
+    if (raw === undefined) {
+        return undefined;
+    }
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+        throw new RecurrenceError('INVALID_RULE', `${key} must be an integer between ${min} and ${max}.`);
+    }
+
+    return value;
+}
+
+function parseByDay(raw: string | undefined, freq: RRule['freq']): RRule['byDay'] {
+    if (!raw) {
+        return [];
+    }
+
+    return raw.split(',').map((entry) => {
+        const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry);
+        if (!match) {
+            throw new RecurrenceError('INVALID_RULE', `Invalid BYDAY value "${entry}".`);
+        }
+
+        const ordinal = match[1] ? Number(match[1]) : undefined;
+        if (ordinal !== undefined && (freq !== 'MONTHLY' || ordinal === 0 || Math.abs(ordinal) > 5)) {
+            throw new RecurrenceError('INVALID_RULE', `Ordinal BYDAY "${entry}" needs FREQ=MONTHLY and an ordinal of 1-5 or -1 to -5.`);
+        }
+
+        return { weekday: WEEKDAYS.indexOf(match[2]), ordinal };
+    });
+}
+
+function parseUntil(raw: string | undefined): Date | undefined {
+    if (!raw) {
+        return undefined;
+    }
+
+    // 20261231 or 20261231T235959Z
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(raw);
+    if (!match) {
+        throw new RecurrenceError('INVALID_RULE', `Invalid UNTIL "${raw}". Use YYYYMMDD or YYYYMMDDTHHMMSSZ.`);
+    }
+
+    const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+    return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+// Whole DAILY/WEEKLY/MONTHLY periods from the start's period to the one containing `date`
+function periodsBetween(rule: RRule, start: Date, date: Date): number {
+    switch (rule.freq) {
+        case 'DAILY':
+            return Math.floor((startOfDay(date) - startOfDay(start)) / DAY_MS);
+        case 'WEEKLY':
+            return Math.floor((startOfWeek(date) - startOfWeek(start)) / (7 * DAY_MS));
+        case 'MONTHLY':
+            return (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth();
+    }
+}
+
+// Every matching (wall-clock) day in the given period, in order
+function daysInPeriod(rule: RRule, start: Date, period: number): Date[] {
+    if (rule.freq === 'DAILY') {
+        return [new Date(startOfDay(start) + period * DAY_MS)];
+    }
+
+    if (rule.freq === 'WEEKLY') {
+        const weekStart = startOfWeek(start) + period * 7 * DAY_MS;
+        const weekdays = rule.byDay.length > 0 ? rule.byDay.map((day) => day.weekday) : [start.getUTCDay()];
+
+        // Weeks start on Monday (RRULE's default WKST)
+        return [...new Set(weekdays)]
+            .map((weekday) => (weekday + 6) % 7)
+            .sort((a, b) => a - b)
+            .map((offset) => new Date(weekStart + offset * DAY_MS));
+    }
+
+    const year = start.getUTCFullYear();
+    const month = start.getUTCMonth() + period;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    let monthDays: number[];
+
+    if (rule.byDay.length > 0) {
+        monthDays = rule.byDay.flatMap((day) => weekdayDaysOfMonth(year, month, daysInMonth, day.weekday, day.ordinal));
+    } else {
+        monthDays = [rule.byMonthDay ?? start.getUTCDate()];
+    }
+
+    // Months without the day (e.g. the 31st) are skipped
+    return [...new Set(monthDays)]
+        .filter((day) => day <= daysInMonth)
+        .sort((a, b) => a - b)
+        .map((day) => new Date(Date.UTC(year, month, day)));
+}
+
+function weekdayDaysOfMonth(year: number, month: number, daysInMonth: number, weekday: number, ordinal?: number): number[] {
+    const first = (weekday - new Date(Date.UTC(year, month, 1)).getUTCDay() + 7) % 7 + 1;
+    const days: number[] = [];
+    for (let day = first; day <= daysInMonth; day += 7) {
+        days.push(day);
+    }
+
+    if (ordinal === undefined) {
+        return days;
+    }
+
+    const day = ordinal > 0 ? days[ordinal - 1] : days[days.length + ordinal];
+    return day === undefined ? [] : [day];
+}
+
+// An instant's local date and time, stored in a Date's UTC fields
+function toWallClock(date: Date, timeZone: string): Date {
+    const local = toZonedTime(date, timeZone);
+    return new Date(Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second));
+}
+
+function startOfDay(date: Date): number {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function startOfWeek(date: Date): number {
+    return startOfDay(date) - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+}
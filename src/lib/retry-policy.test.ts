@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getRetryDelay,
+    shouldRetry,
+    retryBackoffStrategy,
+    RetryableJobError,
+    MAX_JOB_ATTEMPTS,
+} from './retry-policy.js';
+
+describe('Retry policy', () => {
+    const now = Date.parse('2026-01-01T12:00:00Z');
+
+    describe('getRetryDelay', () => {
+        it('should wait until the rate limit window resets', () => {
+            const delay = getRetryDelay(
+                { code: 'RATE_LIMITED', message: '', retryable: true, retryAt: '2026-01-01T12:12:00Z' },
+                1,
+                now
+            );
+
+            // 12 minutes plus a small safety margin
+            expect(delay).toBe(12 * 60 * 1000 + 5000);
+        });
+
+        it('should fall back to exponential backoff when the reset time is unknown', () => {
+            const delay = getRetryDelay({ code: 'RATE_LIMITED', message: '', retryable: true }, 1, now);
+
+            expect(delay).toBeGreaterThanOrEqual(15 * 60 * 1000);
+            expect(delay).toBeLessThan(17 * 60 * 1000);
+        });
+
+        it('should back off longer for Twitter server errors than for unknown errors', () => {
+            const server = getRetryDelay({ code: 'TWITTER_SERVER_ERROR', message: '', retryable: true }, 2, now);
+            const unknown = getRetryDelay({ code: 'SOMETHING_ELSE', message: '', retryable: true }, 2, now);
+
+            expect(server).toBeGreaterThanOrEqual(10 * 60 * 1000);
+            expect(unknown).toBeLessThan(3 * 60 * 1000);
+        });
+
+        it('should cap the delay', () => {
+            const delay = getRetryDelay({ code: 'NETWORK_ERROR', message: '', retryable: true }, 20, now);
+
+            expect(delay).toBe(15 * 60 * 1000);
+        });
+    });
+
+    describe('shouldRetry', () => {
+        it('should never retry non-retryable errors', () => {
+            expect(shouldRetry({ code: 'AUTH_INVALID', message: '', retryable: false }, 1)).toBe(false);
+        });
+
+        it('should apply per-code attempt budgets', () => {
+            const network = { code: 'NETWORK_ERROR', message: '', retryable: true };
+            expect(shouldRetry(network, 3)).toBe(true);
+            expect(shouldRetry(network, 4)).toBe(false);
+
+            const rateLimited = { code: 'RATE_LIMITED', message: '', retryable: true };
+            expect(shouldRetry(rateLimited, 4)).toBe(true);
+            expect(shouldRetry(rateLimited, 5)).toBe(false);
+        });
+
+        it('should not exceed the attempts configured on the job', () => {
+            const rateLimited = { code: 'RATE_LIMITED', message: '', retryable: true };
+            expect(shouldRetry(rateLimited, 3, 3)).toBe(false);
+        });
+    });
+
+    describe('retryBackoffStrategy', () => {
+        it('should read the categorized error from RetryableJobError', () => {
+            const error = new RetryableJobError({
+                code: 'RATE_LIMITED',
+                message: 'Twitter rate limit exceeded.',
+                retryable: true,
+                retryAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+            });
+
+            expect(retryBackoffStrategy(1, 'error-aware', error)).toBeGreaterThan(59 * 60 * 1000);
+        });
+    });
+
+    it('should give BullMQ enough attempts for the largest budget', () => {
+        expect(MAX_JOB_ATTEMPTS).toBe(5);
+    });
+});
@@ -0,0 +1,119 @@
+import type { JobError } from './types.js';
+
+/**
+ * How a failed job is retried for a given error code
+ */
+export interface RetryPolicy {
+    maxAttempts: number; // Total attempts, including the first one
+    strategy: 'exponential' | 'rate-limit';
+    baseDelay: number; // ms
+    maxDelay: number; // ms
+}
+
+// Name of the BullMQ custom backoff type handled by retryBackoffStrategy
+export const RETRY_BACKOFF_TYPE = 'error-aware';
+
+// Fallback for retryable codes without a dedicated policy
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    strategy: 'exponential',
+    baseDelay: 60 * 1000,
+    maxDelay: 30 * 60 * 1000,
+};
+
+// Per-code retry policies, keyed by the codes categorizeError returns
+export const RETRY_POLICIES: Record<string, RetryPolicy> = {
+    // Wait for the window to reset instead of burning attempts inside it
+    RATE_LIMITED: {
+        maxAttempts: 5,
+        strategy: 'rate-limit',
+        baseDelay: 15 * 60 * 1000,
+        maxDelay: 24 * 60 * 60 * 1000,
+    },
+    // Platform outages usually last minutes, not seconds
+    TWITTER_SERVER_ERROR: {
+        maxAttempts: 5,
+        strategy: 'exponential',
+        baseDelay: 5 * 60 * 1000,
+        maxDelay: 2 * 60 * 60 * 1000,
+    },
+    LINKEDIN_SERVER_ERROR: {
+        maxAttempts: 5,
+        strategy: 'exponential',
+        baseDelay: 5 * 60 * 1000,
+        maxDelay: 2 * 60 * 60 * 1000,
+    },
+    // Transient network blips recover quickly
+    NETWORK_ERROR: {
+        maxAttempts: 4,
+        strategy: 'exponential',
+        baseDelay: 30 * 1000,
+        maxDelay: 15 * 60 * 1000,
+    },
+};
+
+// BullMQ attempts per job: the largest budget. Smaller budgets are enforced by the processor.
+export const MAX_JOB_ATTEMPTS = Math.max(
+    DEFAULT_RETRY_POLICY.maxAttempts,
+    ...Object.values(RETRY_POLICIES).map((policy) => policy.maxAttempts)
+);
+
+// Margin added after a rate limit reset so we do not hit the window edge
+const RATE_LIMIT_RESET_MARGIN = 5 * 1000;
+
+/**
+ * Error thrown by the processor to ask BullMQ for a retry.
+ * Carries the categorized error so the backoff strategy can pick a delay.
+ */
+export class RetryableJobError extends Error {
+    constructor(public jobError: JobError) {
+        super(jobError.message);
+        this.name = 'RetryableJobError';
+    }
+}
+
+export function getRetryPolicy(code: string): RetryPolicy {
+    return RETRY_POLICIES[code] ?? DEFAULT_RETRY_POLICY;
+}
+
+/**
+ * Whether a failed attempt should be retried.
+ * `attempt` is the 1-based number of the attempt that just failed.
+ */
+export function shouldRetry(error: JobError, attempt: number, jobAttempts: number = MAX_JOB_ATTEMPTS): boolean {
+    if (!error.retryable) {
+        return false;
+    }
+
+    const budget = Math.min(getRetryPolicy(error.code).maxAttempts, jobAttempts);
+    return attempt < budget;
+}
+
+/**
+ * Delay before the next attempt.
+ * `attemptsMade` is the number of attempts that have failed so far (>= 1).
+ */
+export function getRetryDelay(error: JobError, attemptsMade: number, now: number = Date.now()): number {
+    const policy = getRetryPolicy(error.code);
+
+    if (policy.strategy === 'rate-limit' && error.retryAt) {
+        const untilReset = new Date(error.retryAt).getTime() - now + RATE_LIMIT_RESET_MARGIN;
+        return Math.min(Math.max(untilReset, RATE_LIMIT_RESET_MARGIN), policy.maxDelay);
+    }
+
+    const exponential = policy.baseDelay * 2 ** Math.max(0, attemptsMade - 1);
+    const jitter = Math.random() * 0.1 * policy.baseDelay; // Spread out retries of a failed batch
+
+    return Math.min(exponential + jitter, policy.maxDelay);
+}
+
+/**
+ * BullMQ custom backoff strategy (Worker `settings.backoffStrategy`)
+ */
+export function retryBackoffStrategy(attemptsMade: number, _type?: string, err?: Error): number {
+    const jobError: JobError = err instanceof RetryableJobError
+        ? err.jobError
+        : { code: 'UNKNOWN_ERROR', message: err?.message ?? '', retryable: true };
+
+    return getRetryDelay(jobError, attemptsMade);
+}
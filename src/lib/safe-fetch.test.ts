@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { safeFetch, isPublicAddress } from './safe-fetch.js';
+
+// The test server is on loopback, which is blocked unless a test allows it
+const allowLoopback = { isAllowedAddress: (address: string) => address === '127.0.0.1' };
+
+describe('safeFetch', () => {
+    const handler = vi.fn<(req: http.IncomingMessage, res: http.ServerResponse) => void>();
+    const server = http.createServer((req, res) => handler(req, res));
+    let origin: string;
+
+    beforeAll(async () => {
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    beforeEach(() => {
+        handler.mockReset();
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should refuse loopback addresses and hostnames without connecting', async () => {
+        const port = (server.address() as AddressInfo).port;
+
+        await expect(safeFetch(`${origin}/image.png`)).rejects.toMatchObject({ code: 'FETCH_BLOCKED', retryable: false });
+        await expect(safeFetch(`http://localhost:${port}/image.png`)).rejects.toMatchObject({ code: 'FETCH_BLOCKED' });
+        await expect(safeFetch(`http://[::ffff:127.0.0.1]:${port}/image.png`)).rejects.toMatchObject({ code: 'FETCH_BLOCKED' });
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should only fetch http and https URLs', async () => {
+        await expect(safeFetch('file:///etc/passwd')).rejects.toMatchObject({ code: 'FETCH_INVALID_URL' });
+        await expect(safeFetch('gopher://127.0.0.1:6379/_INFO')).rejects.toMatchObject({ code: 'FETCH_INVALID_URL' });
+    });
+
+    it('should follow redirects and return the body', async () => {
+        handler.mockImplementation((req, res) => {
+            if (req.url === '/old.png') {
+                res.writeHead(302, { location: '/new.png' }).end();
+            } else {
+                res.writeHead(200, { 'content-type': 'image/png' }).end('png-bytes');
+            }
+        });
+
+        const response = await safeFetch(`${origin}/old.png`, allowLoopback);
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toBe('image/png');
+        expect(await response.text()).toBe('png-bytes');
+    });
+
+    it('should refuse redirects to internal addresses', async () => {
+        handler.mockImplementation((_req, res) => {
+            res.writeHead(301, { location: 'http://169.254.169.254/latest/meta-data/' }).end();
+        });
+
+        await expect(safeFetch(`${origin}/image.png`, allowLoopback)).rejects.toMatchObject({ code: 'FETCH_BLOCKED' });
+    });
+
+    it('should stop after too many redirects', async () => {
+        handler.mockImplementation((_req, res) => {
+            res.writeHead(302, { location: '/again' }).end();
+        });
+
+        await expect(safeFetch(`${origin}/loop`, { ...allowLoopback, maxRedirects: 2 })).rejects.toMatchObject({ code: 'FETCH_TOO_MANY_REDIRECTS' });
+        expect(handler).toHaveBeenCalledTimes(3);
+    });
+
+    it('should only fetch hosts in the allowlist when one is set', async () => {
+        handler.mockImplementation((_req, res) => res.end('ok'));
+
+        await expect(safeFetch(`${origin}/image.png`, { ...allowLoopback, allowedDomains: ['cdn.example.com'] }))
+            .rejects.toMatchObject({ code: 'FETCH_BLOCKED' });
+        expect(handler).not.toHaveBeenCalled();
+
+        const response = await safeFetch(`${origin}/image.png`, { ...allowLoopback, allowedDomains: ['cdn.example.com', '127.0.0.1'] });
+        expect(await response.text()).toBe('ok');
+    });
+
+    it('should refuse bodies over the size limit, declared or streamed', async () => {
+        handler.mockImplementation((req, res) => {
+            if (req.url === '/declared') {
+                res.writeHead(200, { 'content-length': '2048' }).end(Buffer.alloc(2048));
+                return;
+            }
+
+            // No Content-Length: only counting the stream catches this
+            res.writeHead(200);
+            res.write(Buffer.alloc(600));
+            res.end(Buffer.alloc(600));
+        });
+
+        await expect(safeFetch(`${origin}/declared`, { ...allowLoopback, maxBytes: 1024 })).rejects.toMatchObject({ code: 'FETCH_TOO_LARGE' });
+
+        const response = await safeFetch(`${origin}/streamed`, { ...allowLoopback, maxBytes: 1024 });
+        await expect(response.arrayBuffer()).rejects.toMatchObject({ code: 'FETCH_TOO_LARGE', retryable: false });
+    });
+
+    it('should time out slow servers, before and after the headers', async () => {
+        handler.mockImplementation((req, res) => {
+            if (req.url === '/stalled-body') {
+                res.writeHead(200);
+                res.write('partial');
+            }
+            // Otherwise never respond
+        });
+
+        await expect(safeFetch(`${origin}/no-response`, { ...allowLoopback, timeoutMs: 100 })).rejects.toMatchObject({ code: 'FETCH_TIMEOUT', retryable: true });
+
+        const response = await safeFetch(`${origin}/stalled-body`, { ...allowLoopback, timeoutMs: 100 });
+        await expect(response.text()).rejects.toMatchObject({ code: 'FETCH_TIMEOUT' });
+    });
+});
+
+describe('isPublicAddress', () => {
+    it('should reject private, loopback and link-local ranges', () => {
+        for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1', '64:ff9b::a00:1', '64:ff9b::7f00:1', '2002:a00:1::1', '2002:7f00:1::1']) {
+            expect(isPublicAddress(address), address).toBe(false);
+        }
+    });
+
+    it('should accept public addresses', () => {
+        for (const address of ['93.184.216.34', '172.32.0.1', '2606:4700::1111', '::ffff:93.184.216.34']) {
+            expect(isPublicAddress(address), address).toBe(true);
+        }
+    });
+});
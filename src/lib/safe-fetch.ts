@@ -0,0 +1,270 @@
+import http from 'node:http';
+import https from 'node:https';
+import dns from 'node:dns';
+import net from 'node:net';
+import { Readable, Transform, pipeline } from 'node:stream';
+import type { IncomingMessage } from 'node:http';
+
+/**
+ * Fetch for URLs we don't control (user-supplied media): only http(s), only
+ * public addresses (checked at connect time, so DNS rebinding and redirects
+ * can't reach internal hosts), bounded time and bounded size.
+ */
+
+/**
+ * Custom error class for refused or failed outbound fetches
+ */
+export class SafeFetchError extends Error {
+    constructor(
+        public code: string,
+        message: string,
+        public retryable: boolean
+    ) {
+        super(message);
+        this.name = 'SafeFetchError';
+    }
+}
+
+export interface SafeFetchOptions {
+    maxBytes?: number; // Largest response body, checked while streaming
+    connectTimeoutMs?: number;
+    timeoutMs?: number; // Whole fetch, redirects and body included
+    maxRedirects?: number;
+    allowedDomains?: string[]; // Hosts (and their subdomains) that may be fetched; empty allows any
+    isAllowedAddress?: (address: string) => boolean; // Defaults to public addresses only
+}
+
+const DEFAULT_OPTIONS: Required<SafeFetchOptions> = {
+    maxBytes: 10 * 1024 * 1024,
+    connectTimeoutMs: 10 * 1000,
+    timeoutMs: 60 * 1000,
+    maxRedirects: 5,
+    allowedDomains: [],
+    isAllowedAddress: isPublicAddress,
+};
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Responses the Response constructor refuses a body for
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+// Loopback, private, link-local (cloud metadata), shared, documentation,
+// multicast and reserved ranges. BlockList checks IPv4-mapped IPv6
+// addresses (::ffff:10.0.0.1) against the IPv4 ranges; NAT64 and 6to4
+// addresses embed an IPv4 address it doesn't look at, so they are refused.
+const NON_PUBLIC_RANGES = new net.BlockList();
+
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.0.2.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['198.51.100.0', 24],
+    ['203.0.113.0', 24],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+] as const) {
+    NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+    ['::', 128],
+    ['::1', 128],
+    ['64:ff9b::', 96],
+    ['100::', 64],
+    ['2001:db8::', 32],
+    ['2002::', 16],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+] as const) {
+    NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+    const family = net.isIP(address);
+
+    if (family === 0) {
+        return false;
+    }
+
+    return !NON_PUBLIC_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * GET a URL with the safeguards above. Redirects are followed and each hop
+ * is checked again. Resolves with a standard Response whose body errors
+ * with a SafeFetchError once it passes `maxBytes` or the total timeout.
+ */
+export async function safeFetch(url: string, options: SafeFetchOptions = {}): Promise<Response> {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const deadline = new AbortController();
+    const timer = setTimeout(() => {
+        deadline.abort(new SafeFetchError('FETCH_TIMEOUT', `Fetching ${url} took longer than ${settings.timeoutMs} ms`, true));
+    }, settings.timeoutMs);
+    timer.unref();
+
+    try {
+        let target = checkUrl(url, settings);
+
+        for (let redirects = 0; ; redirects++) {
+            const response = await request(target, settings, deadline.signal);
+            const location = response.headers.location;
+
+            if (!REDIRECT_STATUSES.has(response.statusCode ?? 0) || !location) {
+                return toResponse(response, settings.maxBytes, deadline.signal, () => clearTimeout(timer));
+            }
+
+            response.resume();
+
+            if (redirects >= settings.maxRedirects) {
+                throw new SafeFetchError('FETCH_TOO_MANY_REDIRECTS', `${url} redirected more than ${settings.maxRedirects} times`, false);
+            }
+
+            target = checkUrl(new URL(location, target).toString(), settings);
+        }
+    } catch (error) {
+        clearTimeout(timer);
+        throw error;
+    }
+}
+
+function checkUrl(url: string, settings: Required<SafeFetchOptions>): URL {
+    let target: URL;
+
+    try {
+        target = new URL(url);
+    } catch {
+        throw new SafeFetchError('FETCH_INVALID_URL', `Not a valid URL: ${url}`, false);
+    }
+
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        throw new SafeFetchError('FETCH_INVALID_URL', `Only http and https URLs can be fetched: ${url}`, false);
+    }
+
+    const host = target.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+    if (settings.allowedDomains.length > 0 && !settings.allowedDomains.some((domain) => isWithinDomain(host, domain))) {
+        throw new SafeFetchError('FETCH_BLOCKED', `${host} is not in the allowed domains`, false);
+    }
+
+    // Literal addresses skip the DNS lookup, so check them here
+    if (net.isIP(host) && !settings.isAllowedAddress(host)) {
+        throw new SafeFetchError('FETCH_BLOCKED', `${host} is not a public address`, false);
+    }
+
+    return target;
+}
+
+function isWithinDomain(host: string, domain: string): boolean {
+    const normalized = domain.trim().toLowerCase().replace(/^\*?\./, '');
+    return host === normalized || host.endsWith(`.${normalized}`);
+}
+
+/**
+ * DNS lookup that refuses hostnames resolving to a disallowed address. The
+ * socket connects to the address checked here, not a second lookup.
+ */
+function guardedLookup(isAllowedAddress: (address: string) => boolean): net.LookupFunction {
+    return (hostname, options, callback) => {
+        dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+            if (error) {
+                callback(error, '', 0);
+                return;
+            }
+
+            const blocked = addresses.find(({ address }) => !isAllowedAddress(address));
+
+            if (blocked) {
+                callback(new SafeFetchError('FETCH_BLOCKED', `${hostname} resolves to ${blocked.address}, which is not a public address`, false), '', 0);
+            } else if (options.all) {
+                (callback as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+            } else {
+                callback(null, addresses[0].address, addresses[0].family);
+            }
+        });
+    };
+}
+
+function request(target: URL, settings: Required<SafeFetchOptions>, signal: AbortSignal): Promise<IncomingMessage> {
+    return new Promise((resolve, reject) => {
+        const send = target.protocol === 'https:' ? https.request : http.request;
+
+        // A fresh connection per request, so every hop goes through the lookup
+        const req = send(target, { agent: false, lookup: guardedLookup(settings.isAllowedAddress) });
+
+        const onAbort = () => req.destroy(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+
+        req.on('socket', (socket) => {
+            const connectTimer = setTimeout(() => {
+                req.destroy(new SafeFetchError('FETCH_TIMEOUT', `Connecting to ${target.host} took longer than ${settings.connectTimeoutMs} ms`, true));
+            }, settings.connectTimeoutMs);
+
+            socket.once('connect', () => clearTimeout(connectTimer));
+            socket.once('close', () => clearTimeout(connectTimer));
+        });
+
+        req.on('response', (response) => {
+            signal.removeEventListener('abort', onAbort);
+            resolve(response);
+        });
+
+        req.on('error', (error) => {
+            signal.removeEventListener('abort', onAbort);
+            reject(error instanceof SafeFetchError ? error : new SafeFetchError('FETCH_FAILED', `Could not fetch ${target}: ${error.message}`, true));
+        });
+
+        req.end();
+    });
+}
+
+function toResponse(response: IncomingMessage, maxBytes: number, signal: AbortSignal, done: () => void): Response {
+    const status = response.statusCode ?? 0;
+    const tooLarge = () => new SafeFetchError('FETCH_TOO_LARGE', `Response is over the ${maxBytes} byte limit`, false);
+
+    const headers = new Headers();
+    for (let i = 0; i < response.rawHeaders.length; i += 2) {
+        headers.append(response.rawHeaders[i], response.rawHeaders[i + 1]);
+    }
+
+    if (Number(response.headers['content-length']) > maxBytes) {
+        response.destroy();
+        done();
+        throw tooLarge();
+    }
+
+    if (NULL_BODY_STATUSES.has(status)) {
+        response.resume();
+        done();
+        return new Response(null, { status, headers });
+    }
+
+    let size = 0;
+    const body = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            size += chunk.length;
+            callback(size > maxBytes ? tooLarge() : null, chunk);
+        },
+    });
+
+    pipeline(response, body, () => {});
+
+    const onAbort = () => body.destroy(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    body.once('close', () => {
+        signal.removeEventListener('abort', onAbort);
+        done();
+    });
+
+    return new Response(Readable.toWeb(body) as ReadableStream<Uint8Array>, { status, headers });
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { toZonedTime, fromZonedTime, getTimeZoneOffset, resolveTimeZone, addLocalDays } from './timezone.js';
+
+describe('timezone', () => {
+    it('should read the wall-clock time in a timezone', () => {
+        expect(toZonedTime(new Date('2026-07-01T07:30:00Z'), 'Europe/Berlin')).toMatchObject({
+            year: 2026,
+            month: 7,
+            day: 1,
+            hour: 9,
+            minute: 30,
+            weekday: 3,
+        });
+    });
+
+    it('should keep 9:00 local on both sides of a DST change', () => {
+        // Berlin is UTC+2 in summer and UTC+1 in winter
+        expect(fromZonedTime({ year: 2026, month: 10, day: 24, hour: 9, minute: 0 }, 'Europe/Berlin'))
+            .toEqual(new Date('2026-10-24T07:00:00Z'));
+        expect(fromZonedTime({ year: 2026, month: 10, day: 26, hour: 9, minute: 0 }, 'Europe/Berlin'))
+            .toEqual(new Date('2026-10-26T08:00:00Z'));
+    });
+
+    it('should move a time skipped by spring forward past the gap', () => {
+        // 2026-03-08 02:00 New York clocks jump to 03:00
+        expect(fromZonedTime({ year: 2026, month: 3, day: 8, hour: 2, minute: 30 }, 'America/New_York'))
+            .toEqual(new Date('2026-03-08T07:30:00Z')); // 03:30 EDT
+    });
+
+    it('should pick the first of two repeated times when clocks fall back', () => {
+        // 2026-11-01 01:30 happens twice in New York (EDT, then EST)
+        expect(fromZonedTime({ year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, 'America/New_York'))
+            .toEqual(new Date('2026-11-01T05:30:00Z'));
+    });
+
+    it('should report offsets and fall back to UTC for unknown zones', () => {
+        expect(getTimeZoneOffset(new Date('2026-01-15T12:00:00Z'), 'Asia/Kolkata')).toBe(5.5 * 60 * 60 * 1000);
+        expect(resolveTimeZone('Mars/Olympus_Mons')).toBe('UTC');
+        expect(resolveTimeZone(null)).toBe('UTC');
+        expect(resolveTimeZone('Asia/Tokyo')).toBe('Asia/Tokyo');
+    });
+
+    it('should roll local dates over month ends', () => {
+        expect(addLocalDays({ year: 2026, month: 12, day: 31, hour: 9, minute: 0 }, 1))
+            .toEqual({ year: 2027, month: 1, day: 1, hour: 9, minute: 0 });
+    });
+});
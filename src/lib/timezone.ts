@@ -0,0 +1,137 @@
+/**
+ * IANA timezone helpers built on Intl, so "9:00 local time" stays 9:00 across
+ * DST changes without a date library.
+ */
+
+export interface ZonedDateTime {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    weekday: number; // 0 = Sunday, like Date.getDay()
+}
+
+export type LocalDateTime = Pick<ZonedDateTime, 'year' | 'month' | 'day' | 'hour' | 'minute'>;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOUR_MS = 60 * 60 * 1000;
+
+// Intl.DateTimeFormat is expensive to build; one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            weekday: 'short',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Whether the runtime knows the IANA timezone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The timezone to use for a stored preference: unknown or empty names fall back to UTC
+ */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+}
+
+/**
+ * Wall-clock time of an instant in a timezone
+ */
+export function toZonedTime(date: Date, timeZone: string): ZonedDateTime {
+    const parts = Object.fromEntries(
+        getFormatter(timeZone).formatToParts(date).map((part) => [part.type, part.value])
+    );
+
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+    };
+}
+
+/**
+ * UTC offset of a timezone at an instant, in milliseconds (local minus UTC)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+    const local = toZonedTime(date, timeZone);
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time happens in a timezone.
+ *
+ * DST-safe: a time skipped by a spring-forward change (02:30 on the night
+ * clocks jump to 03:00) moves forward by the gap; a time that happens twice
+ * when clocks fall back resolves to the first one.
+ */
+export function fromZonedTime(local: LocalDateTime, timeZone: string): Date {
+    const wallMs = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+
+    // Any DST change near this time falls within ±12 hours
+    const offsets = [...new Set([
+        getTimeZoneOffset(new Date(wallMs - 12 * HOUR_MS), timeZone),
+        getTimeZoneOffset(new Date(wallMs + 12 * HOUR_MS), timeZone),
+    ])];
+
+    const matches = offsets
+        .map((offset) => wallMs - offset)
+        .filter((candidate) => sameWallTime(toZonedTime(new Date(candidate), timeZone), local))
+        .sort((a, b) => a - b);
+
+    if (matches.length > 0) {
+        return new Date(matches[0]);
+    }
+
+    // In a gap: use the offset from before the change, which lands after it
+    return new Date(wallMs - Math.min(...offsets));
+}
+
+/**
+ * Calendar date `days` away from a local date (month and year roll over)
+ */
+export function addLocalDays(local: LocalDateTime, days: number): LocalDateTime {
+    const date = new Date(Date.UTC(local.year, local.month - 1, local.day + days, local.hour, local.minute));
+
+    return {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour: date.getUTCHours(),
+        minute: date.getUTCMinutes(),
+    };
+}
+
+function sameWallTime(a: ZonedDateTime, b: LocalDateTime): boolean {
+    return a.year === b.year && a.month === b.month && a.day === b.day && a.hour === b.hour && a.minute === b.minute;
+}
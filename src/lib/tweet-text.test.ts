@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseTweet, getTweetLength } from './tweet-text.js';
+
+describe('parseTweet', () => {
+    it('should count Latin text one per character', () => {
+        const result = parseTweet('Hello World!');
+        expect(result.weightedLength).toBe(12);
+        expect(result.remaining).toBe(268);
+        expect(result.valid).toBe(true);
+    });
+
+    it('should count CJK characters double', () => {
+        expect(getTweetLength('漢字')).toBe(4);
+        expect(parseTweet('漢'.repeat(141)).valid).toBe(false);
+    });
+
+    it('should count each emoji sequence as two characters', () => {
+        expect(getTweetLength('🚀')).toBe(2);
+        // Family ZWJ sequence: 7 code points, one emoji
+        expect(getTweetLength('👨‍👩‍👧‍👦')).toBe(2);
+        // Flag: two regional indicators, one emoji
+        expect(getTweetLength('🇳🇱')).toBe(2);
+    });
+
+    it('should count URLs as 23 characters', () => {
+        const url = 'https://github.com/avan14/git-x-flow-worker/pull/12345?tab=files';
+        expect(getTweetLength(url)).toBe(23);
+        expect(getTweetLength(`Merged ${url}.`)).toBe(7 + 23 + 1);
+        expect(getTweetLength('see github.com/foo')).toBe(4 + 23);
+    });
+
+    it('should not treat email addresses as URLs', () => {
+        expect(getTweetLength('me@example.com')).toBe(14);
+    });
+
+    it('should report the offending range past the limit', () => {
+        const content = 'a'.repeat(278) + '🚀🚀';
+        const result = parseTweet(content);
+
+        expect(result.weightedLength).toBe(282);
+        expect(result.remaining).toBe(-2);
+        expect(result.valid).toBe(false);
+        expect(result.validRange).toEqual({ start: 0, end: 280 });
+        expect(result.offendingRange).toEqual({ start: 280, end: 282 });
+    });
+
+    it('should reject empty content', () => {
+        expect(parseTweet('   ').valid).toBe(false);
+    });
+});
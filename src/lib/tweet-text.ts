@@ -0,0 +1,148 @@
+/**
+ * Tweet length counting following the twitter-text v3 configuration.
+ * https://github.com/twitter/twitter-text/blob/master/config/v3.json
+ *
+ * Characters are weighted: Latin-1, general punctuation and similar ranges
+ * count once, everything else (CJK, most symbols) counts twice. Every emoji
+ * sequence counts twice regardless of how many code points it contains, and
+ * every URL counts as 23 characters because Twitter wraps it in t.co.
+ */
+
+// Twitter character limit for a single tweet (in weighted characters)
+export const TWEET_MAX_LENGTH = 280;
+
+// Length of a t.co wrapped URL
+export const TRANSFORMED_URL_LENGTH = 23;
+
+const SCALE = 100;
+const DEFAULT_WEIGHT = 200;
+
+const WEIGHTED_RANGES = [
+    { start: 0x0000, end: 0x10ff, weight: 100 },
+    { start: 0x2000, end: 0x200d, weight: 100 },
+    { start: 0x2010, end: 0x201f, weight: 100 },
+    { start: 0x2032, end: 0x2037, weight: 100 },
+];
+
+// Characters Twitter refuses outright
+const INVALID_CHARACTERS = /[\uFFFE\uFEFF\uFFFF]/;
+
+// Explicit protocol / www URLs, or bare domains with a common TLD
+const URL_PATTERN = new RegExp(
+    [
+        String.raw`(?:https?:\/\/|www\.)[^\s<>"]+`,
+        String.raw`(?<![@\w.\-])(?:[a-z0-9](?:[a-z0-9\-]*[a-z0-9])?\.)+` +
+            String.raw`(?:com|org|net|io|dev|app|co|ai|me|sh|xyz|gg|ly|so|edu|gov|info|tech|us|uk|de)` +
+            String.raw`(?![\w\-])(?:\/[^\s<>"]*)?`,
+    ].join('|'),
+    'gi'
+);
+
+// Punctuation that ends a sentence rather than a URL
+const URL_TRAILING_PUNCTUATION = /[.,!?;:'")\]]+$/;
+
+const EMOJI_PATTERN = /\p{Emoji_Presentation}|\uFE0F|\u20E3|\p{Regional_Indicator}/u;
+
+const graphemeSegmenter = new Intl.Segmenter('en', { granularity: 'grapheme' });
+
+export interface TextRange {
+    start: number; // UTF-16 offset, inclusive
+    end: number; // UTF-16 offset, exclusive
+}
+
+export interface ParsedTweet {
+    weightedLength: number;
+    remaining: number; // Negative when over the limit
+    valid: boolean;
+    validRange: TextRange;
+    offendingRange?: TextRange; // Part of the text past the limit
+}
+
+/**
+ * Compute the weighted length of tweet text.
+ * Ranges are offsets into the NFC-normalized text.
+ */
+export function parseTweet(content: string): ParsedTweet {
+    const text = content.normalize('NFC');
+    const maxWeight = TWEET_MAX_LENGTH * SCALE;
+
+    let weight = 0;
+    let validEnd = 0;
+
+    for (const token of tokenize(text)) {
+        weight += token.weight;
+        if (weight <= maxWeight) {
+            validEnd = token.end;
+        }
+    }
+
+    const weightedLength = weight / SCALE;
+    const tooLong = weight > maxWeight;
+
+    return {
+        weightedLength,
+        remaining: TWEET_MAX_LENGTH - weightedLength,
+        valid: !tooLong && text.trim().length > 0 && !INVALID_CHARACTERS.test(text),
+        validRange: { start: 0, end: validEnd },
+        ...(tooLong && { offendingRange: { start: validEnd, end: text.length } }),
+    };
+}
+
+/**
+ * Weighted length of tweet text in characters
+ */
+export function getTweetLength(content: string): number {
+    return parseTweet(content).weightedLength;
+}
+
+interface WeightedToken extends TextRange {
+    weight: number;
+}
+
+/**
+ * Break text into URLs and grapheme clusters with their weights
+ */
+function* tokenize(text: string): Generator<WeightedToken> {
+    let position = 0;
+
+    for (const url of findUrls(text)) {
+        yield* tokenizeGraphemes(text.slice(position, url.start), position);
+        yield { ...url, weight: TRANSFORMED_URL_LENGTH * SCALE };
+        position = url.end;
+    }
+
+    yield* tokenizeGraphemes(text.slice(position), position);
+}
+
+function* tokenizeGraphemes(text: string, offset: number): Generator<WeightedToken> {
+    for (const { segment, index } of graphemeSegmenter.segment(text)) {
+        yield {
+            start: offset + index,
+            end: offset + index + segment.length,
+            weight: EMOJI_PATTERN.test(segment) ? DEFAULT_WEIGHT : codePointsWeight(segment),
+        };
+    }
+}
+
+function codePointsWeight(segment: string): number {
+    let weight = 0;
+
+    for (const char of segment) {
+        const codePoint = char.codePointAt(0)!;
+        const range = WEIGHTED_RANGES.find((r) => codePoint >= r.start && codePoint <= r.end);
+        weight += range ? range.weight : DEFAULT_WEIGHT;
+    }
+
+    return weight;
+}
+
+function findUrls(text: string): TextRange[] {
+    const urls: TextRange[] = [];
+
+    for (const match of text.matchAll(URL_PATTERN)) {
+        const url = match[0].replace(URL_TRAILING_PUNCTUATION, '');
+        urls.push({ start: match.index!, end: match.index! + url.length });
+    }
+
+    return urls;
+}
@@ -1,3 +1,14 @@
+// An attachment: a plain URL, or a URL with metadata
+export interface MediaItem {
+    url: string;
+    altText?: string; // Image/GIF description for screen readers (max 1000 characters)
+    blobKey?: string; // Set by the scheduler: the file pre-fetched into the blob store
+}
+
+// What a media item that can't be attached does to the post:
+// 'required' fails the job, 'optional' posts without it and reports a warning
+export type MediaPolicy = 'required' | 'optional';
+
 // Job data types
 export interface TwitterPostJobData {
     scheduledPostId: string;
@@ -5,8 +16,11 @@ export interface TwitterPostJobData {
     contentId: string;
     platform: 'twitter';
     content: string;
-    mediaUrls?: string[];
+    mediaUrls?: (string | MediaItem)[];
+    mediaPolicy?: MediaPolicy; // Defaults to 'required'
     priority: number;
+    scheduledFor?: string; // ISO time the job was queued for (lets the scheduler detect reschedules)
+    attemptHistory?: JobAttempt[]; // Failed attempts so far (written by the worker)
 }
 
 export interface LinkedInPostJobData {
@@ -15,8 +29,11 @@ export interface LinkedInPostJobData {
     contentId: string;
     platform: 'linkedin';
     content: string;
-    mediaUrls?: string[];
+    mediaUrls?: (string | MediaItem)[];
+    mediaPolicy?: MediaPolicy; // Defaults to 'required'
     priority: number;
+    scheduledFor?: string; // ISO time the job was queued for (lets the scheduler detect reschedules)
+    attemptHistory?: JobAttempt[]; // Failed attempts so far (written by the worker)
 }
 
 export type PostJobData = TwitterPostJobData | LinkedInPostJobData;
@@ -27,14 +44,42 @@ export interface JobResult {
     postId?: string;
     postUrl?: string;
     error?: JobError;
+    warnings?: string[]; // Published, but not everything went as asked (e.g. optional media dropped)
 }
 
 export interface JobError {
     code: string;
     message: string;
     retryable: boolean;
+    retryAt?: string; // ISO time the platform told us to retry after (rate limit reset)
+}
+
+// One failed attempt, kept for the dead-letter queue
+export interface JobAttempt {
+    attempt: number;
+    at: string; // ISO time
+    code: string;
+    message: string;
+}
+
+// Webhook delivery job: the WebhookDelivery row holds the endpoint and payload
+export interface WebhookJobData {
+    deliveryId: string;
+}
+
+// Email digest job: sends every pending NotificationItem of the user
+export interface EmailDigestJobData {
+    userId: string;
 }
 
+// Weekly report email job: sends one stored WeeklyReport
+export interface WeeklyReportJobData {
+    userId: string;
+    reportId: string;
+}
+
+export type EmailJobData = EmailDigestJobData | WeeklyReportJobData;
+
 // Job status types
 export type JobStatus =
     | 'waiting'
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    emitWebhookEvent,
+    deliverWebhook,
+    signWebhookPayload,
+    verifyWebhookSignature,
+    WebhookDeliveryError,
+} from './webhooks.js';
+import { prisma } from './db.js';
+
+const queueAdd = vi.fn();
+
+vi.mock('./db.js', () => ({
+    prisma: {
+        webhookEndpoint: {
+            findMany: vi.fn(),
+        },
+        webhookDelivery: {
+            create: vi.fn(),
+            findUnique: vi.fn(),
+            update: vi.fn(),
+        },
+        scheduledPost: {
+            findUnique: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('./queue.js', () => ({
+    createWebhookQueue: () => ({ add: queueAdd, remove: vi.fn() }),
+}));
+
+const fetchMock = vi.fn();
+
+function makeDelivery(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'delivery-1',
+        eventType: 'post.published',
+        status: 'PENDING',
+        payload: { id: 'event-1', type: 'post.published', data: { scheduledPost: { id: 'post-1' } } },
+        endpoint: { url: 'https://app.example.com/hooks', secret: 'whsec_test_secret', isActive: true },
+        ...overrides,
+    };
+}
+
+const job = (attemptsMade: number) => ({ data: { deliveryId: 'delivery-1' }, attemptsMade, opts: { attempts: 8 } }) as any;
+
+describe('emitWebhookEvent', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should store and queue one delivery per subscribed endpoint', async () => {
+        (prisma.webhookEndpoint.findMany as any).mockResolvedValue([{ id: 'endpoint-1' }, { id: 'endpoint-2' }]);
+        (prisma.scheduledPost.findUnique as any).mockResolvedValue({ id: 'post-1', status: 'POSTED', completedAt: new Date('2026-10-19T12:00:00Z') });
+        (prisma.webhookDelivery.create as any)
+            .mockResolvedValueOnce({ id: 'delivery-1' })
+            .mockResolvedValueOnce({ id: 'delivery-2' });
+        const result = { success: true, postId: '123', postUrl: 'https://twitter.com/i/status/123' };
+
+        const sent = await emitWebhookEvent('post.published', { scheduledPostId: 'post-1', result });
+
+        expect(sent).toBe(2);
+        expect((prisma.webhookEndpoint.findMany as any).mock.calls[0][0].where).toEqual({
+            isActive: true,
+            OR: [{ events: { isEmpty: true } }, { events: { has: 'post.published' } }],
+        });
+
+        const [first, second] = (prisma.webhookDelivery.create as any).mock.calls.map((call: any[]) => call[0].data);
+        expect(first.eventId).toBe(second.eventId);
+        expect(first.payload).toMatchObject({
+            type: 'post.published',
+            data: { scheduledPost: { id: 'post-1', completedAt: '2026-10-19T12:00:00.000Z' }, result },
+        });
+        expect(queueAdd).toHaveBeenCalledWith('post.published', { deliveryId: 'delivery-1' }, { jobId: 'webhook-delivery-1' });
+    });
+
+    it('should do nothing without subscribed endpoints', async () => {
+        (prisma.webhookEndpoint.findMany as any).mockResolvedValue([]);
+
+        expect(await emitWebhookEvent('post.queued', { scheduledPostId: 'post-1' })).toBe(0);
+        expect(prisma.scheduledPost.findUnique).not.toHaveBeenCalled();
+        expect(queueAdd).not.toHaveBeenCalled();
+    });
+
+    it('should never throw', async () => {
+        (prisma.webhookEndpoint.findMany as any).mockRejectedValue(new Error('Connection lost'));
+
+        expect(await emitWebhookEvent('post.failed', { scheduledPostId: 'post-1' })).toBe(0);
+    });
+});
+
+describe('deliverWebhook', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should send a signed request and mark the delivery DELIVERED', async () => {
+        (prisma.webhookDelivery.findUnique as any).mockResolvedValue(makeDelivery());
+        fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+
+        await deliverWebhook(job(0));
+
+        const [url, request] = fetchMock.mock.calls[0];
+        expect(url).toBe('https://app.example.com/hooks');
+        expect(request.headers['X-Webhook-Event']).toBe('post.published');
+        expect(verifyWebhookSignature('whsec_test_secret', request.body, request.headers['X-Webhook-Signature'])).toBe(true);
+        expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+            where: { id: 'delivery-1' },
+            data: expect.objectContaining({ status: 'DELIVERED', attempts: 1, responseStatus: 200, deliveredAt: expect.any(Date) }),
+        });
+    });
+
+    it('should throw for a retry and keep the delivery PENDING on an error response', async () => {
+        (prisma.webhookDelivery.findUnique as any).mockResolvedValue(makeDelivery());
+        fetchMock.mockResolvedValue(new Response('boom', { status: 500 }));
+
+        await expect(deliverWebhook(job(2))).rejects.toBeInstanceOf(WebhookDeliveryError);
+        expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+            where: { id: 'delivery-1' },
+            data: expect.objectContaining({ status: 'PENDING', attempts: 3, responseStatus: 500, responseBody: 'boom' }),
+        });
+    });
+
+    it('should mark the delivery FAILED after the last attempt', async () => {
+        (prisma.webhookDelivery.findUnique as any).mockResolvedValue(makeDelivery());
+        fetchMock.mockRejectedValue(new Error('getaddrinfo ENOTFOUND app.example.com'));
+
+        await expect(deliverWebhook(job(7))).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+        expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+            where: { id: 'delivery-1' },
+            data: expect.objectContaining({ status: 'FAILED', attempts: 8, error: 'getaddrinfo ENOTFOUND app.example.com' }),
+        });
+    });
+
+    it('should not send to a disabled endpoint', async () => {
+        (prisma.webhookDelivery.findUnique as any).mockResolvedValue(
+            makeDelivery({ endpoint: { url: 'https://app.example.com/hooks', secret: 's', isActive: false } })
+        );
+
+        await deliverWebhook(job(0));
+
+        expect(fetchMock).not.toHaveBeenCalled();
+        expect((prisma.webhookDelivery.update as any).mock.calls[0][0].data.status).toBe('FAILED');
+    });
+});
+
+describe('webhook signatures', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const body = '{"type":"post.published"}';
+
+    it('should verify a signature made with the same secret', () => {
+        const header = signWebhookPayload('secret', body, timestamp);
+
+        expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+        expect(verifyWebhookSignature('secret', body, header, { now })).toBe(true);
+    });
+
+    it('should reject a changed body, another secret or an old timestamp', () => {
+        const header = signWebhookPayload('secret', body, timestamp);
+
+        expect(verifyWebhookSignature('secret', body.replace('published', 'failed'), header, { now })).toBe(false);
+        expect(verifyWebhookSignature('other', body, header, { now })).toBe(false);
+        expect(verifyWebhookSignature('secret', body, header, { now: new Date(now.getTime() + 10 * 60 * 1000) })).toBe(false);
+        expect(verifyWebhookSignature('secret', body, 'garbage', { now })).toBe(false);
+    });
+});
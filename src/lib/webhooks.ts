@@ -0,0 +1,268 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { prisma } from './db.js';
+import { createChildLogger } from './logger.js';
+import { createWebhookQueue } from './queue.js';
+import type { Job, Queue } from './queue.js';
+import type { JobResult, WebhookJobData } from './types.js';
+import { decryptToken } from './crypto.js';
+import { webhookDeliveries } from './metrics.js';
+
+/**
+ * Outbound webhooks for post lifecycle events.
+ *
+ * Each event is stored as one WebhookDelivery per subscribed endpoint and
+ * sent by the `webhook-delivery` queue, which retries failed attempts with
+ * backoff. Requests are signed with the endpoint's secret:
+ *
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+
+export type WebhookEventType = 'post.queued' | 'post.published' | 'post.failed' | 'connection.invalid';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['post.queued', 'post.published', 'post.failed', 'connection.invalid'];
+
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+const REQUEST_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+const MAX_RESPONSE_BODY = 1000;
+
+// Signatures older than this are rejected by verifyWebhookSignature
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+export interface WebhookEvent {
+    id: string;
+    type: WebhookEventType;
+    createdAt: string;
+    data: {
+        scheduledPost: Record<string, unknown> | null;
+        result: JobResult | null;
+        [key: string]: unknown;
+    };
+}
+
+/**
+ * Custom error class for failed webhook deliveries (BullMQ retries the job)
+ */
+export class WebhookDeliveryError extends Error {
+    constructor(
+        public code: string,
+        message: string
+    ) {
+        super(message);
+        this.name = 'WebhookDeliveryError';
+    }
+}
+
+let queue: Queue<WebhookJobData> | undefined;
+
+function getQueue(): Queue<WebhookJobData> {
+    queue ??= createWebhookQueue();
+    return queue;
+}
+
+/**
+ * Send an event about a post to every active endpoint subscribed to it.
+ * Never throws: a webhook that can't be queued must not fail the post.
+ */
+export async function emitWebhookEvent(
+    type: WebhookEventType,
+    input: { scheduledPostId: string; result?: JobResult | null; extra?: Record<string, unknown> }
+): Promise<number> {
+    const log = createChildLogger({ service: 'webhooks', event: type, postId: input.scheduledPostId });
+
+    try {
+        const endpoints: { id: string }[] = await prisma.webhookEndpoint.findMany({
+            where: {
+                isActive: true,
+                OR: [{ events: { isEmpty: true } }, { events: { has: type } }],
+            },
+            select: { id: true },
+        });
+
+        if (endpoints.length === 0) {
+            return 0;
+        }
+
+        const scheduledPost = await prisma.scheduledPost.findUnique({ where: { id: input.scheduledPostId } });
+
+        const event: WebhookEvent = {
+            id: randomUUID(),
+            type,
+            createdAt: new Date().toISOString(),
+            data: {
+                scheduledPost,
+                result: input.result ?? null,
+                ...input.extra,
+            },
+        };
+        // Stored as JSON, so dates go in as ISO strings
+        const payload = JSON.parse(JSON.stringify(event));
+
+        for (const endpoint of endpoints) {
+            const delivery: { id: string } = await prisma.webhookDelivery.create({
+                data: { endpointId: endpoint.id, eventId: event.id, eventType: type, payload },
+                select: { id: true },
+            });
+
+            await getQueue().add(type, { deliveryId: delivery.id }, { jobId: `webhook-${delivery.id}` });
+        }
+
+        log.debug({ eventId: event.id, endpoints: endpoints.length }, 'Queued webhook event');
+        return endpoints.length;
+    } catch (error: any) {
+        log.error({ error: error?.message }, 'Failed to queue webhook event');
+        return 0;
+    }
+}
+
+/**
+ * Send one delivery. Throws WebhookDeliveryError on a non-2xx response or
+ * network error so BullMQ retries it; the last attempt marks it FAILED.
+ */
+export async function deliverWebhook(job: Job<WebhookJobData>): Promise<void> {
+    const { deliveryId } = job.data;
+    const log = createChildLogger({ service: 'webhooks', deliveryId });
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+        where: { id: deliveryId },
+        include: { endpoint: true },
+    });
+
+    if (!delivery || delivery.status !== 'PENDING') {
+        log.debug('Delivery is gone or already finished, skipping');
+        return;
+    }
+
+    const attempt = job.attemptsMade + 1;
+    const finalAttempt = attempt >= (job.opts.attempts ?? 1);
+
+    if (!delivery.endpoint.isActive) {
+        await prisma.webhookDelivery.update({
+            where: { id: deliveryId },
+            data: { status: 'FAILED', error: 'Endpoint is disabled', lastAttemptAt: new Date() },
+        });
+        webhookDeliveries.inc({ event: delivery.eventType, outcome: 'failed' });
+        return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+        const response = await fetch(delivery.endpoint.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'gitxflow-webhooks/1.0',
+                'X-Webhook-Event': delivery.eventType,
+                'X-Webhook-Delivery': delivery.id,
+                [SIGNATURE_HEADER]: signWebhookPayload(decryptToken(delivery.endpoint.secret), body, timestamp),
+            },
+            body,
+            redirect: 'manual', // A redirect is a misconfigured endpoint, not a success
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        responseStatus = response.status;
+        responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY);
+    } catch (requestError: any) {
+        error = requestError?.message ?? String(requestError);
+    }
+
+    const delivered = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+    const status: WebhookDeliveryStatus = delivered ? 'DELIVERED' : finalAttempt ? 'FAILED' : 'PENDING';
+
+    await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+            status,
+            attempts: attempt,
+            responseStatus,
+            responseBody,
+            error,
+            lastAttemptAt: new Date(),
+            ...(delivered && { deliveredAt: new Date() }),
+        },
+    });
+
+    webhookDeliveries.inc({ event: delivery.eventType, outcome: delivered ? 'delivered' : finalAttempt ? 'failed' : 'retried' });
+
+    if (!delivered) {
+        log.warn({ attempt, responseStatus, error, url: delivery.endpoint.url }, 'Webhook delivery failed');
+        throw new WebhookDeliveryError(
+            responseStatus !== null ? 'HTTP_ERROR' : 'NETWORK_ERROR',
+            responseStatus !== null ? `Endpoint responded with ${responseStatus}` : `Request failed: ${error}`
+        );
+    }
+
+    log.debug({ attempt, responseStatus }, 'Webhook delivered');
+}
+
+/**
+ * Queue a finished delivery again from its first attempt
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<boolean> {
+    const { count } = await prisma.webhookDelivery.updateMany({
+        where: { id: deliveryId, status: { not: 'PENDING' } },
+        data: { status: 'PENDING', attempts: 0, deliveredAt: null },
+    });
+
+    if (count === 0) {
+        return false;
+    }
+
+    // The old job may still be kept by removeOnComplete/removeOnFail and would block the job ID
+    const jobId = `webhook-${deliveryId}`;
+    await getQueue().remove(jobId);
+    await getQueue().add('redeliver', { deliveryId }, { jobId });
+    return true;
+}
+
+/**
+ * Signature header value for a request body
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a signature header as a receiver would: valid HMAC and not older than `toleranceSeconds`
+ */
+export function verifyWebhookSignature(
+    secret: string,
+    body: string,
+    header: string,
+    options: { toleranceSeconds?: number; now?: Date } = {}
+): boolean {
+    const { toleranceSeconds = DEFAULT_TOLERANCE_SECONDS, now = new Date() } = options;
+    const parts = new Map(header.split(',').map((part) => part.split('=', 2) as [string, string]));
+    const timestamp = parseInt(parts.get('t') ?? '');
+    const provided = parts.get('v1');
+
+    if (!Number.isFinite(timestamp) || !provided) {
+        return false;
+    }
+    if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+        return false;
+    }
+
+    const expected = signWebhookPayload(secret, body, timestamp).split('v1=')[1];
+    const a = Buffer.from(provided, 'hex');
+    const b = Buffer.from(expected, 'hex');
+
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Close the shared webhook queue connection (graceful shutdown)
+ */
+export async function closeWebhookQueue(): Promise<void> {
+    await queue?.close();
+    queue = undefined;
+}
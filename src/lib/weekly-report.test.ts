@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { reportPeriod, buildWeeklyReport, hasActivity } from './weekly-report.js';
+import type { WeeklyReportRows } from './weekly-report.js';
+
+const emptyRows: WeeklyReportRows = { achievements: [], content: [], posts: [], upcoming: [], syncs: [] };
+
+describe('reportPeriod', () => {
+    it('should cover the last Monday-to-Monday week in UTC', () => {
+        const period = reportPeriod(new Date('2026-10-21T15:00:00Z'), 'UTC'); // Wednesday
+
+        expect(period.periodStart).toEqual(new Date('2026-10-12T00:00:00Z'));
+        expect(period.periodEnd).toEqual(new Date('2026-10-19T00:00:00Z'));
+        expect(period.dueAt).toEqual(new Date('2026-10-19T09:00:00Z'));
+    });
+
+    it('should use the user\'s local Monday', () => {
+        // Monday 05:00 in Los Angeles: the week just ended, the report is due at 09:00 local
+        const period = reportPeriod(new Date('2026-10-19T12:00:00Z'), 'America/Los_Angeles');
+
+        expect(period.periodEnd).toEqual(new Date('2026-10-19T07:00:00Z'));
+        expect(period.dueAt).toEqual(new Date('2026-10-19T16:00:00Z'));
+    });
+
+    it('should span the extra hour of a week where clocks fall back', () => {
+        const period = reportPeriod(new Date('2026-10-26T12:00:00Z'), 'Europe/Berlin');
+
+        expect(period.periodStart).toEqual(new Date('2026-10-18T22:00:00Z'));
+        expect(period.periodEnd).toEqual(new Date('2026-10-25T23:00:00Z'));
+    });
+});
+
+describe('buildWeeklyReport', () => {
+    const period = reportPeriod(new Date('2026-10-19T12:00:00Z'), 'UTC');
+
+    it('should summarize achievements, content, posts, upcoming posts and syncs', () => {
+        const data = buildWeeklyReport(period, 'UTC', {
+            achievements: [
+                { title: 'Merged a PR', type: 'pr_merged', repoName: 'small', repoUrl: 'https://github.com/a/small', score: 10, occurredAt: new Date('2026-10-13T10:00:00Z') },
+                { title: 'Fixed an issue', type: 'issue_resolved', repoName: 'big', repoUrl: 'https://github.com/a/big', score: 80, occurredAt: new Date('2026-10-14T10:00:00Z') },
+            ],
+            content: [{ format: 'tweet' }, { format: 'tweet' }, { format: 'linkedin' }],
+            posts: [
+                { platform: 'twitter', status: 'POSTED', errorCode: null, errorMessage: null, platformUrl: 'https://twitter.com/i/status/1', completedAt: new Date('2026-10-15T09:00:00Z') },
+                { platform: 'twitter', status: 'FAILED', errorCode: 'DUPLICATE_TWEET', errorMessage: 'Duplicate content', platformUrl: null, completedAt: new Date('2026-10-16T09:00:00Z') },
+                { platform: 'linkedin', status: 'FAILED', errorCode: 'TOKEN_EXPIRED', errorMessage: null, platformUrl: null, completedAt: new Date('2026-10-16T10:00:00Z') },
+                { platform: 'twitter', status: 'FAILED', errorCode: 'DUPLICATE_TWEET', errorMessage: 'Duplicate content', platformUrl: null, completedAt: new Date('2026-10-17T09:00:00Z') },
+            ],
+            upcoming: [{ platform: 'linkedin', scheduledFor: new Date('2026-10-20T09:00:00Z'), content: { content: 'Next week' } }],
+            syncs: [
+                { status: 'success', achievementsFound: 5, achievementsNew: 2, syncedAt: new Date('2026-10-13T08:00:00Z') },
+                { status: 'failed', achievementsFound: 0, achievementsNew: 0, syncedAt: new Date('2026-10-17T08:00:00Z') },
+            ],
+        });
+
+        expect(data.periodStart).toBe('2026-10-12T00:00:00.000Z');
+        expect(data.achievements.total).toBe(2);
+        expect(data.achievements.top[0].title).toBe('Fixed an issue'); // Highest score first
+        expect(data.content).toEqual({ created: 3, byFormat: { tweet: 2, linkedin: 1 } });
+        expect(data.posts.published).toBe(1);
+        expect(data.posts.failed).toBe(3);
+        expect(data.posts.byPlatform).toEqual({ twitter: { published: 1, failed: 2 }, linkedin: { published: 0, failed: 1 } });
+        expect(data.posts.failureReasons).toEqual([
+            { errorCode: 'DUPLICATE_TWEET', count: 2, message: 'Duplicate content' },
+            { errorCode: 'TOKEN_EXPIRED', count: 1, message: null },
+        ]);
+        expect(data.upcoming.next[0]).toEqual({ platform: 'linkedin', scheduledFor: '2026-10-20T09:00:00.000Z', preview: 'Next week' });
+        expect(data.syncs).toMatchObject({ runs: 2, succeeded: 1, failed: 1, achievementsNew: 2, lastSyncAt: '2026-10-17T08:00:00.000Z' });
+        expect(hasActivity(data)).toBe(true);
+    });
+
+    it('should report a quiet week as having no activity', () => {
+        const data = buildWeeklyReport(period, 'UTC', emptyRows);
+
+        expect(data.syncs.lastSyncAt).toBeNull();
+        expect(hasActivity(data)).toBe(false);
+    });
+});
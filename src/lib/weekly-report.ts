@@ -0,0 +1,171 @@
+import { toZonedTime, fromZonedTime, addLocalDays } from './timezone.js';
+import type { LocalDateTime } from './timezone.js';
+
+/**
+ * Weekly activity report: what happened for a user from Monday 00:00 to the
+ * next Monday 00:00 in their timezone. Built from plain rows so it can be
+ * tested without a database; the scheduler does the queries.
+ */
+
+// Entries listed per section; the totals still count everything
+const MAX_LISTED = 10;
+
+export interface ReportPeriod {
+    periodStart: Date;
+    periodEnd: Date;
+    dueAt: Date; // When the report for this period should go out
+}
+
+export interface WeeklyReportData {
+    periodStart: string;
+    periodEnd: string;
+    timeZone: string;
+    achievements: {
+        total: number;
+        top: { title: string; type: string; repoName: string; repoUrl: string; score: number; occurredAt: string }[];
+    };
+    content: {
+        created: number;
+        byFormat: Record<string, number>;
+    };
+    posts: {
+        published: number;
+        failed: number;
+        byPlatform: Record<string, { published: number; failed: number }>;
+        publishedPosts: { platform: string; url: string | null; completedAt: string }[];
+        failureReasons: { errorCode: string; count: number; message: string | null }[];
+    };
+    upcoming: {
+        total: number;
+        next: { platform: string; scheduledFor: string; preview: string }[];
+    };
+    syncs: {
+        runs: number;
+        succeeded: number;
+        failed: number;
+        partial: number;
+        achievementsFound: number;
+        achievementsNew: number;
+        lastSyncAt: string | null;
+    };
+}
+
+export interface WeeklyReportRows {
+    achievements: { title: string; type: string; repoName: string; repoUrl: string; score: number; occurredAt: Date }[];
+    content: { format: string }[];
+    posts: { platform: string; status: string; errorCode: string | null; errorMessage: string | null; platformUrl: string | null; completedAt: Date }[];
+    upcoming: { platform: string; scheduledFor: Date; content: { content: string } }[];
+    syncs: { status: string; achievementsFound: number; achievementsNew: number; syncedAt: Date }[];
+}
+
+/**
+ * The last full week (Monday to Monday, local) before `now`. The report is
+ * due at `reportHour` local time on the Monday that ends it.
+ */
+export function reportPeriod(now: Date, timeZone: string, reportHour: number = 9): ReportPeriod {
+    const local = toZonedTime(now, timeZone);
+    const today: LocalDateTime = { year: local.year, month: local.month, day: local.day, hour: 0, minute: 0 };
+    const monday = addLocalDays(today, -((local.weekday + 6) % 7));
+
+    return {
+        periodStart: fromZonedTime(addLocalDays(monday, -7), timeZone),
+        periodEnd: fromZonedTime(monday, timeZone),
+        dueAt: fromZonedTime({ ...monday, hour: reportHour }, timeZone),
+    };
+}
+
+function countBy<T>(rows: T[], key: (row: T) => string): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const row of rows) {
+        counts[key(row)] = (counts[key(row)] ?? 0) + 1;
+    }
+    return counts;
+}
+
+/**
+ * Summarize one week of rows into the stored report data
+ */
+export function buildWeeklyReport(period: ReportPeriod, timeZone: string, rows: WeeklyReportRows): WeeklyReportData {
+    const published = rows.posts.filter((post) => post.status === 'POSTED');
+    const failed = rows.posts.filter((post) => post.status === 'FAILED');
+
+    const byPlatform: Record<string, { published: number; failed: number }> = {};
+    for (const post of [...published, ...failed]) {
+        byPlatform[post.platform] ??= { published: 0, failed: 0 };
+        byPlatform[post.platform][post.status === 'POSTED' ? 'published' : 'failed']++;
+    }
+
+    // Most common failure first, with the latest message as an example
+    const reasons = new Map<string, { errorCode: string; count: number; message: string | null }>();
+    for (const post of failed) {
+        const errorCode = post.errorCode ?? 'UNKNOWN_ERROR';
+        const reason = reasons.get(errorCode) ?? { errorCode, count: 0, message: null };
+        reason.count++;
+        reason.message = post.errorMessage ?? reason.message;
+        reasons.set(errorCode, reason);
+    }
+
+    const achievements = [...rows.achievements].sort((a, b) => b.score - a.score);
+
+    return {
+        periodStart: period.periodStart.toISOString(),
+        periodEnd: period.periodEnd.toISOString(),
+        timeZone,
+        achievements: {
+            total: achievements.length,
+            top: achievements.slice(0, MAX_LISTED).map((achievement) => ({
+                ...achievement,
+                occurredAt: achievement.occurredAt.toISOString(),
+            })),
+        },
+        content: {
+            created: rows.content.length,
+            byFormat: countBy(rows.content, (content) => content.format),
+        },
+        posts: {
+            published: published.length,
+            failed: failed.length,
+            byPlatform,
+            publishedPosts: published.slice(0, MAX_LISTED).map((post) => ({
+                platform: post.platform,
+                url: post.platformUrl,
+                completedAt: post.completedAt.toISOString(),
+            })),
+            failureReasons: [...reasons.values()].sort((a, b) => b.count - a.count),
+        },
+        upcoming: {
+            total: rows.upcoming.length,
+            next: rows.upcoming.slice(0, MAX_LISTED).map((post) => ({
+                platform: post.platform,
+                scheduledFor: post.scheduledFor.toISOString(),
+                preview: post.content.content.slice(0, 140),
+            })),
+        },
+        syncs: {
+            runs: rows.syncs.length,
+            succeeded: rows.syncs.filter((sync) => sync.status === 'success').length,
+            failed: rows.syncs.filter((sync) => sync.status === 'failed').length,
+            partial: rows.syncs.filter((sync) => sync.status === 'partial').length,
+            achievementsFound: rows.syncs.reduce((sum, sync) => sum + sync.achievementsFound, 0),
+            achievementsNew: rows.syncs.reduce((sum, sync) => sum + sync.achievementsNew, 0),
+            lastSyncAt: rows.syncs.length > 0
+                ? new Date(Math.max(...rows.syncs.map((sync) => sync.syncedAt.getTime()))).toISOString()
+                : null,
+        },
+    };
+}
+
+/**
+ * Whether there is anything to tell the user (quiet weeks are stored but not emailed)
+ */
+export function hasActivity(data: WeeklyReportData): boolean {
+    return (
+        data.achievements.total +
+            data.content.created +
+            data.posts.published +
+            data.posts.failed +
+            data.upcoming.total +
+            data.syncs.runs >
+        0
+    );
+}
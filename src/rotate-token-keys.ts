@@ -0,0 +1,45 @@
+import 'dotenv/config'
+import { prisma } from './lib/db.js'
+import { logger } from './lib/logger.js'
+import { getCurrentKeyVersion } from './lib/crypto.js'
+import { reencryptAllConnections } from './lib/connections.js'
+
+/**
+ * Re-encrypt every SocialConnection token with the current key version.
+ *
+ * Rotation:
+ *   1. Add the new key to TOKEN_ENCRYPTION_KEYS and point TOKEN_ENCRYPTION_KEY_VERSION at it
+ *   2. Deploy the worker and scheduler (new writes use the new key)
+ *   3. Run this command
+ *   4. Remove the old key from TOKEN_ENCRYPTION_KEYS
+ *
+ * Usage: node dist/rotate-token-keys.js [--dry-run]
+ */
+async function rotateTokenKeys() {
+  const dryRun = process.argv.includes('--dry-run')
+
+  try {
+    const keyVersion = getCurrentKeyVersion()
+    logger.info({ keyVersion, dryRun }, 'Re-encrypting social connection tokens...')
+
+    const stats = await reencryptAllConnections({ dryRun })
+
+    console.log('\n--- TOKEN RE-ENCRYPTION ---')
+    console.log(`Current key version: v${keyVersion}`)
+    console.log(`Connections scanned: ${stats.scanned}`)
+    console.log(`${dryRun ? 'Would re-encrypt' : 'Re-encrypted'}: ${stats.reencrypted}`)
+    console.log(`Skipped (changed concurrently): ${stats.skipped}`)
+    console.log('---------------------------\n')
+
+    if (stats.skipped > 0) {
+      console.log('⚠️  Some rows changed while running. Run the command again before removing old keys.\n')
+    }
+  } catch (err: any) {
+    logger.error({ err }, '❌ Token re-encryption failed')
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+rotateTokenKeys()
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { assignBestTimeSlots } from './best-time.js';
+import { prisma } from '../lib/db.js';
+
+vi.mock('../lib/db.js', () => ({
+    prisma: {
+        scheduledPost: {
+            findMany: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+    },
+}));
+
+const now = new Date('2026-10-19T06:00:00Z'); // Monday
+
+function pendingPost(id: string) {
+    return {
+        id,
+        userId: 'user-1',
+        platform: 'twitter',
+        scheduledFor: now,
+        user: { preferences: { timezone: 'UTC', postingDays: [1, 2, 3, 4, 5] } },
+    };
+}
+
+describe('assignBestTimeSlots', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (prisma.$queryRaw as any).mockResolvedValue([]);
+        (prisma.scheduledPost.updateMany as any).mockResolvedValue({ count: 1 });
+    });
+
+    it('should give posts of the same user separate slots', async () => {
+        (prisma.scheduledPost.findMany as any)
+            .mockResolvedValueOnce([pendingPost('post-1'), pendingPost('post-2')]) // unassigned posts
+            .mockResolvedValueOnce([]) // platform posts in the horizon
+            .mockResolvedValueOnce([]) // user history
+            .mockResolvedValueOnce([]); // user's upcoming posts
+
+        const stats = await assignBestTimeSlots(now);
+
+        expect(stats).toEqual({ assigned: 2, unassigned: 0 });
+
+        const [first, second] = (prisma.scheduledPost.updateMany as any).mock.calls.map((call: any[]) => call[0]);
+        expect(first.where).toEqual({ id: 'post-1', status: 'PENDING', scheduleMode: 'best_time', slotAssignedAt: null });
+        expect(first.data).toEqual({ scheduledFor: new Date('2026-10-19T08:00:00Z'), slotAssignedAt: now });
+        expect(Math.abs(second.data.scheduledFor - first.data.scheduledFor)).toBeGreaterThanOrEqual(3 * 60 * 60 * 1000);
+    });
+
+    it('should leave a post unassigned when the daily quota is full all week', async () => {
+        const full = Array.from({ length: 8 }, (_, day) =>
+            Array.from({ length: 17 }, () => ({ scheduledFor: new Date(now.getTime() + day * 24 * 60 * 60 * 1000) }))
+        ).flat();
+
+        (prisma.scheduledPost.findMany as any)
+            .mockResolvedValueOnce([pendingPost('post-1')])
+            .mockResolvedValueOnce(full)
+            .mockResolvedValueOnce([])
+            .mockResolvedValueOnce([]);
+
+        const stats = await assignBestTimeSlots(now);
+
+        expect(stats).toEqual({ assigned: 0, unassigned: 1 });
+        expect(prisma.scheduledPost.updateMany).not.toHaveBeenCalled();
+    });
+});
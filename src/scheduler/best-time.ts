@@ -0,0 +1,211 @@
+import { prisma } from '../lib/db.js';
+import { createChildLogger } from '../lib/logger.js';
+import { rankPostingSlots, pickBestTime, utcDay } from '../lib/best-time.js';
+import type { PostingSlot, SlotDensity, SlotOutcome } from '../lib/best-time.js';
+import type { PostingWindow } from '../lib/posting-window.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back the user's outcomes and the platform density are read
+const HISTORY_DAYS = 90;
+const DENSITY_DAYS = 28;
+
+// Posts-per-day ceiling per platform (all users). Twitter's Free tier allows 17 posts per 24h per app.
+const DAILY_POST_QUOTAS: Record<string, number> = {
+    twitter: parseInt(process.env.TWITTER_DAILY_POST_QUOTA || '17'),
+    linkedin: parseInt(process.env.LINKEDIN_DAILY_POST_QUOTA || '150'),
+};
+
+const ACTIVE_STATUSES = ['PENDING', 'QUEUED', 'PROCESSING', 'POSTED'];
+
+/**
+ * Posts in best-time mode that still wait for the scheduler to pick their time.
+ * Their scheduledFor is only the earliest allowed time until then.
+ */
+export const UNASSIGNED_BEST_TIME = { scheduleMode: 'best_time', slotAssignedAt: null };
+
+export interface SlotAssignmentStats {
+    assigned: number;
+    unassigned: number; // No slot fits yet; retried on the next run
+}
+
+interface BestTimePostRow {
+    id: string;
+    userId: string;
+    platform: string;
+    scheduledFor: Date;
+    user: { preferences: PostingWindow | null };
+}
+
+/**
+ * Pick a posting time for PENDING posts in best-time mode.
+ *
+ * Each post gets the best-ranked slot for its user within the horizon that
+ * keeps `BEST_TIME_MIN_SPACING_HOURS` from the user's other posts and stays
+ * within the platform's daily quota. Slots are claimed with a conditional
+ * update, so a post is never assigned twice.
+ */
+export async function assignBestTimeSlots(now: Date = new Date()): Promise<SlotAssignmentStats> {
+    const log = createChildLogger({ task: 'bestTime' });
+    const stats: SlotAssignmentStats = { assigned: 0, unassigned: 0 };
+    const horizonDays = parseInt(process.env.BEST_TIME_HORIZON_DAYS || '7');
+    const minSpacingMs = parseInt(process.env.BEST_TIME_MIN_SPACING_HOURS || '3') * 60 * 60 * 1000;
+
+    const posts: BestTimePostRow[] = await prisma.scheduledPost.findMany({
+        where: { status: 'PENDING', ...UNASSIGNED_BEST_TIME },
+        select: {
+            id: true,
+            userId: true,
+            platform: true,
+            scheduledFor: true,
+            user: {
+                select: {
+                    preferences: {
+                        select: { timezone: true, quietHoursStart: true, quietHoursEnd: true, postingDays: true },
+                    },
+                },
+            },
+        },
+        orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+        take: 100,
+    });
+
+    if (posts.length === 0) {
+        return stats;
+    }
+
+    const horizonEnd = new Date(now.getTime() + (horizonDays + 1) * DAY_MS);
+    const density = new Map<string, SlotDensity[]>();
+    const dailyCounts = new Map<string, Map<string, number>>();
+    const rankings = new Map<string, PostingSlot[]>();
+    const userPostTimes = new Map<string, Date[]>();
+
+    for (const post of posts) {
+        const window: PostingWindow = post.user.preferences ?? { timezone: 'UTC' };
+        const from = new Date(Math.max(now.getTime(), post.scheduledFor.getTime()));
+
+        if (!density.has(post.platform)) {
+            density.set(post.platform, await loadDensity(post.platform, now));
+            dailyCounts.set(post.platform, await loadDailyCounts(post.platform, now, horizonEnd));
+        }
+
+        const rankingKey = `${post.userId}:${post.platform}`;
+        let slots = rankings.get(rankingKey);
+        if (!slots) {
+            const outcomes = await loadOutcomes(post.userId, post.platform, now);
+            slots = rankPostingSlots({ outcomes, density: density.get(post.platform)!, window, now });
+            rankings.set(rankingKey, slots);
+        }
+
+        let times = userPostTimes.get(post.userId);
+        if (!times) {
+            times = await loadUserPostTimes(post.userId, now, horizonEnd, minSpacingMs);
+            userPostTimes.set(post.userId, times);
+        }
+
+        const counts = dailyCounts.get(post.platform)!;
+        const scheduledFor = pickBestTime({
+            slots,
+            timeZone: window.timezone,
+            from,
+            horizonDays,
+            userPostTimes: times,
+            minSpacingMs,
+            dailyQuota: DAILY_POST_QUOTAS[post.platform] ?? Infinity,
+            dailyCounts: counts,
+        });
+
+        if (!scheduledFor) {
+            stats.unassigned++;
+            log.warn({ postId: post.id, userId: post.userId }, 'No free best-time slot in the horizon, retrying later');
+            continue;
+        }
+
+        const { count } = await prisma.scheduledPost.updateMany({
+            where: { id: post.id, status: 'PENDING', ...UNASSIGNED_BEST_TIME },
+            data: { scheduledFor, slotAssignedAt: now },
+        });
+
+        if (count === 0) {
+            continue; // Edited, cancelled or assigned elsewhere meanwhile
+        }
+
+        times.push(scheduledFor);
+        counts.set(utcDay(scheduledFor), (counts.get(utcDay(scheduledFor)) ?? 0) + 1);
+        stats.assigned++;
+        log.info({ postId: post.id, userId: post.userId, scheduledFor }, 'Assigned best-time slot');
+    }
+
+    return stats;
+}
+
+// The user's past posts on the platform and how they went
+async function loadOutcomes(userId: string, platform: string, now: Date): Promise<SlotOutcome[]> {
+    const history: { scheduledFor: Date; status: string; engagementScore: number | null }[] =
+        await prisma.scheduledPost.findMany({
+            where: {
+                userId,
+                platform,
+                status: { in: ['POSTED', 'FAILED'] },
+                scheduledFor: { gte: new Date(now.getTime() - HISTORY_DAYS * DAY_MS) },
+            },
+            select: { scheduledFor: true, status: true, engagementScore: true },
+            orderBy: { scheduledFor: 'desc' },
+            take: 500,
+        });
+
+    return history.map((post) => ({
+        scheduledFor: post.scheduledFor,
+        posted: post.status === 'POSTED',
+        engagement: post.engagementScore,
+    }));
+}
+
+// Platform-wide posts per UTC weekday and hour
+async function loadDensity(platform: string, now: Date): Promise<SlotDensity[]> {
+    const since = new Date(now.getTime() - DENSITY_DAYS * DAY_MS);
+
+    return prisma.$queryRaw`
+        SELECT EXTRACT(DOW FROM "scheduledFor")::int AS weekday,
+               EXTRACT(HOUR FROM "scheduledFor")::int AS hour,
+               COUNT(*)::int AS count
+        FROM "ScheduledPost"
+        WHERE platform = ${platform}
+          AND "scheduledFor" >= ${since}
+          AND status IN ('PENDING', 'QUEUED', 'PROCESSING', 'POSTED')
+        GROUP BY 1, 2`;
+}
+
+// Platform-wide posts already planned per UTC day in the horizon
+async function loadDailyCounts(platform: string, now: Date, until: Date): Promise<Map<string, number>> {
+    const planned: { scheduledFor: Date }[] = await prisma.scheduledPost.findMany({
+        where: {
+            platform,
+            status: { in: ACTIVE_STATUSES },
+            scheduledFor: { gte: new Date(now.getTime() - DAY_MS), lt: until },
+            NOT: UNASSIGNED_BEST_TIME,
+        },
+        select: { scheduledFor: true },
+    });
+
+    const counts = new Map<string, number>();
+    for (const post of planned) {
+        counts.set(utcDay(post.scheduledFor), (counts.get(utcDay(post.scheduledFor)) ?? 0) + 1);
+    }
+    return counts;
+}
+
+// The user's upcoming posts on any platform, to keep reposts apart
+async function loadUserPostTimes(userId: string, now: Date, until: Date, spacingMs: number): Promise<Date[]> {
+    const upcoming: { scheduledFor: Date }[] = await prisma.scheduledPost.findMany({
+        where: {
+            userId,
+            status: { in: ACTIVE_STATUSES },
+            scheduledFor: { gte: new Date(now.getTime() - spacingMs), lt: new Date(until.getTime() + spacingMs) },
+            NOT: UNASSIGNED_BEST_TIME,
+        },
+        select: { scheduledFor: true },
+    });
+
+    return upcoming.map((post) => post.scheduledFor);
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { collectEngagement } from './engagement.js';
+import type { EngagementClient, PostMetrics } from '../lib/engagement.js';
+import { prisma } from '../lib/db.js';
+
+vi.mock('../lib/db.js', () => ({
+    prisma: {
+        scheduledPost: {
+            findMany: vi.fn(),
+            update: vi.fn(),
+        },
+        engagementSnapshot: {
+            create: vi.fn(),
+        },
+    },
+}));
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+function metrics(likes: number): PostMetrics {
+    return { likes, reposts: 1, replies: 0, quotes: 0, bookmarks: 0, impressions: 500 };
+}
+
+// Local stand-in for the Twitter API: knows some tweets, reports a rate limit window
+function stubClient(known: Record<string, PostMetrics>, remaining: number = 100): EngagementClient & { lookup: ReturnType<typeof vi.fn> } {
+    return {
+        maxBatchSize: 2,
+        lookup: vi.fn().mockImplementation(async (ids: string[]) => ({
+            metrics: new Map(ids.filter((id) => known[id]).map((id) => [id, known[id]])),
+            missing: ids.filter((id) => !known[id]),
+            rateLimit: { limit: 15, remaining, reset: now.getTime() / 1000 + 600 },
+        })),
+    };
+}
+
+function duePost(id: string, minutesAgo: number) {
+    return { id, platformPostId: `tweet-${id}`, completedAt: new Date(now.getTime() - minutesAgo * 60 * 1000) };
+}
+
+describe('collectEngagement', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should store a snapshot, update the score and schedule the next poll', async () => {
+        (prisma.scheduledPost.findMany as any).mockResolvedValue([duePost('1', 30), duePost('2', 3 * 24 * 60), duePost('3', 60)]);
+        const client = stubClient({ 'tweet-1': metrics(10), 'tweet-2': metrics(4), 'tweet-3': metrics(0) });
+
+        const stats = await collectEngagement('twitter', client, { now });
+
+        expect(stats).toEqual({ due: 3, collected: 3, missing: 0, requests: 2, rateLimited: false });
+        expect(client.lookup.mock.calls.map((call) => call[0])).toEqual([['tweet-1', 'tweet-2'], ['tweet-3']]);
+        expect((prisma.scheduledPost.findMany as any).mock.calls[0][0]).toMatchObject({
+            where: { platform: 'twitter', status: 'POSTED', metricsNextAt: { lte: now } },
+            take: 6,
+        });
+        expect(prisma.engagementSnapshot.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ scheduledPostId: '1', platformPostId: 'tweet-1', likes: 10, reposts: 1, impressions: 500 }),
+        });
+        expect(prisma.scheduledPost.update).toHaveBeenCalledWith({
+            where: { id: '1' },
+            data: { engagementScore: 12, metricsNextAt: new Date('2026-10-19T12:15:00Z') }, // 15 minutes while fresh
+        });
+        expect(prisma.scheduledPost.update).toHaveBeenCalledWith({
+            where: { id: '2' },
+            data: { engagementScore: 6, metricsNextAt: new Date('2026-10-19T18:00:00Z') }, // 6 hours after a few days
+        });
+    });
+
+    it('should stop polling deleted posts', async () => {
+        (prisma.scheduledPost.findMany as any).mockResolvedValue([duePost('1', 30)]);
+
+        const stats = await collectEngagement('twitter', stubClient({}), { now });
+
+        expect(stats.missing).toBe(1);
+        expect(prisma.engagementSnapshot.create).not.toHaveBeenCalled();
+        expect(prisma.scheduledPost.update).toHaveBeenCalledWith({ where: { id: '1' }, data: { metricsNextAt: null } });
+    });
+
+    it('should pause until the rate limit window resets', async () => {
+        (prisma.scheduledPost.findMany as any).mockResolvedValue([duePost('1', 30), duePost('2', 30), duePost('3', 30)]);
+        const known = { 'tweet-1': metrics(1), 'tweet-2': metrics(1), 'tweet-3': metrics(1) };
+        const client = stubClient(known, 0);
+
+        expect(await collectEngagement('linkedin', client, { now })).toMatchObject({ requests: 1, collected: 2, rateLimited: true });
+
+        // Still inside the window: no lookups at all
+        expect(await collectEngagement('linkedin', client, { now: new Date(now.getTime() + 5 * 60 * 1000) })).toMatchObject({ requests: 0, rateLimited: true });
+        expect(client.lookup).toHaveBeenCalledTimes(1);
+
+        // After the reset
+        const later = new Date(now.getTime() + 11 * 60 * 1000);
+        expect(await collectEngagement('linkedin', stubClient(known), { now: later })).toMatchObject({ requests: 2, rateLimited: false });
+    });
+
+    it('should pause on a 429 and keep the posts due', async () => {
+        (prisma.scheduledPost.findMany as any).mockResolvedValue([duePost('1', 30)]);
+        const client = stubClient({});
+        client.lookup.mockRejectedValue(Object.assign(new Error('Rate limited'), { code: 'RATE_LIMITED' }));
+
+        const stats = await collectEngagement('twitter-429', client, { now });
+
+        expect(stats.rateLimited).toBe(true);
+        expect(prisma.scheduledPost.update).not.toHaveBeenCalled();
+        expect(await collectEngagement('twitter-429', client, { now: new Date(now.getTime() + 10 * 60 * 1000) })).toMatchObject({ requests: 0 });
+    });
+});
@@ -0,0 +1,124 @@
+import { prisma } from '../lib/db.js';
+import { createChildLogger } from '../lib/logger.js';
+import { nextCollectionTime, engagementScore } from '../lib/engagement.js';
+import type { EngagementClient } from '../lib/engagement.js';
+import { engagementSnapshots } from '../lib/metrics.js';
+
+// Lookup requests per run; with one run every 5 minutes this stays within 15 requests per 15 minutes
+const DEFAULT_MAX_REQUESTS = 3;
+
+// Wait used when a 429 carries no reset time
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 15 * 60 * 1000;
+
+export interface EngagementStats {
+    due: number;
+    collected: number;
+    missing: number;
+    requests: number;
+    rateLimited: boolean;
+}
+
+interface DuePostRow {
+    id: string;
+    platformPostId: string;
+    completedAt: Date | null;
+}
+
+// Per platform: no lookups until the rate limit window resets
+const pausedUntil = new Map<string, Date>();
+
+/**
+ * Poll public metrics of published posts whose `metricsNextAt` has come.
+ *
+ * Each poll is stored as an EngagementSnapshot, the post's engagementScore
+ * is updated and its next poll is scheduled, less often as it ages. Posts
+ * the platform no longer returns (deleted) are not polled again. A run makes
+ * at most `maxRequests` lookups and stops for the platform once the rate
+ * limit is used up, until the window resets.
+ */
+export async function collectEngagement(
+    platform: string,
+    client: EngagementClient,
+    options: { now?: Date; maxRequests?: number } = {}
+): Promise<EngagementStats> {
+    const log = createChildLogger({ task: 'engagement', platform });
+    const now = options.now ?? new Date();
+    const maxRequests = options.maxRequests ?? DEFAULT_MAX_REQUESTS;
+    const stats: EngagementStats = { due: 0, collected: 0, missing: 0, requests: 0, rateLimited: false };
+
+    const paused = pausedUntil.get(platform);
+    if (paused && paused > now) {
+        stats.rateLimited = true;
+        return stats;
+    }
+    pausedUntil.delete(platform);
+
+    const due: DuePostRow[] = await prisma.scheduledPost.findMany({
+        where: { platform, status: 'POSTED', platformPostId: { not: null }, metricsNextAt: { lte: now } },
+        orderBy: { metricsNextAt: 'asc' }, // Longest overdue first
+        take: maxRequests * client.maxBatchSize,
+        select: { id: true, platformPostId: true, completedAt: true },
+    });
+
+    stats.due = due.length;
+
+    for (let offset = 0; offset < due.length; offset += client.maxBatchSize) {
+        const batch = due.slice(offset, offset + client.maxBatchSize);
+        let lookup;
+
+        try {
+            stats.requests++;
+            lookup = await client.lookup(batch.map((post) => post.platformPostId));
+        } catch (error: any) {
+            if (error?.code === 'RATE_LIMITED') {
+                pause(platform, error.rateLimit?.reset, now);
+                stats.rateLimited = true;
+                log.warn({ until: pausedUntil.get(platform) }, 'Engagement lookups rate limited, pausing');
+            } else {
+                log.error({ error: error?.message, code: error?.code }, 'Failed to look up engagement');
+            }
+            break;
+        }
+
+        const collectedAt = new Date();
+
+        for (const post of batch) {
+            const metrics = lookup.metrics.get(post.platformPostId);
+
+            if (!metrics) {
+                // Deleted or hidden: stop polling
+                await prisma.scheduledPost.update({ where: { id: post.id }, data: { metricsNextAt: null } });
+                stats.missing++;
+                engagementSnapshots.inc({ platform, outcome: 'missing' });
+                continue;
+            }
+
+            await prisma.engagementSnapshot.create({
+                data: { scheduledPostId: post.id, platformPostId: post.platformPostId, ...metrics, collectedAt },
+            });
+            await prisma.scheduledPost.update({
+                where: { id: post.id },
+                data: {
+                    engagementScore: engagementScore(metrics),
+                    metricsNextAt: nextCollectionTime(post.completedAt ?? now, now),
+                },
+            });
+
+            stats.collected++;
+            engagementSnapshots.inc({ platform, outcome: 'collected' });
+        }
+
+        // Window used up: wait for the reset instead of running into a 429
+        if (lookup.rateLimit && lookup.rateLimit.remaining === 0) {
+            pause(platform, lookup.rateLimit.reset, now);
+            stats.rateLimited = true;
+            break;
+        }
+    }
+
+    return stats;
+}
+
+function pause(platform: string, resetSeconds: number | undefined, now: Date): void {
+    pausedUntil.set(platform, resetSeconds ? new Date(resetSeconds * 1000) : new Date(now.getTime() + DEFAULT_RATE_LIMIT_PAUSE_MS));
+}
@@ -0,0 +1,279 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { queuePendingPosts } from './enqueue.js';
+import { prisma } from '../lib/db.js';
+import { emitWebhookEvent } from '../lib/webhooks.js';
+import { blobKey } from '../lib/blob-store.js';
+import type { BlobStore } from '../lib/blob-store.js';
+import { MediaError } from '../lib/media.js';
+
+vi.mock('../lib/db.js', () => ({
+    prisma: {
+        scheduledPost: {
+            findMany: vi.fn(),
+            update: vi.fn(),
+            updateMany: vi.fn(),
+            count: vi.fn(),
+        },
+        rateLimitState: {
+            findUnique: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../lib/webhooks.js', () => ({
+    emitWebhookEvent: vi.fn(),
+}));
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+// In-memory blob store
+function memoryStore(): BlobStore & { blobs: Map<string, Buffer> } {
+    const blobs = new Map<string, Buffer>();
+    return {
+        blobs,
+        put: async (data) => {
+            blobs.set(blobKey(data), data);
+            return blobKey(data);
+        },
+        get: async (key) => blobs.get(key) ?? null,
+        delete: async (key) => {
+            blobs.delete(key);
+        },
+        list: async function* () {},
+    };
+}
+const lookAheadMs = 5 * 60 * 1000;
+
+function makePost(id: string, overrides: Record<string, unknown> = {}) {
+    return {
+        id,
+        userId: 'user-1',
+        contentId: `content-${id}`,
+        platform: 'twitter',
+        priority: 0,
+        scheduledFor: new Date('2026-10-19T12:02:00Z'),
+        rescheduledFrom: null,
+        content: { content: 'Hello' },
+        user: { preferences: null },
+        ...overrides,
+    };
+}
+
+function makeRoutes() {
+    const route = (prefix: string) => ({
+        queue: { add: vi.fn().mockImplementation((_name: string, _data: unknown, opts: any) => ({ id: opts.jobId })) },
+        jobName: `post-${prefix}`,
+        jobIdPrefix: prefix,
+        validate: (content: string) => (content.length > 0 ? { valid: true } : { valid: false, error: 'Empty' }),
+        fetchMedia: vi.fn().mockImplementation(async (item: { url: string }) => Buffer.from(`bytes of ${item.url}`)),
+    });
+
+    return { twitter: route('tweet'), linkedin: route('linkedin') } as any;
+}
+
+describe('queuePendingPosts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (prisma.rateLimitState.findUnique as any).mockResolvedValue(null); // No known rate limit window
+        (prisma.scheduledPost.updateMany as any).mockResolvedValue({ count: 1 });
+    });
+
+    it('should queue every candidate page by page', async () => {
+        const posts = ['post-1', 'post-2', 'post-3'].map((id) => makePost(id));
+        (prisma.scheduledPost.findMany as any)
+            .mockResolvedValueOnce(posts.map(({ id }) => ({ id }))) // candidate IDs
+            .mockResolvedValueOnce([posts[1], posts[0]]) // page 1, in any order
+            .mockResolvedValueOnce([posts[2]]); // page 2
+        const routes = makeRoutes();
+
+        const stats = await queuePendingPosts(routes, { now, lookAheadMs, pageSize: 2 });
+
+        expect(stats).toEqual({ found: 3, queued: 3, held: 0, moved: 0, rejected: 0, mediaPending: 0 });
+        expect((prisma.scheduledPost.findMany as any).mock.calls[0][0].take).toBeUndefined();
+        expect((prisma.scheduledPost.findMany as any).mock.calls[1][0].where.id).toEqual({ in: ['post-1', 'post-2'] });
+        expect(routes.twitter.queue.add.mock.calls.map((call: any[]) => call[2].jobId))
+            .toEqual(['tweet-post-1', 'tweet-post-2', 'tweet-post-3']);
+        expect(routes.twitter.queue.add.mock.calls[0][2].delay).toBe(2 * 60 * 1000);
+        expect(emitWebhookEvent).toHaveBeenCalledWith('post.queued', { scheduledPostId: 'post-1' });
+    });
+
+    it('should only consider the given posts', async () => {
+        (prisma.scheduledPost.findMany as any).mockResolvedValueOnce([]);
+
+        const stats = await queuePendingPosts(makeRoutes(), { now, lookAheadMs, postIds: ['post-9'] });
+
+        expect(stats.found).toBe(0);
+        expect((prisma.scheduledPost.findMany as any).mock.calls[0][0].where).toMatchObject({
+            id: { in: ['post-9'] },
+            status: 'PENDING',
+            scheduledFor: { lte: new Date('2026-10-19T12:05:00Z') },
+        });
+    });
+
+    it('should claim posts with a conditional update and skip ones that changed', async () => {
+        const post = makePost('post-1');
+        (prisma.scheduledPost.findMany as any)
+            .mockResolvedValueOnce([{ id: 'post-1' }])
+            .mockResolvedValueOnce([post]);
+        (prisma.scheduledPost.updateMany as any).mockResolvedValueOnce({ count: 0 });
+        const routes = makeRoutes();
+
+        const stats = await queuePendingPosts(routes, { now, lookAheadMs });
+
+        expect(stats.queued).toBe(0);
+        expect(emitWebhookEvent).not.toHaveBeenCalled();
+        expect(prisma.scheduledPost.updateMany).toHaveBeenCalledWith({
+            where: { id: 'post-1', status: 'PENDING', scheduledFor: post.scheduledFor },
+            data: expect.objectContaining({ status: 'QUEUED', jobId: 'tweet-post-1' }),
+        });
+
+        // No job holds the post's job ID with a stale delay
+        expect(routes.twitter.queue.add).not.toHaveBeenCalled();
+    });
+
+    it('should release the claim when the job could not be added', async () => {
+        (prisma.scheduledPost.findMany as any)
+            .mockResolvedValueOnce([{ id: 'post-1' }])
+            .mockResolvedValueOnce([makePost('post-1')]);
+        const routes = makeRoutes();
+        routes.twitter.queue.add.mockRejectedValueOnce(new Error('Connection is closed'));
+
+        const stats = await queuePendingPosts(routes, { now, lookAheadMs });
+
+        expect(stats.queued).toBe(0);
+        expect(prisma.scheduledPost.updateMany).toHaveBeenLastCalledWith({
+            where: { id: 'post-1', status: 'QUEUED', jobId: 'tweet-post-1' },
+            data: { status: 'PENDING', jobId: null, queuedAt: null },
+        });
+    });
+
+    it('should reject invalid content and hold posts beyond the quota', async () => {
+        const posts = [makePost('post-1', { content: { content: '' } }), makePost('post-2'), makePost('post-3')];
+        (prisma.scheduledPost.findMany as any)
+            .mockResolvedValueOnce(posts.map(({ id }) => ({ id })))
+            .mockResolvedValueOnce(posts);
+        (prisma.rateLimitState.findUnique as any).mockImplementation(({ where }: any) =>
+            where.platform === 'twitter'
+                ? { postsRemaining: 1, windowResetAt: new Date('2026-10-19T13:00:00Z') }
+                : null
+        );
+        (prisma.scheduledPost.count as any).mockResolvedValue(0);
+
+        const stats = await queuePendingPosts(makeRoutes(), { now, lookAheadMs });
+
+        expect(stats).toEqual({ found: 3, queued: 1, held: 1, moved: 0, rejected: 1, mediaPending: 0 });
+        expect(prisma.scheduledPost.update).toHaveBeenCalledWith({
+            where: { id: 'post-1' },
+            data: expect.objectContaining({ status: 'FAILED', errorCode: 'INVALID_CONTENT' }),
+        });
+    });
+
+    describe('media', () => {
+        function listPosts(...posts: ReturnType<typeof makePost>[]) {
+            (prisma.scheduledPost.findMany as any)
+                .mockResolvedValueOnce(posts.map(({ id }) => ({ id })))
+                .mockResolvedValueOnce(posts);
+        }
+
+        it('should store media when queueing and hand the blob keys to the job', async () => {
+            listPosts(makePost('post-1', {
+                mediaUrls: ['https://cdn.test/a.png', { url: 'https://cdn.test/b.png', altText: 'Chart' }],
+                mediaPolicy: 'required',
+            }));
+            const routes = makeRoutes();
+            const store = memoryStore();
+
+            await queuePendingPosts(routes, { now, lookAheadMs, mediaStore: store });
+
+            const keys = [blobKey(Buffer.from('bytes of https://cdn.test/a.png')), blobKey(Buffer.from('bytes of https://cdn.test/b.png'))];
+            expect(store.blobs.size).toBe(2);
+            expect(routes.twitter.queue.add.mock.calls[0][1]).toMatchObject({
+                mediaUrls: [
+                    { url: 'https://cdn.test/a.png', blobKey: keys[0] },
+                    { url: 'https://cdn.test/b.png', altText: 'Chart', blobKey: keys[1] },
+                ],
+                mediaPolicy: 'required',
+            });
+            expect((prisma.scheduledPost.updateMany as any).mock.calls[0][0].data.mediaBlobKeys).toEqual(keys);
+        });
+
+        it('should fetch a few items at a time with a short timeout', async () => {
+            const urls = ['a', 'b', 'c', 'd', 'e', 'f'].map((name) => `https://cdn.test/${name}.png`);
+            listPosts(makePost('post-1', { mediaUrls: urls }));
+            const routes = makeRoutes();
+            let running = 0;
+            let mostRunning = 0;
+            routes.twitter.fetchMedia.mockImplementation(async (item: { url: string }) => {
+                mostRunning = Math.max(mostRunning, ++running);
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                running--;
+                return Buffer.from(`bytes of ${item.url}`);
+            });
+
+            await queuePendingPosts(routes, { now, lookAheadMs, mediaStore: memoryStore() });
+
+            expect(mostRunning).toBe(4);
+            expect(routes.twitter.fetchMedia.mock.calls.every((call: any[]) => call[1] === 20 * 1000)).toBe(true);
+            expect(routes.twitter.queue.add.mock.calls[0][1].mediaUrls.map((item: { url: string }) => item.url)).toEqual(urls);
+        });
+
+        it('should fail a post with broken required media before it is due', async () => {
+            listPosts(makePost('post-1', { mediaUrls: ['https://cdn.test/gone.png'] }));
+            const routes = makeRoutes();
+            routes.twitter.fetchMedia.mockRejectedValueOnce(new MediaError('MEDIA_DOWNLOAD_FAILED', 'HTTP 404', false));
+
+            const stats = await queuePendingPosts(routes, { now, lookAheadMs, mediaStore: memoryStore() });
+
+            expect(stats.rejected).toBe(1);
+            expect(routes.twitter.queue.add).not.toHaveBeenCalled();
+            expect(prisma.scheduledPost.update).toHaveBeenCalledWith({
+                where: { id: 'post-1' },
+                data: expect.objectContaining({ status: 'FAILED', errorCode: 'MEDIA_DOWNLOAD_FAILED', errorMessage: 'HTTP 404' }),
+            });
+        });
+
+        it('should queue optional media that failed for the worker to report', async () => {
+            listPosts(makePost('post-1', { mediaUrls: ['https://cdn.test/gone.png'], mediaPolicy: 'optional' }));
+            const routes = makeRoutes();
+            routes.twitter.fetchMedia.mockRejectedValueOnce(new MediaError('MEDIA_DOWNLOAD_FAILED', 'HTTP 404', false));
+
+            const stats = await queuePendingPosts(routes, { now, lookAheadMs, mediaStore: memoryStore() });
+
+            expect(stats.queued).toBe(1);
+            expect(routes.twitter.queue.add.mock.calls[0][1].mediaUrls).toEqual([{ url: 'https://cdn.test/gone.png' }]);
+        });
+
+        it('should not use up the quota on posts rejected or held for media', async () => {
+            listPosts(
+                makePost('post-1', { mediaUrls: ['https://cdn.test/gone.png'] }),
+                makePost('post-2', { mediaUrls: ['https://cdn.test/busy.png'] }),
+                makePost('post-3')
+            );
+            (prisma.rateLimitState.findUnique as any).mockResolvedValue({ postsRemaining: 1, windowResetAt: new Date('2026-10-19T13:00:00Z') });
+            (prisma.scheduledPost.count as any).mockResolvedValue(0);
+            const routes = makeRoutes();
+            routes.twitter.fetchMedia
+                .mockRejectedValueOnce(new MediaError('MEDIA_DOWNLOAD_FAILED', 'HTTP 404', false))
+                .mockRejectedValueOnce(new MediaError('MEDIA_DOWNLOAD_FAILED', 'HTTP 503', true));
+
+            const stats = await queuePendingPosts(routes, { now, lookAheadMs, mediaStore: memoryStore() });
+
+            expect(stats).toMatchObject({ queued: 1, held: 0, rejected: 1, mediaPending: 1 });
+            expect(routes.twitter.queue.add.mock.calls[0][2].jobId).toBe('tweet-post-3');
+        });
+
+        it('should hold a post while its media host is down, until the post is due', async () => {
+            const post = makePost('post-1', { mediaUrls: ['https://cdn.test/a.png'] });
+            const routes = makeRoutes();
+            routes.twitter.fetchMedia.mockRejectedValue(new MediaError('MEDIA_DOWNLOAD_FAILED', 'HTTP 503', true));
+
+            listPosts(post);
+            expect(await queuePendingPosts(routes, { now, lookAheadMs, mediaStore: memoryStore() })).toMatchObject({ queued: 0, mediaPending: 1 });
+            expect(prisma.scheduledPost.update).not.toHaveBeenCalled();
+
+            listPosts(post);
+            const due = new Date('2026-10-19T12:02:00Z');
+            expect(await queuePendingPosts(routes, { now: due, lookAheadMs, mediaStore: memoryStore() })).toMatchObject({ queued: 1, mediaPending: 0 });
+        });
+    });
+});
@@ -0,0 +1,373 @@
+import { prisma } from '../lib/db.js';
+import { createChildLogger } from '../lib/logger.js';
+import { DEFAULT_JOB_OPTIONS } from '../lib/queue.js';
+import type { Queue, JobsOptions } from '../lib/queue.js';
+import type { PostJobData, JobResult, MediaItem, MediaPolicy } from '../lib/types.js';
+import { getPostingQuota, hasQuota, consumeQuota } from '../lib/rate-limit.js';
+import type { PostingQuota } from '../lib/rate-limit.js';
+import { adjustToPostingWindow } from '../lib/posting-window.js';
+import type { PostingWindow } from '../lib/posting-window.js';
+import { postsQueued, mediaPrefetches } from '../lib/metrics.js';
+import { emitWebhookEvent } from '../lib/webhooks.js';
+import { getBlobStore } from '../lib/blob-store.js';
+import type { BlobStore } from '../lib/blob-store.js';
+import { MediaError, toMediaItems } from '../lib/media.js';
+import { UNASSIGNED_BEST_TIME } from './best-time.js';
+
+// Posts loaded per page; the candidate ID list itself is not capped
+const PAGE_SIZE = 100;
+
+// Pre-fetching runs inside the queueing sweep, so a slow media host must not hold up
+// other users' posts: items that take longer are left to the worker's own download
+const MEDIA_PREFETCH_TIMEOUT_MS = 20 * 1000;
+const MEDIA_PREFETCH_CONCURRENCY = 4;
+
+export interface PlatformRoute<T extends PostJobData = PostJobData> {
+    // Type arguments spelled out: BullMQ's defaults don't resolve for a generic T
+    queue: Queue<T, JobResult, string, T, JobResult, string>;
+    jobName: string;
+    jobIdPrefix: string;
+    validate: (content: string) => { valid: boolean; error?: string };
+    // Download and check one media item within `timeoutMs`; the bytes go into the blob store
+    fetchMedia: (item: MediaItem, timeoutMs: number) => Promise<Buffer>;
+}
+
+type Platform = PostJobData['platform'];
+
+type JobDataFor<P extends Platform> = Extract<PostJobData, { platform: P }>;
+
+// Each platform's route, with its queue typed for that platform's jobs
+export type PlatformRoutes = { [P in Platform]: PlatformRoute<JobDataFor<P>> };
+
+export interface EnqueueStats {
+    found: number;
+    queued: number;
+    held: number; // platform quota used up, stays PENDING
+    moved: number; // moved into the user's posting window
+    rejected: number; // invalid content or media, marked FAILED
+    mediaPending: number; // media host failing, stays PENDING until it recovers or the post is due
+}
+
+interface PendingPostRow {
+    id: string;
+    userId: string;
+    contentId: string;
+    platform: string;
+    priority: number;
+    scheduledFor: Date;
+    rescheduledFrom: Date | null;
+    mediaUrls?: unknown; // Json column
+    mediaPolicy?: string;
+    content: { content: string };
+    user: { preferences: PostingWindow | null };
+}
+
+interface PrefetchOutcome {
+    item: MediaItem; // With its blobKey once stored
+    blobKey?: string;
+    error?: MediaError;
+}
+
+/**
+ * Queue PENDING posts due within the look-ahead window.
+ *
+ * Candidates are listed up front (IDs only, best first) and loaded page by
+ * page, so a backlog of any size drains in one run. Pass `postIds` to only
+ * consider those posts, e.g. the ones a database notification named.
+ */
+export async function queuePendingPosts(
+    routes: PlatformRoutes,
+    options: { now?: Date; lookAheadMs: number; postIds?: string[]; pageSize?: number; mediaStore?: BlobStore }
+): Promise<EnqueueStats> {
+    const log = createChildLogger({ task: 'queueUpcoming' });
+    const now = options.now ?? new Date();
+    const pageSize = options.pageSize ?? PAGE_SIZE;
+    const mediaStore = options.mediaStore ?? getBlobStore();
+    const platforms = Object.keys(routes) as PostJobData['platform'][];
+    const stats: EnqueueStats = { found: 0, queued: 0, held: 0, moved: 0, rejected: 0, mediaPending: 0 };
+
+    const where = {
+        status: 'PENDING',
+        platform: { in: platforms },
+        scheduledFor: { lte: new Date(now.getTime() + options.lookAheadMs) },
+        NOT: UNASSIGNED_BEST_TIME, // Waiting for assignBestTimeSlots to pick a time
+        ...(options.postIds && { id: { in: options.postIds } }),
+    };
+
+    const candidates: { id: string }[] = await prisma.scheduledPost.findMany({
+        where,
+        select: { id: true },
+        orderBy: [
+            { priority: 'desc' }, // Higher priority first
+            { scheduledFor: 'asc' }, // Earlier scheduled time first
+            { id: 'asc' },
+        ],
+    });
+
+    stats.found = candidates.length;
+    if (candidates.length === 0) {
+        return stats;
+    }
+
+    // Posting quota left per platform; posts beyond it wait for the window to reset
+    const quotas = new Map<string, PostingQuota | null>();
+    for (const platform of platforms) {
+        quotas.set(platform, await getPostingQuota(platform, now));
+    }
+
+    for (let offset = 0; offset < candidates.length; offset += pageSize) {
+        const ids = candidates.slice(offset, offset + pageSize).map((candidate) => candidate.id);
+
+        const rows: PendingPostRow[] = await prisma.scheduledPost.findMany({
+            where: { ...where, id: { in: ids } }, // Re-checked: posts may have changed since they were listed
+            include: {
+                content: { select: { content: true } },
+                user: {
+                    select: {
+                        preferences: {
+                            select: { timezone: true, quietHoursStart: true, quietHoursEnd: true, postingDays: true },
+                        },
+                    },
+                },
+            },
+        });
+
+        // Keep the listing order within the page
+        const rowsById = new Map(rows.map((row) => [row.id, row]));
+        const page = ids.map((id) => rowsById.get(id)).filter((row): row is PendingPostRow => row !== undefined);
+
+        for (const post of page) {
+            await queuePost(routes, post, quotas, mediaStore, now, stats);
+        }
+    }
+
+    if (stats.held > 0) {
+        log.warn({ held: stats.held }, 'Held posts until the platform rate limit window resets');
+    }
+
+    if (stats.moved > 0) {
+        log.info({ moved: stats.moved }, 'Rescheduled posts into their users\' posting windows');
+    }
+
+    if (stats.mediaPending > 0) {
+        log.warn({ mediaPending: stats.mediaPending }, 'Held posts whose media could not be fetched yet');
+    }
+
+    return stats;
+}
+
+async function queuePost(
+    routes: PlatformRoutes,
+    post: PendingPostRow,
+    quotas: Map<string, PostingQuota | null>,
+    mediaStore: BlobStore,
+    now: Date,
+    stats: EnqueueStats
+): Promise<void> {
+    const log = createChildLogger({ task: 'queueUpcoming', postId: post.id });
+    const platform = post.platform as Platform;
+    const route = routes[platform];
+
+    // Reject content the platform would refuse instead of burning a job on it
+    const validation = route.validate(post.content.content);
+    if (!validation.valid) {
+        await prisma.scheduledPost.update({
+            where: { id: post.id },
+            data: {
+                status: 'FAILED',
+                errorCode: 'INVALID_CONTENT',
+                errorMessage: validation.error,
+                completedAt: new Date(),
+            },
+        });
+
+        stats.rejected++;
+        log.warn({ error: validation.error }, 'Rejected invalid post');
+        return;
+    }
+
+    // Move posts in the user's quiet hours or on a non-posting day to the next allowed slot.
+    // The post stays PENDING and is queued once the new time comes into the look-ahead window.
+    const preferences = post.user.preferences;
+    if (preferences) {
+        const adjustment = adjustToPostingWindow(post.scheduledFor, preferences);
+
+        if (adjustment.reason) {
+            await prisma.scheduledPost.update({
+                where: { id: post.id },
+                data: {
+                    scheduledFor: adjustment.scheduledFor,
+                    rescheduledFrom: post.rescheduledFrom ?? post.scheduledFor,
+                    rescheduleReason: adjustment.reason,
+                },
+            });
+
+            stats.moved++;
+            log.info(
+                { from: post.scheduledFor, to: adjustment.scheduledFor, reason: adjustment.reason },
+                'Moved post into the user\'s posting window'
+            );
+            return;
+        }
+    }
+
+    // Hold the post back (stays PENDING) when the platform quota is used up.
+    // The quota is only taken once the post is queued, not for posts held or rejected for media.
+    const quota = quotas.get(post.platform) ?? null;
+    if (!hasQuota(quota, post.scheduledFor)) {
+        stats.held++;
+        log.debug({ platform: post.platform }, 'Posting quota exhausted, holding post');
+        return;
+    }
+
+    // Fetch media now, so a broken host shows up before the post is due instead of when it goes out
+    const mediaPolicy: MediaPolicy = post.mediaPolicy === 'optional' ? 'optional' : 'required';
+    const media = await prefetchMedia(route.fetchMedia, post, mediaStore);
+    const fatal = media.errors.find((error) => !error.retryable);
+
+    if (fatal && mediaPolicy === 'required') {
+        await prisma.scheduledPost.update({
+            where: { id: post.id },
+            data: {
+                status: 'FAILED',
+                errorCode: fatal.code,
+                errorMessage: fatal.message,
+                completedAt: new Date(),
+            },
+        });
+
+        stats.rejected++;
+        log.warn({ code: fatal.code, error: fatal.message }, 'Rejected post with invalid media');
+        return;
+    }
+
+    // The host may recover: try again next run. Once the post is due it is queued anyway,
+    // and the worker downloads what is still missing and applies the media policy.
+    if (media.errors.some((error) => error.retryable) && post.scheduledFor > now) {
+        stats.mediaPending++;
+        log.warn({ errors: media.errors.map((error) => error.message) }, 'Could not fetch media yet, holding post');
+        return;
+    }
+
+    // Calculate delay until scheduled time
+    const delay = Math.max(0, post.scheduledFor.getTime() - now.getTime());
+    const jobId = `${route.jobIdPrefix}-${post.id}`;
+
+    try {
+        // Claim the post before adding its job: it may have been queued, edited or
+        // cancelled since it was read, and a job added for a stale read would keep
+        // its old delay and hold the per-post job ID
+        const { count } = await prisma.scheduledPost.updateMany({
+            where: { id: post.id, status: 'PENDING', scheduledFor: post.scheduledFor },
+            data: {
+                status: 'QUEUED',
+                jobId,
+                queuedAt: new Date(),
+                mediaBlobKeys: media.blobKeys,
+            },
+        });
+
+        if (count === 0) {
+            log.debug('Post changed since it was read, not queueing');
+            return;
+        }
+
+        try {
+            // Job IDs are per post, so adding a job that already exists is a no-op
+            await addPostJob(
+                routes,
+                platform,
+                {
+                    scheduledPostId: post.id,
+                    userId: post.userId,
+                    contentId: post.contentId,
+                    platform,
+                    content: post.content.content,
+                    priority: post.priority,
+                    scheduledFor: post.scheduledFor.toISOString(),
+                    ...(media.items.length > 0 && { mediaUrls: media.items, mediaPolicy }),
+                },
+                {
+                    ...DEFAULT_JOB_OPTIONS,
+                    delay,
+                    jobId,
+                    priority: 10 - post.priority, // BullMQ: lower = higher priority
+                }
+            );
+        } catch (error) {
+            // Release the claim so the next run tries again
+            await prisma.scheduledPost.updateMany({
+                where: { id: post.id, status: 'QUEUED', jobId },
+                data: { status: 'PENDING', jobId: null, queuedAt: null },
+            });
+            throw error;
+        }
+
+        consumeQuota(quota, post.scheduledFor);
+        stats.queued++;
+        postsQueued.inc({ platform: post.platform });
+        log.debug({ platform: post.platform, jobId, delayMs: delay }, 'Queued post');
+
+        await emitWebhookEvent('post.queued', { scheduledPostId: post.id });
+    } catch (error: any) {
+        log.error({ error: error.message }, 'Failed to queue post');
+    }
+}
+
+// Add a job to its platform's queue; the data has to match that platform's jobs
+function addPostJob<P extends Platform>(routes: PlatformRoutes, platform: P, data: JobDataFor<P>, opts: JobsOptions) {
+    const route = routes[platform];
+    return route.queue.add(route.jobName, data, opts);
+}
+
+/**
+ * Fetch a post's media into the blob store, a few items at a time. Items
+ * come back with their blob key when stored; items that failed keep their
+ * URL and the error is returned. A store that can't be written is not the
+ * post's fault, so those items are left to the worker to download.
+ */
+async function prefetchMedia(
+    fetchMedia: PlatformRoute['fetchMedia'],
+    post: PendingPostRow,
+    store: BlobStore
+): Promise<{ items: MediaItem[]; blobKeys: string[]; errors: MediaError[] }> {
+    const log = createChildLogger({ task: 'queueUpcoming', postId: post.id });
+    const items = toMediaItems(Array.isArray(post.mediaUrls) ? post.mediaUrls : []);
+    const outcomes: PrefetchOutcome[] = [];
+
+    const prefetchItem = async (item: MediaItem): Promise<PrefetchOutcome> => {
+        let data: Buffer;
+
+        try {
+            data = await fetchMedia(item, MEDIA_PREFETCH_TIMEOUT_MS);
+        } catch (error: any) {
+            mediaPrefetches.inc({ platform: post.platform, outcome: 'failed' });
+            return { item, error: error instanceof MediaError ? error : new MediaError('MEDIA_INVALID', error.message, false) };
+        }
+
+        try {
+            const blobKey = await store.put(data);
+            mediaPrefetches.inc({ platform: post.platform, outcome: 'stored' });
+            return { item: { ...item, blobKey }, blobKey };
+        } catch (error: any) {
+            log.error({ url: item.url, error: error.message }, 'Failed to write media to the blob store');
+            return { item };
+        }
+    };
+
+    // Workers take the next item until none are left; outcomes keep the post's order
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            outcomes[index] = await prefetchItem(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(MEDIA_PREFETCH_CONCURRENCY, items.length) }, worker));
+
+    return {
+        items: outcomes.map((outcome) => outcome.item),
+        blobKeys: outcomes.flatMap((outcome) => (outcome.blobKey ? [outcome.blobKey] : [])),
+        errors: outcomes.flatMap((outcome) => (outcome.error ? [outcome.error] : [])),
+    };
+}
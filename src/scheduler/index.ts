@@ -1,174 +1,285 @@
 import 'dotenv/config';
 import { CronJob } from 'cron';
 import { prisma } from '../lib/db.js';
-import { createTwitterQueue, DEFAULT_JOB_OPTIONS } from '../lib/queue.js';
+import { createTwitterQueue, createLinkedInQueue } from '../lib/queue.js';
+import type { PostJobData } from '../lib/types.js';
+import { validateTweetContent, createTwitterMetricsClient } from '../worker/twitter.js';
+import { validateLinkedInContent } from '../worker/linkedin.js';
+import { prepareMedia, downloadMedia } from '../lib/media.js';
 import { logger, createChildLogger } from '../lib/logger.js';
+import { createAdminRouter } from '../lib/admin.js';
+import { syncQueuedJobs } from './sync.js';
+import { scheduleRecurrences } from './recurrence.js';
+import { assignBestTimeSlots, UNASSIGNED_BEST_TIME } from './best-time.js';
+import { queuePendingPosts } from './enqueue.js';
+import type { PlatformRoutes } from './enqueue.js';
+import { startPostListener } from './listener.js';
+import { generateWeeklyReports } from './weekly-report.js';
+import { collectEngagement } from './engagement.js';
+import { cleanupMediaBlobs } from './media-cleanup.js';
+import { recoverStuckPosts } from './recovery.js';
+import { getBlobStore } from '../lib/blob-store.js';
+import {
+    initMetrics,
+    metricsHandler,
+    registerQueueDepthMetrics,
+    postsQueuedPerTick,
+    overduePostLag,
+    secondsLate,
+} from '../lib/metrics.js';
+import { createHealthRouter, withHeartbeat, checkHeartbeats, checkRedis, checkPostgres, closeHealthClient } from '../lib/health.js';
+import { startLeaderElection, runAsLeader } from '../lib/leader.js';
+import type { LeaderElection } from '../lib/leader.js';
+import { closeLockClient } from '../lib/lock.js';
+import { closeWebhookQueue } from '../lib/webhooks.js';
+import { closeNotificationQueue } from '../lib/notifications.js';
 import express from 'express';
 
 // Health check server for Digital Ocean / Koyeb
 const app = express();
 const PORT = parseInt(process.env.PORT || '8000');
 
+// Only the leader among scheduler replicas runs the cron tasks (set in main)
+let election: LeaderElection | undefined;
+
 app.get('/health', (_req, res) => {
     res.status(200).send('OK');
 });
 
 app.get('/', (_req, res) => {
-    res.status(200).json({ status: 'running', service: 'gitxflow-scheduler' });
+    res.status(200).json({
+        status: 'running',
+        service: 'gitxflow-scheduler',
+        instance: election?.instanceId,
+        leader: election?.isLeader() ?? false,
+        leaderInstance: election?.leaderId() ?? null,
+    });
 });
 
+const twitterQueue = createTwitterQueue();
+const linkedInQueue = createLinkedInQueue();
+
+// Queue administration (bearer ADMIN_API_TOKEN)
+app.use('/admin', createAdminRouter([twitterQueue, linkedInQueue]));
+
+// Prometheus metrics
+initMetrics('gitxflow-scheduler');
+registerQueueDepthMetrics([twitterQueue, linkedInQueue]);
+app.get('/metrics', metricsHandler);
+
+// Liveness: cron tasks still firing. Readiness adds Redis and Postgres.
+app.use(createHealthRouter({
+    live: { cron: checkHeartbeats },
+    ready: { redis: checkRedis, postgres: checkPostgres },
+}));
+
 const server = app.listen(PORT, () => {
     logger.info({ port: PORT }, 'Health check server running');
 });
 
-const queue = createTwitterQueue();
+// Per-platform routing: queue, job name, job ID prefix and content rules
+const PLATFORM_QUEUES: PlatformRoutes = {
+    twitter: {
+        queue: twitterQueue,
+        jobName: 'post-tweet',
+        jobIdPrefix: 'tweet',
+        validate: (content) => validateTweetContent(content, { allowThread: true }),
+        // Full check and resize now, so the worker uploads exactly what was stored
+        fetchMedia: async (item, timeoutMs) => (await prepareMedia(item, { timeoutMs })).buffer,
+    },
+    linkedin: {
+        queue: linkedInQueue,
+        jobName: 'post-linkedin',
+        jobIdPrefix: 'linkedin',
+        validate: validateLinkedInContent,
+        fetchMedia: async (item, timeoutMs) => (await downloadMedia(item.url, { timeoutMs })).buffer,
+    },
+};
+
+const SUPPORTED_PLATFORMS = Object.keys(PLATFORM_QUEUES) as PostJobData['platform'][];
+
+// Public metrics of published tweets (app-only auth)
+const twitterMetrics = createTwitterMetricsClient();
+
+// Queueing runs one at a time, so the sweep and notifications never share a quota snapshot
+let queueing: Promise<void> = Promise.resolve();
 
 /**
- * Queue posts that are scheduled to be posted in the next X minutes
+ * Queue posts that are scheduled to be posted in the next X minutes.
+ * Without `postIds` this is the periodic sweep over all PENDING posts.
  */
-async function queueUpcomingPosts(): Promise<void> {
-    const log = createChildLogger({ task: 'queueUpcoming' });
+function queueUpcomingPosts(postIds?: string[]): Promise<void> {
+    const run = queueing.then(() => queuePosts(postIds));
+    queueing = run;
+    return run;
+}
 
-    try {
+async function queuePosts(postIds?: string[]): Promise<void> {
+    const log = createChildLogger({ task: 'queueUpcoming', trigger: postIds ? 'notify' : 'sweep' });
 
+    try {
         const now = new Date();
         const lookAheadMinutes = parseInt(process.env.LOOK_AHEAD_MINUTES || '5');
-        const lookAhead = new Date(now.getTime() + lookAheadMinutes * 60000);
 
-        // Find posts ready to be queued
-        const posts = await prisma.scheduledPost.findMany({
+        if (!postIds) {
+            await updateOverduePostLag(now);
+        }
+
+        const stats = await queuePendingPosts(PLATFORM_QUEUES, { now, lookAheadMs: lookAheadMinutes * 60000, postIds });
+
+        if (!postIds) {
+            postsQueuedPerTick.observe(stats.queued);
+        }
+
+        if (stats.found === 0) {
+            log.debug('No posts to queue');
+            return;
+        }
+
+        log.info(stats, 'Finished queueing posts');
+    } catch (error) {
+        log.error({ error }, 'Failed to queue upcoming posts');
+    }
+}
+
+/**
+ * Export how late the oldest unpublished post is, per platform.
+ * Alert on this to catch posts going out late (held by quota, queue backlog, worker down).
+ */
+async function updateOverduePostLag(now: Date): Promise<void> {
+    for (const platform of SUPPORTED_PLATFORMS) {
+        const oldest = await prisma.scheduledPost.findFirst({
             where: {
-                status: 'PENDING',
-                platform: 'twitter',
-                scheduledFor: { lte: lookAhead },
-            },
-            include: {
-                content: { select: { content: true } },
+                platform,
+                status: { in: ['PENDING', 'QUEUED', 'PROCESSING'] },
+                scheduledFor: { lt: now },
+                NOT: UNASSIGNED_BEST_TIME,
             },
-            orderBy: [
-                { priority: 'desc' }, // Higher priority first
-                { scheduledFor: 'asc' }, // Earlier scheduled time first
-            ],
-            take: 100, // Process in batches
+            orderBy: { scheduledFor: 'asc' },
+            select: { scheduledFor: true },
         });
 
-        if (posts.length === 0) {
-            log.debug('No posts to queue');
-            return;
+        overduePostLag.set({ platform }, oldest ? secondsLate(oldest.scheduledFor, now) : 0);
+    }
+}
+
+/**
+ * Apply edits, reschedules and cancellations to jobs that are already queued
+ */
+async function syncQueuedPosts(): Promise<void> {
+    const log = createChildLogger({ task: 'syncQueued' });
+
+    try {
+        const lookAheadMinutes = parseInt(process.env.LOOK_AHEAD_MINUTES || '5');
+        const stats = await syncQueuedJobs([twitterQueue, linkedInQueue], { lookAheadMs: lookAheadMinutes * 60000 });
+
+        if (stats.updated + stats.rescheduled + stats.requeued + stats.removed > 0) {
+            log.info(stats, 'Synced queued posts');
         }
+    } catch (error) {
+        log.error({ error }, 'Failed to sync queued posts');
+    }
+}
 
-        log.info({ count: posts.length }, 'Found posts to queue');
-
-        for (const post of posts) {
-            // Calculate delay until scheduled time
-            const delay = Math.max(0, post.scheduledFor.getTime() - now.getTime());
-
-            try {
-                // Add job to queue with unique ID to prevent duplicates
-                const job = await queue.add(
-                    'post-tweet',
-                    {
-                        scheduledPostId: post.id,
-                        userId: post.userId,
-                        contentId: post.contentId,
-                        platform: post.platform as 'twitter',
-                        content: post.content.content,
-                        priority: post.priority,
-                    },
-                    {
-                        ...DEFAULT_JOB_OPTIONS,
-                        delay,
-                        jobId: `tweet-${post.id}`, // Prevents duplicate jobs
-                        priority: 10 - post.priority, // BullMQ: lower = higher priority
-                    }
-                );
-
-                // Update post status to QUEUED
-                await prisma.scheduledPost.update({
-                    where: { id: post.id },
-                    data: {
-                        status: 'QUEUED',
-                        jobId: job.id,
-                        queuedAt: new Date(),
-                    },
-                });
-
-                log.debug(
-                    { postId: post.id, jobId: job.id, delayMs: delay },
-                    'Queued post'
-                );
-            } catch (error: any) {
-                // Handle duplicate job error gracefully
-                if (error.message?.includes('already exists')) {
-                    log.debug({ postId: post.id }, 'Job already exists, skipping');
-                } else {
-                    log.error({ postId: post.id, error: error.message }, 'Failed to queue post');
-                }
-            }
+/**
+ * Create the next occurrence of recurring posts whose current one is done
+ */
+async function createRecurringPosts(): Promise<void> {
+    const log = createChildLogger({ task: 'recurrences' });
+
+    try {
+        const stats = await scheduleRecurrences();
+
+        if (stats.created + stats.ended > 0) {
+            log.info(stats, 'Processed recurring posts');
         }
+    } catch (error) {
+        log.error({ error }, 'Failed to schedule recurring posts');
+    }
+}
+
+/**
+ * Pick posting times for posts scheduled in best-time mode
+ */
+async function assignBestTimes(): Promise<void> {
+    const log = createChildLogger({ task: 'bestTime' });
+
+    try {
+        const stats = await assignBestTimeSlots();
 
-        log.info({ queued: posts.length }, 'Finished queueing posts');
+        if (stats.assigned + stats.unassigned > 0) {
+            log.info(stats, 'Assigned best-time slots');
+        }
     } catch (error) {
-        log.error({ error }, 'Failed to queue upcoming posts');
+        log.error({ error }, 'Failed to assign best-time slots');
     }
 }
 
 /**
- * Recover jobs that are stuck in PROCESSING state
- * This handles cases where a worker crashed mid-job
+ * Poll likes, reposts, replies and impressions of recently published tweets
  */
-async function recoverStuckJobs(): Promise<void> {
-    const log = createChildLogger({ task: 'recovery' });
+async function collectTweetEngagement(): Promise<void> {
+    const log = createChildLogger({ task: 'engagement' });
 
     try {
-        const stuckThresholdMinutes = parseInt(process.env.STUCK_THRESHOLD_MINUTES || '10');
-        const stuckThreshold = new Date(Date.now() - stuckThresholdMinutes * 60000);
+        const maxRequests = parseInt(process.env.ENGAGEMENT_MAX_REQUESTS || '3');
+        const stats = await collectEngagement('twitter', twitterMetrics, { maxRequests });
 
-        // Find jobs stuck in PROCESSING
-        const stuck = await prisma.scheduledPost.findMany({
-            where: {
-                status: 'PROCESSING',
-                startedAt: { lt: stuckThreshold },
-            },
-        });
+        if (stats.collected + stats.missing > 0) {
+            log.info(stats, 'Collected engagement');
+        }
+    } catch (error) {
+        log.error({ error }, 'Failed to collect engagement');
+    }
+}
 
-        if (stuck.length === 0) {
-            return;
+/**
+ * Delete pre-fetched media no longer needed by any pending post
+ */
+async function cleanupMedia(): Promise<void> {
+    const log = createChildLogger({ task: 'mediaCleanup' });
+
+    try {
+        const stats = await cleanupMediaBlobs(getBlobStore());
+
+        if (stats.deleted > 0) {
+            log.info(stats, 'Deleted unused media');
         }
+    } catch (error) {
+        log.error({ error }, 'Failed to clean up media');
+    }
+}
 
-        log.warn({ count: stuck.length }, 'Found stuck jobs');
-
-        for (const post of stuck) {
-            // Check if job still exists in queue and is active
-            let jobActive = false;
-            if (post.jobId) {
-                try {
-                    const job = await queue.getJob(post.jobId);
-                    const state = await job?.getState();
-                    jobActive = state === 'active';
-                } catch {
-                    // Job not found or error - consider not active
-                }
-            }
+/**
+ * Write last week's activity report for users who asked for one
+ */
+async function writeWeeklyReports(): Promise<void> {
+    const log = createChildLogger({ task: 'weeklyReports' });
 
-            if (jobActive) {
-                log.debug({ postId: post.id }, 'Job still active in queue, skipping');
-                continue;
-            }
+    try {
+        const stats = await generateWeeklyReports();
 
-            // Reset to PENDING for re-queuing
-            await prisma.scheduledPost.update({
-                where: { id: post.id },
-                data: {
-                    status: 'PENDING',
-                    jobId: null,
-                    queuedAt: null,
-                    startedAt: null,
-                    errorMessage: `Job timed out after ${stuckThresholdMinutes} minutes and was reset`,
-                },
-            });
+        if (stats.generated > 0) {
+            log.info(stats, 'Generated weekly reports');
+        }
+    } catch (error) {
+        log.error({ error }, 'Failed to generate weekly reports');
+    }
+}
+
+/**
+ * Recover jobs that are stuck in PROCESSING state
+ * This handles cases where a worker crashed mid-job
+ */
+async function recoverStuckJobs(): Promise<void> {
+    const log = createChildLogger({ task: 'recovery' });
 
-            log.info({ postId: post.id }, 'Reset stuck job');
+    try {
+        const thresholdMinutes = parseInt(process.env.STUCK_THRESHOLD_MINUTES || '10');
+        const stats = await recoverStuckPosts(PLATFORM_QUEUES, { thresholdMinutes });
+
+        if (stats.stuck > 0) {
+            log.warn(stats, 'Found stuck jobs');
         }
     } catch (error) {
         log.error({ error }, 'Failed to recover stuck jobs');
@@ -176,26 +287,31 @@ async function recoverStuckJobs(): Promise<void> {
 }
 
 /**
- * Reset rate limit counters at the start of each day (Twitter 24h window)
+ * Restore the posting quota of rate limit windows that have reset.
+ * Live values come from the x-rate-limit-* headers after each post; this only
+ * clears stale windows so the state does not show an exhausted quota.
  */
-async function resetDailyRateLimits(): Promise<void> {
+async function resetExpiredRateLimits(): Promise<void> {
     const log = createChildLogger({ task: 'rateLimit' });
 
     try {
-        await prisma.rateLimitState.upsert({
-            where: { platform: 'twitter' },
-            create: {
-                platform: 'twitter',
-                postsRemaining: 50, // Twitter free tier limit
-                windowResetAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
-            },
-            update: {
-                postsRemaining: 50,
-                windowResetAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
-            },
+        const expired = await prisma.rateLimitState.findMany({
+            where: { windowResetAt: { lte: new Date() } },
         });
 
-        log.info('Reset daily rate limits');
+        for (const state of expired) {
+            await prisma.rateLimitState.update({
+                where: { id: state.id },
+                data: {
+                    postsRemaining: state.postsLimit ?? state.postsRemaining,
+                    windowResetAt: null,
+                },
+            });
+        }
+
+        if (expired.length > 0) {
+            log.info({ platforms: expired.map((state: { platform: string }) => state.platform) }, 'Reset expired rate limit windows');
+        }
     } catch (error) {
         log.error({ error }, 'Failed to reset rate limits');
     }
@@ -204,25 +320,134 @@ async function resetDailyRateLimits(): Promise<void> {
 async function main() {
     logger.info('Starting scheduler service...');
 
+    // Replicas elect a leader; the leader's lock expires this long after it dies
+    const leaderTtlMs = parseInt(process.env.SCHEDULER_LEADER_TTL_SECONDS || '15') * 1000;
+    const leader = await startLeaderElection({ name: 'scheduler', ttlMs: leaderTtlMs });
+    election = leader;
+    logger.info({ instanceId: leader.instanceId, leader: leader.isLeader() }, 'Joined scheduler leader election');
+
+    // Every tick runs on the leader only, once across replicas; followers still record the heartbeat
+    const leaderTask = (name: string, intervalMs: number, task: () => Promise<void>) =>
+        withHeartbeat(name, intervalMs, runAsLeader(leader, name, intervalMs, task));
+
     // Queue upcoming posts every minute
-    const queueJob = new CronJob('* * * * *', queueUpcomingPosts, null, false, 'UTC');
+    const queueJob = new CronJob(
+        '* * * * *',
+        leaderTask('queueUpcomingPosts', 60 * 1000, queueUpcomingPosts),
+        null,
+        false,
+        'UTC'
+    );
     queueJob.start();
     logger.info('Started: Queue upcoming posts (every minute)');
 
+    // Apply edits, reschedules and cancellations to queued jobs every minute
+    const syncJob = new CronJob(
+        '* * * * *',
+        leaderTask('syncQueuedPosts', 60 * 1000, syncQueuedPosts),
+        null,
+        false,
+        'UTC'
+    );
+    syncJob.start();
+    logger.info('Started: Sync queued posts (every minute)');
+
     // Recover stuck jobs every 5 minutes
-    const recoveryJob = new CronJob('*/5 * * * *', recoverStuckJobs, null, false, 'UTC');
+    const recoveryJob = new CronJob(
+        '*/5 * * * *',
+        leaderTask('recoverStuckJobs', 5 * 60 * 1000, recoverStuckJobs),
+        null,
+        false,
+        'UTC'
+    );
     recoveryJob.start();
     logger.info('Started: Recover stuck jobs (every 5 minutes)');
 
-    // Reset rate limits daily at midnight UTC
-    const rateLimitJob = new CronJob('0 0 * * *', resetDailyRateLimits, null, false, 'UTC');
+    // Create the next occurrence of recurring posts every 5 minutes
+    const recurrenceJob = new CronJob(
+        '*/5 * * * *',
+        leaderTask('createRecurringPosts', 5 * 60 * 1000, createRecurringPosts),
+        null,
+        false,
+        'UTC'
+    );
+    recurrenceJob.start();
+    logger.info('Started: Create recurring posts (every 5 minutes)');
+
+    // Pick times for best-time posts every 5 minutes
+    const bestTimeJob = new CronJob(
+        '*/5 * * * *',
+        leaderTask('assignBestTimes', 5 * 60 * 1000, assignBestTimes),
+        null,
+        false,
+        'UTC'
+    );
+    bestTimeJob.start();
+    logger.info('Started: Assign best-time slots (every 5 minutes)');
+
+    // Clear expired rate limit windows every 15 minutes (Twitter's shortest window)
+    const rateLimitJob = new CronJob(
+        '*/15 * * * *',
+        leaderTask('resetExpiredRateLimits', 15 * 60 * 1000, resetExpiredRateLimits),
+        null,
+        false,
+        'UTC'
+    );
     rateLimitJob.start();
-    logger.info('Started: Reset rate limits (daily at midnight UTC)');
+    logger.info('Started: Reset expired rate limits (every 15 minutes)');
+
+    // Poll engagement of published tweets every 5 minutes (each post on its own schedule)
+    const engagementJob = new CronJob(
+        '*/5 * * * *',
+        leaderTask('collectTweetEngagement', 5 * 60 * 1000, collectTweetEngagement),
+        null,
+        false,
+        'UTC'
+    );
+    engagementJob.start();
+    logger.info('Started: Collect engagement (every 5 minutes)');
+
+    // Weekly reports are due on Monday morning in each user's timezone, so check hourly
+    const weeklyReportJob = new CronJob(
+        '0 * * * *',
+        leaderTask('writeWeeklyReports', 60 * 60 * 1000, writeWeeklyReports),
+        null,
+        false,
+        'UTC'
+    );
+    weeklyReportJob.start();
+    logger.info('Started: Generate weekly reports (every hour)');
+
+    // Delete pre-fetched media of published, failed and cancelled posts every hour
+    const mediaCleanupJob = new CronJob(
+        '30 * * * *',
+        leaderTask('cleanupMedia', 60 * 60 * 1000, cleanupMedia),
+        null,
+        false,
+        'UTC'
+    );
+    mediaCleanupJob.start();
+    logger.info('Started: Clean up media (every hour)');
+
+    // Queue posts as soon as the database reports them ready; the minute sweep above is the safety net.
+    // Only the leader queues, and after a reconnect it sweeps for notifications missed meanwhile.
+    const listener = await startPostListener({
+        onPosts: async (postIds) => {
+            if (leader.isLeader()) {
+                await queueUpcomingPosts(postIds);
+            }
+        },
+        onReconnect: async () => {
+            if (leader.isLeader()) {
+                await queueUpcomingPosts();
+            }
+        },
+    });
 
     // Run immediately on startup to catch any missed posts
     logger.info('Running startup tasks...');
-    await queueUpcomingPosts();
-    await recoverStuckJobs();
+    await runAsLeader(leader, 'queueUpcomingPosts', 60 * 1000, queueUpcomingPosts)();
+    await runAsLeader(leader, 'recoverStuckJobs', 5 * 60 * 1000, recoverStuckJobs)();
 
     logger.info('Scheduler service started successfully');
 
@@ -230,10 +455,25 @@ async function main() {
     const shutdown = async (signal: string) => {
         logger.info({ signal }, 'Received shutdown signal');
         queueJob.stop();
+        syncJob.stop();
         recoveryJob.stop();
+        recurrenceJob.stop();
+        bestTimeJob.stop();
         rateLimitJob.stop();
+        engagementJob.stop();
+        weeklyReportJob.stop();
+        mediaCleanupJob.stop();
+
+        await listener.stop();
+
+        // Hand over right away instead of letting followers wait for the lock to expire
+        await leader.stop();
 
-        await queue.close();
+        await Promise.all([twitterQueue.close(), linkedInQueue.close()]);
+        await closeHealthClient();
+        await closeLockClient();
+        await closeWebhookQueue();
+        await closeNotificationQueue();
         server.close(); // Close HTTP server
         logger.info('Scheduler shut down gracefully');
         process.exit(0);
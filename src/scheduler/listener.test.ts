@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'node:events';
+import { startPostListener, POST_READY_CHANNEL } from './listener.js';
+
+const clients: FakeClient[] = [];
+const connectMock = vi.fn();
+
+class FakeClient extends EventEmitter {
+    query = vi.fn().mockResolvedValue({});
+    end = vi.fn().mockResolvedValue(undefined);
+    connect = () => connectMock();
+
+    constructor() {
+        super();
+        clients.push(this);
+    }
+
+    notify(payload: string, channel: string = POST_READY_CHANNEL) {
+        this.emit('notification', { channel, payload, processId: 1 });
+    }
+}
+
+vi.mock('pg', () => ({ Client: vi.fn().mockImplementation(function () { return new FakeClient(); }) }));
+
+describe('startPostListener', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+        clients.length = 0;
+        connectMock.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should LISTEN and hand over notified posts in batches', async () => {
+        const onPosts = vi.fn().mockResolvedValue(undefined);
+        const listener = await startPostListener({ onPosts, connectionString: 'postgres://db' });
+
+        expect(listener.isConnected()).toBe(true);
+        expect(clients[0].query).toHaveBeenCalledWith(`LISTEN ${POST_READY_CHANNEL}`);
+
+        clients[0].notify('post-1');
+        clients[0].notify('post-2');
+        clients[0].notify('post-1');
+        clients[0].notify('other', 'some_other_channel');
+        await vi.advanceTimersByTimeAsync(250);
+
+        expect(onPosts).toHaveBeenCalledTimes(1);
+        expect(onPosts).toHaveBeenCalledWith(['post-1', 'post-2']);
+
+        await listener.stop();
+        expect(clients[0].end).toHaveBeenCalled();
+    });
+
+    it('should reconnect after the connection drops and catch up', async () => {
+        const onReconnect = vi.fn().mockResolvedValue(undefined);
+        const listener = await startPostListener({
+            onPosts: vi.fn(),
+            onReconnect,
+            connectionString: 'postgres://db',
+            reconnectDelayMs: 1000,
+        });
+
+        clients[0].emit('error', new Error('Connection terminated unexpectedly'));
+        expect(listener.isConnected()).toBe(false);
+
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(clients).toHaveLength(2);
+        expect(listener.isConnected()).toBe(true);
+        expect(onReconnect).toHaveBeenCalledTimes(1);
+
+        await listener.stop();
+    });
+
+    it('should keep retrying when the first connection fails', async () => {
+        connectMock.mockRejectedValueOnce(new Error('ECONNREFUSED')).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+        const listener = await startPostListener({ onPosts: vi.fn(), connectionString: 'postgres://db', reconnectDelayMs: 1000 });
+
+        expect(listener.isConnected()).toBe(false);
+
+        await vi.advanceTimersByTimeAsync(1000); // second attempt fails, backs off to 2s
+        expect(listener.isConnected()).toBe(false);
+
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(listener.isConnected()).toBe(true);
+
+        await listener.stop();
+    });
+});
@@ -0,0 +1,142 @@
+import { Client } from 'pg';
+import type { Notification } from 'pg';
+import { createChildLogger } from '../lib/logger.js';
+import { postListenerConnected } from '../lib/metrics.js';
+
+/**
+ * LISTEN for the `scheduled_post_ready` notifications sent by the
+ * ScheduledPost triggers, so new and rescheduled posts are queued within a
+ * second instead of on the next minute sweep.
+ *
+ * Notifications are lost while the connection is down, so `onReconnect`
+ * should sweep for anything missed. The minute sweep stays as a safety net.
+ */
+
+export const POST_READY_CHANNEL = 'scheduled_post_ready';
+
+// Collect notifications this long so a burst of posts is queued in one batch
+const BATCH_MS = 250;
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+export interface PostListener {
+    isConnected(): boolean;
+    stop(): Promise<void>;
+}
+
+/**
+ * Connect and LISTEN. Resolves after the first connection attempt; when it
+ * fails the listener keeps retrying in the background.
+ */
+export async function startPostListener(options: {
+    onPosts: (postIds: string[]) => Promise<void>;
+    onReconnect?: () => Promise<void>;
+    connectionString?: string;
+    batchMs?: number;
+    reconnectDelayMs?: number;
+}): Promise<PostListener> {
+    const { onPosts, onReconnect, batchMs = BATCH_MS, reconnectDelayMs = 1000 } = options;
+    const connectionString = options.connectionString
+        ?? process.env.DATABASE_LISTEN_URL
+        ?? process.env.DATABASE_URL;
+    const log = createChildLogger({ service: 'post-listener' });
+
+    let client: Client | undefined;
+    let connected = false;
+    let stopped = false;
+    let failures = 0;
+    let reconnectTimer: NodeJS.Timeout | undefined;
+    let flushTimer: NodeJS.Timeout | undefined;
+    let flushing: Promise<void> | undefined;
+    const pending = new Set<string>();
+
+    const setConnected = (value: boolean) => {
+        connected = value;
+        postListenerConnected.set(value ? 1 : 0);
+    };
+
+    const flush = async () => {
+        flushTimer = undefined;
+        await flushing;
+
+        const postIds = [...pending];
+        pending.clear();
+        if (postIds.length === 0) {
+            return;
+        }
+
+        flushing = onPosts(postIds).catch((error: any) => {
+            log.error({ error: error?.message, count: postIds.length }, 'Failed to queue notified posts');
+        });
+        await flushing;
+        flushing = undefined;
+    };
+
+    const onNotification = (message: Notification) => {
+        if (message.channel !== POST_READY_CHANNEL || !message.payload) {
+            return;
+        }
+
+        pending.add(message.payload);
+        flushTimer ??= setTimeout(flush, batchMs);
+    };
+
+    const disconnected = (error?: Error) => {
+        if (stopped || !client) {
+            return;
+        }
+
+        const lost = client;
+        client = undefined;
+        setConnected(false);
+        lost.removeAllListeners();
+        lost.on('error', () => undefined);
+        lost.end().catch(() => undefined);
+
+        const delay = Math.min(reconnectDelayMs * 2 ** failures, MAX_RECONNECT_DELAY_MS);
+        failures++;
+        log.warn({ error: error?.message, retryInMs: delay }, 'Post listener disconnected, reconnecting');
+        reconnectTimer = setTimeout(() => connect(true), delay);
+    };
+
+    const connect = async (reconnect: boolean) => {
+        reconnectTimer = undefined;
+        client = new Client({ connectionString });
+        client.on('notification', onNotification);
+        client.on('error', disconnected);
+        client.on('end', () => disconnected());
+
+        try {
+            await client.connect();
+            await client.query(`LISTEN ${POST_READY_CHANNEL}`);
+        } catch (error: any) {
+            disconnected(error);
+            return;
+        }
+
+        failures = 0;
+        setConnected(true);
+        log.info({ channel: POST_READY_CHANNEL }, reconnect ? 'Post listener reconnected' : 'Listening for ready posts');
+
+        if (reconnect) {
+            await onReconnect?.().catch((error: any) => {
+                log.error({ error: error?.message }, 'Catch-up after reconnect failed');
+            });
+        }
+    };
+
+    await connect(false);
+
+    return {
+        isConnected: () => connected,
+        async stop() {
+            stopped = true;
+            clearTimeout(reconnectTimer);
+            clearTimeout(flushTimer);
+            await flushing;
+
+            setConnected(false);
+            await client?.end().catch(() => undefined);
+            client = undefined;
+        },
+    };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, utimes } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { cleanupMediaBlobs } from './media-cleanup.js';
+import { createLocalBlobStore } from '../lib/blob-store.js';
+import type { BlobStore } from '../lib/blob-store.js';
+import { prisma } from '../lib/db.js';
+
+vi.mock('../lib/db.js', () => ({
+    prisma: {
+        scheduledPost: {
+            findMany: vi.fn(),
+        },
+    },
+}));
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('cleanupMediaBlobs', () => {
+    let root: string;
+    let store: BlobStore;
+
+    async function putAt(data: string, storedAt: Date): Promise<string> {
+        const key = await store.put(Buffer.from(data));
+        await utimes(path.join(root, key.slice(0, 2), key), storedAt, storedAt);
+        return key;
+    }
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        root = await mkdtemp(path.join(tmpdir(), 'blobs-'));
+        store = createLocalBlobStore(root);
+    });
+
+    afterEach(async () => {
+        await rm(root, { recursive: true, force: true });
+    });
+
+    it('should delete old blobs no active post refers to', async () => {
+        const twoHoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000);
+        const used = await putAt('used by a queued post', twoHoursAgo);
+        const unused = await putAt('post was published', twoHoursAgo);
+        const fresh = await putAt('being queued right now', new Date(now.getTime() - 60 * 1000));
+        (prisma.scheduledPost.findMany as any).mockResolvedValue([{ mediaBlobKeys: [used] }]);
+
+        const stats = await cleanupMediaBlobs(store, { now });
+
+        expect(stats).toEqual({ scanned: 3, deleted: 1, bytesFreed: 'post was published'.length });
+        expect(await store.get(unused)).toBeNull();
+        expect(await store.get(used)).not.toBeNull();
+        expect(await store.get(fresh)).not.toBeNull();
+        expect((prisma.scheduledPost.findMany as any).mock.calls[0][0].where).toEqual({
+            status: { in: ['PENDING', 'QUEUED', 'PROCESSING'] },
+            mediaBlobKeys: { isEmpty: false },
+        });
+    });
+});
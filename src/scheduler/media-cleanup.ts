@@ -0,0 +1,50 @@
+import { prisma } from '../lib/db.js';
+import type { BlobStore } from '../lib/blob-store.js';
+
+// Posts whose job may still read its media
+const ACTIVE_STATUSES = ['PENDING', 'QUEUED', 'PROCESSING'];
+
+// Blobs stored this recently are kept even when unreferenced: the post that
+// stored them may not have been claimed yet
+const DEFAULT_GRACE_MS = 60 * 60 * 1000;
+
+export interface MediaCleanupStats {
+    scanned: number;
+    deleted: number;
+    bytesFreed: number;
+}
+
+/**
+ * Delete blobs no pending, queued or processing post refers to.
+ *
+ * Storing bytes that are already there refreshes their time, so a blob a
+ * post is being queued with is always within the grace period.
+ */
+export async function cleanupMediaBlobs(
+    store: BlobStore,
+    options: { now?: Date; graceMs?: number } = {}
+): Promise<MediaCleanupStats> {
+    const now = options.now ?? new Date();
+    const cutoff = new Date(now.getTime() - (options.graceMs ?? DEFAULT_GRACE_MS));
+    const stats: MediaCleanupStats = { scanned: 0, deleted: 0, bytesFreed: 0 };
+
+    const posts: { mediaBlobKeys: string[] }[] = await prisma.scheduledPost.findMany({
+        where: { status: { in: ACTIVE_STATUSES }, mediaBlobKeys: { isEmpty: false } },
+        select: { mediaBlobKeys: true },
+    });
+    const referenced = new Set(posts.flatMap((post) => post.mediaBlobKeys));
+
+    for await (const blob of store.list()) {
+        stats.scanned++;
+
+        if (referenced.has(blob.key) || blob.storedAt > cutoff) {
+            continue;
+        }
+
+        await store.delete(blob.key);
+        stats.deleted++;
+        stats.bytesFreed += blob.size;
+    }
+
+    return stats;
+}
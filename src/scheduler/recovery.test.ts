@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { recoverStuckPosts } from './recovery.js';
+import { prisma } from '../lib/db.js';
+
+vi.mock('../lib/db.js', () => ({
+    prisma: {
+        scheduledPost: {
+            findMany: vi.fn(),
+            updateMany: vi.fn(),
+        },
+    },
+}));
+
+const now = new Date('2026-10-19T12:00:00Z');
+const startedAt = new Date('2026-10-19T11:30:00Z');
+
+// Queue holding jobs by ID, with BullMQ's add-is-a-no-op-for-an-existing-ID behaviour
+function fakeQueue(states: Record<string, string>) {
+    const jobs = new Map(Object.entries(states));
+
+    return {
+        jobs,
+        getJob: vi.fn(async (id: string) => (jobs.has(id) ? { getState: async () => jobs.get(id) } : undefined)),
+        remove: vi.fn(async (id: string) => (jobs.delete(id) ? 1 : 0)),
+        add: vi.fn(async (_name: string, _data: unknown, opts: { jobId: string }) => {
+            if (!jobs.has(opts.jobId)) {
+                jobs.set(opts.jobId, 'delayed');
+            }
+            return { id: opts.jobId };
+        }),
+    };
+}
+
+function makeRoutes(queue: ReturnType<typeof fakeQueue>) {
+    return { twitter: { queue, jobIdPrefix: 'tweet' }, linkedin: { queue: fakeQueue({}), jobIdPrefix: 'linkedin' } } as any;
+}
+
+describe('recoverStuckPosts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (prisma.scheduledPost.updateMany as any).mockResolvedValue({ count: 1 });
+    });
+
+    it('should remove a failed job that still exists so the post can be queued again', async () => {
+        const queue = fakeQueue({ 'tweet-post-1': 'failed' });
+        (prisma.scheduledPost.findMany as any).mockResolvedValue([{ id: 'post-1', platform: 'twitter', jobId: 'tweet-post-1', startedAt }]);
+
+        const stats = await recoverStuckPosts(makeRoutes(queue), { now, thresholdMinutes: 10 });
+
+        expect(stats).toEqual({ stuck: 1, recovered: 1 });
+        expect(queue.remove).toHaveBeenCalledWith('tweet-post-1');
+        expect(prisma.scheduledPost.updateMany).toHaveBeenCalledWith({
+            where: { id: 'post-1', status: 'PROCESSING', startedAt },
+            data: expect.objectContaining({ status: 'PENDING', jobId: null }),
+        });
+        expect((prisma.scheduledPost.findMany as any).mock.calls[0][0].where).toEqual({
+            status: 'PROCESSING',
+            startedAt: { lt: new Date('2026-10-19T11:50:00Z') },
+        });
+
+        // Queueing the post again creates a new job instead of hitting the old one
+        await queue.add('post-tweet', {}, { jobId: 'tweet-post-1' });
+        expect(queue.jobs.get('tweet-post-1')).toBe('delayed');
+    });
+
+    it('should leave posts whose job is still running', async () => {
+        const queue = fakeQueue({ 'tweet-post-1': 'active' });
+        (prisma.scheduledPost.findMany as any).mockResolvedValue([{ id: 'post-1', platform: 'twitter', jobId: 'tweet-post-1', startedAt }]);
+
+        const stats = await recoverStuckPosts(makeRoutes(queue), { now, thresholdMinutes: 10 });
+
+        expect(stats).toEqual({ stuck: 1, recovered: 0 });
+        expect(queue.remove).not.toHaveBeenCalled();
+        expect(prisma.scheduledPost.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should keep the post stuck when the old job could not be removed', async () => {
+        const queue = fakeQueue({ 'tweet-post-1': 'failed' });
+        queue.remove.mockRejectedValueOnce(new Error('Connection is closed'));
+        (prisma.scheduledPost.findMany as any).mockResolvedValue([{ id: 'post-1', platform: 'twitter', jobId: 'tweet-post-1', startedAt }]);
+
+        const stats = await recoverStuckPosts(makeRoutes(queue), { now, thresholdMinutes: 10 });
+
+        expect(stats.recovered).toBe(0);
+        expect(prisma.scheduledPost.updateMany).not.toHaveBeenCalled();
+    });
+});
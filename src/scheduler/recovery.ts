@@ -0,0 +1,94 @@
+import { prisma } from '../lib/db.js';
+import { createChildLogger } from '../lib/logger.js';
+import type { PostJobData } from '../lib/types.js';
+import { stuckJobsRecovered } from '../lib/metrics.js';
+import type { PlatformRoutes } from './enqueue.js';
+
+export interface RecoveryStats {
+    stuck: number; // PROCESSING for longer than the threshold
+    recovered: number; // reset to PENDING
+}
+
+interface StuckPostRow {
+    id: string;
+    platform: string;
+    jobId: string | null;
+    startedAt: Date | null;
+}
+
+/**
+ * Reset posts stuck in PROCESSING (worker crashed or lost the job) to
+ * PENDING, so the scheduler queues them again.
+ *
+ * Posts whose job is still active are left alone. Otherwise the old job is
+ * removed first: job IDs are per post, and a failed job kept for
+ * `removeOnFail` would turn the next `queue.add` into a no-op.
+ */
+export async function recoverStuckPosts(
+    routes: PlatformRoutes,
+    options: { now?: Date; thresholdMinutes: number }
+): Promise<RecoveryStats> {
+    const log = createChildLogger({ task: 'recovery' });
+    const now = options.now ?? new Date();
+    const stuckThreshold = new Date(now.getTime() - options.thresholdMinutes * 60000);
+
+    const stuck: StuckPostRow[] = await prisma.scheduledPost.findMany({
+        where: {
+            status: 'PROCESSING',
+            startedAt: { lt: stuckThreshold },
+        },
+        select: { id: true, platform: true, jobId: true, startedAt: true },
+    });
+
+    const stats: RecoveryStats = { stuck: stuck.length, recovered: 0 };
+
+    for (const post of stuck) {
+        const route = routes[post.platform as PostJobData['platform']];
+        const jobId = post.jobId ?? (route && `${route.jobIdPrefix}-${post.id}`);
+
+        if (route && jobId) {
+            let state: string | undefined;
+
+            try {
+                const job = await route.queue.getJob(jobId);
+                state = await job?.getState();
+            } catch {
+                // Job not found or error - consider not active
+            }
+
+            if (state === 'active') {
+                log.debug({ postId: post.id }, 'Job still active in queue, skipping');
+                continue;
+            }
+
+            try {
+                await route.queue.remove(jobId);
+            } catch (error: any) {
+                log.warn({ postId: post.id, jobId, error: error.message }, 'Could not remove the old job, trying again next run');
+                continue;
+            }
+        }
+
+        // Reset to PENDING for re-queuing, unless the worker finished it meanwhile
+        const { count } = await prisma.scheduledPost.updateMany({
+            where: { id: post.id, status: 'PROCESSING', startedAt: post.startedAt },
+            data: {
+                status: 'PENDING',
+                jobId: null,
+                queuedAt: null,
+                startedAt: null,
+                errorMessage: `Job timed out after ${options.thresholdMinutes} minutes and was reset`,
+            },
+        });
+
+        if (count === 0) {
+            continue;
+        }
+
+        stats.recovered++;
+        stuckJobsRecovered.inc({ platform: post.platform });
+        log.info({ postId: post.id }, 'Reset stuck job');
+    }
+
+    return stats;
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { scheduleRecurrences } from './recurrence.js';
+import { prisma } from '../lib/db.js';
+
+vi.mock('../lib/db.js', () => ({
+    prisma: {
+        postRecurrence: {
+            findMany: vi.fn(),
+            update: vi.fn(),
+        },
+        scheduledPost: {
+            create: vi.fn(),
+        },
+    },
+}));
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+function makeRecurrence(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'rec-1',
+        userId: 'user-1',
+        platform: 'twitter',
+        priority: 0,
+        rule: 'FREQ=WEEKLY;BYDAY=MO;BYHOUR=9',
+        startsAt: new Date('2026-10-05T09:00:00Z'),
+        endsAt: null,
+        maxOccurrences: null,
+        minGapHours: 24,
+        variants: [],
+        content: { achievementId: 'ach-1', format: 'tweet', content: 'Merged my first PR' },
+        user: { preferences: null },
+        scheduledPosts: [],
+        ...overrides,
+    };
+}
+
+function post(occurrence: number, status: string, scheduledFor: string) {
+    return {
+        occurrence,
+        status,
+        scheduledFor: new Date(scheduledFor),
+        completedAt: status === 'POSTED' ? new Date(scheduledFor) : null,
+        content: { content: 'Merged my first PR' },
+    };
+}
+
+describe('scheduleRecurrences', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should create the next occurrence once the current one has posted', async () => {
+        (prisma.postRecurrence.findMany as any).mockResolvedValue([
+            makeRecurrence({ scheduledPosts: [post(2, 'POSTED', '2026-10-19T09:00:00Z')] }),
+        ]);
+
+        const stats = await scheduleRecurrences(now);
+
+        expect(stats).toEqual({ created: 1, ended: 0 });
+        expect(prisma.scheduledPost.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({
+                occurrence: 3,
+                status: 'PENDING',
+                scheduledFor: new Date('2026-10-26T09:00:00Z'),
+                recurrence: { connect: { id: 'rec-1' } },
+                content: {
+                    create: expect.objectContaining({
+                        content: 'Merged my first PR\n\n(#3)',
+                        status: 'scheduled',
+                    }),
+                },
+            }),
+        });
+    });
+
+    it('should wait while the current occurrence is still pending', async () => {
+        (prisma.postRecurrence.findMany as any).mockResolvedValue([
+            makeRecurrence({ scheduledPosts: [post(1, 'QUEUED', '2026-10-19T12:03:00Z')] }),
+        ]);
+
+        const stats = await scheduleRecurrences(now);
+
+        expect(stats).toEqual({ created: 0, ended: 0 });
+        expect(prisma.scheduledPost.create).not.toHaveBeenCalled();
+    });
+
+    it('should end the recurrence after the last occurrence', async () => {
+        (prisma.postRecurrence.findMany as any).mockResolvedValue([
+            makeRecurrence({ maxOccurrences: 2, scheduledPosts: [post(2, 'POSTED', '2026-10-19T09:00:00Z')] }),
+        ]);
+
+        const stats = await scheduleRecurrences(now);
+
+        expect(stats).toEqual({ created: 0, ended: 1 });
+        expect(prisma.scheduledPost.create).not.toHaveBeenCalled();
+        expect(prisma.postRecurrence.update).toHaveBeenCalledWith({
+            where: { id: 'rec-1' },
+            data: { isActive: false, endedAt: now },
+        });
+    });
+
+    it('should ignore an occurrence another scheduler already created', async () => {
+        (prisma.postRecurrence.findMany as any).mockResolvedValue([makeRecurrence()]);
+        (prisma.scheduledPost.create as any).mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+
+        const stats = await scheduleRecurrences(now);
+
+        expect(stats).toEqual({ created: 0, ended: 0 });
+    });
+});
@@ -0,0 +1,161 @@
+import { prisma } from '../lib/db.js';
+import { createChildLogger } from '../lib/logger.js';
+import { parseRecurrenceRule, nextRecurrenceTime, renderOccurrence } from '../lib/recurrence.js';
+import { resolveTimeZone } from '../lib/timezone.js';
+
+// Occurrence states after which the series moves on (a failed or cancelled repost doesn't stall it)
+const FINISHED_STATUSES = ['POSTED', 'FAILED', 'CANCELLED'];
+
+// Earlier texts checked when making a repost unique
+const PREVIOUS_TEXTS_CHECKED = 10;
+
+export interface RecurrenceStats {
+    created: number;
+    ended: number;
+}
+
+interface RecurrenceRow {
+    id: string;
+    userId: string;
+    platform: string;
+    priority: number;
+    rule: string;
+    startsAt: Date;
+    endsAt: Date | null;
+    maxOccurrences: number | null;
+    minGapHours: number;
+    variants: string[];
+    content: { achievementId: string; format: string; content: string };
+    user: { preferences: { timezone: string } | null };
+    scheduledPosts: {
+        occurrence: number | null;
+        status: string;
+        scheduledFor: Date;
+        completedAt: Date | null;
+        content: { content: string };
+    }[];
+}
+
+/**
+ * Create the next ScheduledPost for every active recurrence whose latest
+ * occurrence is finished (or that has none yet).
+ *
+ * Each occurrence gets its own GeneratedContent row with the rendered text,
+ * so edits and the queued-job sync work on it like on any other post.
+ * The (recurrenceId, occurrence) unique key keeps a second scheduler from
+ * creating the same occurrence twice.
+ */
+export async function scheduleRecurrences(now: Date = new Date()): Promise<RecurrenceStats> {
+    const log = createChildLogger({ task: 'recurrences' });
+    const stats: RecurrenceStats = { created: 0, ended: 0 };
+
+    const recurrences: RecurrenceRow[] = await prisma.postRecurrence.findMany({
+        where: { isActive: true },
+        include: {
+            content: { select: { achievementId: true, format: true, content: true } },
+            user: { select: { preferences: { select: { timezone: true } } } },
+            scheduledPosts: {
+                orderBy: { occurrence: 'desc' },
+                take: PREVIOUS_TEXTS_CHECKED,
+                select: {
+                    occurrence: true,
+                    status: true,
+                    scheduledFor: true,
+                    completedAt: true,
+                    content: { select: { content: true } },
+                },
+            },
+        },
+    });
+
+    for (const recurrence of recurrences) {
+        const latest = recurrence.scheduledPosts[0];
+
+        if (latest && !FINISHED_STATUSES.includes(latest.status)) {
+            continue;
+        }
+
+        try {
+            const rule = parseRecurrenceRule(recurrence.rule);
+            const timeZone = resolveTimeZone(recurrence.user.preferences?.timezone);
+            const occurrence = (latest?.occurrence ?? 0) + 1;
+            const limits = [recurrence.maxOccurrences, rule.kind === 'rrule' ? rule.count : undefined]
+                .filter((limit): limit is number => typeof limit === 'number');
+
+            const scheduledFor = occurrence > Math.min(...limits)
+                ? null
+                : nextRecurrenceTime({
+                    rule,
+                    start: recurrence.startsAt,
+                    previous: latest?.scheduledFor,
+                    lastPostedAt: lastPostedAt(recurrence),
+                    minGapMs: recurrence.minGapHours * 60 * 60 * 1000,
+                    endsAt: recurrence.endsAt,
+                    timeZone,
+                    now,
+                });
+
+            if (!scheduledFor) {
+                await endRecurrence(recurrence.id, now);
+                stats.ended++;
+                log.info({ recurrenceId: recurrence.id, occurrences: occurrence - 1 }, 'Recurrence ended');
+                continue;
+            }
+
+            const text = renderOccurrence({
+                content: recurrence.content.content,
+                variants: recurrence.variants,
+                occurrence,
+                scheduledFor,
+                previousTexts: recurrence.scheduledPosts.map((post) => post.content.content),
+                timeZone,
+            });
+
+            await prisma.scheduledPost.create({
+                data: {
+                    user: { connect: { id: recurrence.userId } },
+                    recurrence: { connect: { id: recurrence.id } },
+                    occurrence,
+                    platform: recurrence.platform,
+                    status: 'PENDING', // The column default is lowercase, which the scheduler never picks up
+                    scheduledFor,
+                    priority: recurrence.priority,
+                    content: {
+                        create: {
+                            achievement: { connect: { id: recurrence.content.achievementId } },
+                            user: { connect: { id: recurrence.userId } },
+                            format: recurrence.content.format,
+                            content: text,
+                            status: 'scheduled',
+                            scheduledAt: scheduledFor,
+                            platform: recurrence.platform,
+                        },
+                    },
+                },
+            });
+
+            stats.created++;
+            log.info({ recurrenceId: recurrence.id, occurrence, scheduledFor }, 'Scheduled next occurrence');
+        } catch (error: any) {
+            // P2002: another scheduler already created this occurrence
+            if (error?.code === 'P2002') {
+                continue;
+            }
+            log.error({ recurrenceId: recurrence.id, error: error.message }, 'Failed to schedule next occurrence');
+        }
+    }
+
+    return stats;
+}
+
+function lastPostedAt(recurrence: RecurrenceRow): Date | null {
+    const posted = recurrence.scheduledPosts.find((post) => post.status === 'POSTED');
+    return posted?.completedAt ?? posted?.scheduledFor ?? null;
+}
+
+async function endRecurrence(id: string, now: Date): Promise<void> {
+    await prisma.postRecurrence.update({
+        where: { id },
+        data: { isActive: false, endedAt: now },
+    });
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { syncQueuedJobs } from './sync.js';
+import { prisma } from '../lib/db.js';
+
+vi.mock('../lib/db.js', () => ({
+    prisma: {
+        scheduledPost: {
+            findMany: vi.fn(),
+            update: vi.fn(),
+        },
+    },
+}));
+
+const now = new Date('2026-10-19T12:00:00Z');
+const lookAheadMs = 5 * 60 * 1000;
+
+function makeJob(postId: string, state: string, overrides: Record<string, unknown> = {}) {
+    return {
+        id: `tweet-${postId}`,
+        data: {
+            scheduledPostId: postId,
+            content: 'Original',
+            scheduledFor: '2026-10-19T12:03:00.000Z',
+            ...overrides,
+        },
+        getState: vi.fn().mockResolvedValue(state),
+        remove: vi.fn(),
+        changeDelay: vi.fn(),
+        updateData: vi.fn(),
+    };
+}
+
+function makePost(id: string, overrides: Record<string, unknown> = {}) {
+    return {
+        id,
+        status: 'QUEUED',
+        scheduledFor: new Date('2026-10-19T12:03:00Z'),
+        content: { content: 'Original' },
+        ...overrides,
+    };
+}
+
+describe('syncQueuedJobs', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    function run(jobs: ReturnType<typeof makeJob>[], posts: ReturnType<typeof makePost>[]) {
+        const queue = { getJobs: vi.fn().mockResolvedValue(jobs) };
+        (prisma.scheduledPost.findMany as any).mockResolvedValue(posts);
+        return syncQueuedJobs([queue as any], { now, lookAheadMs });
+    }
+
+    it('should remove jobs for cancelled and deleted posts', async () => {
+        const cancelled = makeJob('post-1', 'delayed');
+        const deleted = makeJob('post-2', 'waiting');
+
+        const stats = await run([cancelled, deleted], [makePost('post-1', { status: 'CANCELLED' })]);
+
+        expect(stats.removed).toBe(2);
+        expect(cancelled.remove).toHaveBeenCalled();
+        expect(deleted.remove).toHaveBeenCalled();
+        expect(prisma.scheduledPost.update).toHaveBeenCalledWith({
+            where: { id: 'post-1' },
+            data: { jobId: null, queuedAt: null },
+        });
+    });
+
+    it('should copy edited content into the job', async () => {
+        const job = makeJob('post-1', 'delayed');
+
+        const stats = await run([job], [makePost('post-1', { content: { content: 'Edited' } })]);
+
+        expect(stats).toEqual({ updated: 1, rescheduled: 0, requeued: 0, removed: 0 });
+        expect(job.updateData).toHaveBeenCalledWith(expect.objectContaining({ content: 'Edited' }));
+        expect(job.changeDelay).not.toHaveBeenCalled();
+    });
+
+    it('should change the delay of a rescheduled job within the look-ahead window', async () => {
+        const job = makeJob('post-1', 'delayed');
+
+        const stats = await run([job], [makePost('post-1', { scheduledFor: new Date('2026-10-19T12:04:00Z') })]);
+
+        expect(stats.rescheduled).toBe(1);
+        expect(job.changeDelay).toHaveBeenCalledWith(4 * 60 * 1000);
+        expect(job.updateData).toHaveBeenCalledWith(expect.objectContaining({
+            scheduledFor: '2026-10-19T12:04:00.000Z',
+        }));
+    });
+
+    it('should send posts moved past the look-ahead window back to PENDING', async () => {
+        const job = makeJob('post-1', 'delayed');
+
+        const stats = await run([job], [makePost('post-1', { scheduledFor: new Date('2026-10-20T09:00:00Z') })]);
+
+        expect(stats.requeued).toBe(1);
+        expect(job.remove).toHaveBeenCalled();
+        expect(job.changeDelay).not.toHaveBeenCalled();
+        expect(prisma.scheduledPost.update).toHaveBeenCalledWith({
+            where: { id: 'post-1' },
+            data: { status: 'PENDING', jobId: null, queuedAt: null },
+        });
+    });
+
+    it('should leave posts that are no longer QUEUED alone', async () => {
+        const job = makeJob('post-1', 'waiting');
+
+        const stats = await run([job], [makePost('post-1', { status: 'POSTED', content: { content: 'Edited' } })]);
+
+        expect(stats).toEqual({ updated: 0, rescheduled: 0, requeued: 0, removed: 0 });
+        expect(job.remove).not.toHaveBeenCalled();
+        expect(job.updateData).not.toHaveBeenCalled();
+    });
+});
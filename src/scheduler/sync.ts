@@ -0,0 +1,134 @@
+import { prisma } from '../lib/db.js';
+import { createChildLogger } from '../lib/logger.js';
+import type { Job, PostQueue } from '../lib/queue.js';
+import type { PostJobData } from '../lib/types.js';
+
+// Jobs that have not started yet and can still be changed
+const PENDING_JOB_STATES = ['delayed', 'waiting', 'prioritized'] as const;
+
+export interface SyncStats {
+    updated: number; // content copied into the job
+    rescheduled: number; // delay changed
+    requeued: number; // removed and reset to PENDING for the scheduler to queue again
+    removed: number; // post cancelled or deleted
+}
+
+interface QueuedPostRow {
+    id: string;
+    status: string;
+    scheduledFor: Date;
+    content: { content: string };
+}
+
+/**
+ * Bring queued jobs in line with their ScheduledPost after the job was created.
+ *
+ * - Post deleted or CANCELLED: the job is removed.
+ * - Content edited: the job data gets the new text.
+ * - scheduledFor moved: a delayed job gets a new delay; a job that is due now,
+ *   or one moved past the look-ahead window, is removed and the post reset to
+ *   PENDING so the scheduler queues it again at the right time.
+ *
+ * Jobs that are already running are left alone; the processor re-checks the
+ * post right before publishing.
+ */
+export async function syncQueuedJobs(
+    queues: PostQueue[],
+    options: { now?: Date; lookAheadMs: number }
+): Promise<SyncStats> {
+    const log = createChildLogger({ task: 'syncQueued' });
+    const now = options.now ?? new Date();
+    const stats: SyncStats = { updated: 0, rescheduled: 0, requeued: 0, removed: 0 };
+
+    for (const queue of queues) {
+        const jobs = (await queue.getJobs([...PENDING_JOB_STATES])).filter(Boolean) as Job<PostJobData>[];
+
+        if (jobs.length === 0) {
+            continue;
+        }
+
+        const posts: QueuedPostRow[] = await prisma.scheduledPost.findMany({
+            where: { id: { in: jobs.map((job) => job.data.scheduledPostId) } },
+            select: {
+                id: true,
+                status: true,
+                scheduledFor: true,
+                content: { select: { content: true } },
+            },
+        });
+        const postsById = new Map(posts.map((post) => [post.id, post]));
+
+        for (const job of jobs) {
+            const post = postsById.get(job.data.scheduledPostId);
+
+            try {
+                // Deleted or cancelled: drop the job
+                if (!post || post.status === 'CANCELLED') {
+                    await job.remove();
+                    if (post) {
+                        await prisma.scheduledPost.update({
+                            where: { id: post.id },
+                            data: { jobId: null, queuedAt: null },
+                        });
+                    }
+
+                    stats.removed++;
+                    log.info({ jobId: job.id, postId: job.data.scheduledPostId }, 'Removed job for cancelled post');
+                    continue;
+                }
+
+                // Only QUEUED posts belong to the queue; other states were changed elsewhere
+                if (post.status !== 'QUEUED') {
+                    continue;
+                }
+
+                const moved = job.data.scheduledFor !== undefined
+                    && new Date(job.data.scheduledFor).getTime() !== post.scheduledFor.getTime();
+
+                if (moved) {
+                    const delay = post.scheduledFor.getTime() - now.getTime();
+                    const state = await job.getState();
+
+                    // Outside the window, or no longer delayed: let the scheduler queue it again
+                    if (delay > options.lookAheadMs || (state !== 'delayed' && delay > 0)) {
+                        await job.remove();
+                        await prisma.scheduledPost.update({
+                            where: { id: post.id },
+                            data: { status: 'PENDING', jobId: null, queuedAt: null },
+                        });
+
+                        stats.requeued++;
+                        log.info({ jobId: job.id, postId: post.id, scheduledFor: post.scheduledFor }, 'Post rescheduled, re-queueing');
+                        continue;
+                    }
+
+                    if (state === 'delayed') {
+                        await job.changeDelay(Math.max(0, delay));
+                    }
+
+                    stats.rescheduled++;
+                }
+
+                const edited = job.data.content !== post.content.content;
+
+                if (moved || edited) {
+                    await job.updateData({
+                        ...job.data,
+                        content: post.content.content,
+                        scheduledFor: post.scheduledFor.toISOString(),
+                    });
+
+                    if (edited) {
+                        stats.updated++;
+                        log.info({ jobId: job.id, postId: post.id }, 'Updated job with edited content');
+                    }
+                }
+            } catch (error: any) {
+                // The job may have started or finished since getJobs; the next run will see it
+                log.warn({ jobId: job.id, postId: job.data.scheduledPostId, error: error.message }, 'Failed to sync job');
+            }
+        }
+    }
+
+    return stats;
+}
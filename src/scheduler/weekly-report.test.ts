@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateWeeklyReports } from './weekly-report.js';
+import { prisma } from '../lib/db.js';
+import { queueWeeklyReportEmail } from '../lib/notifications.js';
+
+vi.mock('../lib/db.js', () => ({
+    prisma: {
+        user: { findMany: vi.fn() },
+        weeklyReport: { findMany: vi.fn(), create: vi.fn() },
+        achievement: { findMany: vi.fn() },
+        generatedContent: { findMany: vi.fn() },
+        scheduledPost: { findMany: vi.fn() },
+        syncHistory: { findMany: vi.fn() },
+    },
+}));
+
+vi.mock('../lib/notifications.js', () => ({
+    queueWeeklyReportEmail: vi.fn(),
+}));
+
+// Monday 10:00 UTC: due in UTC, still Monday 03:00 in Los Angeles
+const now = new Date('2026-10-19T10:00:00Z');
+
+describe('generateWeeklyReports', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (prisma.user.findMany as any).mockResolvedValue([
+            { id: 'user-1', name: 'Dev', preferences: { timezone: 'UTC' } },
+            { id: 'user-2', name: null, preferences: { timezone: 'America/Los_Angeles' } },
+        ]);
+        (prisma.weeklyReport.findMany as any).mockResolvedValue([]);
+        (prisma.weeklyReport.create as any).mockResolvedValue({ id: 'report-1' });
+        (prisma.achievement.findMany as any).mockResolvedValue([]);
+        (prisma.generatedContent.findMany as any).mockResolvedValue([{ format: 'tweet' }]);
+        (prisma.scheduledPost.findMany as any).mockResolvedValue([]);
+        (prisma.syncHistory.findMany as any).mockResolvedValue([]);
+    });
+
+    it('should write and email the reports that are due', async () => {
+        const stats = await generateWeeklyReports(now);
+
+        expect(stats).toEqual({ generated: 1, emailed: 1 });
+        expect(prisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { preferences: { weeklyReports: true } } }));
+        expect(prisma.achievement.findMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: { userId: 'user-1', createdAt: { gte: new Date('2026-10-12T00:00:00Z'), lt: new Date('2026-10-19T00:00:00Z') } },
+        }));
+
+        const { data } = (prisma.weeklyReport.create as any).mock.calls[0][0];
+        expect(data).toMatchObject({ userId: 'user-1', periodStart: new Date('2026-10-12T00:00:00Z'), timeZone: 'UTC' });
+        expect(data.data.content.created).toBe(1);
+        expect(data.subject).toContain('Oct 12 – Oct 18');
+        expect(data.html).toContain('<h2>Achievements</h2>');
+        expect(queueWeeklyReportEmail).toHaveBeenCalledWith('user-1', 'report-1');
+    });
+
+    it('should skip weeks that already have a report', async () => {
+        (prisma.weeklyReport.findMany as any).mockResolvedValue([{ userId: 'user-1', periodStart: new Date('2026-10-12T00:00:00Z') }]);
+
+        expect(await generateWeeklyReports(now)).toEqual({ generated: 0, emailed: 0 });
+        expect(prisma.weeklyReport.create).not.toHaveBeenCalled();
+    });
+
+    it('should store a quiet week without emailing it', async () => {
+        (prisma.generatedContent.findMany as any).mockResolvedValue([]);
+
+        expect(await generateWeeklyReports(now)).toEqual({ generated: 1, emailed: 0 });
+        expect(queueWeeklyReportEmail).not.toHaveBeenCalled();
+    });
+
+    it('should leave a report another scheduler just wrote', async () => {
+        (prisma.weeklyReport.create as any).mockRejectedValue(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+        expect(await generateWeeklyReports(now)).toEqual({ generated: 0, emailed: 0 });
+    });
+});
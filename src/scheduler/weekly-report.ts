@@ -0,0 +1,126 @@
+import { prisma } from '../lib/db.js';
+import { createChildLogger } from '../lib/logger.js';
+import { reportPeriod, buildWeeklyReport, hasActivity } from '../lib/weekly-report.js';
+import type { ReportPeriod, WeeklyReportRows } from '../lib/weekly-report.js';
+import { renderWeeklyReportEmail } from '../lib/email-templates.js';
+import { queueWeeklyReportEmail } from '../lib/notifications.js';
+import { resolveTimeZone } from '../lib/timezone.js';
+
+const REPORT_HOUR = parseInt(process.env.WEEKLY_REPORT_HOUR || '9');
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface WeeklyReportStats {
+    generated: number;
+    emailed: number;
+}
+
+interface ReportUserRow {
+    id: string;
+    name: string | null;
+    preferences: { timezone: string } | null;
+}
+
+/**
+ * Store last week's report for every user with `weeklyReports` on whose
+ * report is due (Monday, REPORT_HOUR local time) and not written yet, and
+ * queue its email. Reports with nothing in them are stored but not emailed.
+ *
+ * Runs hourly, so each timezone gets its report on its own Monday morning.
+ * The (userId, periodStart) unique key keeps a week from being written twice.
+ */
+export async function generateWeeklyReports(now: Date = new Date()): Promise<WeeklyReportStats> {
+    const log = createChildLogger({ task: 'weeklyReports' });
+    const stats: WeeklyReportStats = { generated: 0, emailed: 0 };
+
+    const users: ReportUserRow[] = await prisma.user.findMany({
+        where: { preferences: { weeklyReports: true } },
+        select: { id: true, name: true, preferences: { select: { timezone: true } } },
+    });
+
+    if (users.length === 0) {
+        return stats;
+    }
+
+    // Reports written in the last week cover every period that can be due now
+    const existing: { userId: string; periodStart: Date }[] = await prisma.weeklyReport.findMany({
+        where: { userId: { in: users.map((user) => user.id) }, periodStart: { gte: new Date(now.getTime() - 2 * WEEK_MS) } },
+        select: { userId: true, periodStart: true },
+    });
+    const written = new Set(existing.map((report) => `${report.userId}:${report.periodStart.getTime()}`));
+
+    for (const user of users) {
+        const timeZone = resolveTimeZone(user.preferences?.timezone);
+        const period = reportPeriod(now, timeZone, REPORT_HOUR);
+
+        if (now < period.dueAt || written.has(`${user.id}:${period.periodStart.getTime()}`)) {
+            continue;
+        }
+
+        try {
+            const data = buildWeeklyReport(period, timeZone, await loadReportRows(user.id, period, now));
+            const email = renderWeeklyReportEmail({ name: user.name, data, appUrl: APP_URL });
+
+            const report: { id: string } = await prisma.weeklyReport.create({
+                data: {
+                    userId: user.id,
+                    periodStart: period.periodStart,
+                    periodEnd: period.periodEnd,
+                    timeZone,
+                    data,
+                    ...email,
+                },
+                select: { id: true },
+            });
+            stats.generated++;
+
+            if (hasActivity(data)) {
+                await queueWeeklyReportEmail(user.id, report.id);
+                stats.emailed++;
+            }
+        } catch (error: any) {
+            // P2002: another scheduler already wrote this week's report
+            if (error?.code === 'P2002') {
+                continue;
+            }
+            log.error({ userId: user.id, error: error.message }, 'Failed to generate weekly report');
+        }
+    }
+
+    return stats;
+}
+
+/**
+ * Everything that happened for the user within the period, plus the posts
+ * scheduled for the seven days after `now`
+ */
+async function loadReportRows(userId: string, period: ReportPeriod, now: Date): Promise<WeeklyReportRows> {
+    const within = { gte: period.periodStart, lt: period.periodEnd };
+
+    const [achievements, content, posts, upcoming, syncs] = await Promise.all([
+        prisma.achievement.findMany({
+            where: { userId, createdAt: within },
+            select: { title: true, type: true, repoName: true, repoUrl: true, score: true, occurredAt: true },
+        }),
+        prisma.generatedContent.findMany({
+            where: { userId, createdAt: within },
+            select: { format: true },
+        }),
+        prisma.scheduledPost.findMany({
+            where: { userId, status: { in: ['POSTED', 'FAILED'] }, completedAt: within },
+            orderBy: { completedAt: 'asc' },
+            select: { platform: true, status: true, errorCode: true, errorMessage: true, platformUrl: true, completedAt: true },
+        }),
+        prisma.scheduledPost.findMany({
+            where: { userId, status: { in: ['PENDING', 'QUEUED'] }, scheduledFor: { gte: now, lt: new Date(now.getTime() + WEEK_MS) } },
+            orderBy: { scheduledFor: 'asc' },
+            select: { platform: true, scheduledFor: true, content: { select: { content: true } } },
+        }),
+        prisma.syncHistory.findMany({
+            where: { userId, syncedAt: within },
+            select: { status: true, achievementsFound: true, achievementsNew: true, syncedAt: true },
+        }),
+    ]);
+
+    return { achievements, content, posts, upcoming, syncs };
+}
@@ -1,8 +1,24 @@
 import 'dotenv/config';
 import express from 'express';
-import { createTwitterWorker, createQueueEvents, QUEUE_NAMES } from '../lib/queue.js';
+import {
+    createTwitterQueue,
+    createLinkedInQueue,
+    createTwitterWorker,
+    createLinkedInWorker,
+    createWebhookWorker,
+    createEmailWorker,
+    createQueueEvents,
+    QUEUE_NAMES,
+} from '../lib/queue.js';
+import { createAdminRouter } from '../lib/admin.js';
+import { initMetrics, metricsHandler, jobsStalled } from '../lib/metrics.js';
+import { createHealthRouter, createWorkerCheck, checkRedis, checkPostgres, closeHealthClient } from '../lib/health.js';
 import { logger } from '../lib/logger.js';
-import { processTwitterPost } from './processor.js';
+import { closeLockClient } from '../lib/lock.js';
+import { emitWebhookEvent, deliverWebhook, closeWebhookQueue } from '../lib/webhooks.js';
+import { notifyPostOutcome, processEmailJob, closeNotificationQueue } from '../lib/notifications.js';
+import { closeMailer } from '../lib/mailer.js';
+import { processTwitterPost, processLinkedInPost, recordExhaustedJob } from './processor.js';
 
 // Health check server for Koyeb deployment
 const app = express();
@@ -16,45 +32,107 @@ app.get('/', (_req, res) => {
     res.status(200).json({ status: 'running', service: 'gitxflow-worker' });
 });
 
+// Queue administration (bearer ADMIN_API_TOKEN)
+const adminQueues = [createTwitterQueue(), createLinkedInQueue()];
+app.use('/admin', createAdminRouter(adminQueues));
+
+// Prometheus metrics
+initMetrics('gitxflow-worker');
+app.get('/metrics', metricsHandler);
+
 const server = app.listen(PORT, () => {
     logger.info({ port: PORT }, 'Health check server running');
 });
 
 async function main() {
-    logger.info('Starting Twitter worker service...');
+    logger.info('Starting worker service...');
 
-    // Create worker with concurrency from env or default 5
+    // Create workers with concurrency from env or default 5
     const concurrency = parseInt(process.env.WORKER_CONCURRENCY || '5');
-    const worker = createTwitterWorker(processTwitterPost, concurrency);
+    const workers = [
+        createTwitterWorker(processTwitterPost, concurrency),
+        createLinkedInWorker(processLinkedInPost, concurrency),
+    ];
+
+    // Outbound webhooks have their own queue, so a slow endpoint never holds up posting
+    const webhookWorker = createWebhookWorker(deliverWebhook, parseInt(process.env.WEBHOOK_CONCURRENCY || '5'));
+    // Emails (digests, weekly reports) likewise, so a slow SMTP server never holds up posting
+    const emailWorker = createEmailWorker(processEmailJob);
+    const backgroundWorkers = [webhookWorker, emailWorker];
+
+    for (const worker of backgroundWorkers) {
+        worker.on('error', (error) => {
+            logger.error({ queue: worker.name, error: error.message }, 'Worker error');
+        });
+    }
+
+    // Any replica's stall checker may find a job another replica lost, so stalls are
+    // counted and logged here rather than failing this replica's liveness
+    for (const worker of [...workers, ...backgroundWorkers]) {
+        worker.on('stalled', (jobId) => {
+            jobsStalled.inc({ queue: worker.name });
+            logger.warn({ queue: worker.name, jobId }, 'Job stalled and was moved back to wait');
+        });
+    }
+
+    // Liveness: workers running and not paused. Readiness adds Redis and Postgres.
+    app.use(createHealthRouter({
+        live: { worker: createWorkerCheck([...workers, ...backgroundWorkers]) },
+        ready: { redis: checkRedis, postgres: checkPostgres },
+    }));
 
     // Create queue events for monitoring
-    const queueEvents = createQueueEvents(QUEUE_NAMES.TWITTER_POST);
-
-    // Log job events
-    worker.on('completed', (job) => {
-        logger.info(
-            { jobId: job.id, postId: job.data.scheduledPostId },
-            'Job completed successfully'
-        );
-    });
-
-    worker.on('failed', (job, error) => {
-        logger.error(
-            { jobId: job?.id, postId: job?.data.scheduledPostId, error: error.message },
-            'Job failed'
-        );
-    });
-
-    worker.on('active', (job) => {
-        logger.debug(
-            { jobId: job.id, postId: job.data.scheduledPostId },
-            'Job started processing'
-        );
-    });
-
-    worker.on('error', (error) => {
-        logger.error({ error: error.message }, 'Worker error');
-    });
+    const queueEvents = [
+        createQueueEvents(QUEUE_NAMES.TWITTER_POST),
+        createQueueEvents(QUEUE_NAMES.LINKEDIN_POST),
+    ];
+
+    for (const worker of workers) {
+        const queue = worker.name;
+
+        // Log job events and tell webhook endpoints and the user how the post went
+        worker.on('completed', async (job, result) => {
+            logger.info(
+                { queue, jobId: job.id, postId: job.data.scheduledPostId },
+                'Job completed successfully'
+            );
+
+            // Non-retryable failures finish as completed jobs with `success: false`; cancelled posts send nothing
+            if (result.success) {
+                await emitWebhookEvent('post.published', { scheduledPostId: job.data.scheduledPostId, result });
+            } else if (result.error?.code !== 'POST_CANCELLED') {
+                await emitWebhookEvent('post.failed', { scheduledPostId: job.data.scheduledPostId, result });
+            }
+
+            await notifyPostOutcome(job.data, result);
+        });
+
+        worker.on('failed', async (job, error) => {
+            logger.error(
+                { queue, jobId: job?.id, postId: job?.data.scheduledPostId, error: error.message },
+                'Job failed'
+            );
+
+            // Retries are still pending unless the attempts are used up
+            if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+                const result = await recordExhaustedJob(job, error);
+
+                await emitWebhookEvent('post.failed', { scheduledPostId: job.data.scheduledPostId, result });
+                await notifyPostOutcome(job.data, result);
+            }
+        });
+
+        worker.on('active', (job) => {
+            logger.debug(
+                { queue, jobId: job.id, postId: job.data.scheduledPostId },
+                'Job started processing'
+            );
+        });
+
+        worker.on('error', (error) => {
+            logger.error({ queue, error: error.message }, 'Worker error');
+        });
+    }
 
     // Graceful shutdown handler
     const shutdown = async (signal: string) => {
@@ -64,9 +142,15 @@ async function main() {
             // Close HTTP server
             server.close();
 
-            // Close worker (waits for active jobs to complete)
-            await worker.close();
-            await queueEvents.close();
+            // Close workers (waits for active jobs to complete)
+            await Promise.all([...workers, ...backgroundWorkers].map((worker) => worker.close()));
+            await Promise.all(queueEvents.map((events) => events.close()));
+            await Promise.all(adminQueues.map((queue) => queue.close()));
+            await closeLockClient();
+            await closeWebhookQueue();
+            await closeNotificationQueue();
+            closeMailer();
+            await closeHealthClient();
 
             logger.info('Worker shut down gracefully');
             process.exit(0);
@@ -80,7 +164,7 @@ async function main() {
     process.on('SIGINT', () => shutdown('SIGINT'));
 
     logger.info(
-        { concurrency, queue: QUEUE_NAMES.TWITTER_POST },
+        { concurrency, queues: [QUEUE_NAMES.TWITTER_POST, QUEUE_NAMES.LINKEDIN_POST] },
         'Worker service started and listening for jobs'
     );
 }
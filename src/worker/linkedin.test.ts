@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    postToLinkedIn,
+    mapLinkedInError,
+    escapeLinkedInCommentary,
+    validateLinkedInContent,
+    LinkedInError,
+} from './linkedin.js';
+
+// Media downloads go through the stubbed fetch too
+vi.mock('../lib/safe-fetch.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../lib/safe-fetch.js')>()),
+    safeFetch: (url: string) => fetch(url),
+}));
+
+// Enough of a PNG for the type check
+const PNG_BYTES = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(16)]);
+
+describe('LinkedIn Logic', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('postToLinkedIn', () => {
+        it('should publish a post and return the post URN from the response header', async () => {
+            const fetchMock = vi.fn().mockResolvedValue(
+                new Response(null, {
+                    status: 201,
+                    headers: { 'x-restli-id': 'urn:li:share:123' },
+                })
+            );
+            vi.stubGlobal('fetch', fetchMock);
+
+            const result = await postToLinkedIn({
+                accessToken: 'token',
+                authorId: 'member-1',
+                content: 'Hello LinkedIn',
+            });
+
+            expect(result.postId).toBe('urn:li:share:123');
+            expect(result.postUrl).toBe('https://www.linkedin.com/feed/update/urn:li:share:123');
+
+            const [url, init] = fetchMock.mock.calls[0];
+            expect(url).toBe('https://api.linkedin.com/rest/posts');
+            expect(JSON.parse(init.body).author).toBe('urn:li:person:member-1');
+            expect(init.signal).toBeInstanceOf(AbortSignal);
+        });
+
+        it('should attach uploaded images to the post', async () => {
+            const fetchMock = vi.fn()
+                // Download image
+                .mockResolvedValueOnce(new Response(PNG_BYTES, {
+                    headers: { 'content-type': 'image/png' },
+                }))
+                // Initialize upload
+                .mockResolvedValueOnce(Response.json({
+                    value: { uploadUrl: 'https://upload.example/1', image: 'urn:li:image:1' },
+                }))
+                // Upload binary
+                .mockResolvedValueOnce(new Response(null, { status: 201 }))
+                // Create post
+                .mockResolvedValueOnce(new Response(null, {
+                    status: 201,
+                    headers: { 'x-restli-id': 'urn:li:share:456' },
+                }));
+            vi.stubGlobal('fetch', fetchMock);
+
+            await postToLinkedIn({
+                accessToken: 'token',
+                authorId: 'member-1',
+                content: 'With image',
+                mediaUrls: ['https://cdn.example/image.png'],
+            });
+
+            expect(fetchMock.mock.calls[2][1].signal).toBeInstanceOf(AbortSignal); // Binary upload
+            const body = JSON.parse(fetchMock.mock.calls[3][1].body);
+            expect(body.content).toEqual({ media: { id: 'urn:li:image:1' } });
+        });
+
+        it('should fail the post when a required image is rejected', async () => {
+            const fetchMock = vi.fn()
+                .mockResolvedValueOnce(new Response(PNG_BYTES))
+                .mockResolvedValueOnce(Response.json({
+                    value: { uploadUrl: 'https://upload.example/1', image: 'urn:li:image:1' },
+                }))
+                .mockResolvedValueOnce(new Response(null, { status: 400 }));
+            vi.stubGlobal('fetch', fetchMock);
+
+            await expect(postToLinkedIn({
+                accessToken: 'token',
+                authorId: 'member-1',
+                content: 'With image',
+                mediaUrls: ['https://cdn.example/image.png'],
+            })).rejects.toMatchObject({ code: 'INVALID_REQUEST', retryable: false });
+            expect(fetchMock).toHaveBeenCalledTimes(3); // No post created
+        });
+
+        it('should post without optional images that could not be downloaded', async () => {
+            const fetchMock = vi.fn()
+                .mockResolvedValueOnce(new Response('gone', { status: 404 }))
+                .mockResolvedValueOnce(new Response(null, {
+                    status: 201,
+                    headers: { 'x-restli-id': 'urn:li:share:789' },
+                }));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const result = await postToLinkedIn({
+                accessToken: 'token',
+                authorId: 'member-1',
+                content: 'With image',
+                mediaUrls: ['https://cdn.example/gone.png'],
+                mediaPolicy: 'optional',
+            });
+
+            expect(result.postId).toBe('urn:li:share:789');
+            expect(result.warnings).toEqual([expect.stringContaining('https://cdn.example/gone.png was not attached')]);
+            expect(JSON.parse(fetchMock.mock.calls[1][1].body).content).toBeUndefined();
+        });
+
+        it('should map API failures to LinkedInError', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+                Response.json({ message: 'Invalid access token' }, { status: 401 })
+            ));
+
+            await expect(postToLinkedIn({
+                accessToken: 'bad-token',
+                authorId: 'member-1',
+                content: 'Hello',
+            })).rejects.toMatchObject({ code: 'AUTH_INVALID', retryable: false });
+        });
+    });
+
+    describe('mapLinkedInError', () => {
+        it('should treat rate limits and server errors as retryable', () => {
+            expect(mapLinkedInError({ status: 429 }).code).toBe('RATE_LIMITED');
+            expect(mapLinkedInError({ status: 429 }).retryable).toBe(true);
+            expect(mapLinkedInError({ status: 503 }).code).toBe('LINKEDIN_SERVER_ERROR');
+            expect(mapLinkedInError({ status: 503 }).retryable).toBe(true);
+        });
+
+        it('should detect duplicate posts', () => {
+            const error = mapLinkedInError({ status: 422, message: 'Content is a duplicate of urn:li:share:1' });
+            expect(error.code).toBe('DUPLICATE_POST');
+            expect(error.retryable).toBe(false);
+        });
+
+        it('should treat fetch network failures as retryable', () => {
+            const error = mapLinkedInError({ message: 'fetch failed', cause: { code: 'ECONNRESET' } });
+            expect(error.code).toBe('NETWORK_ERROR');
+            expect(error.retryable).toBe(true);
+            expect(mapLinkedInError(new DOMException('The operation was aborted due to timeout', 'TimeoutError')).code).toBe('NETWORK_ERROR');
+        });
+    });
+
+    describe('escapeLinkedInCommentary', () => {
+        it('should escape reserved characters and keep hashtags clickable', () => {
+            expect(escapeLinkedInCommentary('Merged (finally) #opensource'))
+                .toBe('Merged \\(finally\\) {hashtag|\\#|opensource}');
+        });
+    });
+
+    describe('validateLinkedInContent', () => {
+        it('should return invalid for content exceeding 3000 characters', () => {
+            const result = validateLinkedInContent('a'.repeat(3001));
+            expect(result.valid).toBe(false);
+            expect(result.error).toBe('Post exceeds 3000 character limit');
+        });
+    });
+
+    describe('LinkedInError Class', () => {
+        it('should create an error with correct properties', () => {
+            const error = new LinkedInError('TEST_CODE', 'Test message', false);
+            expect(error.code).toBe('TEST_CODE');
+            expect(error.retryable).toBe(false);
+            expect(error.name).toBe('LinkedInError');
+        });
+    });
+});
@@ -0,0 +1,398 @@
+import { createChildLogger } from '../lib/logger.js';
+import { mediaUploads } from '../lib/metrics.js';
+import type { MediaItem, MediaPolicy } from '../lib/types.js';
+import { toMediaItems, readStoredMedia, downloadMedia, MediaError } from '../lib/media.js';
+
+const LINKEDIN_API_BASE = 'https://api.linkedin.com/rest';
+
+// LinkedIn versioned API (YYYYMM). Override via env when LinkedIn sunsets a version.
+const LINKEDIN_API_VERSION = process.env.LINKEDIN_API_VERSION || '202405';
+
+// LinkedIn post commentary limit
+export const LINKEDIN_MAX_LENGTH = 3000;
+
+// LinkedIn allows up to 20 images in a multi-image post
+const LINKEDIN_MAX_IMAGES = 20;
+
+// Per request, so a hung socket can't keep the job active while the worker renews its lock
+const LINKEDIN_REQUEST_TIMEOUT_MS = 30 * 1000;
+const LINKEDIN_UPLOAD_TIMEOUT_MS = 2 * 60 * 1000; // Image bytes take longer
+
+/**
+ * Custom error class for LinkedIn API errors
+ */
+export class LinkedInError extends Error {
+    constructor(
+        public code: string,
+        message: string,
+        public retryable: boolean
+    ) {
+        super(message);
+        this.name = 'LinkedInError';
+    }
+}
+
+interface PostToLinkedInParams {
+    accessToken: string;
+    authorId: string; // LinkedIn member ID (SocialConnection.platformUserId)
+    content: string;
+    mediaUrls?: (string | MediaItem)[];
+    mediaPolicy?: MediaPolicy;
+}
+
+interface PostToLinkedInResult {
+    postId: string;
+    postUrl: string;
+    warnings: string[]; // Optional media that was left out
+}
+
+/**
+ * Raw non-2xx response from the LinkedIn API, before mapLinkedInError
+ */
+class LinkedInApiError extends Error {
+    constructor(
+        public status: number,
+        message: string,
+        public serviceErrorCode?: number
+    ) {
+        super(message);
+        this.name = 'LinkedInApiError';
+    }
+}
+
+// Error body of the LinkedIn REST API
+interface LinkedInErrorBody {
+    message?: string;
+    serviceErrorCode?: number;
+}
+
+/**
+ * Publish a post using the LinkedIn Posts API with a member access token
+ */
+export async function postToLinkedIn(params: PostToLinkedInParams): Promise<PostToLinkedInResult> {
+    const { accessToken, authorId, content, mediaPolicy = 'required' } = params;
+    const log = createChildLogger({ service: 'linkedin' });
+
+    // Pre-fetched files are read from the blob store; the checks and resizing of the media pipeline are Twitter-only for now
+    const media = toMediaItems(params.mediaUrls);
+
+    const author = `urn:li:person:${authorId}`;
+
+    try {
+        let imageUrns: string[] = [];
+        let warnings: string[] = [];
+
+        // Upload images if present
+        if (media.length > 0) {
+            log.debug({ mediaCount: media.length }, 'Uploading images');
+            ({ imageUrns, warnings } = await uploadImages(accessToken, author, media, mediaPolicy));
+        }
+
+        // Create the post
+        log.debug('Creating LinkedIn post');
+        const response = await linkedInRequest(accessToken, '/posts', {
+            method: 'POST',
+            body: JSON.stringify({
+                author,
+                commentary: escapeLinkedInCommentary(content),
+                visibility: 'PUBLIC',
+                distribution: {
+                    feedDistribution: 'MAIN_FEED',
+                    targetEntities: [],
+                    thirdPartyDistributionChannels: [],
+                },
+                lifecycleState: 'PUBLISHED',
+                isReshareDisabledByAuthor: false,
+                ...buildMediaContent(imageUrns),
+            }),
+        });
+
+        // LinkedIn returns the post URN in a header, not the body
+        const postId = response.headers.get('x-restli-id');
+        if (!postId) {
+            throw new LinkedInError(
+                'UNKNOWN_LINKEDIN_ERROR',
+                'LinkedIn did not return a post ID.',
+                false
+            );
+        }
+
+        const postUrl = `https://www.linkedin.com/feed/update/${postId}`;
+
+        log.info({ postId }, 'LinkedIn post published successfully');
+
+        return { postId, postUrl, warnings };
+    } catch (error: any) {
+        if (error instanceof LinkedInError || error instanceof MediaError) {
+            throw error;
+        }
+
+        log.error(
+            {
+                message: error.message,
+                status: error.status,
+                serviceErrorCode: error.serviceErrorCode,
+            },
+            'LinkedIn API error'
+        );
+
+        // Map LinkedIn API errors to our error types
+        throw mapLinkedInError(error);
+    }
+}
+
+/**
+ * Build the `content` block of a post for the uploaded images
+ */
+function buildMediaContent(imageUrns: string[]): Record<string, unknown> {
+    if (imageUrns.length === 0) {
+        return {};
+    }
+
+    if (imageUrns.length === 1) {
+        return { content: { media: { id: imageUrns[0] } } };
+    }
+
+    return {
+        content: {
+            multiImage: {
+                images: imageUrns.map((id) => ({ id })),
+            },
+        },
+    };
+}
+
+// Errors that affect the post itself, whatever the media policy
+const ACCOUNT_ERROR_CODES = new Set(['RATE_LIMITED', 'AUTH_INVALID']);
+
+/**
+ * Upload images to LinkedIn and return their image URNs. With the
+ * 'required' policy the first item that can't be attached fails the post;
+ * with 'optional' it is left out and reported as a warning.
+ */
+async function uploadImages(
+    accessToken: string,
+    owner: string,
+    media: MediaItem[],
+    policy: MediaPolicy
+): Promise<{ imageUrns: string[]; warnings: string[] }> {
+    const log = createChildLogger({ service: 'linkedin-media' });
+    const imageUrns: string[] = [];
+    const warnings: string[] = [];
+
+    const skipOrThrow = (url: string, error: MediaError | LinkedInError) => {
+        if (policy === 'required' || (error instanceof LinkedInError && ACCOUNT_ERROR_CODES.has(error.code))) {
+            throw error;
+        }
+        log.warn({ url, code: error.code, message: error.message }, 'Leaving out media');
+        warnings.push(`${url} was not attached: ${error.message}`);
+    };
+
+    for (const item of media.slice(LINKEDIN_MAX_IMAGES)) {
+        mediaUploads.inc({ platform: 'linkedin', result: 'invalid' });
+        skipOrThrow(item.url, new MediaError('MEDIA_LIMIT_EXCEEDED', `A LinkedIn post can have up to ${LINKEDIN_MAX_IMAGES} images`, false));
+    }
+
+    for (const item of media.slice(0, LINKEDIN_MAX_IMAGES)) {
+        const { url } = item;
+        let image: Awaited<ReturnType<typeof downloadMedia>>;
+
+        try {
+            const stored = await readStoredMedia(item);
+
+            if (!stored) {
+                // Not pre-fetched: download the image
+                log.debug({ url }, 'Downloading media');
+            }
+
+            image = stored ?? (await downloadMedia(url));
+        } catch (error) {
+            const mediaError = error instanceof MediaError
+                ? error
+                : new MediaError('MEDIA_DOWNLOAD_FAILED', `Could not download ${url}: ${(error as Error).message}`, true);
+            mediaUploads.inc({ platform: 'linkedin', result: 'download_failed' });
+            skipOrThrow(url, mediaError);
+            continue;
+        }
+
+        try {
+            // Register the upload to get an upload URL and image URN
+            const init = await linkedInRequest(accessToken, '/images?action=initializeUpload', {
+                method: 'POST',
+                body: JSON.stringify({ initializeUploadRequest: { owner } }),
+            });
+            const { value } = (await init.json()) as {
+                value: { uploadUrl: string; image: string };
+            };
+
+            // Upload the binary
+            log.debug({ url, mimeType: image.type.mimeType, size: image.buffer.length }, 'Uploading media to LinkedIn');
+            const upload = await fetch(value.uploadUrl, {
+                method: 'PUT',
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                    'Content-Type': image.type.mimeType,
+                },
+                body: image.buffer,
+                signal: AbortSignal.timeout(LINKEDIN_UPLOAD_TIMEOUT_MS),
+            });
+
+            if (!upload.ok) {
+                throw new LinkedInApiError(upload.status, `LinkedIn rejected the upload of ${url}`);
+            }
+
+            imageUrns.push(value.image);
+            mediaUploads.inc({ platform: 'linkedin', result: 'uploaded' });
+            log.debug({ url, imageUrn: value.image }, 'Media uploaded successfully');
+        } catch (error) {
+            mediaUploads.inc({ platform: 'linkedin', result: 'upload_failed' });
+            skipOrThrow(url, mapLinkedInError(error));
+        }
+    }
+
+    return { imageUrns, warnings };
+}
+
+/**
+ * Send an authenticated request to the LinkedIn REST API.
+ * Throws a LinkedInApiError for non-2xx responses.
+ */
+async function linkedInRequest(
+    accessToken: string,
+    path: string,
+    init: RequestInit
+): Promise<Response> {
+    const response = await fetch(`${LINKEDIN_API_BASE}${path}`, {
+        ...init,
+        headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'LinkedIn-Version': LINKEDIN_API_VERSION,
+            'X-Restli-Protocol-Version': '2.0.0',
+            ...init.headers,
+        },
+        signal: AbortSignal.timeout(LINKEDIN_REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        let body: LinkedInErrorBody = {};
+        try {
+            body = (await response.json()) as LinkedInErrorBody;
+        } catch {
+            // Non-JSON error body
+        }
+
+        throw new LinkedInApiError(response.status, body.message || response.statusText, body.serviceErrorCode);
+    }
+
+    return response;
+}
+
+/**
+ * Map LinkedIn API errors to our custom LinkedInError
+ */
+export function mapLinkedInError(error: any): LinkedInError {
+    const message: string = error.message || '';
+
+    // Rate limit error
+    if (error.status === 429) {
+        return new LinkedInError(
+            'RATE_LIMITED',
+            'LinkedIn rate limit exceeded. Please try again later.',
+            true // Retryable after backoff
+        );
+    }
+
+    // Authentication errors
+    if (error.status === 401) {
+        return new LinkedInError(
+            'AUTH_INVALID',
+            'LinkedIn authentication is invalid. User needs to reconnect.',
+            false // Not retryable - user action required
+        );
+    }
+
+    if (error.status === 403) {
+        return new LinkedInError(
+            'FORBIDDEN',
+            `Post rejected by LinkedIn: ${message}`,
+            false
+        );
+    }
+
+    // LinkedIn reports duplicate content as 422 Unprocessable Entity
+    if (error.status === 422 && message.toLowerCase().includes('duplicate')) {
+        return new LinkedInError(
+            'DUPLICATE_POST',
+            'This post appears to be a duplicate.',
+            false
+        );
+    }
+
+    if (error.status === 400 || error.status === 422) {
+        return new LinkedInError(
+            'INVALID_REQUEST',
+            `LinkedIn rejected the post: ${message}`,
+            false
+        );
+    }
+
+    // Server errors (5xx) are retryable
+    if (error.status >= 500 && error.status < 600) {
+        return new LinkedInError(
+            'LINKEDIN_SERVER_ERROR',
+            'LinkedIn is experiencing issues. Will retry.',
+            true
+        );
+    }
+
+    // Network/timeout errors (fetch wraps them in `cause`)
+    const networkCode = error.cause?.code || error.code;
+    if (
+        error.name === 'TimeoutError' ||
+        networkCode === 'ECONNREFUSED' ||
+        networkCode === 'ETIMEDOUT' ||
+        networkCode === 'ENOTFOUND' ||
+        networkCode === 'ECONNRESET'
+    ) {
+        return new LinkedInError(
+            'NETWORK_ERROR',
+            'Network error connecting to LinkedIn.',
+            true
+        );
+    }
+
+    // Unknown errors - not retryable by default
+    return new LinkedInError(
+        'UNKNOWN_LINKEDIN_ERROR',
+        message || 'An unknown LinkedIn error occurred.',
+        false
+    );
+}
+
+/**
+ * Escape LinkedIn "little text" reserved characters in post commentary.
+ * Hashtags are converted to the hashtag template so they stay clickable.
+ */
+export function escapeLinkedInCommentary(content: string): string {
+    const escaped = content.replace(/[\\|{}@[\]()<>*_~]/g, (char) => `\\${char}`);
+
+    return escaped.replace(/#(\w+)|#/g, (match, tag?: string) =>
+        tag ? `{hashtag|\\#|${tag}}` : '\\#'
+    );
+}
+
+/**
+ * Validate LinkedIn post content before posting
+ */
+export function validateLinkedInContent(content: string): { valid: boolean; error?: string } {
+    if (content.length > LINKEDIN_MAX_LENGTH) {
+        return { valid: false, error: `Post exceeds ${LINKEDIN_MAX_LENGTH} character limit` };
+    }
+
+    if (content.trim().length === 0) {
+        return { valid: false, error: 'Post content is empty' };
+    }
+
+    return { valid: true };
+}
@@ -1,13 +1,20 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { processTwitterPost } from './processor.js';
+import { processTwitterPost, processLinkedInPost, recordExhaustedJob } from './processor.js';
 import { prisma } from '../lib/db.js';
-import { postTweet } from './twitter.js';
+import { postTweet, TwitterError } from './twitter.js';
+import { MediaError } from '../lib/media.js';
+import { RetryableJobError } from '../lib/retry-policy.js';
+import { encryptToken } from '../lib/crypto.js';
+import { postToLinkedIn } from './linkedin.js';
+import { ensureFreshTwitterToken } from './token-refresh.js';
+import { emitWebhookEvent } from '../lib/webhooks.js';
 
 // Mock dependencies
 vi.mock('../lib/db.js', () => ({
     prisma: {
         scheduledPost: {
             update: vi.fn(),
+            updateMany: vi.fn(),
             findFirst: vi.fn(),
             findUnique: vi.fn(),
         },
@@ -19,6 +26,13 @@ vi.mock('../lib/db.js', () => ({
         },
         rateLimitState: {
             upsert: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        deadLetterJob: {
+            create: vi.fn(),
+        },
+        publishIntent: {
+            findMany: vi.fn().mockResolvedValue([]),
         },
     },
 }));
@@ -31,6 +45,22 @@ vi.mock('./twitter.js', async () => {
     };
 });
 
+vi.mock('../lib/webhooks.js', () => ({
+    emitWebhookEvent: vi.fn(),
+}));
+
+vi.mock('./token-refresh.js', () => ({
+    ensureFreshTwitterToken: vi.fn(),
+}));
+
+vi.mock('./linkedin.js', async () => {
+    const actual = await vi.importActual('./linkedin.js') as any;
+    return {
+        ...actual,
+        postToLinkedIn: vi.fn(),
+    };
+});
+
 describe('processTwitterPost', () => {
     const mockJob: any = {
         id: 'job-1',
@@ -41,16 +71,19 @@ describe('processTwitterPost', () => {
         },
         attemptsMade: 0,
         opts: { attempts: 3 },
+        updateData: vi.fn(),
     };
 
     beforeEach(() => {
         vi.clearAllMocks();
+        (prisma.scheduledPost.findUnique as any).mockResolvedValue({ status: 'PROCESSING' });
     });
 
     it('should successfully process a tweet', async () => {
         // Mock DB responses
         (prisma.socialConnection.findFirst as any).mockResolvedValue({
             accessToken: 'valid-token',
+            refreshToken: 'valid-secret',
             isActive: true,
             expiresAt: new Date(Date.now() + 10000),
         });
@@ -58,6 +91,8 @@ describe('processTwitterPost', () => {
         (postTweet as any).mockResolvedValue({
             tweetId: 'tweet-123',
             tweetUrl: 'https://twitter.com/status/123',
+            tweetIds: ['tweet-123'],
+            warnings: [],
         });
 
         (prisma.scheduledPost.findUnique as any).mockResolvedValue({
@@ -76,6 +111,290 @@ describe('processTwitterPost', () => {
         }));
     });
 
+    it('should save the app-wide posting window from the rate limit headers', async () => {
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            refreshToken: 'valid-secret',
+            isActive: true,
+        });
+        (postTweet as any).mockResolvedValue({
+            tweetId: 'tweet-123',
+            tweetUrl: 'https://twitter.com/i/status/tweet-123',
+            tweetIds: ['tweet-123'],
+            warnings: [],
+            rateLimit: { limit: 100, remaining: 0, reset: 1600000000 }, // This user's 15-minute window
+            appRateLimit: { limit: 17, remaining: 4, reset: 1700000000 },
+        });
+
+        await processTwitterPost(mockJob);
+
+        expect(prisma.rateLimitState.upsert).toHaveBeenCalledWith(expect.objectContaining({
+            where: { platform: 'twitter' },
+            update: expect.objectContaining({
+                postsLimit: 17,
+                postsRemaining: 4,
+                windowResetAt: new Date(1700000000 * 1000),
+                consecutiveFailures: 0,
+            }),
+        }));
+    });
+
+    it('should decrypt stored tokens before posting', async () => {
+        process.env.TOKEN_ENCRYPTION_KEYS = `1:${Buffer.alloc(32, 7).toString('base64')}`;
+
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: encryptToken('valid-token'),
+            refreshToken: encryptToken('valid-secret'),
+            isActive: true,
+        });
+        (postTweet as any).mockResolvedValue({
+            tweetId: 'tweet-123',
+            tweetUrl: 'https://twitter.com/i/status/tweet-123',
+            tweetIds: ['tweet-123'],
+            warnings: [],
+        });
+
+        await processTwitterPost(mockJob);
+
+        expect(postTweet).toHaveBeenCalledWith(expect.objectContaining({
+            accessToken: 'valid-token',
+            accessSecret: 'valid-secret',
+        }));
+    });
+
+    it('should retry without invalidating the connection when the token key is missing', async () => {
+        process.env.TOKEN_ENCRYPTION_KEYS = `1:${Buffer.alloc(32, 7).toString('base64')}`;
+        const accessToken = encryptToken('valid-token');
+
+        // A deploy that dropped key v1
+        process.env.TOKEN_ENCRYPTION_KEYS = `2:${Buffer.alloc(32, 8).toString('base64')}`;
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({ accessToken, refreshToken: 'valid-secret', isActive: true });
+
+        const error = await processTwitterPost(mockJob).catch((err) => err);
+
+        expect(error).toBeInstanceOf(RetryableJobError);
+        expect(error.jobError.code).toBe('TOKEN_KEY_MISSING');
+        expect(postTweet).not.toHaveBeenCalled();
+        expect(emitWebhookEvent).not.toHaveBeenCalledWith('connection.invalid', expect.anything());
+    });
+
+    it('should refresh an OAuth 2.0 token and post without an access secret', async () => {
+        const connection = {
+            id: 'conn-1',
+            authType: 'oauth2',
+            accessToken: 'expired-token',
+            refreshToken: 'refresh-token',
+            isActive: true,
+            expiresAt: new Date(Date.now() - 1000),
+        };
+        (prisma.socialConnection.findFirst as any).mockResolvedValue(connection);
+        (ensureFreshTwitterToken as any).mockResolvedValue({ ...connection, accessToken: 'fresh-token' });
+        (postTweet as any).mockResolvedValue({
+            tweetId: 'tweet-123',
+            tweetUrl: 'https://twitter.com/i/status/tweet-123',
+            tweetIds: ['tweet-123'],
+            warnings: [],
+        });
+
+        const result = await processTwitterPost(mockJob);
+
+        expect(result.success).toBe(true);
+        expect(ensureFreshTwitterToken).toHaveBeenCalledWith(expect.objectContaining({ id: 'conn-1' }));
+        const params = (postTweet as any).mock.calls[0][0];
+        expect(params.accessToken).toBe('fresh-token');
+        expect(params.accessSecret).toBeUndefined();
+    });
+
+    it('should resume a partially posted thread', async () => {
+        (prisma.scheduledPost.update as any).mockResolvedValueOnce({
+            threadTweetIds: ['tweet-1'],
+        });
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            refreshToken: 'valid-secret',
+            isActive: true,
+        });
+        (postTweet as any).mockResolvedValue({
+            tweetId: 'tweet-1',
+            tweetUrl: 'https://twitter.com/i/status/tweet-1',
+            tweetIds: ['tweet-1', 'tweet-2'],
+            warnings: [],
+        });
+
+        const result = await processTwitterPost(mockJob);
+
+        expect(result.postId).toBe('tweet-1');
+        expect(postTweet).toHaveBeenCalledWith(expect.objectContaining({
+            postedTweetIds: ['tweet-1'],
+        }));
+    });
+
+    it('should resume a thread with the text it started with when the post was edited since', async () => {
+        (prisma.scheduledPost.update as any).mockResolvedValueOnce({ threadTweetIds: ['tweet-1'] });
+        (prisma.scheduledPost.findUnique as any).mockResolvedValueOnce({
+            status: 'PROCESSING',
+            content: { content: 'Edited tweet' },
+        });
+        (prisma.publishIntent.findMany as any).mockResolvedValueOnce([{ part: 0, text: 'Test Tweet' }]);
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            refreshToken: 'valid-secret',
+            isActive: true,
+        });
+        (postTweet as any).mockResolvedValue({
+            tweetId: 'tweet-1',
+            tweetUrl: 'https://twitter.com/i/status/tweet-1',
+            tweetIds: ['tweet-1'],
+            warnings: [],
+        });
+
+        await processTwitterPost(mockJob);
+
+        expect(postTweet).toHaveBeenCalledWith(expect.objectContaining({ content: 'Test Tweet', postedTweetIds: ['tweet-1'] }));
+    });
+
+    it('should refuse to finish a thread whose published parts match neither text', async () => {
+        (prisma.scheduledPost.update as any).mockResolvedValueOnce({ threadTweetIds: ['tweet-1'] });
+        (prisma.scheduledPost.findUnique as any).mockResolvedValueOnce({
+            status: 'PROCESSING',
+            content: { content: 'Edited tweet' },
+        });
+        (prisma.publishIntent.findMany as any).mockResolvedValueOnce([{ part: 0, text: 'Text edited before the first attempt' }]);
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            refreshToken: 'valid-secret',
+            isActive: true,
+        });
+
+        const result = await processTwitterPost(mockJob);
+
+        expect(result.error).toMatchObject({ code: 'THREAD_CONTENT_CHANGED', retryable: false });
+        expect(postTweet).not.toHaveBeenCalled();
+    });
+
+    it('should pass the media policy on and return media warnings', async () => {
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            refreshToken: 'valid-secret',
+            isActive: true,
+        });
+        (postTweet as any).mockResolvedValue({
+            tweetId: 'tweet-123',
+            tweetUrl: 'https://twitter.com/i/status/tweet-123',
+            tweetIds: ['tweet-123'],
+            warnings: ['https://cdn.test/a.png was not attached: HTTP 404'],
+        });
+
+        const result = await processTwitterPost({
+            ...mockJob,
+            data: { ...mockJob.data, mediaUrls: [{ url: 'https://cdn.test/a.png', altText: 'Chart' }], mediaPolicy: 'optional' },
+        });
+
+        expect(postTweet).toHaveBeenCalledWith(expect.objectContaining({
+            mediaUrls: [{ url: 'https://cdn.test/a.png', altText: 'Chart' }],
+            mediaPolicy: 'optional',
+        }));
+        expect(result).toMatchObject({ success: true, warnings: ['https://cdn.test/a.png was not attached: HTTP 404'] });
+    });
+
+    it('should fail the post without retrying when its media is invalid', async () => {
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            refreshToken: 'valid-secret',
+            isActive: true,
+        });
+        (postTweet as any).mockRejectedValue(new MediaError('MEDIA_UNSUPPORTED_TYPE', 'Not a JPEG, PNG, WEBP, GIF, MP4 or MOV file', false));
+
+        const result = await processTwitterPost(mockJob);
+
+        expect(result.error).toMatchObject({ code: 'MEDIA_UNSUPPORTED_TYPE', retryable: false });
+        expect(prisma.scheduledPost.update).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({ status: 'FAILED', errorCode: 'MEDIA_UNSUPPORTED_TYPE' }),
+        }));
+    });
+
+    it('should ask BullMQ to retry a rate limited post until the window resets', async () => {
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            refreshToken: 'valid-secret',
+            isActive: true,
+        });
+        (postTweet as any).mockRejectedValue(new TwitterError(
+            'RATE_LIMITED',
+            'Twitter rate limit exceeded. Please try again later.',
+            true,
+            { limit: 17, remaining: 0, reset: 1767270000 }
+        ));
+
+        const error = await processTwitterPost(mockJob).catch((err) => err);
+
+        expect(error).toBeInstanceOf(RetryableJobError);
+        expect(error.jobError.retryAt).toBe(new Date(1767270000 * 1000).toISOString());
+        expect(prisma.rateLimitState.upsert).not.toHaveBeenCalled(); // A per-user window, not the platform's
+        expect(mockJob.updateData).toHaveBeenCalledWith(expect.objectContaining({
+            attemptHistory: [expect.objectContaining({ attempt: 1, code: 'RATE_LIMITED' })],
+        }));
+        expect(prisma.deadLetterJob.create).not.toHaveBeenCalled();
+        expect(prisma.scheduledPost.update).toHaveBeenCalledWith(expect.objectContaining({
+            where: { id: 'post-1' },
+            data: expect.objectContaining({
+                status: 'QUEUED',
+                errorCode: 'RATE_LIMITED',
+                maxRetries: 5,
+                lastAttemptAt: expect.any(Date),
+            }),
+        }));
+    });
+
+    it('should fail the post once the retry budget for the error code is spent', async () => {
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            refreshToken: 'valid-secret',
+            isActive: true,
+        });
+        (postTweet as any).mockRejectedValue(new TwitterError(
+            'NETWORK_ERROR',
+            'Network error connecting to Twitter.',
+            true
+        ));
+
+        const earlierAttempts = [1, 2, 3].map((attempt) => ({
+            attempt,
+            at: '2026-10-19T10:00:00.000Z',
+            code: 'NETWORK_ERROR',
+            message: 'Network error connecting to Twitter.',
+        }));
+
+        // NETWORK_ERROR allows 4 attempts; this is the 4th
+        const result = await processTwitterPost({
+            ...mockJob,
+            name: 'post-tweet',
+            queueName: 'twitter-post',
+            data: { ...mockJob.data, platform: 'twitter', attemptHistory: earlierAttempts },
+            attemptsMade: 3,
+            opts: { attempts: 5 },
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.code).toBe('NETWORK_ERROR');
+        expect(prisma.scheduledPost.update).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({ status: 'FAILED', maxRetries: 4 }),
+        }));
+
+        // The dead-letter entry keeps the payload (without the history) and every attempt
+        const entry = (prisma.deadLetterJob.create as any).mock.calls[0][0].data;
+        expect(entry).toMatchObject({
+            queueName: 'twitter-post',
+            jobId: 'job-1',
+            scheduledPostId: 'post-1',
+            userId: 'user-1',
+            errorCode: 'NETWORK_ERROR',
+            attemptsMade: 4,
+        });
+        expect(entry.payload).not.toHaveProperty('attemptHistory');
+        expect(entry.attemptHistory.map((item: { attempt: number }) => item.attempt)).toEqual([1, 2, 3, 4]);
+    });
+
     it('should fail if no social connection is found', async () => {
         (prisma.socialConnection.findFirst as any).mockResolvedValue(null);
 
@@ -88,5 +407,168 @@ describe('processTwitterPost', () => {
             where: { id: 'post-1' },
             data: expect.objectContaining({ status: 'FAILED' }),
         }));
+        expect(emitWebhookEvent).toHaveBeenCalledWith('connection.invalid', {
+            scheduledPostId: 'post-1',
+            result,
+            extra: { connection: expect.objectContaining({ userId: 'user-1' }) },
+        });
+    });
+    it('should skip a post cancelled after it was queued', async () => {
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            refreshToken: 'valid-secret',
+            isActive: true,
+        });
+        (prisma.scheduledPost.findUnique as any).mockResolvedValue({ status: 'CANCELLED' });
+
+        const result = await processTwitterPost(mockJob);
+
+        expect(result.success).toBe(false);
+        expect(result.error?.code).toBe('POST_CANCELLED');
+        expect(postTweet).not.toHaveBeenCalled();
+        expect(prisma.scheduledPost.update).not.toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({ status: 'FAILED' }),
+        }));
+        expect(prisma.deadLetterJob.create).not.toHaveBeenCalled();
+    });
+
+    it('should not pick up a post that is already cancelled', async () => {
+        (prisma.scheduledPost.update as any).mockRejectedValueOnce(Object.assign(new Error('Record not found'), { code: 'P2025' }));
+
+        const result = await processTwitterPost(mockJob);
+
+        expect(result.error?.code).toBe('POST_CANCELLED');
+        expect(prisma.socialConnection.findFirst).not.toHaveBeenCalled();
+        expect(prisma.scheduledPost.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should publish the latest edited content', async () => {
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            refreshToken: 'valid-secret',
+            isActive: true,
+        });
+        (prisma.scheduledPost.findUnique as any).mockResolvedValue({
+            status: 'PROCESSING',
+            content: { content: 'Edited tweet' },
+        });
+        (postTweet as any).mockResolvedValue({
+            tweetId: 'tweet-123',
+            tweetUrl: 'https://twitter.com/i/status/tweet-123',
+            tweetIds: ['tweet-123'],
+            warnings: [],
+        });
+
+        await processTwitterPost(mockJob);
+
+        expect(postTweet).toHaveBeenCalledWith(expect.objectContaining({ content: 'Edited tweet' }));
+    });
+});
+
+describe('processLinkedInPost', () => {
+    const mockJob: any = {
+        id: 'job-2',
+        data: {
+            scheduledPostId: 'post-2',
+            userId: 'user-1',
+            platform: 'linkedin',
+            content: 'Test LinkedIn post',
+        },
+        attemptsMade: 0,
+        opts: { attempts: 3 },
+        updateData: vi.fn(),
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (prisma.scheduledPost.findUnique as any).mockResolvedValue({ status: 'PROCESSING' });
+    });
+
+    it('should successfully publish a LinkedIn post', async () => {
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            platformUserId: 'member-1',
+            isActive: true,
+            expiresAt: new Date(Date.now() + 10000),
+        });
+
+        (postToLinkedIn as any).mockResolvedValue({
+            postId: 'urn:li:share:1',
+            postUrl: 'https://www.linkedin.com/feed/update/urn:li:share:1',
+            warnings: [],
+        });
+
+        (prisma.scheduledPost.findUnique as any).mockResolvedValue({
+            contentId: 'content-2',
+        });
+
+        const result = await processLinkedInPost(mockJob);
+
+        expect(result.success).toBe(true);
+        expect(result.postId).toBe('urn:li:share:1');
+        expect(postToLinkedIn).toHaveBeenCalledWith(expect.objectContaining({
+            accessToken: 'valid-token',
+            authorId: 'member-1',
+        }));
+        expect(prisma.socialConnection.findFirst).toHaveBeenCalledWith({
+            where: { userId: 'user-1', platform: 'linkedin', isActive: true },
+        });
+    });
+
+    it('should fail if the LinkedIn member ID is missing', async () => {
+        (prisma.socialConnection.findFirst as any).mockResolvedValue({
+            accessToken: 'valid-token',
+            platformUserId: null,
+            isActive: true,
+        });
+
+        const result = await processLinkedInPost(mockJob);
+
+        expect(result.success).toBe(false);
+        expect(result.error?.code).toBe('MISSING_MEMBER_ID');
+        expect(prisma.scheduledPost.update).toHaveBeenCalledWith(expect.objectContaining({
+            where: { id: 'post-2' },
+            data: expect.objectContaining({ status: 'FAILED' }),
+        }));
+    });
+});
+
+describe('recordExhaustedJob', () => {
+    const job: any = {
+        id: 'job-3',
+        name: 'post-tweet',
+        queueName: 'twitter-post',
+        data: { scheduledPostId: 'post-3', userId: 'user-1', platform: 'twitter', content: 'Hello' },
+        attemptsMade: 5,
+        opts: { attempts: 5 },
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should fail the post and dead-letter a job that threw on its last attempt', async () => {
+        const result = await recordExhaustedJob(job, new Error('Can\'t reach database server'));
+
+        expect(result).toEqual({ success: false, error: { code: 'UNKNOWN_ERROR', message: 'Can\'t reach database server', retryable: false } });
+        expect(prisma.scheduledPost.updateMany).toHaveBeenCalledWith({
+            where: { id: 'post-3', status: { in: ['QUEUED', 'PROCESSING'] } },
+            data: expect.objectContaining({ status: 'FAILED', errorCode: 'UNKNOWN_ERROR' }),
+        });
+        expect((prisma.deadLetterJob.create as any).mock.calls[0][0].data).toMatchObject({
+            queueName: 'twitter-post',
+            jobId: 'job-3',
+            scheduledPostId: 'post-3',
+            errorCode: 'UNKNOWN_ERROR',
+        });
+    });
+
+    it('should keep the code of a retryable error', async () => {
+        const error = new RetryableJobError({ code: 'NETWORK_ERROR', message: 'Network error connecting to Twitter.', retryable: true });
+
+        const result = await recordExhaustedJob(job, error);
+
+        expect(result.error).toEqual({ code: 'NETWORK_ERROR', message: 'Network error connecting to Twitter.', retryable: false });
+        expect((prisma.deadLetterJob.create as any).mock.calls[0][0].data.errorCode).toBe('NETWORK_ERROR');
     });
 });
@@ -1,8 +1,22 @@
 import type { Job } from '../lib/queue.js';
-import type { TwitterPostJobData, JobResult } from '../lib/types.js';
+import type { TwitterPostJobData, LinkedInPostJobData, PostJobData, JobResult, JobError, JobAttempt } from '../lib/types.js';
 import { prisma } from '../lib/db.js';
-import { logger, createChildLogger } from '../lib/logger.js';
-import { postTweet, TwitterError } from './twitter.js';
+import { createChildLogger } from '../lib/logger.js';
+import type { Logger } from '../lib/logger.js';
+import { recordRateLimit } from '../lib/rate-limit.js';
+import { getActiveConnection, CONNECTION_ERROR_CODES } from '../lib/connections.js';
+import type { SocialConnectionRecord } from '../lib/connections.js';
+import { TokenEncryptionError } from '../lib/crypto.js';
+import { getRetryPolicy, shouldRetry, RetryableJobError } from '../lib/retry-policy.js';
+import { recordJobOutcome, publishLag, secondsLate } from '../lib/metrics.js';
+import { deadLetterJob } from '../lib/dead-letter.js';
+import { emitWebhookEvent } from '../lib/webhooks.js';
+import { nextCollectionTime } from '../lib/engagement.js';
+import { postTweet, validateTweetContent, TwitterError } from './twitter.js';
+import { ensureFreshTwitterToken } from './token-refresh.js';
+import { createPublishIntentHooks, findPublishedText } from './publish-intent.js';
+import { postToLinkedIn, validateLinkedInContent, LinkedInError } from './linkedin.js';
+import { MediaError } from '../lib/media.js';
 
 /**
  * Process a Twitter post job
@@ -11,31 +25,21 @@ import { postTweet, TwitterError } from './twitter.js';
 export async function processTwitterPost(
     job: Job<TwitterPostJobData>
 ): Promise<JobResult> {
-    const { scheduledPostId, userId, content, mediaUrls } = job.data;
+    const { scheduledPostId, userId, content, mediaUrls, mediaPolicy } = job.data;
     const log = createChildLogger({ jobId: job.id, postId: scheduledPostId });
 
     log.info('Processing Twitter post job');
+    const startedAt = Date.now();
 
     try {
-        // 1. Mark job as processing
-        await prisma.scheduledPost.update({
-            where: { id: scheduledPostId },
-            data: {
-                status: 'PROCESSING',
-                startedAt: new Date(),
-                attempts: { increment: 1 },
-                lastAttemptAt: new Date(),
-            },
-        });
+        // 1. Mark job as processing (unless the post was cancelled while queued)
+        const scheduledPost = await markProcessing(scheduledPostId);
+        if (scheduledPost === null) {
+            return skipCancelled(log);
+        }
 
-        // 2. Get user's Twitter credentials
-        const socialConnection = await prisma.socialConnection.findFirst({
-            where: {
-                userId,
-                platform: 'twitter',
-                isActive: true,
-            },
-        });
+        // 2. Get user's Twitter credentials (decrypted)
+        const socialConnection = await getActiveConnection(userId, 'twitter');
 
         if (!socialConnection) {
             throw new TwitterError(
@@ -45,113 +49,442 @@ export async function processTwitterPost(
             );
         }
 
-        // 3. Check for required OAuth 1.0a credentials
-        if (!socialConnection.refreshToken) {
+        // 3-4. Resolve usable credentials (OAuth 2.0 tokens are refreshed when near expiry)
+        const credentials = await getTwitterCredentials(socialConnection);
+
+        // 5. Re-check the post right before publishing: skip if cancelled, use edited content
+        const latestContent = await getPublishableContent(scheduledPostId, content);
+        if (latestContent === null) {
+            return skipCancelled(log);
+        }
+
+        // A thread under way keeps the text it was split from; an edit now would mix two texts
+        const postedTweetIds = scheduledPost?.threadTweetIds ?? [];
+        const threadContent = postedTweetIds.length > 0
+            ? await findPublishedText(scheduledPostId, postedTweetIds.length, [latestContent, content])
+            : latestContent;
+
+        if (threadContent === null) {
             throw new TwitterError(
-                'MISSING_ACCESS_SECRET',
-                'OAuth 1.0a Access Token Secret is missing. User needs to reconnect Twitter.',
+                'THREAD_CONTENT_CHANGED',
+                `The post was edited after ${postedTweetIds.length} tweet(s) of its thread were published; the rest was not posted`,
+                false
+            );
+        }
+
+        // 6. Reject content Twitter would refuse (weighted length, empty, too many thread parts)
+        const validation = validateTweetContent(threadContent, { allowThread: true });
+        if (!validation.valid) {
+            throw new TwitterError('INVALID_CONTENT', validation.error!, false);
+        }
+
+        // 7. Post tweet (or thread), resuming any parts a previous attempt posted.
+        //    Publish intents stop a part whose result was never saved from going out twice.
+        log.debug('Posting tweet to Twitter API');
+        const result = await postTweet({
+            ...credentials,
+            content: threadContent,
+            mediaUrls,
+            mediaPolicy,
+            postedTweetIds,
+            intents: createPublishIntentHooks(scheduledPostId),
+            platformUserId: socialConnection.platformUserId,
+            onTweetPosted: async (tweetIds) => {
+                await prisma.scheduledPost.update({
+                    where: { id: scheduledPostId },
+                    data: { threadTweetIds: tweetIds },
+                });
+            },
+        });
+
+        // 8. Update database with success
+        await recordPublished(scheduledPostId, result.tweetId, result.tweetUrl);
+
+        // 9. Update rate limit tracking from the response headers
+        await recordRateLimit('twitter', result.appRateLimit, { posted: true });
+
+        log.info(
+            { tweetId: result.tweetId, tweetUrl: result.tweetUrl, threadParts: result.tweetIds.length, warnings: result.warnings },
+            'Tweet posted successfully'
+        );
+        recordJobOutcome('twitter', 'posted', startedAt);
+
+        return {
+            success: true,
+            postId: result.tweetId,
+            postUrl: result.tweetUrl,
+            ...(result.warnings.length > 0 && { warnings: result.warnings }),
+        };
+    } catch (error) {
+        return handleJobFailure(job, error, log, startedAt);
+    }
+}
+
+/**
+ * Access token (plus secret for OAuth 1.0a) to post with for a Twitter connection
+ */
+async function getTwitterCredentials(
+    connection: SocialConnectionRecord
+): Promise<{ accessToken: string; accessSecret?: string }> {
+    if (connection.authType === 'oauth2') {
+        const fresh = await ensureFreshTwitterToken(connection);
+        return { accessToken: fresh.accessToken };
+    }
+
+    // OAuth 1.0a: the access token secret is stored in refreshToken
+    if (!connection.refreshToken) {
+        throw new TwitterError(
+            'MISSING_ACCESS_SECRET',
+            'OAuth 1.0a Access Token Secret is missing. User needs to reconnect Twitter.',
+            false
+        );
+    }
+
+    if (connection.expiresAt && connection.expiresAt < new Date()) {
+        throw new TwitterError(
+            'TOKEN_EXPIRED',
+            'Twitter access token has expired. User needs to reconnect.',
+            false // Not retryable - user action required
+        );
+    }
+
+    return { accessToken: connection.accessToken, accessSecret: connection.refreshToken };
+}
+
+/**
+ * Process a LinkedIn post job
+ * Mirrors processTwitterPost for the LinkedIn Posts API
+ */
+export async function processLinkedInPost(
+    job: Job<LinkedInPostJobData>
+): Promise<JobResult> {
+    const { scheduledPostId, userId, content, mediaUrls, mediaPolicy } = job.data;
+    const log = createChildLogger({ jobId: job.id, postId: scheduledPostId });
+
+    log.info('Processing LinkedIn post job');
+    const startedAt = Date.now();
+
+    try {
+        // 1. Mark job as processing (unless the post was cancelled while queued)
+        if (await markProcessing(scheduledPostId) === null) {
+            return skipCancelled(log);
+        }
+
+        // 2. Get user's LinkedIn credentials (decrypted)
+        const socialConnection = await getActiveConnection(userId, 'linkedin');
+
+        if (!socialConnection) {
+            throw new LinkedInError(
+                'NO_CONNECTION',
+                'No active LinkedIn connection found. User needs to reconnect LinkedIn.',
+                false // Not retryable - user action required
+            );
+        }
+
+        // 3. The member ID is needed to build the post author URN
+        if (!socialConnection.platformUserId) {
+            throw new LinkedInError(
+                'MISSING_MEMBER_ID',
+                'LinkedIn member ID is missing. User needs to reconnect LinkedIn.',
                 false
             );
         }
 
         // 4. Check if token is expired
         if (socialConnection.expiresAt && socialConnection.expiresAt < new Date()) {
-            throw new TwitterError(
+            throw new LinkedInError(
                 'TOKEN_EXPIRED',
-                'Twitter access token has expired. User needs to reconnect.',
+                'LinkedIn access token has expired. User needs to reconnect.',
                 false // Not retryable - user action required
             );
         }
 
-        // 5. Post tweet
-        log.debug('Posting tweet to Twitter API');
-        const result = await postTweet({
+        // 5. Re-check the post right before publishing: skip if cancelled, use edited content
+        const latestContent = await getPublishableContent(scheduledPostId, content);
+        if (latestContent === null) {
+            return skipCancelled(log);
+        }
+
+        // 6. Reject content LinkedIn would refuse
+        const validation = validateLinkedInContent(latestContent);
+        if (!validation.valid) {
+            throw new LinkedInError('INVALID_CONTENT', validation.error!, false);
+        }
+
+        // 7. Publish post
+        log.debug('Posting to LinkedIn API');
+        const result = await postToLinkedIn({
             accessToken: socialConnection.accessToken,
-            accessSecret: socialConnection.refreshToken,
-            content,
+            authorId: socialConnection.platformUserId,
+            content: latestContent,
             mediaUrls,
+            mediaPolicy,
         });
 
-        // 5. Update database with success
-        await prisma.scheduledPost.update({
-            where: { id: scheduledPostId },
+        // 8. Update database with success
+        await recordPublished(scheduledPostId, result.postId, result.postUrl);
+
+        log.info({ linkedInPostId: result.postId, postUrl: result.postUrl, warnings: result.warnings }, 'LinkedIn post published successfully');
+        recordJobOutcome('linkedin', 'posted', startedAt);
+
+        return {
+            success: true,
+            postId: result.postId,
+            postUrl: result.postUrl,
+            ...(result.warnings.length > 0 && { warnings: result.warnings }),
+        };
+    } catch (error) {
+        return handleJobFailure(job, error, log, startedAt);
+    }
+}
+
+/**
+ * Mark a scheduled post as picked up by the worker and return the updated row.
+ * Returns null if the post was cancelled or deleted while queued.
+ */
+async function markProcessing(scheduledPostId: string): Promise<{ threadTweetIds: string[] } | null | undefined> {
+    try {
+        return await prisma.scheduledPost.update({
+            where: { id: scheduledPostId, status: { not: 'CANCELLED' } },
             data: {
-                status: 'POSTED',
-                platformPostId: result.tweetId,
-                platformUrl: result.tweetUrl,
-                completedAt: new Date(),
-                errorMessage: null,
-                errorCode: null,
+                status: 'PROCESSING',
+                startedAt: new Date(),
+                attempts: { increment: 1 },
+                lastAttemptAt: new Date(),
             },
         });
+    } catch (error: any) {
+        // P2025: no row matched (deleted or CANCELLED)
+        if (error?.code === 'P2025') {
+            return null;
+        }
+        throw error;
+    }
+}
 
-        // 6. Update GeneratedContent status
-        const post = await prisma.scheduledPost.findUnique({
-            where: { id: scheduledPostId },
-            select: { contentId: true },
-        });
+/**
+ * Latest content of a post, or null if it was cancelled or deleted.
+ * Falls back to the job's copy when the content row is not loaded.
+ */
+async function getPublishableContent(scheduledPostId: string, jobContent: string): Promise<string | null> {
+    const post = await prisma.scheduledPost.findUnique({
+        where: { id: scheduledPostId },
+        select: { status: true, content: { select: { content: true } } },
+    });
 
-        if (post?.contentId) {
-            await prisma.generatedContent.update({
-                where: { id: post.contentId },
-                data: {
-                    status: 'posted',
-                    postedAt: new Date(),
-                    platformPostId: result.tweetId,
-                    platformUrl: result.tweetUrl,
-                },
-            });
-        }
+    if (!post || post.status === 'CANCELLED') {
+        return null;
+    }
 
-        // 7. Update rate limit tracking
-        await updateRateLimitState();
+    return post.content?.content ?? jobContent;
+}
 
-        log.info({ tweetId: result.tweetId, tweetUrl: result.tweetUrl }, 'Tweet posted successfully');
+/**
+ * Finish a job for a cancelled post without touching its status
+ */
+function skipCancelled(log: Logger): JobResult {
+    log.info('Post was cancelled or deleted, skipping');
 
-        return {
-            success: true,
-            postId: result.tweetId,
-            postUrl: result.tweetUrl,
-        };
-    } catch (error) {
-        log.error({ error }, 'Failed to process job');
+    return {
+        success: false,
+        error: {
+            code: 'POST_CANCELLED',
+            message: 'Post was cancelled or deleted before publishing.',
+            retryable: false,
+        },
+    };
+}
 
-        const errorInfo = categorizeError(error);
+/**
+ * Record a successful publish on the ScheduledPost and its GeneratedContent
+ */
+async function recordPublished(
+    scheduledPostId: string,
+    platformPostId: string,
+    platformUrl: string
+): Promise<void> {
+    await prisma.scheduledPost.update({
+        where: { id: scheduledPostId },
+        data: {
+            status: 'POSTED',
+            platformPostId,
+            platformUrl,
+            completedAt: new Date(),
+            metricsNextAt: nextCollectionTime(new Date(), new Date()), // First engagement poll
+            errorMessage: null,
+            errorCode: null,
+        },
+    });
+
+    const post = await prisma.scheduledPost.findUnique({
+        where: { id: scheduledPostId },
+        select: { contentId: true, platform: true, scheduledFor: true },
+    });
 
-        // Update database with error info
-        await prisma.scheduledPost.update({
-            where: { id: scheduledPostId },
+    if (post?.scheduledFor) {
+        publishLag.observe({ platform: post.platform }, secondsLate(post.scheduledFor));
+    }
+
+    if (post?.contentId) {
+        await prisma.generatedContent.update({
+            where: { id: post.contentId },
             data: {
-                status: errorInfo.retryable && job.attemptsMade < (job.opts.attempts || 3)
-                    ? 'QUEUED' // Will be retried
-                    : 'FAILED',
-                errorMessage: errorInfo.message,
-                errorCode: errorInfo.code,
+                status: 'posted',
+                postedAt: new Date(),
+                platformPostId,
+                platformUrl,
             },
         });
+    }
+}
 
-        // If retryable, throw to trigger BullMQ's retry mechanism
-        if (errorInfo.retryable) {
-            throw error;
-        }
+/**
+ * Record a failed attempt and decide whether BullMQ should retry it
+ */
+async function handleJobFailure(
+    job: Job<PostJobData>,
+    error: unknown,
+    log: Logger,
+    startedAt: number
+): Promise<JobResult> {
+    log.error({ error }, 'Failed to process job');
 
-        // Non-retryable errors - return failure result (job won't retry)
-        return {
-            success: false,
-            error: errorInfo,
-        };
+    const errorInfo = categorizeError(error);
+
+    // A 429 on the app-wide window holds back every user's posts; save it for the scheduler
+    if (error instanceof TwitterError && error.appRateLimit) {
+        await recordRateLimit(job.data.platform, error.appRateLimit);
+    }
+
+    // attemptsMade counts earlier failed attempts, so this attempt is one more
+    const attempt = job.attemptsMade + 1;
+    const willRetry = shouldRetry(errorInfo, attempt, job.opts.attempts);
+
+    // Update database with error info
+    await prisma.scheduledPost.update({
+        where: { id: job.data.scheduledPostId },
+        data: {
+            status: willRetry ? 'QUEUED' : 'FAILED',
+            errorMessage: errorInfo.message,
+            errorCode: errorInfo.code,
+            maxRetries: getRetryPolicy(errorInfo.code).maxAttempts,
+            lastAttemptAt: new Date(),
+        },
+    });
+
+    recordJobOutcome(job.data.platform, willRetry ? 'retried' : 'failed', startedAt, errorInfo.code);
+
+    const attemptHistory: JobAttempt[] = [
+        ...(job.data.attemptHistory ?? []),
+        { attempt, at: new Date().toISOString(), code: errorInfo.code, message: errorInfo.message },
+    ];
+
+    // If retryable, throw to trigger BullMQ's retry mechanism (delay from retryBackoffStrategy)
+    if (willRetry) {
+        // Carry the history to the next attempt so the dead-letter entry has all of it
+        await job.updateData({ ...job.data, attemptHistory });
+
+        log.warn({ attempt, code: errorInfo.code, retryAt: errorInfo.retryAt }, 'Job will be retried');
+        throw new RetryableJobError(errorInfo);
     }
+
+    // Non-retryable errors or exhausted retry budget - keep the job in the dead-letter queue
+    try {
+        await deadLetterJob(job, errorInfo, attemptHistory);
+    } catch (dlqError) {
+        log.error({ error: dlqError }, 'Failed to write dead-letter entry');
+    }
+
+    const result: JobResult = {
+        success: false,
+        error: errorInfo,
+    };
+
+    // Tell the app the account needs reconnecting (post.failed follows from the worker's completed handler)
+    if (CONNECTION_ERROR_CODES.has(errorInfo.code)) {
+        await emitWebhookEvent('connection.invalid', {
+            scheduledPostId: job.data.scheduledPostId,
+            result,
+            extra: { connection: { userId: job.data.userId, platform: job.data.platform } },
+        });
+    }
+
+    // Return failure result (job won't retry)
+    return result;
+}
+
+/**
+ * Record a job BullMQ failed for good without a result from handleJobFailure,
+ * e.g. the database was down on the last attempt: fail the post and
+ * dead-letter the job, so it can be listed and replayed like any other.
+ */
+export async function recordExhaustedJob(job: Job<PostJobData>, error: Error): Promise<JobResult> {
+    const log = createChildLogger({ jobId: job.id, postId: job.data.scheduledPostId });
+    const { code, message } = error instanceof RetryableJobError ? error.jobError : categorizeError(error);
+    const errorInfo: JobError = { code, message, retryable: false };
+
+    const attemptHistory: JobAttempt[] = [
+        ...(job.data.attemptHistory ?? []),
+        { attempt: job.attemptsMade, at: new Date().toISOString(), code, message },
+    ];
+
+    recordJobOutcome(job.data.platform, 'failed', job.processedOn ?? Date.now(), code);
+
+    try {
+        // Posts published or cancelled in the meantime stay as they are
+        await prisma.scheduledPost.updateMany({
+            where: { id: job.data.scheduledPostId, status: { in: ['QUEUED', 'PROCESSING'] } },
+            data: {
+                status: 'FAILED',
+                errorMessage: message,
+                errorCode: code,
+                lastAttemptAt: new Date(),
+            },
+        });
+
+        await deadLetterJob(job, errorInfo, attemptHistory);
+    } catch (dbError) {
+        log.error({ error: dbError }, 'Failed to record the failed job');
+    }
+
+    return { success: false, error: errorInfo };
 }
 
 /**
  * Categorize error for proper handling and logging
  */
-function categorizeError(error: unknown): {
-    code: string;
-    message: string;
-    retryable: boolean;
-} {
+function categorizeError(error: unknown): JobError {
     if (error instanceof TwitterError) {
+        return {
+            code: error.code,
+            message: error.message,
+            retryable: error.retryable,
+            // Rate limited: the window reset tells us when a retry can succeed
+            ...(error.rateLimit && {
+                retryAt: new Date(error.rateLimit.reset * 1000).toISOString(),
+            }),
+        };
+    }
+
+    // Stored tokens can't be read. A missing or malformed key is our configuration
+    // (retry, and replay once it's fixed); only a corrupt token needs a reconnect.
+    if (error instanceof TokenEncryptionError) {
+        if (error.code === 'DECRYPT_FAILED') {
+            return {
+                code: 'TOKEN_DECRYPT_FAILED',
+                message: error.message,
+                retryable: false,
+            };
+        }
+
+        return {
+            code: `TOKEN_${error.code}`, // TOKEN_KEY_MISSING, TOKEN_KEY_INVALID
+            message: error.message,
+            retryable: true,
+        };
+    }
+
+    if (error instanceof LinkedInError || error instanceof MediaError) {
         return {
             code: error.code,
             message: error.message,
@@ -180,27 +513,3 @@ function categorizeError(error: unknown): {
         retryable: false,
     };
 }
-
-/**
- * Update rate limit state after successful post
- */
-async function updateRateLimitState(): Promise<void> {
-    try {
-        await prisma.rateLimitState.upsert({
-            where: { platform: 'twitter' },
-            create: {
-                platform: 'twitter',
-                postsRemaining: 49, // Started with 50, used 1
-                lastPostAt: new Date(),
-            },
-            update: {
-                postsRemaining: { decrement: 1 },
-                lastPostAt: new Date(),
-                consecutiveFailures: 0, // Reset on success
-            },
-        });
-    } catch (error) {
-        // Don't fail the job if rate limit tracking fails
-        logger.warn({ error }, 'Failed to update rate limit state');
-    }
-}
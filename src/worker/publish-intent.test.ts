@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { beginIntent, abandonIntent } from './publish-intent.js';
+
+// PublishIntent rows by "<scheduledPostId>:<part>"
+const rows = vi.hoisted(() => new Map<string, Record<string, any>>());
+
+vi.mock('../lib/db.js', () => {
+    const keyOf = (where: any) => `${where.scheduledPostId_part.scheduledPostId}:${where.scheduledPostId_part.part}`;
+
+    return {
+        prisma: {
+            publishIntent: {
+                findUnique: vi.fn(async ({ where }: any) => rows.get(keyOf(where)) ?? null),
+                upsert: vi.fn(async ({ where, create, update }: any) => {
+                    const existing = rows.get(keyOf(where));
+                    const row = existing
+                        ? { ...existing, ...update }
+                        : { status: 'PENDING', platformPostId: null, startedAt: new Date(), ...create };
+                    rows.set(keyOf(where), row);
+                    return row;
+                }),
+                deleteMany: vi.fn(async ({ where }: any) => {
+                    const key = `${where.scheduledPostId}:${where.part}`;
+                    if (rows.get(key)?.status === where.status) {
+                        rows.delete(key);
+                    }
+                }),
+            },
+        },
+    };
+});
+
+// findPostedTweet searches the timeline from this long before startedAt
+const CLOCK_SKEW_MS = 60 * 1000;
+
+describe('beginIntent', () => {
+    beforeEach(() => {
+        rows.clear();
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should keep the first attempt\'s start so later timeline checks still cover its tweet', async () => {
+        // Attempt 1 sends the tweet, but the result is never saved
+        vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+        expect(await beginIntent('post-1', 0, 'Hello')).toBeNull();
+        const tweetCreatedAt = new Date('2026-10-19T12:00:05Z');
+
+        // Attempt 2 starts after that tweet; its timeline check fails (PUBLISH_UNCONFIRMED)
+        vi.setSystemTime(new Date('2026-10-19T12:10:00Z'));
+        const second = await beginIntent('post-1', 0, 'Hello');
+
+        // Attempt 3 must still search from before the tweet
+        vi.setSystemTime(new Date('2026-10-19T12:30:00Z'));
+        const third = await beginIntent('post-1', 0, 'Hello (edited)');
+
+        for (const earlier of [second, third]) {
+            expect(earlier).toEqual({ text: 'Hello', startedAt: new Date('2026-10-19T12:00:00Z') });
+            expect(earlier!.startedAt.getTime() - CLOCK_SKEW_MS).toBeLessThanOrEqual(tweetCreatedAt.getTime());
+        }
+    });
+
+    it('should start afresh once the intent was abandoned', async () => {
+        vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+        await beginIntent('post-1', 0, 'Hello');
+        await abandonIntent('post-1', 0);
+
+        vi.setSystemTime(new Date('2026-10-19T12:10:00Z'));
+        expect(await beginIntent('post-1', 0, 'Hello again')).toBeNull();
+        expect(rows.get('post-1:0')).toMatchObject({ text: 'Hello again', startedAt: new Date('2026-10-19T12:10:00Z') });
+    });
+});
@@ -0,0 +1,96 @@
+import { prisma } from '../lib/db.js';
+import type { PublishIntentHooks, EarlierIntent } from './twitter.js';
+import { splitIntoThread } from './thread.js';
+
+/**
+ * Publish intents: a row per tweet (thread part) written before the API call.
+ *
+ * A PENDING intent means an earlier attempt may already have created the
+ * tweet (the call went out but the result was never saved, or the worker
+ * crashed). The next attempt checks the user's timeline before posting
+ * again. CONFIRMED intents hold the tweet ID so a retry just reuses it.
+ */
+
+interface PublishIntentRow {
+    text: string;
+    status: string;
+    platformPostId: string | null;
+    startedAt: Date;
+}
+
+/**
+ * Intent hooks for postTweet, bound to one scheduled post
+ */
+export function createPublishIntentHooks(scheduledPostId: string): PublishIntentHooks {
+    return {
+        begin: (part, text) => beginIntent(scheduledPostId, part, text),
+        confirm: (part, tweetId) => confirmIntent(scheduledPostId, part, tweetId),
+        abandon: (part) => abandonIntent(scheduledPostId, part),
+    };
+}
+
+/**
+ * Record that `text` is about to be sent as `part`.
+ * Returns what an earlier attempt recorded for the same part, if anything.
+ */
+export async function beginIntent(scheduledPostId: string, part: number, text: string): Promise<EarlierIntent | null> {
+    const earlier: PublishIntentRow | null = await prisma.publishIntent.findUnique({
+        where: { scheduledPostId_part: { scheduledPostId, part } },
+        select: { text: true, status: true, platformPostId: true, startedAt: true },
+    });
+
+    if (earlier?.status === 'CONFIRMED' && earlier.platformPostId) {
+        return { text: earlier.text, startedAt: earlier.startedAt, tweetId: earlier.platformPostId };
+    }
+
+    if (earlier) {
+        // Keep the first attempt's text and start: the timeline check has to
+        // search from before the tweet that attempt may have sent
+        return { text: earlier.text, startedAt: earlier.startedAt };
+    }
+
+    await prisma.publishIntent.upsert({
+        where: { scheduledPostId_part: { scheduledPostId, part } },
+        create: { scheduledPostId, part, text },
+        update: {},
+    });
+
+    return null;
+}
+
+/**
+ * Record the tweet that exists for `part`
+ */
+export async function confirmIntent(scheduledPostId: string, part: number, tweetId: string): Promise<void> {
+    await prisma.publishIntent.update({
+        where: { scheduledPostId_part: { scheduledPostId, part } },
+        data: { status: 'CONFIRMED', platformPostId: tweetId, confirmedAt: new Date() },
+    });
+}
+
+/**
+ * Drop the intent for a part the platform refused, so the retry posts without a timeline check
+ */
+export async function abandonIntent(scheduledPostId: string, part: number): Promise<void> {
+    await prisma.publishIntent.deleteMany({
+        where: { scheduledPostId, part, status: 'PENDING' },
+    });
+}
+
+/**
+ * Text to resume a partly posted thread with: the first of `candidates` whose
+ * split starts with the parts already published. Null when none does, i.e. the
+ * post was edited after the thread started, which would mix two texts.
+ * Parts published without an intent are not checked.
+ */
+export async function findPublishedText(scheduledPostId: string, posted: number, candidates: string[]): Promise<string | null> {
+    const intents: { part: number; text: string }[] = await prisma.publishIntent.findMany({
+        where: { scheduledPostId, part: { lt: posted } },
+        select: { part: true, text: true },
+    });
+
+    return candidates.find((text) => {
+        const parts = splitIntoThread(text);
+        return intents.every((intent) => parts[intent.part] === intent.text);
+    }) ?? null;
+}
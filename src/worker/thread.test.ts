@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { splitIntoThread } from './thread.js';
+import { getTweetLength, TWEET_MAX_LENGTH } from '../lib/tweet-text.js';
+
+describe('splitIntoThread', () => {
+    it('should return short content as a single un-numbered part', () => {
+        expect(splitIntoThread('  Shipped v2.0 today!  ')).toEqual(['Shipped v2.0 today!']);
+    });
+
+    it('should split at sentence boundaries and number each part', () => {
+        const sentence = 'This sentence is exactly sixty characters long, give or take. ';
+        const content = sentence.repeat(8).trim();
+
+        const parts = splitIntoThread(content);
+
+        expect(parts.length).toBe(2);
+        expect(parts[0].endsWith('take. 1/2')).toBe(true);
+        expect(parts[1].endsWith('take. 2/2')).toBe(true);
+        for (const part of parts) {
+            expect(part.length).toBeLessThanOrEqual(TWEET_MAX_LENGTH);
+        }
+    });
+
+    it('should fall back to word boundaries for a very long sentence', () => {
+        const content = Array.from({ length: 120 }, (_, i) => `word${i}`).join(' ');
+
+        const parts = splitIntoThread(content);
+
+        expect(parts.length).toBeGreaterThan(1);
+        for (const part of parts) {
+            expect(part.length).toBeLessThanOrEqual(TWEET_MAX_LENGTH);
+            // No word is cut in half
+            expect(part.replace(/ \d+\/\d+$/, '')).toMatch(/^(word\d+ )*word\d+$/);
+        }
+        expect(parts.map((part) => part.replace(/ \d+\/\d+$/, '')).join(' ')).toBe(content);
+    });
+
+    it('should cut a single word that is longer than a tweet', () => {
+        const parts = splitIntoThread('x'.repeat(600));
+
+        expect(parts.length).toBe(3);
+        for (const part of parts) {
+            expect(part.length).toBeLessThanOrEqual(TWEET_MAX_LENGTH);
+        }
+    });
+
+    it('should measure parts by weighted length', () => {
+        // CJK characters count double, so 200 of them need two tweets
+        const parts = splitIntoThread('漢'.repeat(200));
+
+        expect(parts.length).toBe(2);
+        for (const part of parts) {
+            expect(getTweetLength(part)).toBeLessThanOrEqual(TWEET_MAX_LENGTH);
+        }
+    });
+
+    it('should widen the numbering when a thread needs ten or more parts', () => {
+        const content = 'Short sentence number here. '.repeat(120).trim();
+
+        const parts = splitIntoThread(content);
+
+        expect(parts.length).toBeGreaterThanOrEqual(10);
+        expect(parts[0].endsWith(` 1/${parts.length}`)).toBe(true);
+        for (const part of parts) {
+            expect(part.length).toBeLessThanOrEqual(TWEET_MAX_LENGTH);
+        }
+    });
+});
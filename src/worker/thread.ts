@@ -0,0 +1,105 @@
+import { getTweetLength, TWEET_MAX_LENGTH } from '../lib/tweet-text.js';
+
+// Longest thread we are willing to post for a single ScheduledPost
+export const MAX_THREAD_PARTS = 25;
+
+const sentenceSegmenter = new Intl.Segmenter('en', { granularity: 'sentence' });
+
+/**
+ * Split content into numbered thread parts that each fit in a single tweet.
+ * Parts break at sentence boundaries first, then at word boundaries, and
+ * only cut inside a word when a single word is longer than a tweet.
+ * Content that already fits is returned as a single un-numbered part.
+ */
+export function splitIntoThread(content: string, maxLength: number = TWEET_MAX_LENGTH): string[] {
+    const text = content.trim();
+
+    if (countLength(text) <= maxLength) {
+        return [text];
+    }
+
+    // Reserve room for the " n/N" suffix, growing it if the thread needs more digits
+    let maxParts = 9;
+    for (;;) {
+        const suffixLength = ` ${maxParts}/${maxParts}`.length;
+        const chunks = packChunks(text, maxLength - suffixLength);
+
+        if (chunks.length <= maxParts) {
+            return chunks.map((chunk, index) => `${chunk} ${index + 1}/${chunks.length}`);
+        }
+
+        maxParts = maxParts * 10 + 9;
+    }
+}
+
+/**
+ * Greedily pack sentences (then words) into chunks no longer than `limit`
+ */
+function packChunks(text: string, limit: number): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    const flush = () => {
+        if (current.trim().length > 0) {
+            chunks.push(current.trim());
+        }
+        current = '';
+    };
+
+    for (const { segment: sentence } of sentenceSegmenter.segment(text)) {
+        if (countLength((current + sentence).trim()) <= limit) {
+            current += sentence;
+            continue;
+        }
+
+        flush();
+
+        if (countLength(sentence.trim()) <= limit) {
+            current = sentence;
+            continue;
+        }
+
+        // Sentence is longer than a tweet: fall back to word boundaries
+        for (const word of sentence.split(/(?<=\s)/)) {
+            if (countLength((current + word).trim()) <= limit) {
+                current += word;
+                continue;
+            }
+
+            flush();
+
+            // Word is longer than a tweet: cut it
+            let rest = word;
+            while (countLength(rest.trim()) > limit) {
+                const piece = sliceToLength(rest, limit);
+                chunks.push(piece);
+                rest = rest.slice(piece.length);
+            }
+            current = rest;
+        }
+    }
+
+    flush();
+
+    return chunks;
+}
+
+/**
+ * Longest prefix of `text` that fits in `limit`, without splitting surrogate pairs
+ */
+function sliceToLength(text: string, limit: number): string {
+    let prefix = '';
+
+    for (const char of text) {
+        if (countLength(prefix + char) > limit) {
+            break;
+        }
+        prefix += char;
+    }
+
+    return prefix;
+}
+
+function countLength(text: string): number {
+    return getTweetLength(text);
+}
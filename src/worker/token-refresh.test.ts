@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ensureFreshTwitterToken, needsRefresh } from './token-refresh.js';
+import { getConnectionById, updateConnectionTokens } from '../lib/connections.js';
+import { withLock } from '../lib/lock.js';
+
+const refreshMock = vi.fn();
+
+vi.mock('../lib/db.js', () => ({ prisma: {} }));
+
+vi.mock('../lib/connections.js', () => ({
+    getConnectionById: vi.fn(),
+    updateConnectionTokens: vi.fn(),
+}));
+
+vi.mock('../lib/lock.js', () => ({
+    withLock: vi.fn(async (_name: string, _options: object, fn: () => Promise<unknown>) => ({
+        acquired: true,
+        result: await fn(),
+    })),
+}));
+
+vi.mock('twitter-api-v2', () => ({
+    TwitterApi: vi.fn().mockImplementation(function () {
+        return { refreshOAuth2Token: refreshMock };
+    }),
+}));
+
+describe('ensureFreshTwitterToken', () => {
+    const expired = {
+        id: 'conn-1',
+        userId: 'user-1',
+        platform: 'twitter',
+        authType: 'oauth2',
+        accessToken: 'old-access',
+        refreshToken: 'old-refresh',
+        expiresAt: new Date(Date.now() - 60 * 1000),
+        platformUserId: null,
+        username: null,
+        isActive: true,
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.TWITTER_CLIENT_ID = 'client-id';
+        (getConnectionById as any).mockResolvedValue(expired);
+        (updateConnectionTokens as any).mockImplementation(async (id: string, tokens: object) => ({
+            ...expired,
+            id,
+            ...tokens,
+        }));
+    });
+
+    it('should only refresh tokens that are expired or about to expire', () => {
+        const now = Date.now();
+
+        expect(needsRefresh(null, now)).toBe(false);
+        expect(needsRefresh(new Date(now + 60 * 60 * 1000), now)).toBe(false);
+        expect(needsRefresh(new Date(now + 60 * 1000), now)).toBe(true);
+        expect(needsRefresh(new Date(now - 1000), now)).toBe(true);
+    });
+
+    it('should return a connection that is still valid untouched', async () => {
+        const valid = { ...expired, expiresAt: new Date(Date.now() + 60 * 60 * 1000) };
+
+        expect(await ensureFreshTwitterToken(valid)).toBe(valid);
+        expect(withLock).not.toHaveBeenCalled();
+    });
+
+    it('should refresh under a per-connection lock and save the new token pair', async () => {
+        refreshMock.mockResolvedValue({ accessToken: 'new-access', refreshToken: 'new-refresh', expiresIn: 7200 });
+
+        const result = await ensureFreshTwitterToken(expired);
+
+        expect(withLock).toHaveBeenCalledWith('token-refresh:conn-1', expect.any(Object), expect.any(Function));
+        expect(refreshMock).toHaveBeenCalledWith('old-refresh');
+        expect(updateConnectionTokens).toHaveBeenCalledWith('conn-1', {
+            accessToken: 'new-access',
+            refreshToken: 'new-refresh',
+            expiresAt: expect.any(Date),
+        });
+        expect(result.accessToken).toBe('new-access');
+    });
+
+    it('should use the token another job refreshed while waiting for the lock', async () => {
+        const refreshed = { ...expired, accessToken: 'other-access', expiresAt: new Date(Date.now() + 7200 * 1000) };
+        (getConnectionById as any).mockResolvedValue(refreshed);
+
+        const result = await ensureFreshTwitterToken(expired);
+
+        expect(result).toBe(refreshed);
+        expect(refreshMock).not.toHaveBeenCalled();
+        expect(updateConnectionTokens).not.toHaveBeenCalled();
+    });
+
+    it('should fail without retry when Twitter rejects the refresh token', async () => {
+        refreshMock.mockRejectedValue({ code: 400, data: { error: 'invalid_grant' } });
+
+        await expect(ensureFreshTwitterToken(expired)).rejects.toMatchObject({
+            code: 'TOKEN_EXPIRED',
+            retryable: false,
+        });
+        expect(updateConnectionTokens).not.toHaveBeenCalled();
+    });
+
+    it('should retry later when the lock is held by another job', async () => {
+        (withLock as any).mockResolvedValueOnce({ acquired: false });
+
+        await expect(ensureFreshTwitterToken(expired)).rejects.toMatchObject({
+            code: 'TOKEN_REFRESH_BUSY',
+            retryable: true,
+        });
+    });
+});
@@ -0,0 +1,130 @@
+import { TwitterApi } from 'twitter-api-v2';
+import { createChildLogger } from '../lib/logger.js';
+import { withLock } from '../lib/lock.js';
+import { getConnectionById, updateConnectionTokens } from '../lib/connections.js';
+import type { SocialConnectionRecord } from '../lib/connections.js';
+import { TwitterError, mapTwitterError, timeTwitterCall } from './twitter.js';
+
+// Refresh tokens that expire within this window, so they don't expire mid-job
+const REFRESH_MARGIN_MS = parseInt(process.env.TOKEN_REFRESH_MARGIN_SECONDS || '300') * 1000;
+
+// Lock TTL covers a slow refresh call; waiters give up after the wait window
+const REFRESH_LOCK_TTL_MS = 30 * 1000;
+const REFRESH_LOCK_WAIT_MS = 15 * 1000;
+
+/**
+ * Whether an OAuth 2.0 access token is expired or about to expire
+ */
+export function needsRefresh(expiresAt: Date | null, now: number = Date.now()): boolean {
+    return !!expiresAt && expiresAt.getTime() - now <= REFRESH_MARGIN_MS;
+}
+
+/**
+ * Return a Twitter OAuth 2.0 connection with a usable access token,
+ * refreshing it with the stored refresh token when it is (nearly) expired.
+ *
+ * The refresh runs under a per-connection Redis lock. Twitter refresh tokens
+ * are single-use, so two jobs refreshing at once would invalidate each other;
+ * the job that waited re-reads the row and uses the token the winner saved.
+ */
+export async function ensureFreshTwitterToken(
+    connection: SocialConnectionRecord
+): Promise<SocialConnectionRecord> {
+    if (!needsRefresh(connection.expiresAt)) {
+        return connection;
+    }
+
+    const log = createChildLogger({ service: 'twitter-oauth2', connectionId: connection.id });
+
+    const outcome = await withLock(
+        `token-refresh:${connection.id}`,
+        { ttlMs: REFRESH_LOCK_TTL_MS, waitMs: REFRESH_LOCK_WAIT_MS },
+        async () => {
+            // Another job may have refreshed while we waited for the lock
+            const current = await getConnectionById(connection.id);
+
+            if (!current || !current.isActive) {
+                throw new TwitterError(
+                    'NO_CONNECTION',
+                    'Twitter connection was removed. User needs to reconnect Twitter.',
+                    false
+                );
+            }
+
+            if (!needsRefresh(current.expiresAt)) {
+                log.debug('Token already refreshed by another job');
+                return current;
+            }
+
+            return refreshConnection(current);
+        }
+    );
+
+    if (!outcome.acquired) {
+        throw new TwitterError(
+            'TOKEN_REFRESH_BUSY',
+            'Timed out waiting for another job to refresh the Twitter token.',
+            true
+        );
+    }
+
+    return outcome.result;
+}
+
+/**
+ * Exchange the refresh token and save the new token pair
+ */
+async function refreshConnection(connection: SocialConnectionRecord): Promise<SocialConnectionRecord> {
+    const log = createChildLogger({ service: 'twitter-oauth2', connectionId: connection.id });
+
+    const clientId = process.env.TWITTER_CLIENT_ID;
+    const clientSecret = process.env.TWITTER_CLIENT_SECRET;
+
+    if (!clientId) {
+        throw new TwitterError(
+            'CONFIG_MISSING',
+            'TWITTER_CLIENT_ID must be set in environment variables to refresh OAuth 2.0 tokens.',
+            false
+        );
+    }
+
+    const { refreshToken } = connection;
+
+    if (!refreshToken) {
+        throw new TwitterError(
+            'TOKEN_EXPIRED',
+            'Twitter access token has expired and no refresh token is stored. User needs to reconnect.',
+            false
+        );
+    }
+
+    let refreshed;
+    try {
+        log.info('Refreshing Twitter OAuth 2.0 token');
+        const client = new TwitterApi({ clientId, clientSecret });
+        refreshed = await timeTwitterCall('oauth2_token', () => client.refreshOAuth2Token(refreshToken));
+    } catch (error: any) {
+        // invalid_grant: the refresh token was revoked or already used
+        if (error.code === 400 || error.code === 401) {
+            log.warn({ error: error.data ?? error.message }, 'Twitter rejected the refresh token');
+            throw new TwitterError(
+                'TOKEN_EXPIRED',
+                'Twitter refresh token is no longer valid. User needs to reconnect.',
+                false
+            );
+        }
+
+        throw mapTwitterError(error);
+    }
+
+    const updated = await updateConnectionTokens(connection.id, {
+        accessToken: refreshed.accessToken,
+        // Twitter rotates refresh tokens; keep the old one if none came back
+        refreshToken: refreshed.refreshToken ?? refreshToken,
+        expiresAt: new Date(Date.now() + refreshed.expiresIn * 1000),
+    });
+
+    log.info({ expiresAt: updated.expiresAt }, 'Twitter OAuth 2.0 token refreshed');
+
+    return updated;
+}
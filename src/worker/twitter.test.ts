@@ -1,7 +1,407 @@
-import { describe, it, expect } from 'vitest';
-import { validateTweetContent, TwitterError } from './twitter.js';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TwitterApi } from 'twitter-api-v2';
+import { validateTweetContent, postTweet, normalizeTweetText, createTwitterMetricsClient, TwitterError } from './twitter.js';
+import { prepareMedia, MediaError } from '../lib/media.js';
+
+const tweetMock = vi.fn();
+const timelineMock = vi.fn();
+const meMock = vi.fn();
+const getMock = vi.fn();
+const uploadV1Mock = vi.fn();
+const uploadV2Mock = vi.fn();
+const metadataV1Mock = vi.fn();
+const metadataV2Mock = vi.fn();
+
+vi.mock('../lib/db.js', () => ({ prisma: {} }));
+
+vi.mock('twitter-api-v2', () => ({
+    TwitterApi: vi.fn().mockImplementation(function () {
+        return {
+            v1: { uploadMedia: uploadV1Mock, createMediaMetadata: metadataV1Mock },
+            v2: { post: tweetMock, userTimeline: timelineMock, me: meMock, get: getMock, uploadMedia: uploadV2Mock, createMediaMetadata: metadataV2Mock },
+        };
+    }),
+}));
+
+// Downloads are covered in media.test.ts; here every URL resolves to a prepared file
+vi.mock('../lib/media.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../lib/media.js')>()),
+    prepareMedia: vi.fn(),
+}));
+
+function preparedMedia(url: string, kind: 'image' | 'gif' | 'video' = 'image', altText?: string) {
+    const mimeType = { image: 'image/png', gif: 'image/gif', video: 'video/mp4' }[kind];
+    return { url, altText, buffer: Buffer.from(url), mimeType, kind, resized: false };
+}
+
+// Full response shape returned by client.v2.post(..., { fullResponse: true })
+const tweetResponse = (id: string, rateLimit?: object) => ({
+    data: { data: { id } },
+    headers: {},
+    rateLimit,
+});
 
 describe('Twitter Logic', () => {
+    describe('postTweet', () => {
+        const longContent = 'This sentence is exactly sixty characters long, give or take. '.repeat(8).trim();
+
+        beforeEach(() => {
+            vi.clearAllMocks();
+            process.env.TWITTER_API_KEY = 'key';
+            process.env.TWITTER_API_SECRET = 'secret';
+        });
+
+        it('should post long content as a reply thread', async () => {
+            tweetMock
+                .mockResolvedValueOnce(tweetResponse('1'))
+                .mockResolvedValueOnce(tweetResponse('2'));
+            const onTweetPosted = vi.fn();
+
+            const result = await postTweet({
+                accessToken: 'token',
+                accessSecret: 'secret',
+                content: longContent,
+                onTweetPosted,
+            });
+
+            expect(result.tweetId).toBe('1');
+            expect(result.tweetIds).toEqual(['1', '2']);
+            expect(tweetMock.mock.calls[0][1].reply).toBeUndefined();
+            expect(tweetMock.mock.calls[1][1].reply).toEqual({ in_reply_to_tweet_id: '1' });
+            expect(onTweetPosted).toHaveBeenLastCalledWith(['1', '2']);
+        });
+
+        it('should resume a thread after the parts already posted', async () => {
+            tweetMock.mockResolvedValueOnce(tweetResponse('2'));
+
+            const result = await postTweet({
+                accessToken: 'token',
+                accessSecret: 'secret',
+                content: longContent,
+                postedTweetIds: ['1'],
+            });
+
+            expect(tweetMock).toHaveBeenCalledTimes(1);
+            expect(tweetMock.mock.calls[0][1].text.endsWith('2/2')).toBe(true);
+            expect(tweetMock.mock.calls[0][1].reply).toEqual({ in_reply_to_tweet_id: '1' });
+            expect(result.tweetIds).toEqual(['1', '2']);
+        });
+
+        it('should return the most restrictive posting window from the headers', async () => {
+            tweetMock.mockResolvedValueOnce(tweetResponse('1', {
+                limit: 100, remaining: 99, reset: 1000,
+                day: { limit: 17, remaining: 3, reset: 2000 },
+            }));
+
+            const result = await postTweet({
+                accessToken: 'token',
+                accessSecret: 'secret',
+                content: 'Hello',
+            });
+
+            expect(result.rateLimit).toEqual({ limit: 17, remaining: 3, reset: 2000 });
+            expect(result.appRateLimit).toEqual({ limit: 17, remaining: 3, reset: 2000 });
+        });
+
+        it('should use the access token as a bearer token without an access secret', async () => {
+            delete process.env.TWITTER_API_KEY;
+            tweetMock.mockResolvedValueOnce(tweetResponse('1'));
+
+            const result = await postTweet({ accessToken: 'oauth2-token', content: 'Hello' });
+
+            expect(TwitterApi).toHaveBeenCalledWith('oauth2-token');
+            expect(result.tweetId).toBe('1');
+        });
+
+        it('should map only 429 responses to RATE_LIMITED', async () => {
+            tweetMock.mockRejectedValueOnce({
+                code: 403,
+                data: { detail: 'You are not allowed to create a Tweet with duplicate content.' },
+                message: 'Request failed with code 403',
+                rateLimit: { limit: 100, remaining: 50, reset: 1000 },
+            });
+
+            await expect(postTweet({ accessToken: 'token', accessSecret: 'secret', content: 'Hello' }))
+                .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+            tweetMock.mockRejectedValueOnce({
+                code: 429,
+                message: 'Too Many Requests',
+                rateLimit: { limit: 100, remaining: 0, reset: 1000 },
+            });
+
+            await expect(postTweet({ accessToken: 'token', accessSecret: 'secret', content: 'Hello' }))
+                .rejects.toMatchObject({
+                    code: 'RATE_LIMITED',
+                    retryable: true,
+                    rateLimit: { limit: 100, remaining: 0, reset: 1000 },
+                });
+        });
+    });
+
+    describe('postTweet with publish intents', () => {
+        const startedAt = new Date('2026-10-19T12:00:00Z');
+
+        function intentHooks(earlier: { text: string; startedAt: Date; tweetId?: string } | null) {
+            return {
+                begin: vi.fn().mockResolvedValue(earlier),
+                confirm: vi.fn().mockResolvedValue(undefined),
+                abandon: vi.fn().mockResolvedValue(undefined),
+            };
+        }
+
+        beforeEach(() => {
+            vi.clearAllMocks();
+            process.env.TWITTER_API_KEY = 'key';
+            process.env.TWITTER_API_SECRET = 'secret';
+        });
+
+        it('should record and confirm the intent around a fresh post', async () => {
+            tweetMock.mockResolvedValueOnce(tweetResponse('1'));
+            const intents = intentHooks(null);
+
+            const result = await postTweet({ accessToken: 'token', accessSecret: 'secret', content: 'Hello', intents });
+
+            expect(intents.begin).toHaveBeenCalledWith(0, 'Hello');
+            expect(intents.confirm).toHaveBeenCalledWith(0, '1');
+            expect(timelineMock).not.toHaveBeenCalled();
+            expect(result.tweetId).toBe('1');
+        });
+
+        it('should reuse a confirmed tweet without posting', async () => {
+            const intents = intentHooks({ text: 'Hello', startedAt, tweetId: '7' });
+
+            const result = await postTweet({ accessToken: 'token', accessSecret: 'secret', content: 'Hello', intents });
+
+            expect(tweetMock).not.toHaveBeenCalled();
+            expect(result.tweetIds).toEqual(['7']);
+        });
+
+        it('should not post again when the earlier attempt\'s tweet is on the timeline', async () => {
+            timelineMock.mockResolvedValueOnce({
+                tweets: [{ id: '9', text: 'Fish &amp; chips https://t.co/abc' }],
+            });
+            const intents = intentHooks({ text: 'Fish & chips https://example.com/menu', startedAt });
+            const onTweetPosted = vi.fn();
+
+            const result = await postTweet({
+                accessToken: 'token',
+                accessSecret: 'secret',
+                content: 'Fish & chips https://example.com/menu',
+                intents,
+                platformUserId: 'user-1',
+                onTweetPosted,
+            });
+
+            expect(tweetMock).not.toHaveBeenCalled();
+            expect(meMock).not.toHaveBeenCalled();
+            expect(timelineMock.mock.calls[0][0]).toBe('user-1');
+            expect(timelineMock.mock.calls[0][1].start_time).toBe('2026-10-19T11:59:00.000Z');
+            expect(intents.confirm).toHaveBeenCalledWith(0, '9');
+            expect(onTweetPosted).toHaveBeenCalledWith(['9']);
+            expect(result.tweetId).toBe('9');
+        });
+
+        it('should post when the earlier attempt never reached the timeline', async () => {
+            meMock.mockResolvedValueOnce({ data: { id: 'user-1' } });
+            timelineMock.mockResolvedValueOnce({ tweets: [{ id: '8', text: 'Something else' }] });
+            tweetMock.mockResolvedValueOnce(tweetResponse('10'));
+            const intents = intentHooks({ text: 'Hello', startedAt });
+
+            const result = await postTweet({ accessToken: 'token', accessSecret: 'secret', content: 'Hello', intents });
+
+            expect(timelineMock.mock.calls[0][0]).toBe('user-1');
+            expect(tweetMock).toHaveBeenCalledTimes(1);
+            expect(intents.confirm).toHaveBeenCalledWith(0, '10');
+            expect(result.tweetId).toBe('10');
+        });
+
+        it('should fail with PUBLISH_UNCONFIRMED when the timeline can\'t be read', async () => {
+            timelineMock.mockRejectedValueOnce({ code: 403, message: 'Request failed with code 403' });
+            const intents = intentHooks({ text: 'Hello', startedAt });
+
+            await expect(postTweet({
+                accessToken: 'token',
+                accessSecret: 'secret',
+                content: 'Hello',
+                intents,
+                platformUserId: 'user-1',
+            })).rejects.toMatchObject({ code: 'PUBLISH_UNCONFIRMED', retryable: false });
+
+            expect(tweetMock).not.toHaveBeenCalled();
+        });
+
+        it('should abandon the intent when Twitter rejects the tweet', async () => {
+            tweetMock.mockRejectedValueOnce({ code: 403, message: 'Request failed with code 403' });
+            const intents = intentHooks(null);
+
+            await expect(postTweet({ accessToken: 'token', accessSecret: 'secret', content: 'Hello', intents }))
+                .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+            expect(intents.abandon).toHaveBeenCalledWith(0);
+            expect(intents.confirm).not.toHaveBeenCalled();
+        });
+
+        it('should keep the intent when the outcome is unknown', async () => {
+            tweetMock.mockRejectedValueOnce({ code: 503, message: 'Service Unavailable' });
+            const intents = intentHooks(null);
+
+            await expect(postTweet({ accessToken: 'token', accessSecret: 'secret', content: 'Hello', intents }))
+                .rejects.toBeInstanceOf(TwitterError);
+
+            expect(intents.abandon).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('postTweet with media', () => {
+        const intents = () => ({
+            begin: vi.fn().mockResolvedValue(null),
+            confirm: vi.fn().mockResolvedValue(undefined),
+            abandon: vi.fn().mockResolvedValue(undefined),
+        });
+
+        beforeEach(() => {
+            vi.clearAllMocks();
+            process.env.TWITTER_API_KEY = 'key';
+            process.env.TWITTER_API_SECRET = 'secret';
+            (prepareMedia as any).mockImplementation(async (item: { url: string; altText?: string }) => preparedMedia(item.url, 'image', item.altText));
+            tweetMock.mockResolvedValue(tweetResponse('1'));
+        });
+
+        it('should upload each item with its real type and set alt text', async () => {
+            uploadV1Mock.mockResolvedValueOnce('m1').mockResolvedValueOnce('m2');
+
+            const result = await postTweet({
+                accessToken: 'token',
+                accessSecret: 'secret',
+                content: 'Release notes',
+                mediaUrls: ['https://cdn.test/1.png', { url: 'https://cdn.test/2.png', altText: 'Build times by week' }],
+            });
+
+            expect(uploadV1Mock).toHaveBeenCalledWith(expect.any(Buffer), { mimeType: 'image/png', target: 'tweet' });
+            expect(metadataV1Mock).toHaveBeenCalledTimes(1);
+            expect(metadataV1Mock).toHaveBeenCalledWith('m2', { alt_text: { text: 'Build times by week' } });
+            expect(tweetMock.mock.calls[0][1].media).toEqual({ media_ids: ['m1', 'm2'] });
+            expect(result.warnings).toEqual([]);
+        });
+
+        it('should upload video through the v2 endpoint for OAuth 2.0 tokens', async () => {
+            (prepareMedia as any).mockResolvedValueOnce(preparedMedia('https://cdn.test/demo.mp4', 'video'));
+            uploadV2Mock.mockResolvedValueOnce('v1');
+
+            await postTweet({ accessToken: 'token', content: 'Demo', mediaUrls: ['https://cdn.test/demo.mp4'] });
+
+            expect(uploadV2Mock).toHaveBeenCalledWith(expect.any(Buffer), { media_type: 'video/mp4', media_category: 'tweet_video' });
+            expect(tweetMock.mock.calls[0][1].media).toEqual({ media_ids: ['v1'] });
+        });
+
+        it('should fail the post by default when an item can\'t be attached', async () => {
+            (prepareMedia as any).mockRejectedValueOnce(new MediaError('MEDIA_DOWNLOAD_FAILED', 'HTTP 404', false));
+            const hooks = intents();
+
+            await expect(postTweet({
+                accessToken: 'token',
+                accessSecret: 'secret',
+                content: 'Release notes',
+                mediaUrls: ['https://cdn.test/gone.png'],
+                intents: hooks,
+            })).rejects.toMatchObject({ code: 'MEDIA_DOWNLOAD_FAILED' });
+
+            expect(tweetMock).not.toHaveBeenCalled();
+            expect(hooks.abandon).toHaveBeenCalledWith(0);
+        });
+
+        it('should post without failed items under the optional policy', async () => {
+            (prepareMedia as any)
+                .mockRejectedValueOnce(new MediaError('MEDIA_TOO_LARGE', 'Image could not be reduced below 5 MB', false))
+                .mockResolvedValueOnce(preparedMedia('https://cdn.test/ok.png'))
+                .mockResolvedValueOnce(preparedMedia('https://cdn.test/clip.mp4', 'video'));
+            uploadV1Mock.mockResolvedValueOnce('m1');
+
+            const result = await postTweet({
+                accessToken: 'token',
+                accessSecret: 'secret',
+                content: 'Release notes',
+                mediaUrls: ['https://cdn.test/huge.png', 'https://cdn.test/ok.png', 'https://cdn.test/clip.mp4'],
+                mediaPolicy: 'optional',
+            });
+
+            expect(tweetMock.mock.calls[0][1].media).toEqual({ media_ids: ['m1'] });
+            expect(result.warnings).toEqual([
+                'https://cdn.test/huge.png was not attached: Image could not be reduced below 5 MB',
+                'https://cdn.test/clip.mp4 was not attached: A tweet can have up to 4 images, or one GIF or video',
+            ]);
+        });
+
+        it('should report failed video processing', async () => {
+            (prepareMedia as any).mockResolvedValueOnce(preparedMedia('https://cdn.test/demo.mp4', 'video'));
+            uploadV2Mock.mockRejectedValueOnce(new Error('Media processing failed: Unsupported codec'));
+
+            await expect(postTweet({ accessToken: 'token', content: 'Demo', mediaUrls: ['https://cdn.test/demo.mp4'] }))
+                .rejects.toMatchObject({ code: 'MEDIA_PROCESSING_FAILED', retryable: false });
+        });
+
+        it('should fail on auth errors whatever the policy', async () => {
+            uploadV1Mock.mockRejectedValueOnce({ code: 401, type: 'response', message: 'Unauthorized' });
+
+            await expect(postTweet({
+                accessToken: 'token',
+                accessSecret: 'secret',
+                content: 'Release notes',
+                mediaUrls: ['https://cdn.test/1.png'],
+                mediaPolicy: 'optional',
+            })).rejects.toMatchObject({ code: 'AUTH_INVALID' });
+
+            expect(tweetMock).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('createTwitterMetricsClient', () => {
+        beforeEach(() => {
+            vi.clearAllMocks();
+            process.env.TWITTER_BEARER_TOKEN = 'bearer';
+        });
+
+        it('should look up public metrics and report deleted tweets as missing', async () => {
+            getMock.mockResolvedValueOnce({
+                data: {
+                    data: [{
+                        id: '1',
+                        text: 'Hello',
+                        public_metrics: { like_count: 5, retweet_count: 2, reply_count: 1, quote_count: 0, bookmark_count: 3, impression_count: 400 },
+                    }],
+                    errors: [{ resource_id: '2', title: 'Not Found Error' }],
+                },
+                headers: {},
+                rateLimit: { limit: 15, remaining: 14, reset: 1000 },
+            });
+
+            const lookup = await createTwitterMetricsClient().lookup(['1', '2']);
+
+            expect(TwitterApi).toHaveBeenCalledWith('bearer');
+            expect(getMock).toHaveBeenCalledWith('tweets', { ids: '1,2', 'tweet.fields': 'public_metrics' }, { fullResponse: true });
+            expect(lookup.metrics.get('1')).toEqual({ likes: 5, reposts: 2, replies: 1, quotes: 0, bookmarks: 3, impressions: 400 });
+            expect(lookup.missing).toEqual(['2']);
+            expect(lookup.rateLimit).toEqual({ limit: 15, remaining: 14, reset: 1000 });
+        });
+
+        it('should map a 429 to RATE_LIMITED with the reset time', async () => {
+            getMock.mockRejectedValueOnce({ code: 429, rateLimit: { limit: 15, remaining: 0, reset: 2000 } });
+
+            await expect(createTwitterMetricsClient().lookup(['1'])).rejects.toMatchObject({
+                code: 'RATE_LIMITED',
+                rateLimit: { reset: 2000 },
+            });
+        });
+    });
+
+    describe('normalizeTweetText', () => {
+        it('should ignore links, HTML escaping and whitespace', () => {
+            expect(normalizeTweetText('Tom &amp; Jerry  &lt;3\nhttps://t.co/xyz'))
+                .toBe(normalizeTweetText('Tom & Jerry <3 https://example.com/a'));
+        });
+    });
+
     describe('validateTweetContent', () => {
         it('should return valid for correct content', () => {
             const result = validateTweetContent('Hello World!');
@@ -20,6 +420,31 @@ describe('Twitter Logic', () => {
             expect(result.valid).toBe(false);
             expect(result.error).toBe('Tweet exceeds 280 character limit');
         });
+
+        it('should use the weighted length', () => {
+            const result = validateTweetContent('漢'.repeat(141));
+            expect(result.valid).toBe(false);
+            expect(result.weightedLength).toBe(282);
+            expect(result.remaining).toBe(-2);
+            expect(result.offendingRange).toEqual({ start: 140, end: 141 });
+        });
+
+        it('should accept long content that fits in a thread when allowed', () => {
+            const result = validateTweetContent('Sentence. '.repeat(60), { allowThread: true });
+            expect(result.valid).toBe(true);
+        });
+
+        it('should reject content that needs too many thread parts', () => {
+            const result = validateTweetContent('Sentence. '.repeat(1000), { allowThread: true });
+            expect(result.valid).toBe(false);
+            expect(result.error).toMatch(/^Thread would need \d+ tweets \(max 25\)$/);
+        });
+
+        it('should name the thread part Twitter would refuse', () => {
+            const result = validateTweetContent('Sentence. '.repeat(60) + 'Last one \uFFFE', { allowThread: true });
+            expect(result.valid).toBe(false);
+            expect(result.error).toMatch(/^Thread part 3 of 3 is not a valid tweet/);
+        });
     });
 
     describe('TwitterError Class', () => {
@@ -1,5 +1,16 @@
 import { TwitterApi } from 'twitter-api-v2';
+import type { SendTweetV2Params, TweetV2PostTweetResult, TweetV2LookupResult } from 'twitter-api-v2';
 import { logger, createChildLogger } from '../lib/logger.js';
+import { pickPostingWindow, pickAppWindow } from '../lib/rate-limit.js';
+import { twitterApiDuration, mediaUploads } from '../lib/metrics.js';
+import type { RateLimitSnapshot } from '../lib/rate-limit.js';
+import type { EngagementClient, PostMetrics } from '../lib/engagement.js';
+import { parseTweet, TWEET_MAX_LENGTH } from '../lib/tweet-text.js';
+import type { TextRange } from '../lib/tweet-text.js';
+import type { MediaItem, MediaPolicy } from '../lib/types.js';
+import { splitIntoThread, MAX_THREAD_PARTS } from './thread.js';
+import { MediaError, prepareMedia, toMediaItems } from '../lib/media.js';
+import type { MediaKind, PreparedMedia } from '../lib/media.js';
 
 /**
  * Custom error class for Twitter API errors
@@ -8,32 +19,217 @@ export class TwitterError extends Error {
     constructor(
         public code: string,
         message: string,
-        public retryable: boolean
+        public retryable: boolean,
+        public rateLimit?: RateLimitSnapshot, // This user's posting window from the failed response, if any
+        public appRateLimit?: RateLimitSnapshot // App-wide window from the failed response, if any
     ) {
         super(message);
         this.name = 'TwitterError';
     }
 }
 
+// Tweets created this long before an attempt started still count (clock differences)
+const TIMELINE_CLOCK_SKEW_MS = 60 * 1000;
+
 interface PostTweetParams {
     accessToken: string;
-    accessSecret: string;
+    accessSecret?: string; // OAuth 1.0a only; omit for an OAuth 2.0 user access token
     content: string;
-    mediaUrls?: string[];
+    mediaUrls?: (string | MediaItem)[];
+    // Whether media that can't be attached fails the post (default) or only adds a warning
+    mediaPolicy?: MediaPolicy;
+    // Thread parts already posted by a previous attempt, in order
+    postedTweetIds?: string[];
+    // Called after each thread part is posted so progress survives a crash
+    onTweetPosted?: (tweetIds: string[]) => Promise<void>;
+    // Publish-intent bookkeeping that stops a retry from posting the same part twice
+    intents?: PublishIntentHooks;
+    // Twitter user ID of the account, for the timeline check (looked up when missing)
+    platformUserId?: string | null;
+}
+
+/**
+ * What an earlier attempt recorded for a thread part
+ */
+export interface EarlierIntent {
+    text: string; // Text that attempt sent
+    startedAt: Date;
+    tweetId?: string; // Set when the tweet is known to exist
 }
 
+export interface PublishIntentHooks {
+    // Record that `text` is about to be sent as `part`; returns the earlier attempt's intent, if any
+    begin: (part: number, text: string) => Promise<EarlierIntent | null>;
+    // Record the tweet that exists for `part`
+    confirm: (part: number, tweetId: string) => Promise<void>;
+    // Twitter refused `part`, so no tweet was created
+    abandon: (part: number) => Promise<void>;
+}
+
+// Errors that come with a response proving the tweet was not created.
+// Timeouts, network errors and 5xx leave the outcome unknown.
+const REJECTED_CODES = new Set(['RATE_LIMITED', 'AUTH_INVALID', 'ACCOUNT_SUSPENDED', 'DUPLICATE_TWEET', 'FORBIDDEN']);
+
 interface PostTweetResult {
-    tweetId: string;
+    tweetId: string; // Thread root when content was split
     tweetUrl: string;
+    tweetIds: string[];
+    rateLimit?: RateLimitSnapshot; // This user's posting window after the last tweet
+    appRateLimit?: RateLimitSnapshot; // App-wide window after the last tweet
+    warnings: string[]; // Optional media that was left out
 }
 
 /**
- * Post a tweet using Twitter API v2 with OAuth 1.0a User Context
+ * Post a tweet using Twitter API v2 with user context: OAuth 1.0a when an
+ * access secret is given, otherwise an OAuth 2.0 bearer access token.
+ * Content over the character limit is posted as a numbered reply thread,
+ * resuming after `postedTweetIds` when a previous attempt failed partway.
  */
 export async function postTweet(params: PostTweetParams): Promise<PostTweetResult> {
-    const { accessToken, accessSecret, content, mediaUrls } = params;
+    const { accessToken, accessSecret, content, mediaPolicy = 'required', postedTweetIds = [], onTweetPosted, intents } = params;
     const log = createChildLogger({ service: 'twitter' });
 
+    const client = accessSecret ? createOAuth1Client(accessToken, accessSecret) : new TwitterApi(accessToken);
+
+    const parts = splitIntoThread(content);
+    const tweetIds = [...postedTweetIds];
+    const media = toMediaItems(params.mediaUrls);
+    let warnings: string[] = [];
+
+    if (tweetIds.length > 0) {
+        log.info({ posted: tweetIds.length, total: parts.length }, 'Resuming partially posted thread');
+    }
+
+    let rateLimit: RateLimitSnapshot | undefined;
+    let appRateLimit: RateLimitSnapshot | undefined;
+    let platformUserId = params.platformUserId;
+
+    for (let index = tweetIds.length; index < parts.length; index++) {
+        const previousId = tweetIds[index - 1];
+
+        // An earlier attempt may have sent this part without saving the result
+        const earlier = await intents?.begin(index, parts[index]);
+        let tweetId = earlier?.tweetId;
+
+        if (earlier && !tweetId) {
+            platformUserId ??= await getAuthenticatedUserId(client);
+            tweetId = await findPostedTweet(client, platformUserId, earlier.text, earlier.startedAt) ?? undefined;
+        }
+
+        if (tweetId) {
+            log.warn({ part: index + 1, tweetId }, 'Tweet was already posted by an earlier attempt, not posting again');
+        } else {
+            // Media goes on the first tweet, so it is only uploaded when that tweet is sent
+            let mediaIds: string[] = [];
+            if (index === 0 && media.length > 0) {
+                try {
+                    ({ mediaIds, warnings } = await uploadMedia(client, media, !accessSecret, mediaPolicy));
+                } catch (error) {
+                    // Nothing was sent for this part
+                    await intents?.abandon(index);
+                    throw error;
+                }
+            }
+
+            log.debug({ part: index + 1, total: parts.length }, 'Posting tweet');
+            const sent = await sendTweet(client, {
+                text: parts[index],
+                ...(mediaIds.length > 0 && {
+                    media: { media_ids: mediaIds as any },
+                }),
+                ...(previousId && {
+                    reply: { in_reply_to_tweet_id: previousId },
+                }),
+            }).catch(async (error) => {
+                if (error instanceof TwitterError && REJECTED_CODES.has(error.code)) {
+                    await intents?.abandon(index);
+                }
+                throw error;
+            });
+
+            tweetId = sent.tweetId;
+            rateLimit = sent.rateLimit ?? rateLimit;
+            appRateLimit = sent.appRateLimit ?? appRateLimit;
+        }
+
+        await intents?.confirm(index, tweetId);
+        tweetIds.push(tweetId);
+        await onTweetPosted?.([...tweetIds]);
+    }
+
+    const tweetId = tweetIds[0];
+    const tweetUrl = `https://twitter.com/i/status/${tweetId}`;
+
+    log.info({ tweetId, parts: tweetIds.length, postsRemaining: rateLimit?.remaining }, 'Tweet posted successfully');
+
+    return { tweetId, tweetUrl, tweetIds, rateLimit, appRateLimit, warnings };
+}
+
+/**
+ * Look for a tweet with this text on the user's timeline since an earlier
+ * attempt started. Returns its ID, or null when it was never posted.
+ *
+ * Throws PUBLISH_UNCONFIRMED when the timeline can't be read: posting
+ * anyway could double-tweet, so the job waits (or dead-letters) instead.
+ */
+export async function findPostedTweet(
+    client: TwitterApi,
+    userId: string,
+    text: string,
+    since: Date
+): Promise<string | null> {
+    try {
+        const timeline = await timeTwitterCall('user_timeline', () =>
+            client.v2.userTimeline(userId, {
+                start_time: new Date(since.getTime() - TIMELINE_CLOCK_SKEW_MS).toISOString(),
+                max_results: 20,
+                exclude: ['retweets'],
+            })
+        );
+
+        const wanted = normalizeTweetText(text);
+        const match = timeline.tweets.find((tweet) => normalizeTweetText(tweet.text) === wanted);
+
+        return match?.id ?? null;
+    } catch (error: any) {
+        const mapped = mapTwitterError(error);
+        throw new TwitterError(
+            'PUBLISH_UNCONFIRMED',
+            `An earlier attempt may already have posted this tweet and the timeline check failed: ${mapped.message}`,
+            mapped.retryable,
+            mapped.rateLimit
+        );
+    }
+}
+
+/**
+ * Compare tweets the way Twitter stores them: links become t.co URLs (and
+ * media adds one), and &, < and > come back HTML-escaped
+ */
+export function normalizeTweetText(text: string): string {
+    return text
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/https?:\/\/\S+/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+async function getAuthenticatedUserId(client: TwitterApi): Promise<string> {
+    try {
+        const me = await timeTwitterCall('users_me', () => client.v2.me());
+        return me.data.id;
+    } catch (error) {
+        const mapped = mapTwitterError(error);
+        throw new TwitterError('PUBLISH_UNCONFIRMED', `Could not look up the Twitter account: ${mapped.message}`, mapped.retryable, mapped.rateLimit);
+    }
+}
+
+/**
+ * Create a client with OAuth 1.0a User Context (needs the app's consumer keys)
+ */
+function createOAuth1Client(accessToken: string, accessSecret: string): TwitterApi {
     const appKey = process.env.TWITTER_API_KEY;
     const appSecret = process.env.TWITTER_API_SECRET;
 
@@ -45,38 +241,34 @@ export async function postTweet(params: PostTweetParams): Promise<PostTweetResul
         );
     }
 
-    // Create Twitter client with OAuth 1.0a User Context (can post tweets)
-    const client = new TwitterApi({
+    return new TwitterApi({
         appKey,
         appSecret,
         accessToken,
         accessSecret,
     });
+}
 
-    try {
-        let mediaIds: string[] = [];
-
-        // Upload media if present
-        if (mediaUrls && mediaUrls.length > 0) {
-            log.debug({ mediaCount: mediaUrls.length }, 'Uploading media');
-            mediaIds = await uploadMedia(client, mediaUrls);
-        }
-
-        // Post the tweet
-        log.debug('Posting tweet');
-        const tweet = await client.v2.tweet({
-            text: content,
-            ...(mediaIds.length > 0 && {
-                media: { media_ids: mediaIds as any },
-            }),
-        });
-
-        const tweetId = tweet.data.id;
-        const tweetUrl = `https://twitter.com/i/status/${tweetId}`;
+/**
+ * Send a single tweet and map API failures to TwitterError.
+ * Uses the full response so the `x-rate-limit-*` headers are available.
+ */
+async function sendTweet(
+    client: TwitterApi,
+    payload: SendTweetV2Params
+): Promise<{ tweetId: string; rateLimit?: RateLimitSnapshot; appRateLimit?: RateLimitSnapshot }> {
+    const log = createChildLogger({ service: 'twitter' });
 
-        log.info({ tweetId }, 'Tweet posted successfully');
+    try {
+        const response = await timeTwitterCall('tweets', () =>
+            client.v2.post<TweetV2PostTweetResult>('tweets', payload, { fullResponse: true })
+        );
 
-        return { tweetId, tweetUrl };
+        return {
+            tweetId: response.data.data.id,
+            rateLimit: response.rateLimit && pickPostingWindow(response.rateLimit),
+            appRateLimit: response.rateLimit && pickAppWindow(response.rateLimit),
+        };
     } catch (error: any) {
         // Log detailed error info for debugging
         log.error(
@@ -97,60 +289,280 @@ export async function postTweet(params: PostTweetParams): Promise<PostTweetResul
     }
 }
 
+// A tweet takes up to 4 images, or a single GIF or video
+const TWEET_MAX_IMAGES = 4;
+
+const TWEET_MEDIA_CATEGORIES = {
+    image: 'tweet_image',
+    gif: 'tweet_gif',
+    video: 'tweet_video',
+} as const satisfies Record<MediaKind, string>;
+
+// Twitter usually finishes processing a video within a minute
+const MEDIA_PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Upload failures the tweet would hit too, so they fail the post whatever the media policy
+const ACCOUNT_ERROR_CODES = new Set(['RATE_LIMITED', 'AUTH_INVALID', 'ACCOUNT_SUSPENDED', 'CONFIG_MISSING']);
+
 /**
- * Upload media files to Twitter
+ * Download, check and upload the post's media, setting alt text where given.
+ * With the 'required' policy the first item that can't be attached fails
+ * the post; with 'optional' it is left out and reported as a warning.
  */
 async function uploadMedia(
     client: TwitterApi,
-    mediaUrls: string[]
-): Promise<string[]> {
+    items: MediaItem[],
+    oauth2: boolean,
+    policy: MediaPolicy
+): Promise<{ mediaIds: string[]; warnings: string[] }> {
     const log = createChildLogger({ service: 'twitter-media' });
+    const warnings: string[] = [];
+
+    const skipOrThrow = (url: string, error: MediaError | TwitterError) => {
+        if (policy === 'required' || (error instanceof TwitterError && ACCOUNT_ERROR_CODES.has(error.code))) {
+            throw error;
+        }
+        log.warn({ url, code: error.code, message: error.message }, 'Leaving out media');
+        warnings.push(`${url} was not attached: ${error.message}`);
+    };
+
+    const prepared: PreparedMedia[] = [];
+
+    for (const item of items) {
+        try {
+            log.debug({ url: item.url }, 'Downloading media');
+            prepared.push(await prepareMedia(item));
+        } catch (error) {
+            const mediaError = error instanceof MediaError
+                ? error
+                : new MediaError('MEDIA_INVALID', `${item.url} could not be processed: ${(error as Error).message}`, false);
+            mediaUploads.inc({ platform: 'twitter', result: mediaError.code === 'MEDIA_DOWNLOAD_FAILED' ? 'download_failed' : 'invalid' });
+            skipOrThrow(item.url, mediaError);
+        }
+    }
+
+    const { attach, leftOut } = pickTweetMedia(prepared);
+    for (const media of leftOut) {
+        mediaUploads.inc({ platform: 'twitter', result: 'invalid' });
+        skipOrThrow(media.url, new MediaError(
+            'MEDIA_LIMIT_EXCEEDED',
+            `A tweet can have up to ${TWEET_MAX_IMAGES} images, or one GIF or video`,
+            false
+        ));
+    }
+
     const mediaIds: string[] = [];
 
-    // Twitter allows max 4 images per tweet
-    const urlsToUpload = mediaUrls.slice(0, 4);
+    for (const media of attach) {
+        let mediaId: string;
 
-    for (const url of urlsToUpload) {
         try {
-            // Download the image
-            log.debug({ url }, 'Downloading media');
-            const response = await fetch(url);
+            log.debug({ url: media.url, mimeType: media.mimeType, size: media.buffer.length, resized: media.resized }, 'Uploading media to Twitter');
+            mediaId = await uploadToTwitter(client, media, oauth2);
+            mediaUploads.inc({ platform: 'twitter', result: 'uploaded' });
+            log.debug({ url: media.url, mediaId }, 'Media uploaded successfully');
+        } catch (error) {
+            mediaUploads.inc({ platform: 'twitter', result: 'upload_failed' });
+            skipOrThrow(media.url, error as MediaError | TwitterError);
+            continue;
+        }
 
-            if (!response.ok) {
-                log.warn({ url, status: response.status }, 'Failed to download media');
-                continue;
+        mediaIds.push(mediaId);
+
+        if (media.altText) {
+            if (media.kind === 'video') {
+                // The metadata endpoint only takes images and GIFs
+                warnings.push(`${media.url}: alt text is not supported for videos`);
+            } else {
+                try {
+                    await timeTwitterCall<unknown>('media_metadata', () => oauth2
+                        ? client.v2.createMediaMetadata(mediaId, { alt_text: { text: media.altText! } })
+                        : client.v1.createMediaMetadata(mediaId, { alt_text: { text: media.altText! } })
+                    );
+                } catch (error) {
+                    // The media itself is fine, so under 'optional' it stays attached
+                    skipOrThrow(media.url, mapTwitterError(error));
+                }
             }
+        }
+    }
 
-            const buffer = Buffer.from(await response.arrayBuffer());
-            const mimeType = response.headers.get('content-type') || 'image/jpeg';
+    return { mediaIds, warnings };
+}
 
-            // Upload to Twitter
-            log.debug({ url, mimeType, size: buffer.length }, 'Uploading media to Twitter');
-            const mediaId = await client.v1.uploadMedia(buffer, {
-                mimeType: mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp'
-            });
+/**
+ * Split prepared media into what fits on one tweet and what doesn't:
+ * images up to the limit, unless the first item is a GIF or video, which
+ * then goes alone
+ */
+function pickTweetMedia(prepared: PreparedMedia[]): { attach: PreparedMedia[]; leftOut: PreparedMedia[] } {
+    const attach = prepared[0] && prepared[0].kind !== 'image'
+        ? [prepared[0]]
+        : prepared.filter((media) => media.kind === 'image').slice(0, TWEET_MAX_IMAGES);
 
-            mediaIds.push(mediaId);
-            log.debug({ url, mediaId }, 'Media uploaded successfully');
-        } catch (error) {
-            log.warn({ url, error }, 'Failed to upload media, skipping');
-            // Continue with other media - don't fail the whole tweet
+    return { attach, leftOut: prepared.filter((media) => !attach.includes(media)) };
+}
+
+/**
+ * Upload one file. twitter-api-v2 sends it in chunks (INIT/APPEND/FINALIZE)
+ * and polls the processing status of videos and GIFs until Twitter is
+ * done; the wait is capped at MEDIA_PROCESSING_TIMEOUT_MS.
+ */
+async function uploadToTwitter(client: TwitterApi, media: PreparedMedia, oauth2: boolean): Promise<string> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new MediaError(
+            'MEDIA_PROCESSING_TIMEOUT',
+            `Twitter did not finish processing ${media.url} within ${MEDIA_PROCESSING_TIMEOUT_MS / 60000} minutes`,
+            true
+        )), MEDIA_PROCESSING_TIMEOUT_MS);
+    });
+
+    // v1.1 upload only accepts OAuth 1.0a; OAuth 2.0 tokens use the v2 endpoint
+    const upload = timeTwitterCall('media_upload', () => oauth2
+        ? client.v2.uploadMedia(media.buffer, { media_type: media.mimeType, media_category: TWEET_MEDIA_CATEGORIES[media.kind] })
+        : client.v1.uploadMedia(media.buffer, { mimeType: media.mimeType, target: 'tweet' })
+    );
+
+    try {
+        return await Promise.race([upload, timeout]);
+    } catch (error: any) {
+        if (error instanceof MediaError) {
+            throw error;
+        }
+
+        // twitter-api-v2 tags request and response errors with a type; processing failures are plain errors
+        if (error.type === undefined) {
+            throw new MediaError('MEDIA_PROCESSING_FAILED', `Twitter could not process ${media.url}: ${error.message}`, false);
+        }
+
+        if (error.type === 'request') {
+            throw new TwitterError('NETWORK_ERROR', `Network error uploading ${media.url}: ${error.message}`, true);
+        }
+
+        if (error.code === 400) {
+            throw new TwitterError('MEDIA_REJECTED', `Twitter rejected ${media.url}: ${error.data?.detail ?? error.message}`, false);
         }
+
+        throw mapTwitterError(error);
+    } finally {
+        clearTimeout(timer);
     }
+}
 
-    return mediaIds;
+// GET /2/tweets accepts up to 100 IDs per request
+const TWEET_LOOKUP_BATCH_SIZE = 100;
+
+/**
+ * Engagement client for tweets, using app-only auth (TWITTER_BEARER_TOKEN,
+ * or a bearer token obtained from the app's consumer keys). Public metrics
+ * don't need the author's tokens, and one request covers 100 tweets.
+ */
+export function createTwitterMetricsClient(): EngagementClient {
+    let appClient: Promise<TwitterApi> | undefined;
+
+    const getAppClient = (): Promise<TwitterApi> => {
+        appClient ??= createAppOnlyClient().catch((error) => {
+            appClient = undefined; // Try again on the next lookup
+            throw error;
+        });
+        return appClient;
+    };
+
+    return {
+        maxBatchSize: TWEET_LOOKUP_BATCH_SIZE,
+        async lookup(tweetIds) {
+            const client = await getAppClient();
+
+            try {
+                const response = await timeTwitterCall('tweets_lookup', () =>
+                    client.v2.get<TweetV2LookupResult>(
+                        'tweets',
+                        { ids: tweetIds.join(','), 'tweet.fields': 'public_metrics' },
+                        { fullResponse: true }
+                    )
+                );
+
+                const metrics = new Map<string, PostMetrics>();
+                for (const tweet of response.data.data ?? []) {
+                    const counts = tweet.public_metrics;
+                    metrics.set(tweet.id, {
+                        likes: counts?.like_count ?? 0,
+                        reposts: counts?.retweet_count ?? 0,
+                        replies: counts?.reply_count ?? 0,
+                        quotes: counts?.quote_count ?? 0,
+                        bookmarks: counts?.bookmark_count ?? 0,
+                        impressions: counts?.impression_count ?? null,
+                    });
+                }
+
+                return {
+                    metrics,
+                    missing: tweetIds.filter((id) => !metrics.has(id)),
+                    rateLimit: response.rateLimit && {
+                        limit: response.rateLimit.limit,
+                        remaining: response.rateLimit.remaining,
+                        reset: response.rateLimit.reset,
+                    },
+                };
+            } catch (error) {
+                throw mapTwitterError(error);
+            }
+        },
+    };
+}
+
+async function createAppOnlyClient(): Promise<TwitterApi> {
+    if (process.env.TWITTER_BEARER_TOKEN) {
+        return new TwitterApi(process.env.TWITTER_BEARER_TOKEN);
+    }
+
+    const appKey = process.env.TWITTER_API_KEY;
+    const appSecret = process.env.TWITTER_API_SECRET;
+
+    if (!appKey || !appSecret) {
+        throw new TwitterError(
+            'CONFIG_MISSING',
+            'TWITTER_BEARER_TOKEN, or TWITTER_API_KEY and TWITTER_API_SECRET, must be set to read tweet metrics.',
+            false
+        );
+    }
+
+    try {
+        return await new TwitterApi({ appKey, appSecret }).appLogin();
+    } catch (error) {
+        throw mapTwitterError(error);
+    }
+}
+
+/**
+ * Run a Twitter API call, recording its latency by endpoint and response status
+ */
+export async function timeTwitterCall<T>(endpoint: string, call: () => Promise<T>): Promise<T> {
+    const endTimer = twitterApiDuration.startTimer({ endpoint });
+
+    try {
+        const result = await call();
+        endTimer({ status: 'ok' });
+        return result;
+    } catch (error: any) {
+        endTimer({ status: String(error.code ?? 'error') });
+        throw error;
+    }
 }
 
 /**
  * Map Twitter API errors to our custom TwitterError
  */
-function mapTwitterError(error: any): TwitterError {
-    // Rate limit error
-    if (error.code === 429 || error.rateLimit) {
+export function mapTwitterError(error: any): TwitterError {
+    // Rate limit error (every API error carries `rateLimit` headers, so match on status only)
+    if (error.code === 429) {
         return new TwitterError(
             'RATE_LIMITED',
             'Twitter rate limit exceeded. Please try again later.',
-            true // Retryable after backoff
+            true, // Retryable after backoff
+            error.rateLimit && pickPostingWindow(error.rateLimit),
+            error.rateLimit && pickAppWindow(error.rateLimit)
         );
     }
 
@@ -220,18 +632,63 @@ function mapTwitterError(error: any): TwitterError {
     );
 }
 
+export interface TweetValidationResult {
+    valid: boolean;
+    error?: string;
+    weightedLength: number;
+    remaining: number;
+    offendingRange?: TextRange;
+}
+
 /**
- * Validate tweet content before posting
+ * Validate tweet content before posting, using Twitter's weighted length.
+ * With `allowThread`, content over the limit is valid as long as it can be
+ * split into a thread of at most MAX_THREAD_PARTS tweets.
  */
-export function validateTweetContent(content: string): { valid: boolean; error?: string } {
-    // Twitter character limit
-    if (content.length > 280) {
-        return { valid: false, error: 'Tweet exceeds 280 character limit' };
-    }
+export function validateTweetContent(
+    content: string,
+    options: { allowThread?: boolean } = {}
+): TweetValidationResult {
+    const parsed = parseTweet(content);
+    const details = {
+        weightedLength: parsed.weightedLength,
+        remaining: parsed.remaining,
+        ...(parsed.offendingRange && { offendingRange: parsed.offendingRange }),
+    };
 
     if (content.trim().length === 0) {
-        return { valid: false, error: 'Tweet content is empty' };
+        return { valid: false, error: 'Tweet content is empty', ...details };
+    }
+
+    if (parsed.offendingRange) {
+        if (!options.allowThread) {
+            return { valid: false, error: `Tweet exceeds ${TWEET_MAX_LENGTH} character limit`, ...details };
+        }
+
+        const parts = splitIntoThread(content);
+        if (parts.length > MAX_THREAD_PARTS) {
+            return {
+                valid: false,
+                error: `Thread would need ${parts.length} tweets (max ${MAX_THREAD_PARTS})`,
+                ...details,
+            };
+        }
+
+        const invalidPart = parts.findIndex((part) => !parseTweet(part).valid);
+        if (invalidPart === -1) {
+            return { valid: true, ...details };
+        }
+
+        return {
+            valid: false,
+            error: `Thread part ${invalidPart + 1} of ${parts.length} is not a valid tweet (too long or contains characters Twitter does not accept)`,
+            ...details,
+        };
+    }
+
+    if (!parsed.valid) {
+        return { valid: false, error: 'Tweet contains characters Twitter does not accept', ...details };
     }
 
-    return { valid: true };
+    return { valid: true, ...details };
 }